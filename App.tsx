@@ -1,20 +1,23 @@
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
-import { Menu, CheckCircle, XCircle, Clock, WifiOff, Search, X, RefreshCw, ArrowUp, Zap, Edit3, Bell } from 'lucide-react';
+import { Menu, CheckCircle, XCircle, Clock, WifiOff, Search, X, RefreshCw, ArrowUp, Zap, Edit3, Bell, ListChecks, Vault, Images, Files } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import InputArea, { InputAreaHandle } from './components/InputArea';
 import Feed from './components/Feed';
 import ScheduledView from './components/ScheduledView';
 import ItemModal from './components/ItemModal';
 import SettingsModal from './components/SettingsModal';
+import VaultModal from './components/VaultModal';
 import LoginScreen from './components/LoginScreen';
 import UserMenu from './components/UserMenu';
 import UploadProgress from './components/UploadProgress';
 import EncryptionModal from './components/EncryptionModal';
+import BulkActionBar from './components/BulkActionBar';
 import { SettingsProvider } from './contexts/SettingsContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ToastProvider, useToast } from './contexts/ToastContext';
 import { UploadProvider, useUpload } from './contexts/UploadContext';
-import { Item, ItemType, Tag } from './types';
+import { VaultProvider, useVault } from './contexts/VaultContext';
+import { Item, ItemFacets, ItemType, Tag } from './types';
 import * as db from './services/db';
 
 type ShareStatus = 'success' | 'error' | 'pending' | 'uploading' | null;
@@ -24,13 +27,70 @@ interface ShareChoiceData {
   title?: string;
 }
 
+// Inverse bulk actions that restore the previous state of `targets` (for undo)
+const getUndoBulkActions = (action: db.BulkAction, targets: Item[]): { action: db.BulkAction; targets: Item[] }[] => {
+  switch (action.operation) {
+    case 'addTags':
+      return action.tagIds
+        .map(tagId => ({ action: { operation: 'removeTags' as const, tagIds: [tagId] }, targets: targets.filter(item => !item.tags.includes(tagId)) }))
+        .filter(undo => undo.targets.length > 0);
+    case 'removeTags':
+      return action.tagIds
+        .map(tagId => ({ action: { operation: 'addTags' as const, tagIds: [tagId] }, targets: targets.filter(item => item.tags.includes(tagId)) }))
+        .filter(undo => undo.targets.length > 0);
+    case 'setFavorite': {
+      const changed = targets.filter(item => item.isFavorite !== action.isFavorite);
+      return changed.length > 0 ? [{ action: { operation: 'setFavorite', isFavorite: !action.isFavorite }, targets: changed }] : [];
+    }
+    case 'trash':
+      return [{ action: { operation: 'restore' }, targets }];
+    case 'restore':
+      return [{ action: { operation: 'trash' }, targets }];
+    case 'setReminder':
+    case 'setExpiry': {
+      // Group by previous value so each group can be restored with one call
+      const groups = new Map<number | null, Item[]>();
+      targets.forEach(item => {
+        const previous = (action.operation === 'setReminder' ? item.reminderAt : item.expiresAt) ?? null;
+        groups.set(previous, [...(groups.get(previous) || []), item]);
+      });
+      return [...groups.entries()].map(([previous, groupTargets]) => ({
+        action: action.operation === 'setReminder'
+          ? { operation: 'setReminder' as const, reminderAt: previous }
+          : { operation: 'setExpiry' as const, expiresAt: previous },
+        targets: groupTargets,
+      }));
+    }
+    case 'deletePermanently':
+      return [];
+  }
+};
+
+const BULK_ACTION_LABELS: Record<db.BulkAction['operation'], string> = {
+  addTags: '레이블이 추가되었습니다',
+  removeTags: '레이블이 제거되었습니다',
+  setFavorite: '즐겨찾기가 변경되었습니다',
+  trash: '휴지통으로 이동되었습니다',
+  restore: '복구되었습니다',
+  deletePermanently: '영구 삭제되었습니다',
+  setReminder: '알림이 변경되었습니다',
+  setExpiry: '만료가 변경되었습니다',
+};
+
+// Whether `a` comes after `b` in the feed order (created_at DESC, id DESC)
+const isAfterInFeed = (a: Item, b: Item): boolean =>
+  a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.id < b.id);
+
 // Authenticated app content
 const AuthenticatedContent: React.FC = () => {
   const [items, setItems] = useState<Item[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [trashItems, setTrashItems] = useState<(Item & { deletedAt?: number })[]>([]);
   const [scheduledItems, setScheduledItems] = useState<Item[]>([]);
   const [expiringItems, setExpiringItems] = useState<Item[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [facets, setFacets] = useState<ItemFacets | null>(null);
   const [activeFilter, setActiveFilter] = useState<ItemType | 'all' | 'favorites' | 'encrypted' | 'trash' | 'scheduled' | 'expiring'>('all');
   const [activeTagFilter, setActiveTagFilter] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -39,18 +99,62 @@ const AuthenticatedContent: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Item[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   const [shouldAutoFocus, setShouldAutoFocus] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [shareChoiceData, setShareChoiceData] = useState<ShareChoiceData | null>(null);
+  // Items saved from one multi-file share, offered to be grouped into an album
+  const [shareAlbumIds, setShareAlbumIds] = useState<string[] | null>(null);
   const [encryptionTarget, setEncryptionTarget] = useState<{ id: string; isEncrypted: boolean; title?: string } | null>(null);
   const [swVersion, setSwVersion] = useState<number | null>(null);
+  const [isSelectionMode, setIsSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
   const [swUpdateAvailable, setSwUpdateAvailable] = useState(false);
   const inputAreaRef = useRef<InputAreaHandle>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const { showToast, showUndoToast } = useToast();
   const { addUpload, updateUpload, registerAbortController } = useUpload();
+  const vault = useVault();
+
+  // Mirrors for stable callbacks that need the latest pagination state
+  const itemsRef = useRef<Item[]>(items);
+  const nextCursorRef = useRef<string | null>(nextCursor);
+  const isLoadingMoreRef = useRef(false);
+  useEffect(() => {
+    itemsRef.current = items;
+    nextCursorRef.current = nextCursor;
+  }, [items, nextCursor]);
+
+  // Merge a freshly fetched first page with pages that were already loaded,
+  // so refreshing (e.g. on tab focus) doesn't throw away the scrolled history
+  const applyFirstPage = useCallback((page: db.ItemsPage) => {
+    const lastFresh = page.items[page.items.length - 1];
+    if (!page.nextCursor || !lastFresh) {
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      return;
+    }
+
+    const freshIds = new Set(page.items.map(item => item.id));
+    const olderLoaded = itemsRef.current.filter(item => !freshIds.has(item.id) && isAfterInFeed(item, lastFresh));
+    setItems([...page.items, ...olderLoaded]);
+    // Keep the previous cursor when older pages are retained, otherwise continue after the first page
+    setNextCursor(olderLoaded.length > 0 ? nextCursorRef.current : page.nextCursor);
+  }, []);
+
+  // Reload exact sidebar counts from the server (after any change that affects them)
+  const refreshFacets = useCallback(async () => {
+    try {
+      setFacets(await db.getItemFacets());
+    } catch (err) {
+      console.error("Failed to load item facets", err);
+    }
+  }, []);
 
   // Load data function
   const loadData = useCallback(async () => {
@@ -58,14 +162,16 @@ const AuthenticatedContent: React.FC = () => {
       // First, check and move expired items to trash
       await db.checkExpiredItems();
       
-      const [loadedItems, loadedTags, loadedScheduledItems, loadedExpiringItems] = await Promise.all([
-        db.getItems(),
+      const [firstPage, loadedTags, loadedScheduledItems, loadedExpiringItems, loadedFacets] = await Promise.all([
+        db.getItemsPage(),
         db.getTags(),
         db.getScheduledItems(),
-        db.getExpiringItems()
+        db.getExpiringItems(),
+        db.getItemFacets()
       ]);
-      setItems(loadedItems);
+      applyFirstPage(firstPage);
       setTags(loadedTags);
+      setFacets(loadedFacets);
       setScheduledItems(loadedScheduledItems);
       setExpiringItems(loadedExpiringItems);
     } catch (err) {
@@ -73,7 +179,30 @@ const AuthenticatedContent: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applyFirstPage]);
+
+  // Load the next page of items (infinite scroll)
+  const loadMoreItems = useCallback(async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || isLoadingMoreRef.current) return;
+
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await db.getItemsPage({ cursor });
+      setItems(prev => {
+        const loadedIds = new Set(prev.map(item => item.id));
+        return [...prev, ...page.items.filter(item => !loadedIds.has(item.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load more items", err);
+      showToast('목록을 더 불러오지 못했습니다', 'error');
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [showToast]);
 
   // Load trash items when trash filter is selected
   const loadTrashItems = useCallback(async () => {
@@ -116,6 +245,46 @@ const AuthenticatedContent: React.FC = () => {
     }
   }, [activeFilter, loadTrashItems, loadScheduledItems, loadExpiringItems]);
 
+  // Server-side full-text search (debounced)
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const typeFilter = Object.values(ItemType).includes(activeFilter as ItemType)
+      ? activeFilter as ItemType
+      : undefined;
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await db.searchItems(query, {
+          type: typeFilter,
+          tagId: activeTagFilter,
+          signal: controller.signal,
+        });
+        setSearchResults(results);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error("Failed to search items", err);
+        setSearchResults([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, activeFilter, activeTagFilter]);
+
   // Manual refresh function with loading indicator
   const handleRefresh = useCallback(async () => {
     if (isRefreshing) return;
@@ -274,6 +443,58 @@ const AuthenticatedContent: React.FC = () => {
     };
   }, [loadData]);
 
+  // Signed file URLs expire, so a tab left open re-signs every loaded item's files once they get old
+  // (refreshing the first page doesn't reach older pages, the trash, search results or the open item)
+  const fileUrlsSignedAtRef = useRef(Date.now());
+  const loadedListsRef = useRef<Item[][]>([]);
+  useEffect(() => {
+    loadedListsRef.current = [items, trashItems, scheduledItems, expiringItems, searchResults || [], selectedItem ? [selectedItem] : []];
+  }, [items, trashItems, scheduledItems, expiringItems, searchResults, selectedItem]);
+
+  const refreshStaleFileUrls = useCallback(async () => {
+    const signedAt = fileUrlsSignedAtRef.current;
+    if (Date.now() - signedAt < db.FILE_URL_REFRESH_MS) return;
+
+    const ids = [...new Set(loadedListsRef.current.flat()
+      .filter(item => item.fileKey && !item.isEncrypted)
+      .map(item => item.id))];
+    fileUrlsSignedAtRef.current = Date.now();
+    if (ids.length === 0) return;
+
+    try {
+      const signed = new Map((await db.refreshFileUrls(ids)).map(entry => [entry.id, entry]));
+      const resign = <T extends Item>(item: T): T => {
+        const entry = signed.get(item.id);
+        return entry ? { ...item, fileUrl: entry.fileUrl, files: entry.files } : item;
+      };
+      setItems(prev => prev.map(resign));
+      setTrashItems(prev => prev.map(resign));
+      setScheduledItems(prev => prev.map(resign));
+      setExpiringItems(prev => prev.map(resign));
+      setSearchResults(prev => prev && prev.map(resign));
+      setSelectedItem(prev => prev && resign(prev));
+    } catch (err) {
+      console.error("Failed to refresh file URLs", err);
+      // Try again on the next check
+      fileUrlsSignedAtRef.current = signedAt;
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refreshStaleFileUrls();
+      }
+    };
+
+    const interval = setInterval(refreshStaleFileUrls, 60000);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [refreshStaleFileUrls]);
+
   // Check for due reminders and show notifications
   const notifiedReminders = useRef<Set<string>>(new Set());
   const initialLoadTime = useRef<number>(Date.now());
@@ -340,14 +561,48 @@ const AuthenticatedContent: React.FC = () => {
     
     // Check for share result notification and action parameter
     const params = new URLSearchParams(window.location.search);
-    const shared = params.get('shared') as ShareStatus;
+    const shared = params.get('shared') as ShareStatus | 'login';
     const action = params.get('action');
     const shareMode = params.get('share_mode');
     const shareContent = params.get('share_content');
     const shareTitle = params.get('share_title');
+    const shareItems = params.get('share_items');
     
-    if (shared) {
+    // Share received while signed out - save it now that the user is signed in
+    if (db.hasPendingShare()) {
+      db.claimPendingShare()
+        .then(claimed => {
+          if (claimed?.kind === 'items') {
+            setShareStatus('success');
+            setTimeout(() => setShareStatus(null), 3000);
+            loadData();
+            if (claimed.itemIds.length > 1) {
+              setShareAlbumIds(claimed.itemIds);
+            }
+          } else if (claimed?.kind === 'text') {
+            setShareChoiceData({
+              content: claimed.content,
+              title: claimed.title || undefined,
+            });
+          }
+        })
+        .catch(err => {
+          console.error('[Share] Failed to claim pending share:', err);
+          setShareStatus('error');
+          setTimeout(() => setShareStatus(null), 3000);
+        });
+    }
+
+    if (shared === 'login') {
+      // Redirected to login by the share target - the pending share is claimed above
+      window.history.replaceState({}, document.title, window.location.pathname);
+    } else if (shared) {
       setShareStatus(shared);
+      // Several files were shared at once - offer to group them
+      const sharedItemIds = shareItems?.split(',').filter(Boolean) || [];
+      if (shared === 'success' && sharedItemIds.length > 1) {
+        setShareAlbumIds(sharedItemIds);
+      }
       // Clean URL immediately
       window.history.replaceState({}, document.title, window.location.pathname);
       
@@ -363,8 +618,8 @@ const AuthenticatedContent: React.FC = () => {
         if (shared === 'uploading' && !pollInterval) {
               pollInterval = setInterval(async () => {
                 try {
-                  const items = await db.getItems();
-                  const hasUploading = items.some(item => item.uploadStatus === 'uploading');
+                  const firstPage = await db.getItemsPage();
+                  const hasUploading = firstPage.items.some(item => item.uploadStatus === 'uploading');
                   if (!hasUploading && pollInterval && !hasShownUploadToast) {
                     clearInterval(pollInterval);
                     pollInterval = null;
@@ -373,7 +628,7 @@ const AuthenticatedContent: React.FC = () => {
                     showToast('파일 업로드가 완료되었습니다', 'success');
                   } else if (hasUploading) {
                     // Just update items without toast while uploading
-                    setItems(items);
+                    applyFirstPage(firstPage);
                   }
                 } catch (err) {
                   console.error('[Share] Poll error:', err);
@@ -410,48 +665,30 @@ const AuthenticatedContent: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);  // Run only once on mount
 
-  // Auto-match tags based on keywords
-  const getAutoMatchedTags = useCallback((content: string, title?: string): string[] => {
-    const textToCheck = `${content} ${title || ''}`.toLowerCase();
-    const matchedTagIds: string[] = [];
-    
-    for (const tag of tags) {
-      if (tag.autoKeywords && tag.autoKeywords.length > 0) {
-        for (const keyword of tag.autoKeywords) {
-          if (keyword && textToCheck.includes(keyword.toLowerCase())) {
-            matchedTagIds.push(tag.id);
-            break;
-          }
-        }
-      }
-    }
-    
-    return matchedTagIds;
-  }, [tags]);
-
   // Handle share choice - instant save
   const handleShareInstant = useCallback(async () => {
     if (!shareChoiceData) return;
     
     const { content, title } = shareChoiceData;
     const type = /^https?:\/\//i.test(content.trim()) ? ItemType.LINK : ItemType.TEXT;
-    const autoTags = getAutoMatchedTags(content, title);
     
     try {
+      // Tags whose keywords match are added by the server
       const newItem = await db.saveItem({
         type,
         content,
         title,
-        tags: autoTags,
+        tags: [],
         isFavorite: false,
         isEncrypted: false,
       });
       setItems(prev => [newItem, ...prev]);
       setShareChoiceData(null);
+      refreshFacets();
       
-      if (autoTags.length > 0) {
+      if (newItem.tags.length > 0) {
         const matchedTagNames = tags
-          .filter(t => autoTags.includes(t.id))
+          .filter(t => newItem.tags.includes(t.id))
           .map(t => t.name)
           .join(', ');
         showToast(`저장 완료 (자동 태그: ${matchedTagNames})`, 'success');
@@ -463,7 +700,7 @@ const AuthenticatedContent: React.FC = () => {
       showToast('저장 실패', 'error');
       setShareChoiceData(null);
     }
-  }, [shareChoiceData, getAutoMatchedTags, tags, showToast]);
+  }, [shareChoiceData, tags, showToast, refreshFacets]);
 
   // Handle share choice - edit mode
   const handleShareEdit = useCallback(() => {
@@ -479,7 +716,25 @@ const AuthenticatedContent: React.FC = () => {
     setShareChoiceData(null);
   }, []);
 
-  const handleSaveItem = async (draft: Omit<Item, 'id' | 'createdAt'>) => {
+  // Group the files of a multi-file share into one album item
+  const handleShareAlbum = useCallback(async () => {
+    if (!shareAlbumIds) return;
+
+    try {
+      const { mergedIds } = await db.createAlbum(shareAlbumIds);
+      setItems(prev => prev.filter(i => !mergedIds.includes(i.id)));
+      setShareAlbumIds(null);
+      loadData();
+      refreshFacets();
+      showToast('앨범으로 묶었습니다', 'success');
+    } catch (err) {
+      console.error("Failed to create album", err);
+      showToast('앨범 만들기에 실패했습니다', 'error');
+      setShareAlbumIds(null);
+    }
+  }, [shareAlbumIds, showToast, refreshFacets]);
+
+  const handleSaveItem = async (draft: Omit<Item, 'id' | 'createdAt'> & { encryptionKey?: string; autoTag?: boolean }) => {
     // Check if this is a file upload
     const isFileUpload = draft.fileBlob && (
       draft.type === ItemType.IMAGE || 
@@ -501,10 +756,17 @@ const AuthenticatedContent: React.FC = () => {
         previewUrl = URL.createObjectURL(draft.fileBlob);
       }
 
+      // 앨범은 파일 전체를 한 항목으로 표시
+      const albumFiles = draft.fileBlobs && draft.fileBlobs.length > 1 ? draft.fileBlobs : null;
+
       addUpload({
         id: uploadId,
-        fileName: draft.fileName || 'file',
-        fileSize: draft.fileBlob.size,
+        fileName: albumFiles
+          ? `${draft.fileName || 'file'} 외 ${albumFiles.length - 1}개`
+          : draft.fileName || 'file',
+        fileSize: albumFiles
+          ? albumFiles.reduce((total, file) => total + file.size, 0)
+          : draft.fileBlob.size,
         type: draft.type === ItemType.IMAGE ? 'image' : draft.type === ItemType.VIDEO ? 'video' : 'file',
         previewUrl,
       });
@@ -532,10 +794,15 @@ const AuthenticatedContent: React.FC = () => {
       }
 
       setItems(prev => [newItem, ...prev]);
+      // 금고가 열려 있으면 새 암호화 아이템의 키도 금고에 보관
+      if (newItem.isEncrypted && draft.encryptionKey) {
+        vault.addItem(newItem.id, draft.encryptionKey).catch(err => console.error('Failed to add item to vault', err));
+      }
       // 리마인더가 있으면 scheduledItems도 업데이트
       if (newItem.reminderAt) {
         setScheduledItems(prev => [...prev, newItem].sort((a, b) => (a.reminderAt || 0) - (b.reminderAt || 0)));
       }
+      refreshFacets();
       showToast('아이템이 추가되었습니다', 'success');
     } catch (err) {
       console.error("Failed to save item", err);
@@ -565,9 +832,11 @@ const AuthenticatedContent: React.FC = () => {
     try {
       // Optimistically remove from UI
       setItems(prev => prev.filter(i => i.id !== id));
+      setSearchResults(prev => prev ? prev.filter(i => i.id !== id) : prev);
       
       // Call soft delete API
       await db.deleteItem(id);
+      refreshFacets();
       
       // Show undo toast
       showUndoToast(
@@ -578,6 +847,7 @@ const AuthenticatedContent: React.FC = () => {
             await db.restoreItem(id);
             // Add it back to the list
             setItems(prev => [itemToDelete, ...prev]);
+            refreshFacets();
             showToast('아이템이 복구되었습니다', 'success');
           } catch (err) {
             console.error("Failed to restore item", err);
@@ -605,6 +875,7 @@ const AuthenticatedContent: React.FC = () => {
       // Add back to main items (without deletedAt)
       const { deletedAt, ...restoredItem } = itemToRestore;
       setItems(prev => [restoredItem, ...prev]);
+      refreshFacets();
       showToast('아이템이 복구되었습니다', 'success');
     } catch (err) {
       console.error("Failed to restore item", err);
@@ -620,6 +891,7 @@ const AuthenticatedContent: React.FC = () => {
     try {
       await db.permanentDeleteItem(id);
       setTrashItems(prev => prev.filter(i => i.id !== id));
+      refreshFacets();
       showToast('아이템이 영구 삭제되었습니다', 'success');
     } catch (err) {
       console.error("Failed to permanently delete item", err);
@@ -634,6 +906,7 @@ const AuthenticatedContent: React.FC = () => {
     try {
       const count = await db.emptyTrash();
       setTrashItems([]);
+      refreshFacets();
       showToast(`${count}개의 아이템이 영구 삭제되었습니다`, 'success');
     } catch (err) {
       console.error("Failed to empty trash", err);
@@ -641,6 +914,118 @@ const AuthenticatedContent: React.FC = () => {
     }
   };
 
+  const exitSelectionMode = useCallback(() => {
+    setIsSelectionMode(false);
+    setSelectedIds(new Set());
+  }, []);
+
+  // Leave selection mode whenever the visible list changes underneath it
+  useEffect(() => {
+    exitSelectionMode();
+  }, [activeFilter, activeTagFilter, searchQuery, exitSelectionMode]);
+
+  // Esc exits selection mode
+  useEffect(() => {
+    if (!isSelectionMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') exitSelectionMode();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelectionMode, exitSelectionMode]);
+
+  // Mirror a successful bulk action in local state
+  const applyBulkActionLocally = (action: db.BulkAction, targets: Item[]) => {
+    const ids = new Set(targets.map(item => item.id));
+    const patchItem = (item: Item): Item => {
+      if (!ids.has(item.id)) return item;
+      switch (action.operation) {
+        case 'addTags':
+          return { ...item, tags: [...new Set([...item.tags, ...action.tagIds])] };
+        case 'removeTags':
+          return { ...item, tags: item.tags.filter(tagId => !action.tagIds.includes(tagId)) };
+        case 'setFavorite':
+          return { ...item, isFavorite: action.isFavorite };
+        case 'setReminder':
+          return { ...item, reminderAt: action.reminderAt ?? undefined };
+        case 'setExpiry':
+          return { ...item, expiresAt: action.expiresAt ?? undefined };
+        default:
+          return item;
+      }
+    };
+    const removeTargets = <T extends Item>(list: T[]) => list.filter(item => !ids.has(item.id));
+
+    switch (action.operation) {
+      case 'trash': {
+        const deletedAt = Date.now();
+        setItems(removeTargets);
+        setSearchResults(prev => prev ? removeTargets(prev) : prev);
+        setScheduledItems(removeTargets);
+        setExpiringItems(removeTargets);
+        setTrashItems(prev => [...targets.map(item => ({ ...item, deletedAt })), ...removeTargets(prev)]);
+        break;
+      }
+      case 'restore': {
+        setTrashItems(removeTargets);
+        const restored = targets.map(({ deletedAt: _deletedAt, ...item }: Item & { deletedAt?: number }) => item);
+        setItems(prev => [...removeTargets(prev), ...restored].sort((a, b) => isAfterInFeed(a, b) ? 1 : -1));
+        break;
+      }
+      case 'deletePermanently':
+        setTrashItems(removeTargets);
+        break;
+      default:
+        setItems(prev => prev.map(patchItem));
+        setSearchResults(prev => prev ? prev.map(patchItem) : prev);
+        setScheduledItems(prev => prev.map(patchItem));
+        setExpiringItems(prev => prev.map(patchItem));
+        setSelectedItem(prev => prev ? patchItem(prev) : prev);
+        if (action.operation === 'setReminder') loadScheduledItems();
+        if (action.operation === 'setExpiry') loadExpiringItems();
+    }
+  };
+
+  // Run a bulk action on the selected items (single request, single undo toast)
+  const handleBulkAction = async (action: db.BulkAction) => {
+    const targets = filteredItems.filter(item => selectedIds.has(item.id));
+    if (targets.length === 0) return;
+
+    setIsBulkBusy(true);
+    try {
+      const affected = await db.bulkUpdateItems(targets.map(item => item.id), action);
+      applyBulkActionLocally(action, targets);
+      refreshFacets();
+      exitSelectionMode();
+
+      const message = `${affected}개 아이템: ${BULK_ACTION_LABELS[action.operation]}`;
+      const undoActions = getUndoBulkActions(action, targets);
+      if (undoActions.length === 0) {
+        showToast(message, 'success');
+        return;
+      }
+
+      showUndoToast(message, async () => {
+        try {
+          for (const undo of undoActions) {
+            await db.bulkUpdateItems(undo.targets.map(item => item.id), undo.action);
+            applyBulkActionLocally(undo.action, undo.targets);
+          }
+          refreshFacets();
+          showToast('일괄 작업이 취소되었습니다', 'success');
+        } catch (err) {
+          console.error("Failed to undo bulk action", err);
+          showToast('일괄 작업 취소에 실패했습니다', 'error');
+        }
+      });
+    } catch (err) {
+      console.error("Failed to run bulk action", err);
+      showToast('일괄 작업에 실패했습니다', 'error');
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
   const handleAddTag = async (name: string) => {
     try {
       const newTag: Tag = { id: crypto.randomUUID(), name };
@@ -664,11 +1049,37 @@ const AuthenticatedContent: React.FC = () => {
     }
   };
 
+  // 레이블 공개 컬렉션 - 공개, URL 변경, 공개 중지
+  const handlePublishTag = async (tag: Tag, action: 'publish' | 'rotate' | 'unpublish'): Promise<Tag | null> => {
+    try {
+      let publicUrl: string | null = null;
+      if (action === 'unpublish') {
+        await db.unpublishTag(tag.id);
+      } else {
+        publicUrl = await db.publishTag(tag.id, action === 'rotate');
+      }
+      const updated = { ...tag, publicUrl };
+      setTags(prev => prev.map(t => t.id === tag.id ? { ...t, publicUrl } : t));
+      showToast(
+        action === 'publish' ? `'${tag.name}' 레이블을 공개했습니다`
+          : action === 'rotate' ? '공개 URL을 변경했습니다'
+            : `'${tag.name}' 레이블 공개를 중지했습니다`,
+        'success'
+      );
+      return updated;
+    } catch (err) {
+      console.error("Failed to publish tag", err);
+      showToast('레이블 공개 설정에 실패했습니다', 'error');
+      return null;
+    }
+  };
+
   const handleDeleteTag = async (id: string) => {
     try {
       const tagName = tags.find(t => t.id === id)?.name;
       await db.deleteTag(id);
       setTags(prev => prev.filter(t => t.id !== id));
+      refreshFacets();
       showToast(`'${tagName}' 레이블이 삭제되었습니다`, 'success');
     } catch (err) {
       console.error("Failed to delete tag", err);
@@ -686,6 +1097,7 @@ const AuthenticatedContent: React.FC = () => {
       if (selectedItem?.id === itemId) {
         setSelectedItem(prev => prev ? { ...prev, tags: tagIds } : null);
       }
+      refreshFacets();
       showToast('레이블이 업데이트되었습니다', 'success');
     } catch (err) {
       console.error("Failed to update item tags", err);
@@ -703,6 +1115,7 @@ const AuthenticatedContent: React.FC = () => {
       if (selectedItem?.id === itemId) {
         setSelectedItem(prev => prev ? { ...prev, isFavorite } : null);
       }
+      refreshFacets();
       showToast(isFavorite ? '즐겨찾기에 추가되었습니다' : '즐겨찾기에서 제거되었습니다', 'success');
     } catch (err) {
       console.error("Failed to toggle favorite", err);
@@ -721,6 +1134,21 @@ const AuthenticatedContent: React.FC = () => {
     showToast('제목이 업데이트되었습니다', 'success');
   };
 
+  // 본문 업데이트 (편집, 버전 복원)
+  const handleUpdateContent = (itemId: string, update: db.ItemContentUpdate) => {
+    const patch = { content: update.content, htmlContent: update.htmlContent, isCode: update.isCode };
+    setItems(prev => prev.map(item =>
+      item.id === itemId ? { ...item, ...patch } : item
+    ));
+    setSearchResults(prev => prev ? prev.map(item =>
+      item.id === itemId ? { ...item, ...patch, searchSnippet: undefined } : item
+    ) : prev);
+    if (selectedItem?.id === itemId) {
+      setSelectedItem(prev => prev ? { ...prev, ...patch } : null);
+    }
+    showToast('내용이 업데이트되었습니다', 'success');
+  };
+
   // 리마인더 업데이트
   const handleUpdateReminder = (itemId: string, reminderAt: number | null) => {
     setItems(prev => prev.map(item =>
@@ -733,6 +1161,7 @@ const AuthenticatedContent: React.FC = () => {
     if (activeFilter === 'scheduled') {
       loadScheduledItems();
     }
+    refreshFacets();
     showToast(reminderAt ? '알림이 설정되었습니다' : '알림이 삭제되었습니다', 'success');
   };
 
@@ -766,6 +1195,7 @@ const AuthenticatedContent: React.FC = () => {
         return prev;
       });
     }
+    refreshFacets();
     showToast(expiresAt ? '만료가 설정되었습니다' : '만료가 해제되었습니다', 'success');
   };
 
@@ -786,12 +1216,15 @@ const AuthenticatedContent: React.FC = () => {
     if (!encryptionTarget) return;
     
     try {
-      await db.toggleEncryption(
-        encryptionTarget.id,
-        !encryptionTarget.isEncrypted,
-        key,
-        title
-      );
+      // 암호화/복호화는 브라우저에서 수행 (서버에는 암호문만 저장)
+      if (encryptionTarget.isEncrypted) {
+        await db.decryptItem(encryptionTarget.id, key);
+      } else {
+        const unlocked = await db.encryptItem(encryptionTarget.id, key, title);
+        if (unlocked.itemKey) {
+          vault.addItemKey(encryptionTarget.id, unlocked.itemKey).catch(err => console.error('Failed to add item to vault', err));
+        }
+      }
       
       // 암호화 해제 시 서버에서 아이템을 다시 불러와 content 복원
       if (encryptionTarget.isEncrypted) {
@@ -816,6 +1249,7 @@ const AuthenticatedContent: React.FC = () => {
                 // 암호화 시 민감 데이터 숨기기
                 content: '',
                 fileKey: undefined,
+                fileUrl: undefined,
                 ogImage: undefined,
                 ogDescription: undefined,
               }
@@ -829,12 +1263,14 @@ const AuthenticatedContent: React.FC = () => {
             title: title || prev.title,
             content: '',
             fileKey: undefined,
+            fileUrl: undefined,
             ogImage: undefined,
             ogDescription: undefined,
           } : null);
         }
       }
       
+      refreshFacets();
       showToast(
         encryptionTarget.isEncrypted ? '암호화가 해제되었습니다' : '암호화되었습니다',
         'success'
@@ -907,7 +1343,16 @@ const AuthenticatedContent: React.FC = () => {
       return [...expiringItems].sort((a, b) => (a.expiresAt || 0) - (b.expiresAt || 0));
     }
 
+    // While searching, the server results replace the loaded items (already ranked).
+    // Loaded copies are preferred so local edits (favorite, tags...) show up in results.
     let result = items;
+    if (searchQuery.trim()) {
+      const loadedById = new Map(items.map(item => [item.id, item]));
+      result = (searchResults || []).map(hit => {
+        const loaded = loadedById.get(hit.id);
+        return loaded ? { ...loaded, searchSnippet: hit.searchSnippet } : hit;
+      });
+    }
     
     // Filter by favorites
     if (activeFilter === 'favorites') {
@@ -927,42 +1372,8 @@ const AuthenticatedContent: React.FC = () => {
       result = result.filter(item => item.tags.includes(activeTagFilter));
     }
     
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(item => 
-        (item.title?.toLowerCase().includes(query)) ||
-        (item.content?.toLowerCase().includes(query)) ||
-        (item.fileName?.toLowerCase().includes(query))
-      );
-    }
-    
     return result;
-  }, [items, trashItems, scheduledItems, expiringItems, activeFilter, activeTagFilter, searchQuery]);
-
-  // Calculate item counts for sidebar
-  const itemCounts = useMemo(() => {
-    const counts: Record<string, number> = {
-      all: items.length,
-      favorites: items.filter(i => i.isFavorite).length,
-      encrypted: items.filter(i => i.isEncrypted).length,
-      scheduled: scheduledItems.length,
-      expiring: expiringItems.length,
-      trash: trashItems.length,
-      [ItemType.TEXT]: items.filter(i => i.type === ItemType.TEXT).length,
-      [ItemType.LINK]: items.filter(i => i.type === ItemType.LINK).length,
-      [ItemType.IMAGE]: items.filter(i => i.type === ItemType.IMAGE).length,
-      [ItemType.VIDEO]: items.filter(i => i.type === ItemType.VIDEO).length,
-      [ItemType.FILE]: items.filter(i => i.type === ItemType.FILE).length,
-    };
-    
-    // Count items per tag
-    tags.forEach(tag => {
-      counts[`tag:${tag.id}`] = items.filter(i => i.tags.includes(tag.id)).length;
-    });
-    
-    return counts;
-  }, [items, tags, scheduledItems, expiringItems, trashItems]);
+  }, [items, searchResults, trashItems, scheduledItems, expiringItems, activeFilter, activeTagFilter, searchQuery]);
 
   if (isLoading) {
     return (
@@ -1068,6 +1479,46 @@ const AuthenticatedContent: React.FC = () => {
         </div>
       )}
 
+      {/* Multi-file share - album offer */}
+      {shareAlbumIds && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-in fade-in zoom-in-95">
+            <div className="p-5 border-b border-slate-100">
+              <h3 className="text-lg font-semibold text-slate-800">{shareAlbumIds.length}개 파일이 저장되었습니다</h3>
+              <p className="text-sm text-slate-500 mt-1">하나의 앨범으로 묶을 수 있습니다</p>
+            </div>
+
+            <div className="p-3 space-y-2">
+              <button
+                onClick={handleShareAlbum}
+                className="w-full flex items-center gap-4 p-4 rounded-xl hover:bg-indigo-50 transition-colors text-left group"
+              >
+                <div className="w-12 h-12 rounded-full bg-indigo-100 flex items-center justify-center shrink-0 group-hover:bg-indigo-200 transition-colors">
+                  <Images size={24} className="text-indigo-600" />
+                </div>
+                <div>
+                  <div className="font-semibold text-slate-800">앨범으로 묶기</div>
+                  <div className="text-sm text-slate-500">한 아이템에서 넘겨 봅니다</div>
+                </div>
+              </button>
+
+              <button
+                onClick={() => setShareAlbumIds(null)}
+                className="w-full flex items-center gap-4 p-4 rounded-xl hover:bg-slate-50 transition-colors text-left group"
+              >
+                <div className="w-12 h-12 rounded-full bg-slate-100 flex items-center justify-center shrink-0 group-hover:bg-slate-200 transition-colors">
+                  <Files size={24} className="text-slate-600" />
+                </div>
+                <div>
+                  <div className="font-semibold text-slate-800">따로 두기</div>
+                  <div className="text-sm text-slate-500">파일마다 아이템으로 둡니다</div>
+                </div>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Offline indicator */}
       {!isOnline && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full bg-slate-800 text-white flex items-center gap-2 text-sm shadow-lg">
@@ -1095,13 +1546,14 @@ const AuthenticatedContent: React.FC = () => {
         tags={tags}
         onAddTag={handleAddTag}
         onUpdateTag={handleUpdateTag}
+        onPublishTag={handlePublishTag}
         onDeleteTag={handleDeleteTag}
         isOpen={isSidebarOpen}
         setIsOpen={setIsSidebarOpen}
         onSettingsClick={() => setIsSettingsOpen(true)}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
-        itemCounts={itemCounts}
+        facets={facets}
       />
 
       <main className="flex-1 flex flex-col h-full overflow-hidden relative w-full">
@@ -1151,6 +1603,24 @@ const AuthenticatedContent: React.FC = () => {
                 업데이트
               </button>
             )}
+            {activeFilter !== 'scheduled' && (
+              <button
+                onClick={() => isSelectionMode ? exitSelectionMode() : setIsSelectionMode(true)}
+                className={`p-2 rounded-lg transition-colors ${isSelectionMode ? 'text-indigo-600 bg-indigo-50' : 'text-slate-600 hover:text-slate-800 hover:bg-slate-100'}`}
+                title={isSelectionMode ? '선택 모드 종료' : '여러 개 선택'}
+              >
+                <ListChecks size={20} />
+              </button>
+            )}
+            {vault.status !== 'loading' && (
+              <button
+                onClick={() => setIsVaultOpen(true)}
+                className={`p-2 rounded-lg transition-colors ${vault.status === 'unlocked' ? 'text-emerald-600 bg-emerald-50' : 'text-slate-600 hover:text-slate-800 hover:bg-slate-100'}`}
+                title={vault.status === 'unlocked' ? '금고 열림' : vault.status === 'locked' ? '금고 잠금 해제' : '금고 설정'}
+              >
+                <Vault size={20} />
+              </button>
+            )}
             <button
               onClick={handleRefresh}
               disabled={isRefreshing}
@@ -1184,6 +1654,24 @@ const AuthenticatedContent: React.FC = () => {
               <span className="font-medium">{upcomingReminder.timeText}</span>
             </button>
           )}
+          {activeFilter !== 'scheduled' && (
+            <button
+              onClick={() => isSelectionMode ? exitSelectionMode() : setIsSelectionMode(true)}
+              className={`p-2 rounded-lg transition-colors ${isSelectionMode ? 'text-indigo-600 bg-indigo-50' : 'text-slate-600 hover:text-slate-800 hover:bg-slate-100'}`}
+              title={isSelectionMode ? '선택 모드 종료' : '여러 개 선택'}
+            >
+              <ListChecks size={20} />
+            </button>
+          )}
+          {vault.status !== 'loading' && (
+            <button
+              onClick={() => setIsVaultOpen(true)}
+              className={`p-2 rounded-lg transition-colors ${vault.status === 'unlocked' ? 'text-emerald-600 bg-emerald-50' : 'text-slate-600 hover:text-slate-800 hover:bg-slate-100'}`}
+              title={vault.status === 'unlocked' ? '금고 열림' : vault.status === 'locked' ? '금고 잠금 해제' : '금고 설정'}
+            >
+              <Vault size={20} />
+            </button>
+          )}
           <button
             onClick={handleRefresh}
             disabled={isRefreshing}
@@ -1240,7 +1728,7 @@ const AuthenticatedContent: React.FC = () => {
                     </span>
                   )}
                   <span className="text-slate-400">
-                    {filteredItems.length} items
+                    {searchQuery && isSearching ? '검색 중...' : `${filteredItems.length} items`}
                   </span>
                 </div>
               </div>
@@ -1266,9 +1754,15 @@ const AuthenticatedContent: React.FC = () => {
                   onToggleEncryption={handleOpenEncryptionModal}
                   isTrashView={activeFilter === 'trash'}
                   isExpiringView={activeFilter === 'expiring'}
+                  hasMore={!!nextCursor && !searchQuery.trim() && activeFilter !== 'trash' && activeFilter !== 'expiring'}
+                  isLoadingMore={isLoadingMore}
+                  onLoadMore={loadMoreItems}
                   onRestore={handleRestoreItem}
                   onPermanentDelete={handlePermanentDelete}
                   onEmptyTrash={handleEmptyTrash}
+                  isSelectionMode={isSelectionMode}
+                  selectedIds={selectedIds}
+                  onSelectionChange={setSelectedIds}
                 />
               )}
             </div>
@@ -1276,6 +1770,21 @@ const AuthenticatedContent: React.FC = () => {
         </div>
       </main>
 
+      {/* Bulk actions for selected items */}
+      {isSelectionMode && activeFilter !== 'scheduled' && (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          totalCount={filteredItems.length}
+          tags={tags}
+          isTrashView={activeFilter === 'trash'}
+          isBusy={isBulkBusy}
+          onSelectAll={() => setSelectedIds(new Set(filteredItems.map(item => item.id)))}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onExit={exitSelectionMode}
+          onAction={handleBulkAction}
+        />
+      )}
+
       {/* Upload Progress */}
       <UploadProgress />
 
@@ -1290,6 +1799,7 @@ const AuthenticatedContent: React.FC = () => {
         onUpdateTitle={handleUpdateTitle}
         onUpdateReminder={handleUpdateReminder}
         onUpdateExpiry={handleUpdateExpiry}
+        onUpdateContent={handleUpdateContent}
       />
 
       {/* Settings Modal */}
@@ -1298,6 +1808,12 @@ const AuthenticatedContent: React.FC = () => {
         onClose={() => setIsSettingsOpen(false)}
       />
 
+      {/* Vault Modal */}
+      <VaultModal
+        isOpen={isVaultOpen}
+        onClose={() => setIsVaultOpen(false)}
+      />
+
       {/* Encryption Modal */}
       <EncryptionModal
         isOpen={!!encryptionTarget}
@@ -1333,7 +1849,11 @@ const AppContent: React.FC = () => {
     return <LoginScreen />;
   }
 
-  return <AuthenticatedContent />;
+  return (
+    <VaultProvider>
+      <AuthenticatedContent />
+    </VaultProvider>
+  );
 };
 
 const App: React.FC = () => {
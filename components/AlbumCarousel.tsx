@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileText, Images } from 'lucide-react';
+import { ItemFile } from '../types';
+import { getFileUrl } from '../services/db';
+
+interface AlbumCarouselProps {
+  files: ItemFile[];
+  imageFitClass: string;
+  darkBackground?: boolean;
+  children?: React.ReactNode; // Badges shown over the slide
+}
+
+// Horizontal swipe distance (px) that changes the slide
+const SWIPE_THRESHOLD = 40;
+
+const AlbumCarousel: React.FC<AlbumCarouselProps> = ({ files, imageFitClass, darkBackground = false, children }) => {
+  const [index, setIndex] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+
+  const current = files[Math.min(index, files.length - 1)];
+  const currentUrl = getFileUrl(current);
+
+  const go = (e: React.MouseEvent, delta: number) => {
+    // 카드 클릭(상세 열기)으로 전달되지 않도록
+    e.stopPropagation();
+    setIndex(prev => (prev + delta + files.length) % files.length);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(deltaX) < SWIPE_THRESHOLD) return;
+    setIndex(prev => (prev + (deltaX < 0 ? 1 : -1) + files.length) % files.length);
+  };
+
+  const renderSlide = () => {
+    if (current.mimeType?.startsWith('image/') && currentUrl) {
+      return <img src={currentUrl} alt={current.fileName || ''} className={`w-full h-full ${imageFitClass}`} loading="lazy" />;
+    }
+    if (current.mimeType?.startsWith('video/') && currentUrl) {
+      return <video src={currentUrl} className="w-full h-full object-contain bg-black" preload="metadata" muted playsInline />;
+    }
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 px-4 bg-gradient-to-br from-orange-50 to-slate-100 text-slate-500">
+        <FileText size={32} className="text-orange-400" />
+        <span className="text-xs text-slate-600 truncate max-w-full">{current.fileName}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={`relative aspect-square w-full bg-slate-100 overflow-hidden group/album ${darkBackground ? 'bg-slate-900' : ''}`}
+      onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+      onTouchEnd={handleTouchEnd}
+    >
+      {renderSlide()}
+
+      {/* 이전/다음 */}
+      <button
+        onClick={(e) => go(e, -1)}
+        className="absolute left-1.5 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black/40 hover:bg-black/60 text-white opacity-0 group-hover/album:opacity-100 transition-opacity"
+        title="이전"
+      >
+        <ChevronLeft size={16} />
+      </button>
+      <button
+        onClick={(e) => go(e, 1)}
+        className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black/40 hover:bg-black/60 text-white opacity-0 group-hover/album:opacity-100 transition-opacity"
+        title="다음"
+      >
+        <ChevronRight size={16} />
+      </button>
+
+      {/* 앨범 배지 */}
+      <div className="absolute top-2 left-2 flex items-center gap-1 bg-black/50 text-white px-1.5 py-0.5 rounded-full">
+        <Images size={10} />
+        <span className="text-[10px] font-medium">{index + 1}/{files.length}</span>
+      </div>
+
+      {children}
+
+      {/* 위치 표시 */}
+      {files.length <= 10 && (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1">
+          {files.map((file, i) => (
+            <span
+              key={file.id}
+              className={`w-1.5 h-1.5 rounded-full ${i === index ? 'bg-white' : 'bg-white/50'}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlbumCarousel;
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText, Video } from 'lucide-react';
+import { ItemFile } from '../types';
+import { getFileUrl, getFileDownloadUrl } from '../services/db';
+import { formatFileSize } from '../services/filePreviewService';
+
+interface AlbumGalleryProps {
+  files: ItemFile[];
+}
+
+// Horizontal swipe distance (px) that changes the file
+const SWIPE_THRESHOLD = 50;
+
+const AlbumGallery: React.FC<AlbumGalleryProps> = ({ files }) => {
+  const [index, setIndex] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+  const thumbnailRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const current = files[Math.min(index, files.length - 1)];
+  const currentUrl = getFileUrl(current);
+
+  const go = (delta: number) => {
+    setIndex(prev => (prev + delta + files.length) % files.length);
+  };
+
+  // 좌우 화살표 키로 이동 (입력 중에는 무시)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key === 'ArrowLeft') go(-1);
+      if (e.key === 'ArrowRight') go(1);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [files.length]);
+
+  // 현재 썸네일이 보이도록 스크롤
+  useEffect(() => {
+    thumbnailRefs.current[index]?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+  }, [index]);
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(deltaX) >= SWIPE_THRESHOLD) {
+      go(deltaX < 0 ? 1 : -1);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!currentUrl) return;
+    const a = document.createElement('a');
+    a.href = getFileDownloadUrl(currentUrl);
+    a.download = current.fileName || 'download';
+    a.target = '_blank';
+    a.click();
+  };
+
+  const renderCurrent = () => {
+    if (current.mimeType?.startsWith('image/') && currentUrl) {
+      return <img src={currentUrl} alt={current.fileName || ''} className="max-w-full max-h-[60vh] object-contain" />;
+    }
+    if (current.mimeType?.startsWith('video/') && currentUrl) {
+      // key: 파일이 바뀌면 재생 상태 초기화
+      return <video key={current.id} src={currentUrl} controls className="w-full max-h-[60vh]" />;
+    }
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-3 text-slate-500">
+        <FileText size={48} className="text-orange-400" />
+        <span className="text-sm text-slate-700 font-medium break-all px-6 text-center">{current.fileName}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative flex items-center justify-center bg-black/5 rounded-lg overflow-hidden min-h-[16rem] max-h-[60vh]"
+        onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+        onTouchEnd={handleTouchEnd}
+      >
+        {renderCurrent()}
+        <button
+          onClick={() => go(-1)}
+          className="absolute left-2 top-1/2 -translate-y-1/2 p-2 bg-black/50 hover:bg-black/70 text-white rounded-full"
+          title="이전"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <button
+          onClick={() => go(1)}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-black/50 hover:bg-black/70 text-white rounded-full"
+          title="다음"
+        >
+          <ChevronRight size={20} />
+        </button>
+        <span className="absolute top-2 left-2 text-xs px-2 py-0.5 rounded-full bg-black/50 text-white">
+          {index + 1} / {files.length}
+        </span>
+      </div>
+
+      {/* 현재 파일 정보 */}
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <div className="min-w-0">
+          <p className="text-slate-700 font-medium truncate">{current.fileName || '이름 없음'}</p>
+          {current.fileSize ? <p className="text-xs text-slate-400">{formatFileSize(current.fileSize)}</p> : null}
+        </div>
+        <button
+          onClick={handleDownload}
+          disabled={!currentUrl}
+          className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Download size={16} />
+          다운로드
+        </button>
+      </div>
+
+      {/* 썸네일 */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {files.map((file, i) => {
+          const url = getFileUrl(file);
+          return (
+            <button
+              key={file.id}
+              ref={el => { thumbnailRefs.current[i] = el; }}
+              onClick={() => setIndex(i)}
+              className={`shrink-0 w-14 h-14 rounded-lg overflow-hidden bg-slate-100 flex items-center justify-center border-2 transition-colors ${
+                i === index ? 'border-indigo-500' : 'border-transparent hover:border-slate-300'
+              }`}
+              title={file.fileName || undefined}
+            >
+              {file.mimeType?.startsWith('image/') && url ? (
+                <img src={url} alt="" className="w-full h-full object-cover" loading="lazy" />
+              ) : file.mimeType?.startsWith('video/') ? (
+                <Video size={20} className="text-purple-500" />
+              ) : (
+                <FileText size={20} className="text-orange-500" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AlbumGallery;
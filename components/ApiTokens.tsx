@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Copy, Check, Trash2, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { ApiToken, ApiTokenScope } from '../types';
+import { getApiTokens, createApiToken, revokeApiToken } from '../services/db';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const SCOPE_OPTIONS: { value: ApiTokenScope; label: string }[] = [
+  { value: 'items:read', label: '아이템 읽기' },
+  { value: 'items:write', label: '아이템 쓰기' },
+  { value: 'tags:read', label: '태그 읽기' },
+  { value: 'tags:write', label: '태그 쓰기' },
+];
+
+const EXPIRY_OPTIONS: { label: string; duration: number | null }[] = [
+  { label: '만료 없음', duration: null },
+  { label: '30일', duration: 30 * DAY },
+  { label: '90일', duration: 90 * DAY },
+  { label: '1년', duration: 365 * DAY },
+];
+
+// 개인 API 토큰 - 스크립트/자동화용 토큰 생성, 목록, 폐기
+const ApiTokens: React.FC = () => {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['items:read', 'items:write']);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // 새로 만든 토큰은 이때만 볼 수 있음
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadTokens = async () => {
+      try {
+        setTokens(await getApiTokens());
+      } catch (err) {
+        console.error('Failed to load API tokens:', err);
+        setError('API 토큰을 불러오지 못했습니다.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTokens();
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const duration = EXPIRY_OPTIONS[expiryIndex].duration;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { token, ...created } = await createApiToken({
+        name: name.trim(),
+        scopes,
+        expiresAt: duration ? Date.now() + duration : null,
+      });
+      setTokens(prev => [created, ...prev]);
+      setNewToken(token);
+      setCopied(false);
+      setShowForm(false);
+      setName('');
+    } catch (err) {
+      console.error('Failed to create API token:', err);
+      setError(err instanceof Error ? err.message : 'API 토큰을 만들지 못했습니다.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy API token:', err);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`'${token.name}' 토큰을 폐기하시겠습니까? 이 토큰을 쓰는 스크립트는 더 이상 동작하지 않습니다.`)) return;
+    try {
+      await revokeApiToken(token.id);
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+    } catch (err) {
+      console.error('Failed to revoke API token:', err);
+      setError('토큰을 폐기하지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-slate-700 text-sm flex items-center gap-2">
+          <KeyRound size={16} className="text-slate-500" />
+          API 토큰
+        </h4>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+          >
+            <Plus size={14} />
+            새 토큰
+          </button>
+        )}
+      </div>
+
+      {newToken && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+          <p className="text-xs text-amber-700">이 토큰은 지금만 볼 수 있습니다. 안전한 곳에 복사해 두세요.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs bg-white border border-amber-200 rounded px-2 py-1.5">{newToken}</code>
+            <button onClick={handleCopy} className="p-1.5 text-amber-700 hover:bg-amber-100 rounded" title="복사">
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+            </button>
+          </div>
+          <button onClick={() => setNewToken(null)} className="text-xs text-amber-700 hover:underline">
+            확인했습니다
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white border border-slate-200 rounded-lg p-3 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="토큰 이름 (예: 단축어, cron)"
+            autoFocus
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {SCOPE_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(option.value)}
+                  onChange={() => toggleScope(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <select
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(Number(e.target.value))}
+            className="w-full text-sm px-2 py-2 border border-slate-200 rounded-lg bg-white"
+          >
+            {EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating || !name.trim() || scopes.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isCreating && <Loader2 size={14} className="animate-spin" />}
+              만들기
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 size={16} className="animate-spin text-slate-400" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-xs text-slate-500">스크립트나 자동화에서 쓸 토큰이 없습니다.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tokens.map(token => {
+            const isExpired = token.expiresAt !== null && token.expiresAt <= Date.now();
+            return (
+              <li key={token.id} className="flex items-start gap-2 bg-white border border-slate-200 rounded-lg p-2.5">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium text-slate-700 truncate">{token.name}</span>
+                    <code className="text-xs text-slate-400">{token.prefix}…</code>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {token.scopes.map(scope => (
+                      <span key={scope} className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600">{scope}</span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    {token.lastUsedAt ? `최근 사용 ${format(token.lastUsedAt, 'yyyy.MM.dd HH:mm')}` : '사용 기록 없음'}
+                    {token.expiresAt && (
+                      <span className={isExpired ? 'text-red-500' : ''}>
+                        {' · '}{isExpired ? '만료됨' : `${format(token.expiresAt, 'yyyy.MM.dd')} 만료`}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(token)}
+                  className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded"
+                  title="폐기"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
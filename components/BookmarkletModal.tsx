@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Bookmark, Loader2, Copy, Check, AlertCircle } from 'lucide-react';
+import { createApiToken, getApiTokens, revokeApiToken } from '../services/db';
+
+interface BookmarkletModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Name of the personal API token the bookmarklet carries (one at a time)
+const BOOKMARKLET_TOKEN_NAME = '북마클릿';
+
+// Opens the worker's capture page (/capture) in a popup with the page, its title and the
+// selection. The token goes in the fragment so it never reaches the server or its logs.
+const buildBookmarklet = (origin: string, token: string): string => {
+  const code = `(()=>{const p=new URLSearchParams({url:location.href,source:location.href,title:document.title,text:String(getSelection()).slice(0,4000)});`
+    + `window.open('${origin}/capture?'+p+'#token=${token}','self-capture','width=480,height=640')})()`;
+  return `javascript:${code}`;
+};
+
+const BookmarkletModal: React.FC<BookmarkletModalProps> = ({ isOpen, onClose }) => {
+  const [bookmarklet, setBookmarklet] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  // React blocks javascript: URLs in href, so the link is set directly
+  useEffect(() => {
+    if (bookmarklet && linkRef.current) {
+      linkRef.current.setAttribute('href', bookmarklet);
+    }
+  }, [bookmarklet]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const previous = (await getApiTokens()).filter(token => token.name === BOOKMARKLET_TOKEN_NAME);
+      const created = await createApiToken({
+        name: BOOKMARKLET_TOKEN_NAME,
+        scopes: ['items:write', 'tags:read'],
+        expiresAt: null,
+      });
+      // The previous bookmarklet stops working
+      await Promise.all(previous.map(token => revokeApiToken(token.id)));
+      setBookmarklet(buildBookmarklet(window.location.origin, created.token));
+      setCopied(false);
+    } catch (err) {
+      console.error('Failed to create bookmarklet:', err);
+      setError(err instanceof Error ? err.message : '북마클릿을 만들지 못했습니다.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!bookmarklet) return;
+    try {
+      await navigator.clipboard.writeText(bookmarklet);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy bookmarklet:', err);
+    }
+  };
+
+  const handleClose = () => {
+    setBookmarklet(null);
+    setError(null);
+    setCopied(false);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <div className="flex items-center gap-2">
+            <Bookmark className="w-5 h-5 text-indigo-500" />
+            <h2 className="text-lg font-semibold text-slate-800">북마클릿</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            데스크톱 브라우저에서 보고 있는 페이지를 바로 저장합니다.
+            텍스트를 선택한 채로 누르면 선택한 내용도 함께 저장되고, 태그와 리마인더를 고를 수 있습니다.
+          </p>
+
+          {bookmarklet ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-center p-4 bg-slate-50 rounded-xl border border-dashed border-slate-300">
+                <a
+                  ref={linkRef}
+                  onClick={(e) => e.preventDefault()}
+                  className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg cursor-move"
+                >
+                  <Bookmark size={14} />
+                  Self에 저장
+                </a>
+              </div>
+              <p className="text-xs text-slate-500">
+                위 버튼을 북마크바로 끌어다 놓으세요. 끌어다 놓을 수 없으면 코드를 복사해 새 북마크의 URL에 붙여넣으세요.
+              </p>
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                {copied ? <Check size={14} className="text-green-600" /> : <Copy size={14} />}
+                {copied ? '복사됨' : '코드 복사'}
+              </button>
+              <p className="text-xs text-amber-600">
+                북마클릿에는 개인 캡처 토큰이 들어 있습니다. 다른 사람과 공유하지 마세요.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <button
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isCreating && <Loader2 size={16} className="animate-spin" />}
+                북마클릿 만들기
+              </button>
+              <p className="text-xs text-slate-500">
+                저장 전용 API 토큰을 새로 발급합니다. 이전에 만든 북마클릿은 더 이상 동작하지 않습니다.
+              </p>
+            </div>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+              <AlertCircle className="w-5 h-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookmarkletModal;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Tag as TagIcon, Star, Bell, Timer, Trash2, RotateCcw, CheckSquare, Plus, Minus } from 'lucide-react';
+import { Tag } from '../types';
+import type { BulkAction } from '../services/db';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  tags: Tag[];
+  isTrashView?: boolean;
+  isBusy?: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onExit: () => void;
+  onAction: (action: BulkAction) => void;
+}
+
+type OpenMenu = 'tags' | 'favorite' | 'reminder' | 'expiry' | null;
+
+const EXPIRY_PRESETS = [
+  { label: '1시간', hours: 1 },
+  { label: '1일', hours: 24 },
+  { label: '1주일', hours: 168 },
+  { label: '1개월', hours: 720 },
+  { label: '1년', hours: 8760 },
+];
+
+const REMINDER_PRESETS = [
+  { label: '1시간 후', hours: 1 },
+  { label: '내일', hours: 24 },
+  { label: '1주일 후', hours: 168 },
+];
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  totalCount,
+  tags,
+  isTrashView = false,
+  isBusy = false,
+  onSelectAll,
+  onClearSelection,
+  onExit,
+  onAction,
+}) => {
+  const [openMenu, setOpenMenu] = useState<OpenMenu>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+  const hasSelection = selectedCount > 0;
+  const disabled = !hasSelection || isBusy;
+
+  // 메뉴 외부 클릭 시 닫기
+  useEffect(() => {
+    if (!openMenu) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (barRef.current && !barRef.current.contains(e.target as Node)) {
+        setOpenMenu(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [openMenu]);
+
+  const runAction = (action: BulkAction) => {
+    setOpenMenu(null);
+    onAction(action);
+  };
+
+  const toggleMenu = (menu: OpenMenu) => {
+    setOpenMenu(prev => prev === menu ? null : menu);
+  };
+
+  const buttonClass = 'p-2 rounded-lg text-slate-200 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+  const menuClass = 'absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-white border border-slate-200 rounded-xl shadow-lg p-3 text-slate-700';
+
+  return (
+    <div
+      ref={barRef}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 bg-slate-800 text-white rounded-xl shadow-2xl px-3 py-2 flex items-center gap-1 max-w-[calc(100vw-2rem)]"
+    >
+      <button onClick={onExit} className={buttonClass} title="선택 모드 종료">
+        <X size={18} />
+      </button>
+      <span className="text-sm font-medium px-1 whitespace-nowrap">
+        {selectedCount}개 선택됨
+      </span>
+      <button
+        onClick={selectedCount === totalCount ? onClearSelection : onSelectAll}
+        className={buttonClass}
+        title={selectedCount === totalCount ? '선택 해제' : `전체 선택 (${totalCount})`}
+        disabled={totalCount === 0 || isBusy}
+      >
+        <CheckSquare size={18} />
+      </button>
+
+      <div className="w-px h-6 bg-slate-600 mx-1" />
+
+      {isTrashView ? (
+        <>
+          <button onClick={() => runAction({ operation: 'restore' })} className={buttonClass} disabled={disabled} title="복구">
+            <RotateCcw size={18} />
+          </button>
+          <button
+            onClick={() => {
+              if (confirm(`선택한 ${selectedCount}개 아이템을 영구 삭제하시겠습니까? 되돌릴 수 없습니다.`)) {
+                runAction({ operation: 'deletePermanently' });
+              }
+            }}
+            className={`${buttonClass} hover:text-red-400`}
+            disabled={disabled}
+            title="영구 삭제"
+          >
+            <Trash2 size={18} />
+          </button>
+        </>
+      ) : (
+        <>
+          {/* 레이블 추가/제거 */}
+          <div className="relative">
+            <button onClick={() => toggleMenu('tags')} className={buttonClass} disabled={disabled || tags.length === 0} title="레이블">
+              <TagIcon size={18} />
+            </button>
+            {openMenu === 'tags' && (
+              <div className={`${menuClass} w-56 max-h-64 overflow-y-auto`}>
+                <div className="text-sm font-medium mb-2">레이블</div>
+                <div className="space-y-1">
+                  {tags.map(tag => (
+                    <div key={tag.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded-lg hover:bg-slate-50">
+                      <span className="text-sm truncate">#{tag.name}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          onClick={() => runAction({ operation: 'addTags', tagIds: [tag.id] })}
+                          className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50"
+                          title="추가"
+                        >
+                          <Plus size={14} />
+                        </button>
+                        <button
+                          onClick={() => runAction({ operation: 'removeTags', tagIds: [tag.id] })}
+                          className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                          title="제거"
+                        >
+                          <Minus size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* 즐겨찾기 */}
+          <div className="relative">
+            <button onClick={() => toggleMenu('favorite')} className={buttonClass} disabled={disabled} title="즐겨찾기">
+              <Star size={18} />
+            </button>
+            {openMenu === 'favorite' && (
+              <div className={`${menuClass} w-40 space-y-1`}>
+                <button
+                  onClick={() => runAction({ operation: 'setFavorite', isFavorite: true })}
+                  className="w-full px-3 py-2 text-sm text-left hover:bg-amber-50 rounded-lg"
+                >
+                  즐겨찾기 추가
+                </button>
+                <button
+                  onClick={() => runAction({ operation: 'setFavorite', isFavorite: false })}
+                  className="w-full px-3 py-2 text-sm text-left hover:bg-slate-100 rounded-lg"
+                >
+                  즐겨찾기 해제
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* 알림 */}
+          <div className="relative">
+            <button onClick={() => toggleMenu('reminder')} className={buttonClass} disabled={disabled} title="알림 설정">
+              <Bell size={18} />
+            </button>
+            {openMenu === 'reminder' && (
+              <div className={`${menuClass} w-64 space-y-2`}>
+                <div className="text-sm font-medium">알림 설정</div>
+                <input
+                  type="datetime-local"
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      runAction({ operation: 'setReminder', reminderAt: new Date(e.target.value).getTime() });
+                    }
+                  }}
+                  min={new Date(Date.now() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 16)}
+                  className="w-full text-sm px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex flex-wrap gap-1.5">
+                  {REMINDER_PRESETS.map(({ label, hours }) => (
+                    <button
+                      key={label}
+                      onClick={() => runAction({ operation: 'setReminder', reminderAt: Date.now() + hours * 60 * 60 * 1000 })}
+                      className="px-2 py-1 text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-md"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => runAction({ operation: 'setReminder', reminderAt: null })}
+                  className="w-full px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 border border-red-200 rounded-lg"
+                >
+                  알림 삭제
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* 만료 */}
+          <div className="relative">
+            <button onClick={() => toggleMenu('expiry')} className={buttonClass} disabled={disabled} title="만료 설정">
+              <Timer size={18} />
+            </button>
+            {openMenu === 'expiry' && (
+              <div className={`${menuClass} w-48 space-y-1`}>
+                <div className="text-sm font-medium mb-1">만료 기간</div>
+                {EXPIRY_PRESETS.map(({ label, hours }) => (
+                  <button
+                    key={label}
+                    onClick={() => runAction({ operation: 'setExpiry', expiresAt: Date.now() + hours * 60 * 60 * 1000 })}
+                    className="w-full px-3 py-2 text-sm text-left hover:bg-slate-100 text-slate-600 rounded-lg"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => runAction({ operation: 'setExpiry', expiresAt: null })}
+                  className="w-full mt-2 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 border border-red-200 rounded-lg"
+                >
+                  만료 해제
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* 휴지통으로 이동 */}
+          <button onClick={() => runAction({ operation: 'trash' })} className={`${buttonClass} hover:text-red-400`} disabled={disabled} title="휴지통으로 이동">
+            <Trash2 size={18} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
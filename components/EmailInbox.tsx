@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, Loader2, Copy, Check, RefreshCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { EmailInbox as EmailInboxType } from '../types';
+import { getEmailInbox, createEmailInbox, deleteEmailInbox } from '../services/db';
+
+// 이메일 수신 - 비밀 주소로 보낸 메일(뉴스레터, 영수증)을 아이템으로 저장
+const EmailInbox: React.FC = () => {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [inbox, setInbox] = useState<EmailInboxType | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadInbox = async () => {
+      try {
+        const result = await getEmailInbox();
+        setIsEnabled(result.enabled);
+        setInbox(result.inbox);
+      } catch (err) {
+        console.error('Failed to load email inbox:', err);
+        setError('이메일 주소를 불러오지 못했습니다.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadInbox();
+  }, []);
+
+  const handleCreate = async () => {
+    if (inbox && !confirm('새 주소를 만드시겠습니까? 지금 주소로 보낸 메일은 더 이상 저장되지 않습니다.')) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      setInbox(await createEmailInbox());
+      setCopied(false);
+    } catch (err) {
+      console.error('Failed to create email inbox:', err);
+      setError(err instanceof Error ? err.message : '이메일 주소를 만들지 못했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('이메일 주소를 삭제하시겠습니까? 이 주소로 보낸 메일은 반송됩니다.')) return;
+    setIsSaving(true);
+    try {
+      await deleteEmailInbox();
+      setInbox(null);
+    } catch (err) {
+      console.error('Failed to delete email inbox:', err);
+      setError('이메일 주소를 삭제하지 못했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!inbox) return;
+    try {
+      await navigator.clipboard.writeText(inbox.address);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy email address:', err);
+    }
+  };
+
+  // 서버에 EMAIL_DOMAIN이 없으면 표시하지 않음
+  if (!isLoading && !isEnabled && !error) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+      <h4 className="font-medium text-slate-700 text-sm flex items-center gap-2">
+        <Mail size={16} className="text-slate-500" />
+        이메일로 저장
+      </h4>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 size={16} className="animate-spin text-slate-400" />
+        </div>
+      ) : inbox ? (
+        <>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs bg-white border border-slate-200 rounded px-2 py-1.5">{inbox.address}</code>
+            <button onClick={handleCopy} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="복사">
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="p-1.5 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-50"
+              title="주소 변경"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-50"
+              title="주소 삭제"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            이 주소로 전달한 메일은 제목과 본문, 첨부파일이 아이템으로 저장됩니다.
+            주소 뒤에 <code>+태그이름</code>을 붙이면 해당 태그가 붙습니다.
+          </p>
+          {inbox.lastReceivedAt && (
+            <p className="text-xs text-slate-400">최근 수신 {format(inbox.lastReceivedAt, 'yyyy.MM.dd HH:mm')}</p>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500">뉴스레터나 영수증을 전달받을 나만의 비밀 주소를 만듭니다.</p>
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving && <Loader2 size={14} className="animate-spin" />}
+            주소 만들기
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default EmailInbox;
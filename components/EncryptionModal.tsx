@@ -104,7 +104,7 @@ const EncryptionModal: React.FC<EncryptionModalProps> = ({
   };
 
   const descriptions = {
-    encrypt: '이 아이템을 암호화합니다. 암호화 후에는 암호를 입력해야 내용을 볼 수 있습니다.',
+    encrypt: '이 아이템을 브라우저에서 암호화합니다. 서버에는 암호문만 저장되며, 암호를 잊으면 내용을 복구할 수 없습니다.',
     decrypt: '암호화를 해제합니다. 암호화 키를 입력하세요.',
     delete: '이 암호화된 아이템을 삭제합니다. 암호화 키를 입력하세요.',
   };
@@ -29,6 +29,7 @@ const EncryptionUnlock: React.FC<EncryptionUnlockProps> = ({ onUnlock, isLoading
       <div className="text-center">
         <h3 className="text-lg font-semibold text-slate-800 mb-1">암호화된 아이템</h3>
         <p className="text-sm text-slate-500">내용을 보려면 암호를 입력하세요</p>
+        <p className="text-xs text-slate-400 mt-1">복호화는 이 기기에서만 이루어지며 암호는 서버로 전송되지 않습니다</p>
       </div>
 
       {/* Form */}
@@ -69,7 +70,7 @@ const EncryptionUnlock: React.FC<EncryptionUnlockProps> = ({ onUnlock, isLoading
           {isLoading ? (
             <>
               <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              확인 중...
+              복호화 중...
             </>
           ) : (
             '잠금 해제'
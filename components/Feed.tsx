@@ -1,9 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { Item, Tag } from '../types';
 import FeedItem from './FeedItem';
 import { format, isToday, isYesterday, startOfWeek, startOfMonth } from 'date-fns';
 import { useSettings } from '../contexts/SettingsContext';
-import { Trash2, Timer } from 'lucide-react';
+import { Trash2, Timer, Loader2 } from 'lucide-react';
 
 interface FeedProps {
   items: Item[];
@@ -17,8 +17,45 @@ interface FeedProps {
   onRestore?: (id: string) => void;
   onPermanentDelete?: (id: string) => void;
   onEmptyTrash?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  isSelectionMode?: boolean;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
 }
 
+// Sentinel at the bottom of the feed that requests the next page when it becomes visible
+const LoadMoreSentinel: React.FC<{ isLoading: boolean; onLoadMore: () => void }> = ({ isLoading, onLoadMore }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || isLoading) return;
+
+    // Re-created after every load, so a sentinel that is still visible
+    // (e.g. a filter that matches few loaded items) keeps loading pages
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [isLoading, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex items-center justify-center py-6 text-slate-400">
+      {isLoading && (
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 size={16} className="animate-spin" />
+          <span>불러오는 중...</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const Feed: React.FC<FeedProps> = ({ 
   items, 
   tags, 
@@ -31,8 +68,22 @@ const Feed: React.FC<FeedProps> = ({
   onRestore,
   onPermanentDelete,
   onEmptyTrash,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  isSelectionMode = false,
+  selectedIds,
+  onSelectionChange,
 }) => {
   const { settings } = useSettings();
+  // Anchor for shift-click range selection
+  const lastSelectedIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isSelectionMode) {
+      lastSelectedIdRef.current = null;
+    }
+  }, [isSelectionMode]);
 
   // Group items based on settings
   const groupedItems = useMemo(() => {
@@ -62,7 +113,52 @@ const Feed: React.FC<FeedProps> = ({
     }, {} as Record<string, Item[]>);
   }, [items, settings.groupBy]);
 
-  const sortedDates = Object.keys(groupedItems).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  const sortedDates = useMemo(
+    () => Object.keys(groupedItems).sort((a, b) => new Date(b).getTime() - new Date(a).getTime()),
+    [groupedItems]
+  );
+
+  // Items in on-screen order (used for shift-click ranges)
+  const orderedIds = useMemo(() => {
+    if (isExpiringView) return items.map(item => item.id);
+    return sortedDates.flatMap(dateKey => groupedItems[dateKey].map(item => item.id));
+  }, [isExpiringView, items, sortedDates, groupedItems]);
+
+  const handleSelect = (itemId: string, e: React.MouseEvent) => {
+    if (!onSelectionChange) return;
+    const next = new Set(selectedIds);
+    const anchorId = lastSelectedIdRef.current;
+    const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+    const targetIndex = orderedIds.indexOf(itemId);
+
+    if (e.shiftKey && anchorIndex !== -1 && targetIndex !== -1) {
+      // Select everything between the anchor and the clicked item
+      const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+      orderedIds.slice(from, to + 1).forEach(id => next.add(id));
+    } else if (next.has(itemId)) {
+      next.delete(itemId);
+    } else {
+      next.add(itemId);
+    }
+
+    lastSelectedIdRef.current = itemId;
+    onSelectionChange(next);
+  };
+
+  // Toggle every item of a date group
+  const handleSelectGroup = (groupItems: Item[]) => {
+    if (!onSelectionChange) return;
+    const next = new Set(selectedIds);
+    const allSelected = groupItems.every(item => next.has(item.id));
+    groupItems.forEach(item => allSelected ? next.delete(item.id) : next.add(item.id));
+    onSelectionChange(next);
+  };
+
+  const getSelectionProps = (item: Item) => ({
+    isSelectionMode,
+    isSelected: !!selectedIds?.has(item.id),
+    onSelect: (e: React.MouseEvent) => handleSelect(item.id, e),
+  });
 
   const getDateLabel = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -108,7 +204,16 @@ const Feed: React.FC<FeedProps> = ({
     return `grid-cols-1 sm:grid-cols-2 md:grid-cols-${Math.min(cols, 3)} lg:grid-cols-${Math.min(cols, 4)} xl:grid-cols-${cols}`;
   }, [settings.gridColumns]);
 
+  const loadMoreSentinel = hasMore && onLoadMore
+    ? <LoadMoreSentinel isLoading={isLoadingMore} onLoadMore={onLoadMore} />
+    : null;
+
   if (items.length === 0) {
+    // Nothing matches among the loaded pages yet - keep paging before showing the empty state
+    if (loadMoreSentinel) {
+      return loadMoreSentinel;
+    }
+
     if (isTrashView) {
       return (
         <div className="flex flex-col items-center justify-center py-20 text-slate-400">
@@ -191,6 +296,7 @@ const Feed: React.FC<FeedProps> = ({
                   isExpiringView={true}
                   onRestore={onRestore}
                   onPermanentDelete={onPermanentDelete}
+                  {...getSelectionProps(item)}
                 />
                 {item.expiresAt && (
                   <div className="absolute top-2 right-2 px-2 py-0.5 text-[10px] font-medium bg-orange-100 text-orange-700 rounded-full">
@@ -216,6 +322,7 @@ const Feed: React.FC<FeedProps> = ({
                   isExpiringView={true}
                   onRestore={onRestore}
                   onPermanentDelete={onPermanentDelete}
+                  {...getSelectionProps(item)}
                 />
                 {item.expiresAt && (
                   <div className="absolute top-2 right-2 px-2 py-0.5 text-[10px] font-medium bg-orange-100 text-orange-700 rounded-full z-10">
@@ -260,6 +367,15 @@ const Feed: React.FC<FeedProps> = ({
       {sortedDates.map(dateKey => (
         <div key={dateKey}>
           <div className="flex items-center gap-2 mb-4 pl-1 py-2">
+            {isSelectionMode && (
+              <input
+                type="checkbox"
+                checked={groupedItems[dateKey].every(item => selectedIds?.has(item.id))}
+                onChange={() => handleSelectGroup(groupedItems[dateKey])}
+                className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                title="그룹 전체 선택"
+              />
+            )}
             <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
               {getDateLabel(dateKey)}
             </h2>
@@ -283,6 +399,7 @@ const Feed: React.FC<FeedProps> = ({
                   isTrashView={isTrashView}
                   onRestore={onRestore}
                   onPermanentDelete={onPermanentDelete}
+                  {...getSelectionProps(item)}
                 />
               ))}
             </div>
@@ -302,12 +419,15 @@ const Feed: React.FC<FeedProps> = ({
                   isTrashView={isTrashView}
                   onRestore={onRestore}
                   onPermanentDelete={onPermanentDelete}
+                  {...getSelectionProps(item)}
                 />
               ))}
             </div>
           )}
         </div>
       ))}
+
+      {loadMoreSentinel}
     </div>
   );
 };
@@ -1,14 +1,17 @@
-import React, { useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Item, ItemType, Tag } from '../types';
-import { ExternalLink, FileText, Image as ImageIcon, Video, Copy, Trash2, Download, Star, Eye, LockKeyhole, Unlock, Play, Pause, Code, RotateCcw, Bell, Pencil } from 'lucide-react';
+import { ExternalLink, FileText, Image as ImageIcon, Video, Copy, Trash2, Download, Star, Eye, LockKeyhole, Unlock, Play, Pause, Code, RotateCcw, Bell, Pencil, Check, Images } from 'lucide-react';
 import { format } from 'date-fns';
-import { getFileUrl } from '../services/db';
+import { getFileUrl, getFileDownloadUrl } from '../services/db';
 import { linkifyText } from '../utils/linkify';
 import { useToast } from '../contexts/ToastContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useVault } from '../contexts/VaultContext';
 import { checkPreviewSupport } from '../services/filePreviewService';
 import { createHighlightedCodeHtml } from '../utils/codeHighlight';
 import { sanitizeHtml } from '../utils/htmlSanitizer';
+import { renderSearchSnippet } from '../utils/searchHighlight';
+import AlbumCarousel from './AlbumCarousel';
 
 // Tag color utility functions
 const TAG_COLORS: Record<string, { bg: string; text: string; dot: string }> = {
@@ -134,8 +137,23 @@ interface FeedItemProps {
   isExpiringView?: boolean;
   onRestore?: (id: string) => void;
   onPermanentDelete?: (id: string) => void;
+  isSelectionMode?: boolean;
+  isSelected?: boolean;
+  onSelect?: (e: React.MouseEvent) => void;
 }
 
+// Selection checkbox shown in multi-select mode
+const SelectionCheckbox: React.FC<{ isSelected: boolean }> = ({ isSelected }) => (
+  <div
+    className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 transition-colors ${isSelected
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'bg-white/90 border-slate-300'
+      }`}
+  >
+    {isSelected && <Check size={14} strokeWidth={3} />}
+  </div>
+);
+
 const FeedItem: React.FC<FeedItemProps> = ({
   item,
   tags,
@@ -148,19 +166,27 @@ const FeedItem: React.FC<FeedItemProps> = ({
   isExpiringView = false,
   onRestore,
   onPermanentDelete,
+  isSelectionMode = false,
+  isSelected = false,
+  onSelect,
 }) => {
   const { showToast } = useToast();
   const { settings } = useSettings();
+  const { status: vaultStatus, previews, requestPreview } = useVault();
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
 
-  // Get file URL from R2
-  const fileUrl = useMemo(() => {
-    if (item.fileKey) {
-      return getFileUrl(item.fileKey);
+  // Signed file URL from the items API
+  const fileUrl = useMemo(() => getFileUrl(item), [item.fileKey, item.fileUrl]);
+
+  // 금고가 열려 있으면 암호화 아이템의 복호화된 미리보기 사용
+  const vaultPreview = item.isEncrypted ? previews[item.id] : undefined;
+
+  useEffect(() => {
+    if (item.isEncrypted && vaultStatus === 'unlocked') {
+      requestPreview(item);
     }
-    return null;
-  }, [item.fileKey]);
+  }, [item.id, item.isEncrypted, vaultStatus, requestPreview]);
 
   const itemTags = useMemo(() => {
     return tags.filter(t => item.tags.includes(t.id));
@@ -182,7 +208,7 @@ const FeedItem: React.FC<FeedItemProps> = ({
     e.stopPropagation();
     if (fileUrl) {
       const a = document.createElement('a');
-      a.href = fileUrl;
+      a.href = getFileDownloadUrl(fileUrl);
       a.download = item.fileName || 'download';
       a.target = '_blank';
       a.click();
@@ -224,6 +250,16 @@ const FeedItem: React.FC<FeedItemProps> = ({
     }
   };
 
+  // In selection mode a click toggles selection instead of opening the item
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (isSelectionMode && onSelect) {
+      e.preventDefault();
+      onSelect(e);
+      return;
+    }
+    onClick();
+  };
+
   // Format date based on settings
   const formattedDate = useMemo(() => {
     if (settings.dateFormat === 'iso') {
@@ -277,6 +313,32 @@ const FeedItem: React.FC<FeedItemProps> = ({
       );
     }
 
+    // Encrypted item opened by the vault - show decrypted preview
+    if (item.isEncrypted && vaultPreview) {
+      return (
+        <div className="relative aspect-square w-full bg-slate-100 overflow-hidden">
+          {vaultPreview.thumbnailUrl ? (
+            <img src={vaultPreview.thumbnailUrl} alt="" className={`w-full h-full ${imageFitClass}`} />
+          ) : (
+            <div className="p-4 h-full flex items-center justify-center bg-gradient-to-br from-emerald-50 to-slate-100">
+              <p className="text-sm text-slate-700 line-clamp-6 break-words text-center">{vaultPreview.title}</p>
+            </div>
+          )}
+          <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+            {!isExpiringView && item.expiresAt && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-600">
+                {new Date(item.expiresAt).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' })} 만료
+              </span>
+            )}
+            <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded-full bg-emerald-100 text-emerald-700" title="금고로 열림">
+              <Unlock size={10} />
+              금고
+            </span>
+          </div>
+        </div>
+      );
+    }
+
     // Encrypted item - show lock screen
     if (item.isEncrypted) {
       return (
@@ -302,6 +364,27 @@ const FeedItem: React.FC<FeedItemProps> = ({
       );
     }
 
+    // Album - swipe through the attachments
+    if (item.files && item.files.length > 1) {
+      return (
+        <AlbumCarousel files={item.files} imageFitClass={imageFitClass} darkBackground={settings.imageFit === 'contain'}>
+          {/* 알림/만료 배지 */}
+          <div className="absolute top-2 right-2 flex items-center gap-1">
+            {!isExpiringView && item.expiresAt && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-600 drop-shadow-sm">
+                {new Date(item.expiresAt).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' })} 만료
+              </span>
+            )}
+            {item.reminderAt && (
+              <div title={`알림: ${new Date(item.reminderAt).toLocaleString('ko-KR')}`}>
+                <Bell size={14} className="text-blue-500 drop-shadow-sm" />
+              </div>
+            )}
+          </div>
+        </AlbumCarousel>
+      );
+    }
+
     switch (item.type) {
       case ItemType.IMAGE:
         return (
@@ -737,6 +820,7 @@ const FeedItem: React.FC<FeedItemProps> = ({
 
     const getDisplayText = () => {
       if (item.title) return item.title;
+      if (vaultPreview?.title) return vaultPreview.title;
       if (item.ogTitle) return item.ogTitle;
       if (item.fileName) return item.fileName;
       if (item.content) return item.content;
@@ -745,12 +829,16 @@ const FeedItem: React.FC<FeedItemProps> = ({
 
     return (
       <div
-        className="group flex items-center gap-3 px-3 py-2.5 bg-white border-b border-slate-100 hover:bg-slate-50 transition-colors cursor-pointer"
-        onClick={onClick}
+        className={`group flex items-center gap-3 px-3 py-2.5 border-b border-slate-100 transition-colors cursor-pointer select-none ${isSelected ? 'bg-indigo-50' : 'bg-white hover:bg-slate-50'}`}
+        onClick={handleCardClick}
       >
+        {isSelectionMode && <SelectionCheckbox isSelected={isSelected} />}
+
         {/* Thumbnail or Icon */}
         <div className="w-10 h-10 rounded-lg overflow-hidden bg-slate-100 flex items-center justify-center shrink-0">
-          {(item.type === ItemType.IMAGE && fileUrl && !item.isEncrypted) ? (
+          {vaultPreview?.thumbnailUrl ? (
+            <img src={vaultPreview.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+          ) : (item.type === ItemType.IMAGE && fileUrl && !item.isEncrypted) ? (
             <img src={fileUrl} alt="" className="w-full h-full object-cover" loading="lazy" />
           ) : (item.type === ItemType.SKETCH && item.sketchData && !item.isEncrypted) ? (
             <img src={item.sketchData} alt="" className="w-full h-full object-contain bg-white" loading="lazy" />
@@ -764,8 +852,17 @@ const FeedItem: React.FC<FeedItemProps> = ({
         {/* Content */}
         <div className="flex-1 min-w-0">
           <p className="text-sm text-slate-800 truncate font-medium">{getDisplayText()}</p>
+          {item.searchSnippet && (
+            <p className="text-xs text-slate-500 truncate">{renderSearchSnippet(item.searchSnippet)}</p>
+          )}
           <div className="flex items-center gap-2 mt-0.5">
             <span className="text-[10px] text-slate-400">{formattedDate}</span>
+            {item.files && item.files.length > 1 && (
+              <span className="flex items-center gap-0.5 text-[10px] px-1 py-0.5 rounded bg-slate-100 text-slate-500" title="앨범">
+                <Images size={10} />
+                {item.files.length}
+              </span>
+            )}
             {deletionInfo && (
               <span className={`text-[10px] px-1 py-0.5 rounded ${deletionInfo.isUrgent ? 'bg-red-100 text-red-500' : 'bg-slate-100 text-slate-400'}`}>
                 {deletionInfo.text}
@@ -801,7 +898,7 @@ const FeedItem: React.FC<FeedItemProps> = ({
         </div>
 
         {/* Actions */}
-        <div className="flex items-center gap-0.5 opacity-100 lg:opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+        <div className={`flex items-center gap-0.5 opacity-100 lg:opacity-0 group-hover:opacity-100 transition-opacity shrink-0 ${isSelectionMode ? 'hidden' : ''}`}>
           {isTrashView ? (
             <>
               <button
@@ -839,15 +936,23 @@ const FeedItem: React.FC<FeedItemProps> = ({
 
   return (
     <div
-      className={`group relative bg-white rounded-xl border shadow-sm hover:shadow-md transition-all overflow-hidden flex flex-col cursor-pointer ${item.isFavorite
+      className={`group relative bg-white rounded-xl border shadow-sm hover:shadow-md transition-all overflow-hidden flex flex-col cursor-pointer ${isSelected
+        ? 'border-indigo-500 ring-2 ring-indigo-500'
+        : item.isFavorite
         ? 'border-amber-300 shadow-amber-200/50 ring-1 ring-amber-200'
         : 'border-slate-200'
-        }`}
-      onClick={onClick}
+        } ${isSelectionMode ? 'select-none' : ''}`}
+      onClick={handleCardClick}
     >
+      {isSelectionMode && (
+        <div className="absolute top-2 left-2 z-30">
+          <SelectionCheckbox isSelected={isSelected} />
+        </div>
+      )}
+
       {/* Header / Meta */}
       {(item.title || itemTags.length > 0) && (
-        <div className="px-4 pt-3 pb-2 flex items-start justify-between gap-2">
+        <div className={`px-4 pt-3 pb-2 flex items-start justify-between gap-2 ${isSelectionMode ? 'pl-9' : ''}`}>
           <div className="min-w-0">
             {item.title && <h3 className="font-semibold text-slate-800 text-sm truncate">{item.title}</h3>}
             {itemTags.length > 0 && (
@@ -879,13 +984,22 @@ const FeedItem: React.FC<FeedItemProps> = ({
       {/* Content Body */}
       {renderThumbnail()}
 
+      {/* Search match snippet */}
+      {item.searchSnippet && (
+        <div className="px-3 py-2 border-t border-slate-50 bg-yellow-50/40">
+          <p className="text-xs text-slate-600 line-clamp-3 leading-relaxed">
+            {renderSearchSnippet(item.searchSnippet)}
+          </p>
+        </div>
+      )}
+
       {/* Footer / Actions */}
       <div className="px-3 py-2 border-t border-slate-50 flex items-center justify-between text-slate-400 bg-white">
         <div className="flex items-center gap-2">
           <span className="text-[10px] font-medium">{formattedDate}</span>
         </div>
 
-        <div className="flex items-center gap-1 opacity-100 lg:opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className={`flex items-center gap-1 opacity-100 lg:opacity-0 group-hover:opacity-100 transition-opacity ${isSelectionMode ? 'hidden' : ''}`}>
           {isTrashView ? (
             <>
               <button
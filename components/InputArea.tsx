@@ -3,7 +3,8 @@ import { Paperclip, Image as ImageIcon, X, Send, Wand2, Loader2, FileText, Plus,
 import { Item, ItemType, Tag } from '../types';
 import { suggestTitle, formatText } from '../services/geminiService';
 import { useSettings } from '../contexts/SettingsContext';
-import { sanitizeHtml, hasRichFormatting } from '../utils/htmlSanitizer';
+import { sanitizeHtml } from '../utils/htmlSanitizer';
+import { getRichPasteContent } from '../utils/richPaste';
 import SketchCanvas, { SketchCanvasHandle } from './SketchCanvas';
 
 // Tag color utility functions
@@ -72,7 +73,10 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
   const [text, setText] = useState(draft?.text || '');
   const [htmlContent, setHtmlContent] = useState<string | undefined>(draft?.htmlContent || undefined);
   const [title, setTitle] = useState(draft?.title || '');
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const file = files[0] || null;
+  // 파일이 여러 개면 앨범 하나로 저장할지, 파일마다 따로 저장할지
+  const [groupAsAlbum, setGroupAsAlbum] = useState(true);
   const [selectedTags, setSelectedTags] = useState<string[]>(draft?.selectedTags || []);
   const [autoMatchedTags, setAutoMatchedTags] = useState<string[]>([]); // Track which tags were auto-matched
   const [isExpanded, setIsExpanded] = useState(false);
@@ -258,169 +262,37 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
     return ItemType.TEXT;
   };
 
-  // RTF를 HTML로 변환 (간단한 변환 - 색상 정보 추출)
-  const rtfToHtml = (rtf: string): string | null => {
-    try {
-      // RTF 색상 테이블 추출
-      const colorTableMatch = rtf.match(/\\colortbl;(.*?)}/);
-      if (!colorTableMatch) return null;
-
-      const colors: string[] = ['#000000']; // index 0은 자동 색상
-      const colorDefs = colorTableMatch[1].split(';');
-      for (const def of colorDefs) {
-        const r = def.match(/\\red(\d+)/)?.[1] || '0';
-        const g = def.match(/\\green(\d+)/)?.[1] || '0';
-        const b = def.match(/\\blue(\d+)/)?.[1] || '0';
-        if (r || g || b) {
-          colors.push(`rgb(${r},${g},${b})`);
-        }
-      }
-
-      // RTF 본문 추출 (색상 테이블 이후)
-      let body = rtf.substring(colorTableMatch.index! + colorTableMatch[0].length);
-
-      // RTF 제어 코드 처리
-      let html = '';
-      let currentColor = '';
-      let i = 0;
-
-      while (i < body.length) {
-        if (body[i] === '\\') {
-          // 색상 변경 감지
-          const cfMatch = body.substring(i).match(/^\\cf(\d+)/);
-          if (cfMatch) {
-            const colorIndex = parseInt(cfMatch[1]);
-            if (colors[colorIndex]) {
-              if (currentColor) html += '</span>';
-              currentColor = colors[colorIndex];
-              html += `<span style="color:${currentColor}">`;
-            }
-            i += cfMatch[0].length;
-            continue;
-          }
-
-          // 줄바꿈
-          if (body.substring(i, i + 4) === '\\par') {
-            html += '<br>';
-            i += 4;
-            continue;
-          }
-
-          // 기타 제어 코드 스킵
-          const ctrlMatch = body.substring(i).match(/^\\[a-z]+\d*\s?/);
-          if (ctrlMatch) {
-            i += ctrlMatch[0].length;
-            continue;
-          }
-
-          // 이스케이프 문자
-          if (body[i + 1] === '\\' || body[i + 1] === '{' || body[i + 1] === '}') {
-            html += body[i + 1];
-            i += 2;
-            continue;
-          }
-
-          i++;
-        } else if (body[i] === '{' || body[i] === '}') {
-          i++;
-        } else if (body[i] === '\r' || body[i] === '\n') {
-          i++;
-        } else {
-          html += body[i];
-          i++;
-        }
-      }
-
-      if (currentColor) html += '</span>';
-
-      // 의미있는 HTML이 생성되었는지 확인
-      if (html.includes('<span')) {
-        return `<pre style="font-family: monospace; white-space: pre-wrap;"><code>${html}</code></pre>`;
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
   const handlePaste = useCallback((e: ClipboardEvent) => {
     // 파일 붙여넣기 처리
     if (e.clipboardData?.files.length) {
-      const pastedFile = e.clipboardData.files[0];
-      setFile(pastedFile);
+      setFiles(Array.from(e.clipboardData.files));
       setIsExpanded(true);
       e.preventDefault();
       return;
     }
 
-    // 클립보드 데이터 가져오기
-    const html = e.clipboardData?.getData('text/html');
-    const rtf = e.clipboardData?.getData('text/rtf');
-    const plainText = e.clipboardData?.getData('text/plain');
-
-    // 1. RTF 처리 (VS Code 등 코드 에디터에서 복사한 경우)
-    if (rtf && plainText && !html) {
-      const rtfHtml = rtfToHtml(rtf);
-      if (rtfHtml) {
-        e.preventDefault();
-
-        const textarea = textareaRef.current;
-        if (textarea) {
-          const start = textarea.selectionStart;
-          const end = textarea.selectionEnd;
-          const newText = text.substring(0, start) + plainText + text.substring(end);
-          setText(newText);
-          setHtmlContent(rtfHtml);
-          setIsExpanded(true);
-
-          setTimeout(() => {
-            textarea.selectionStart = textarea.selectionEnd = start + plainText.length;
-            textarea.focus();
-          }, 0);
-        } else {
-          setText(prev => prev + plainText);
-          setHtmlContent(rtfHtml);
-          setIsExpanded(true);
-        }
-        return;
-      }
-    }
+    // 서식 있는 내용 (RTF, 표, 서식 텍스트 등)
+    const richContent = getRichPasteContent(e.clipboardData);
+    if (!richContent) return;
+    e.preventDefault();
 
-    // 2. HTML 처리 (표, 서식 텍스트 등)
-    if (html) {
-      // HTML이 서식을 포함하는지 확인
-      if (hasRichFormatting(html)) {
-        e.preventDefault();
-
-        // HTML sanitize
-        const sanitized = sanitizeHtml(html);
-
-        // plainText가 없으면 HTML에서 텍스트 추출
-        const textContent = plainText || (() => {
-          const parser = new DOMParser();
-          const doc = parser.parseFromString(html, 'text/html');
-          return doc.body.textContent || '';
-        })();
-
-        const textarea = textareaRef.current;
-        if (textarea) {
-          const start = textarea.selectionStart;
-          const end = textarea.selectionEnd;
-          const newText = text.substring(0, start) + textContent + text.substring(end);
-          setText(newText);
-          setHtmlContent(sanitized);
-          setIsExpanded(true);
-
-          setTimeout(() => {
-            textarea.selectionStart = textarea.selectionEnd = start + textContent.length;
-            textarea.focus();
-          }, 0);
-        } else {
-          setText(prev => prev + textContent);
-          setHtmlContent(sanitized);
-          setIsExpanded(true);
-        }
-      }
+    const textarea = textareaRef.current;
+    if (textarea) {
+      const start = textarea.selectionStart;
+      const end = textarea.selectionEnd;
+      const newText = text.substring(0, start) + richContent.text + text.substring(end);
+      setText(newText);
+      setHtmlContent(richContent.html);
+      setIsExpanded(true);
+
+      setTimeout(() => {
+        textarea.selectionStart = textarea.selectionEnd = start + richContent.text.length;
+        textarea.focus();
+      }, 0);
+    } else {
+      setText(prev => prev + richContent.text);
+      setHtmlContent(richContent.html);
+      setIsExpanded(true);
     }
   }, [text]);
 
@@ -438,7 +310,7 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (e.dataTransfer.files.length) {
-      setFile(e.dataTransfer.files[0]);
+      setFiles(Array.from(e.dataTransfer.files));
       setIsExpanded(true);
     }
   };
@@ -546,11 +418,24 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
       return;
     }
 
-    const newItem: Omit<Item, 'id' | 'createdAt'> & { encryptionKey?: string } = {
+    const saveAsAlbum = !sketchBlob && files.length > 1 && groupAsAlbum;
+    if (saveAsAlbum && isEncrypted) {
+      alert('앨범은 암호화할 수 없습니다.');
+      return;
+    }
+    if (saveAsAlbum) {
+      type = files.every(f => f.type.startsWith('image/')) ? ItemType.IMAGE
+        : files.every(f => f.type.startsWith('video/')) ? ItemType.VIDEO
+        : ItemType.FILE;
+    }
+
+    const newItem: Omit<Item, 'id' | 'createdAt'> & { encryptionKey?: string; autoTag?: boolean } = {
       type,
       content: sketchBlob ? '' : text,
       htmlContent: htmlContent,
       tags: selectedTags,
+      // Keyword matches are already in selectedTags (and may have been unselected)
+      autoTag: false,
       title: title || undefined,
       isFavorite: false,
       isEncrypted,
@@ -579,7 +464,22 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
       }
     }
 
-    onSave(newItem);
+    if (saveAsAlbum) {
+      newItem.fileBlobs = files;
+      onSave(newItem);
+    } else if (!sketchBlob && files.length > 1) {
+      // 파일마다 아이템 하나씩
+      files.forEach(f => onSave({
+        ...newItem,
+        type: detectType('', f),
+        fileBlob: f,
+        fileName: f.name,
+        fileSize: f.size,
+        mimeType: f.type,
+      }));
+    } else {
+      onSave(newItem);
+    }
 
     // Clear localStorage draft
     localStorage.removeItem(DRAFT_STORAGE_KEY);
@@ -589,7 +489,8 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
     setHtmlContent(undefined);
     setSavedHtmlContent(undefined);
     setTitle('');
-    setFile(null);
+    setFiles([]);
+    setGroupAsAlbum(true);
     setSelectedTags([]);
     setAutoMatchedTags([]);
     setIsExpanded(false);
@@ -642,21 +543,36 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
       onBlur={handleBlur}
     >
       {/* File Preview Area */}
-      {file && (
-        <div className="flex items-center gap-3 p-3 mb-3 bg-slate-50 rounded-lg border border-slate-100 group relative">
-          <div className="w-10 h-10 flex items-center justify-center bg-indigo-100 text-indigo-600 rounded-lg shrink-0">
-            {file.type.startsWith('image/') ? <ImageIcon size={20} /> : <FileText size={20} />}
-          </div>
-          <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-slate-700 truncate">{file.name}</p>
-            <p className="text-xs text-slate-400">{(file.size / 1024).toFixed(0)} KB</p>
-          </div>
-          <button
-            onClick={() => setFile(null)}
-            className="p-1 hover:bg-slate-200 rounded-full text-slate-500"
-          >
-            <X size={16} />
-          </button>
+      {files.length > 0 && (
+        <div className="mb-3 space-y-2">
+          {files.map((f, index) => (
+            <div key={`${f.name}-${index}`} className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100 group relative">
+              <div className="w-10 h-10 flex items-center justify-center bg-indigo-100 text-indigo-600 rounded-lg shrink-0">
+                {f.type.startsWith('image/') ? <ImageIcon size={20} /> : <FileText size={20} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700 truncate">{f.name}</p>
+                <p className="text-xs text-slate-400">{(f.size / 1024).toFixed(0)} KB</p>
+              </div>
+              <button
+                onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                className="p-1 hover:bg-slate-200 rounded-full text-slate-500"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+          {files.length > 1 && (
+            <label className="flex items-center gap-2 px-1 text-sm text-slate-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={groupAsAlbum}
+                onChange={(e) => setGroupAsAlbum(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              앨범으로 묶기 ({files.length}개 파일)
+            </label>
+          )}
         </div>
       )}
 
@@ -1096,8 +1012,9 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
           <div className="flex items-center justify-between pt-2 border-t border-slate-100">
             <div className="flex items-center gap-1">
               <label className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full cursor-pointer transition-colors">
-                <input type="file" className="hidden" onChange={(e) => {
-                  if (e.target.files?.length) setFile(e.target.files[0]);
+                <input type="file" multiple className="hidden" onChange={(e) => {
+                  if (e.target.files?.length) setFiles(Array.from(e.target.files));
+                  e.target.value = '';
                 }} />
                 <Paperclip size={18} />
               </label>
@@ -1109,7 +1026,7 @@ const InputArea = forwardRef<InputAreaHandle, InputAreaProps>(({ onSave, availab
                   setIsExpanded(false);
                   setText('');
                   setHtmlContent(undefined);
-                  setFile(null);
+                  setFiles([]);
                   setTitle('');
                   setSelectedTags([]);
                   setIsEncrypted(false);
@@ -0,0 +1,225 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Code, Loader2, Sparkles, Check, X } from 'lucide-react';
+import { formatText } from '../services/geminiService';
+import type { ItemContentUpdate } from '../services/db';
+import { useSettings } from '../contexts/SettingsContext';
+import { sanitizeHtml } from '../utils/htmlSanitizer';
+import { getRichPasteContent } from '../utils/richPaste';
+
+interface ItemContentEditorProps {
+  initialContent: ItemContentUpdate;
+  isSaving?: boolean;
+  onSave: (update: ItemContentUpdate) => void;
+  onCancel: () => void;
+}
+
+// 기존 아이템 본문 편집기 - InputArea와 같은 입력 동작 (서식 붙여넣기, 코드 모드, 제출 단축키)
+const ItemContentEditor: React.FC<ItemContentEditorProps> = ({ initialContent, isSaving = false, onSave, onCancel }) => {
+  const { settings } = useSettings();
+  const [text, setText] = useState(initialContent.content);
+  const [htmlContent, setHtmlContent] = useState<string | undefined>(initialContent.htmlContent);
+  const [isCode, setIsCode] = useState(!!initialContent.isCode);
+  const [savedHtmlContent, setSavedHtmlContent] = useState<string | undefined>(undefined); // Save htmlContent when switching to code mode
+  const [isFormatting, setIsFormatting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const hasChanges = text !== initialContent.content
+    || (htmlContent || undefined) !== (initialContent.htmlContent || undefined)
+    || isCode !== !!initialContent.isCode;
+
+  // 편집 시작 시 포커스 (커서는 끝으로)
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = textarea.value.length;
+    }
+  }, []);
+
+  // Auto-resize textarea
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto';
+        textareaRef.current.style.height = textareaRef.current.scrollHeight + 'px';
+      }
+    }, 0);
+    return () => clearTimeout(timeoutId);
+  }, [text, isCode]);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const richContent = getRichPasteContent(e.clipboardData);
+    if (!richContent) return;
+    e.preventDefault();
+
+    const textarea = e.currentTarget;
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    setText(text.substring(0, start) + richContent.text + text.substring(end));
+    setHtmlContent(richContent.html);
+
+    setTimeout(() => {
+      textarea.selectionStart = textarea.selectionEnd = start + richContent.text.length;
+      textarea.focus();
+    }, 0);
+  };
+
+  // Handle code mode toggle - save/restore htmlContent
+  const handleCodeToggle = () => {
+    if (!isCode) {
+      if (htmlContent) {
+        setSavedHtmlContent(htmlContent);
+        setHtmlContent(undefined);
+      }
+      setIsCode(true);
+    } else {
+      if (savedHtmlContent) {
+        setHtmlContent(savedHtmlContent);
+        setSavedHtmlContent(undefined);
+      }
+      setIsCode(false);
+    }
+  };
+
+  const handleFormatText = async () => {
+    if (!text || htmlContent) return;
+    setIsFormatting(true);
+    try {
+      const formatted = await formatText(text);
+      if (formatted && formatted !== text) {
+        setHtmlContent(formatted);
+      }
+    } catch (error) {
+      console.error('Failed to format text:', error);
+    } finally {
+      setIsFormatting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!text.trim() || !hasChanges || isSaving) return;
+    onSave({ content: text, htmlContent: isCode ? undefined : htmlContent, isCode });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const shouldSubmit = settings.submitShortcut === 'enter'
+      ? e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey
+      : e.key === 'Enter' && (e.ctrlKey || e.metaKey);
+
+    if (shouldSubmit) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* HTML Rich Text Preview - hidden in code mode */}
+      {htmlContent && !isCode && (
+        <div className="p-3 bg-gradient-to-r from-purple-50 to-indigo-50 rounded-lg border border-purple-100">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-purple-600 flex items-center gap-1">
+              <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
+              서식 텍스트
+            </span>
+            <button
+              onClick={() => {
+                setHtmlContent(undefined);
+                setSavedHtmlContent(undefined);
+              }}
+              className="text-xs text-purple-500 hover:text-purple-700 px-2 py-0.5 rounded hover:bg-purple-100 transition-colors"
+            >
+              서식 제거
+            </button>
+          </div>
+          <div
+            className="text-sm text-slate-700 bg-white rounded p-2 border border-purple-100 max-h-[200px] overflow-auto prose prose-sm max-w-none"
+            dangerouslySetInnerHTML={{ __html: sanitizeHtml(htmlContent) }}
+          />
+          <p className="mt-2 text-xs text-purple-500">아래 텍스트를 수정하면 서식은 그대로 유지됩니다. 서식까지 바꾸려면 서식 텍스트를 다시 붙여넣으세요.</p>
+        </div>
+      )}
+
+      {isCode ? (
+        <div className="relative rounded-lg overflow-hidden">
+          <div className="absolute top-2 left-3 flex items-center gap-2 pointer-events-none z-10">
+            <Code size={14} className="text-emerald-400" />
+            <span className="text-[10px] font-medium uppercase tracking-wider text-emerald-400/70">Code</span>
+            {savedHtmlContent && (
+              <span className="text-[10px] px-1.5 py-0.5 bg-purple-500/20 text-purple-300 rounded ml-2">
+                서식 저장됨
+              </span>
+            )}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder="코드를 입력하세요..."
+            className="w-full resize-none bg-slate-900 text-slate-100 font-mono text-sm outline-none placeholder:text-slate-500 min-h-[120px] p-3 pt-8 max-h-[60vh] rounded-lg leading-relaxed"
+            spellCheck={false}
+          />
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder="내용을 입력하세요..."
+          className="w-full resize-none p-3 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-700 placeholder:text-slate-400 min-h-[120px] max-h-[60vh] leading-relaxed"
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCodeToggle}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-sm font-medium transition-colors ${isCode
+              ? 'bg-emerald-100 text-emerald-700'
+              : 'text-slate-500 hover:bg-slate-100'
+              }`}
+            title="코드 블록"
+          >
+            <Code size={16} />
+            <span>Code</span>
+          </button>
+          {text && !htmlContent && !isCode && (
+            <button
+              onClick={handleFormatText}
+              disabled={isFormatting}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-purple-600 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="AI로 서식 자동 적용"
+            >
+              {isFormatting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              <span>{isFormatting ? '서식 적용 중...' : 'AI 서식 적용'}</span>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X size={16} />
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!text.trim() || !hasChanges || isSaving}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={settings.submitShortcut === 'enter' ? 'Enter로 저장' : 'Ctrl+Enter로 저장'}
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+            저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemContentEditor;
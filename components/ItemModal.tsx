@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Item, ItemType, Tag } from '../types';
-import { X, Copy, Download, ExternalLink, Check, FileText, Image as ImageIcon, Video, Eye, LockKeyhole, Unlock, Play, Music, Code, Wand2, Loader2, Pencil, Info, ChevronDown, ChevronUp, Maximize2, Minimize2, ZoomIn, ZoomOut, MoveHorizontal, RotateCcw, Bell, Timer, Expand, Shrink } from 'lucide-react';
-import { getFileUrl, unlockItem, updateItemTitle, updateItemReminder, updateItemExpiry } from '../services/db';
+import { X, Copy, Download, ExternalLink, Check, FileText, Image as ImageIcon, Video, Eye, LockKeyhole, Unlock, Play, Music, Code, Wand2, Loader2, Pencil, Info, ChevronDown, ChevronUp, Maximize2, Minimize2, ZoomIn, ZoomOut, MoveHorizontal, RotateCcw, Bell, Timer, Expand, Shrink, History, ShieldAlert, Link2 } from 'lucide-react';
+import { getFileUrl, getFileDownloadUrl, unlockItem, getDecryptedFileUrl, updateItemTitle, updateItemReminder, updateItemExpiry, updateItemContent, updateEncryptedItemContent, ItemContentUpdate, UnlockedItem } from '../services/db';
 import { suggestTitle } from '../services/geminiService';
 import { linkifyText } from '../utils/linkify';
 import FilePreviewModal from './FilePreviewModal';
 import { checkPreviewSupport, formatFileSize } from '../services/filePreviewService';
 import EncryptionUnlock from './EncryptionUnlock';
+import { useVault } from '../contexts/VaultContext';
+import ItemContentEditor from './ItemContentEditor';
+import ItemRevisions from './ItemRevisions';
+import ShareLinks from './ShareLinks';
+import AlbumGallery from './AlbumGallery';
 import { createHighlightedCodeHtml } from '../utils/codeHighlight';
 import { sanitizeHtml } from '../utils/htmlSanitizer';
 
@@ -69,9 +74,11 @@ interface ItemModalProps {
   onUpdateTitle?: (itemId: string, title: string) => void;
   onUpdateReminder?: (itemId: string, reminderAt: number | null) => void;
   onUpdateExpiry?: (itemId: string, expiresAt: number | null) => void;
+  onUpdateContent?: (itemId: string, update: ItemContentUpdate) => void;
 }
 
-const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUpdateTags, onToggleEncryption, onUpdateTitle, onUpdateReminder, onUpdateExpiry }) => {
+const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUpdateTags, onToggleEncryption, onUpdateTitle, onUpdateReminder, onUpdateExpiry, onUpdateContent }) => {
+  const vault = useVault();
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [copied, setCopied] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
@@ -91,8 +98,18 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
   const [editTitle, setEditTitle] = useState('');
   const [isSuggestingTitle, setIsSuggestingTitle] = useState(false);
   
+  // 본문 편집/버전 기록 상태
+  const [isEditingContent, setIsEditingContent] = useState(false);
+  const [isSavingContent, setIsSavingContent] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showShareLinks, setShowShareLinks] = useState(false);
+  
   // 암호화된 아이템 잠금 해제 상태
-  const [unlockedItem, setUnlockedItem] = useState<Item | null>(null);
+  // 복호화된 내용과 키는 모달이 열려 있는 동안 메모리에만 보관
+  const [unlockSession, setUnlockSession] = useState<UnlockedItem | null>(null);
+  const [isVaultSession, setIsVaultSession] = useState(false); // 금고로 연 경우 금고가 잠기면 함께 잠김
+  const [decryptedFileUrl, setDecryptedFileUrl] = useState<string | null>(null);
+  const unlockedItem = unlockSession?.item ?? null;
   const [isUnlocking, setIsUnlocking] = useState(false);
   const [unlockError, setUnlockError] = useState<string | null>(null);
   
@@ -117,9 +134,17 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
     setUnlockError(null);
     try {
       const unlocked = await unlockItem(item.id, key);
-      setUnlockedItem(unlocked);
+      setUnlockSession(unlocked);
+      setIsVaultSession(false);
+      // 금고가 열려 있으면 다음부터 암호 없이 열 수 있도록 키 보관
+      if (unlocked.itemKey && vault.status === 'unlocked') {
+        vault.addItemKey(item.id, unlocked.itemKey).catch(err => console.error('Failed to add item to vault:', err));
+      }
     } catch (error) {
-      setUnlockError('비밀번호가 올바르지 않습니다.');
+      // 잠금(429) 안내 등 서버 메시지를 그대로 표시
+      setUnlockError(error instanceof Error && error.message !== 'Failed to unlock item'
+        ? error.message
+        : '비밀번호가 올바르지 않습니다.');
     }
     setIsUnlocking(false);
   };
@@ -156,6 +181,31 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
     setEditTitle('');
   };
 
+  // 본문 변경 반영 (편집 저장, 버전 복원)
+  const applyContentUpdate = (update: ItemContentUpdate) => {
+    if (!item) return;
+    onUpdateContent?.(item.id, update);
+  };
+
+  // 본문 저장 (암호화된 아이템은 브라우저에서 다시 암호화)
+  const handleSaveContent = async (update: ItemContentUpdate) => {
+    if (!item) return;
+    setIsSavingContent(true);
+    try {
+      if (item.isEncrypted && unlockSession) {
+        setUnlockSession(await updateEncryptedItemContent(unlockSession, update));
+      } else {
+        await updateItemContent(item.id, update);
+        applyContentUpdate(update);
+      }
+      setIsEditingContent(false);
+    } catch (error) {
+      console.error('Failed to update content:', error);
+    } finally {
+      setIsSavingContent(false);
+    }
+  };
+
   // AI 제목 추천
   const handleSuggestTitle = async () => {
     const content = displayItem?.content || item?.content;
@@ -238,11 +288,16 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
       setHasChanges(false);
       setShowFilePreview(false);
       // 암호화 상태 리셋
-      setUnlockedItem(null);
+      setUnlockSession(null);
+      setIsVaultSession(false);
       setUnlockError(null);
       // 제목 편집 상태 리셋
       setIsEditingTitle(false);
       setEditTitle('');
+      // 본문 편집 상태 리셋
+      setIsEditingContent(false);
+      setShowRevisions(false);
+      setShowShareLinks(false);
       // 메타데이터 상태 리셋
       setImageMetadata(null);
       setVideoMetadata(null);
@@ -250,18 +305,76 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
     }
   }, [item?.id, item?.tags]);
 
+  // 금고가 열려 있고 키가 보관된 아이템은 바로 잠금 해제
+  useEffect(() => {
+    if (!isOpen || !item?.isEncrypted || unlockSession || !vault.hasItemKey(item.id)) return;
+
+    let cancelled = false;
+    setIsUnlocking(true);
+    vault.unlockItem(item.id)
+      .then(unlocked => {
+        if (cancelled || !unlocked) return;
+        setUnlockSession(unlocked);
+        setIsVaultSession(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsUnlocking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, item?.id, item?.isEncrypted, vault.status]);
+
+  // 금고가 잠기면 금고로 연 아이템도 다시 잠금
+  useEffect(() => {
+    if (vault.status !== 'unlocked' && isVaultSession) {
+      setUnlockSession(null);
+      setIsVaultSession(false);
+      setIsEditingContent(false);
+    }
+  }, [vault.status, isVaultSession]);
+
+  // 암호화된 파일은 내려받아 복호화한 뒤 object URL로 표시
+  useEffect(() => {
+    if (!unlockSession?.itemKey || !unlockSession.fileIv || !unlockSession.item.fileKey) {
+      setDecryptedFileUrl(null);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getDecryptedFileUrl(unlockSession)
+      .then(url => {
+        if (cancelled) {
+          if (url) URL.revokeObjectURL(url);
+          return;
+        }
+        objectUrl = url;
+        setDecryptedFileUrl(url);
+      })
+      .catch(error => console.error('Failed to decrypt file:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [unlockSession?.item.fileKey, unlockSession?.fileIv]);
+
   // Get file URL (암호화 해제된 아이템 기준)
   const fileUrl = useMemo(() => {
-    const targetItem = item?.isEncrypted && unlockedItem ? unlockedItem : item;
-    if (targetItem?.fileKey) {
-      return getFileUrl(targetItem.fileKey);
+    if (item?.isEncrypted) {
+      if (!unlockSession) return null;
+      // 레거시 아이템의 파일은 아직 평문
+      return unlockSession.itemKey ? decryptedFileUrl : getFileUrl(unlockSession.item);
     }
-    return null;
-  }, [item?.fileKey, item?.isEncrypted, unlockedItem]);
+    return item ? getFileUrl(item) : null;
+  }, [item?.fileKey, item?.fileUrl, item?.isEncrypted, unlockSession, decryptedFileUrl]);
 
   const handleCopy = async () => {
-    if (item && (item.type === ItemType.LINK || item.type === ItemType.TEXT)) {
-      await navigator.clipboard.writeText(item.content);
+    const copyItem = displayItem || item;
+    if (copyItem && (copyItem.type === ItemType.LINK || copyItem.type === ItemType.TEXT)) {
+      await navigator.clipboard.writeText(copyItem.content);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -270,8 +383,8 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
   const handleDownload = () => {
     if (fileUrl && item) {
       const a = document.createElement('a');
-      a.href = fileUrl;
-      a.download = item.fileName || 'download';
+      a.href = getFileDownloadUrl(fileUrl);
+      a.download = displayItem?.fileName || item.fileName || 'download';
       a.target = '_blank';
       a.click();
     }
@@ -305,6 +418,11 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
+        // 본문 편집 중에는 편집만 취소
+        if (isEditingContent) {
+          setIsEditingContent(false);
+          return;
+        }
         handleClose();
       }
     };
@@ -316,7 +434,7 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
       document.removeEventListener('keydown', handleEscape);
       document.body.style.overflow = '';
     };
-  }, [isOpen, hasChanges, item]);
+  }, [isOpen, hasChanges, item, isEditingContent]);
 
   if (!isOpen || !item) return null;
   
@@ -334,6 +452,11 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
         />
       );
     }
+
+    // 앨범: 첨부 파일을 순서대로 넘겨보기
+    if (contentItem.files && contentItem.files.length > 1) {
+      return <AlbumGallery key={contentItem.id} files={contentItem.files} />;
+    }
     
     switch (contentItem.type) {
       case ItemType.IMAGE:
@@ -1003,7 +1126,7 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
               </div>
             )}
             {/* 암호화 토글 버튼 */}
-            {onToggleEncryption && !isLocked && (
+            {onToggleEncryption && !isLocked && !(item.files && item.files.length > 1) && (
               <button
                 onClick={handleToggleEncryption}
                 className={`p-2 rounded-lg transition-colors ${
@@ -1038,8 +1161,45 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-y-auto p-6">
-          {renderContent()}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* 마지막으로 연 이후 틀린 비밀번호 시도 */}
+          {!isLocked && unlockSession?.failedAttempts && unlockSession.failedAttempts.count > 0 && (
+            <div className="flex items-start gap-2 px-3 py-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg">
+              <ShieldAlert size={16} className="mt-0.5 shrink-0" />
+              <span>
+                마지막으로 연 이후 잘못된 비밀번호 시도가 {unlockSession.failedAttempts.count}회 있었습니다.
+                {unlockSession.failedAttempts.lastFailedAt && (
+                  <span className="text-amber-600"> (최근: {new Date(unlockSession.failedAttempts.lastFailedAt).toLocaleString('ko-KR')})</span>
+                )}
+              </span>
+            </div>
+          )}
+          {isEditingContent && !isLocked ? (
+            <ItemContentEditor
+              initialContent={{ content: contentItem.content, htmlContent: contentItem.htmlContent, isCode: contentItem.isCode }}
+              isSaving={isSavingContent}
+              onSave={handleSaveContent}
+              onCancel={() => setIsEditingContent(false)}
+            />
+          ) : (
+            renderContent()
+          )}
+          {showRevisions && !isLocked && !item.isEncrypted && (
+            <ItemRevisions
+              itemId={item.id}
+              currentContent={{ content: contentItem.content, htmlContent: contentItem.htmlContent, isCode: contentItem.isCode }}
+              onRestored={applyContentUpdate}
+              onClose={() => setShowRevisions(false)}
+            />
+          )}
+          {showShareLinks && !isLocked && (
+            <ShareLinks
+              itemId={item.id}
+              isEncrypted={!!item.isEncrypted}
+              itemKey={unlockSession?.itemKey?.key ?? null}
+              onClose={() => setShowShareLinks(false)}
+            />
+          )}
         </div>
 
         {/* Tags Section - only show when unlocked */}
@@ -1085,6 +1245,38 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
         {/* Actions - only show when unlocked */}
         {!isLocked && (
           <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+            {contentItem.type === ItemType.TEXT && onUpdateContent && (
+              <>
+                {!item.isEncrypted && (
+                  <button
+                    onClick={() => setShowRevisions(prev => !prev)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${showRevisions ? 'bg-slate-100 text-slate-800' : 'text-slate-600 hover:bg-slate-100'}`}
+                    title="버전 기록"
+                  >
+                    <History size={18} />
+                    History
+                  </button>
+                )}
+                {!isEditingContent && (
+                  <button
+                    onClick={() => setIsEditingContent(true)}
+                    className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="내용 편집"
+                  >
+                    <Pencil size={18} />
+                    Edit
+                  </button>
+                )}
+              </>
+            )}
+            <button
+              onClick={() => setShowShareLinks(prev => !prev)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${showShareLinks ? 'bg-slate-100 text-slate-800' : 'text-slate-600 hover:bg-slate-100'}`}
+              title="공유 링크"
+            >
+              <Link2 size={18} />
+              Share
+            </button>
             {(contentItem.type === ItemType.TEXT || contentItem.type === ItemType.LINK) && (
               <button
                 onClick={handleCopy}
@@ -1094,7 +1286,8 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, tags, isOpen, onClose, onUp
                 {copied ? 'Copied!' : 'Copy'}
               </button>
             )}
-            {contentItem.fileKey && (
+            {/* 앨범은 갤러리에서 현재 파일을 내려받음 */}
+            {contentItem.fileKey && !(contentItem.files && contentItem.files.length > 1) && (
               <button
                 onClick={handleDownload}
                 className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
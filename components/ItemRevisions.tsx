@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, RotateCcw, Code, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ItemRevision } from '../types';
+import { getItemRevisions, restoreItemRevision, ItemContentUpdate } from '../services/db';
+import { diffLines } from '../utils/textDiff';
+
+interface ItemRevisionsProps {
+  itemId: string;
+  currentContent: ItemContentUpdate;
+  onRestored: (update: ItemContentUpdate) => void;
+  onClose: () => void;
+}
+
+// 아이템 본문 버전 기록 - 목록, 현재 내용과의 diff, 복원
+const ItemRevisions: React.FC<ItemRevisionsProps> = ({ itemId, currentContent, onRestored, onClose }) => {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getItemRevisions(itemId);
+      setRevisions(loaded);
+      setSelectedId(prev => loaded.some(r => r.id === prev) ? prev : loaded[0]?.id ?? null);
+    } catch (err) {
+      console.error('Failed to load revisions:', err);
+      setError('버전 기록을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [itemId]);
+
+  const selectedRevision = revisions.find(r => r.id === selectedId) || null;
+
+  // 선택한 버전 → 현재 내용 변경점
+  const diff = useMemo(
+    () => selectedRevision ? diffLines(selectedRevision.content, currentContent.content) : [],
+    [selectedRevision, currentContent.content]
+  );
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    if (!confirm('이 버전으로 복원하시겠습니까? 현재 내용은 버전 기록에 남습니다.')) return;
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const restored = await restoreItemRevision(itemId, selectedRevision.id);
+      onRestored(restored);
+      await loadRevisions();
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('복원에 실패했습니다.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-b border-slate-200">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <History size={16} />
+          버전 기록
+          {!isLoading && <span className="text-xs text-slate-400">{revisions.length}개</span>}
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-8 text-sm text-slate-400">
+          <Loader2 size={16} className="animate-spin" />
+          불러오는 중...
+        </div>
+      ) : revisions.length === 0 ? (
+        <div className="py-8 text-center text-sm text-slate-400">
+          {error || '이전 버전이 없습니다.'}
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row max-h-[50vh]">
+          {/* Revision list */}
+          <ul className="sm:w-48 shrink-0 border-b sm:border-b-0 sm:border-r border-slate-100 overflow-y-auto max-h-40 sm:max-h-none">
+            {revisions.map(revision => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full px-4 py-2 text-left text-sm transition-colors ${revision.id === selectedId
+                    ? 'bg-indigo-50 text-indigo-700'
+                    : 'text-slate-600 hover:bg-slate-50'
+                    }`}
+                >
+                  <div className="flex items-center gap-1.5">
+                    {format(revision.createdAt, 'yyyy.MM.dd HH:mm')}
+                    {revision.isCode && <Code size={12} className="text-emerald-500" />}
+                  </div>
+                  <div className="text-xs text-slate-400 truncate">{revision.content.substring(0, 40) || '(빈 내용)'}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff against current content */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-slate-100">
+              <span className="text-xs text-slate-500">
+                <span className="text-red-600">− 선택한 버전</span>
+                <span className="mx-2 text-slate-300">|</span>
+                <span className="text-green-600">+ 현재 내용</span>
+              </span>
+              <button
+                onClick={handleRestore}
+                disabled={!selectedRevision || isRestoring}
+                className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isRestoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                이 버전으로 복원
+              </button>
+            </div>
+            {error && <p className="px-4 pt-2 text-xs text-red-500">{error}</p>}
+            <pre className="flex-1 overflow-auto p-2 text-xs font-mono leading-relaxed whitespace-pre-wrap break-words">
+              {diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={`px-2 ${line.type === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                      ? 'bg-red-50 text-red-800'
+                      : 'text-slate-600'
+                    }`}
+                >
+                  <span className="select-none inline-block w-4 text-slate-400">
+                    {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+                  </span>
+                  {line.text || ' '}
+                </div>
+              ))}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemRevisions;
@@ -1,8 +1,19 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 
+const DEFAULT_ISSUER_HOST = 'auth.huny.dev';
+
 const LoginScreen: React.FC = () => {
-  const { login, isLoading, authError, clearAuthError } = useAuth();
+  const { login, loginWithPassword, authConfig, isLoading, authError, clearAuthError } = useAuth();
+  // 로컬 계정 폼 상태
+  const [isSignup, setIsSignup] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const issuerHost = authConfig?.issuer ? new URL(authConfig.issuer).host : DEFAULT_ISSUER_HOST;
+  // Redirected here by the share target: the shared content is saved after sign-in
+  const hasPendingShare = new URLSearchParams(window.location.search).get('shared') === 'login';
 
   const handleLogin = async () => {
     // Clear any previous error before attempting login
@@ -16,6 +27,107 @@ const LoginScreen: React.FC = () => {
     }
   };
 
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (authError) {
+      clearAuthError();
+    }
+    setIsSubmitting(true);
+    await loginWithPassword(username.trim(), password, isSignup ? { name: name.trim() || undefined } : undefined);
+    setIsSubmitting(false);
+  };
+
+  const inputClassName = 'w-full px-4 py-3 bg-gray-900/60 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const buttonClassName = 'w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-medium rounded-xl transition-all duration-200 flex items-center justify-center gap-3 shadow-lg hover:shadow-xl hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:hover:scale-100';
+  const loginIcon = (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
+    </svg>
+  );
+
+  // 인증 방식별 로그인 영역 (Worker의 AUTH_PROVIDER 설정)
+  const renderLogin = () => {
+    if (!authConfig) {
+      return null;
+    }
+
+    if (authConfig.provider === 'local') {
+      return (
+        <form onSubmit={handlePasswordLogin} className="space-y-3">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="아이디"
+            autoComplete="username"
+            autoFocus
+            required
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="비밀번호"
+            autoComplete={isSignup ? 'new-password' : 'current-password'}
+            required
+            className={inputClassName}
+          />
+          {isSignup && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="이름 (선택)"
+              autoComplete="name"
+              className={inputClassName}
+            />
+          )}
+          <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+            {loginIcon}
+            {isSignup ? '계정 만들기' : '로그인'}
+          </button>
+          {authConfig.allowSignup && (
+            <button
+              type="button"
+              onClick={() => setIsSignup(prev => !prev)}
+              className="w-full text-sm text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              {isSignup ? '이미 계정이 있어요' : '새 계정 만들기'}
+            </button>
+          )}
+        </form>
+      );
+    }
+
+    if (authConfig.provider === 'dev') {
+      return (
+        <>
+          <p className="text-amber-300 text-sm text-center mb-4">
+            개발 모드: 고정된 테스트 사용자로 로그인합니다.
+          </p>
+          <button onClick={handleLogin} className={buttonClassName}>
+            {loginIcon}
+            테스트 사용자로 로그인
+          </button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <button onClick={handleLogin} className={buttonClassName}>
+          {loginIcon}
+          {issuerHost === DEFAULT_ISSUER_HOST ? 'Huny 계정으로 로그인' : `${issuerHost} 계정으로 로그인`}
+        </button>
+
+        <p className="text-gray-500 text-sm text-center mt-6">
+          {issuerHost}를 통해 안전하게 인증됩니다
+        </p>
+      </>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center">
@@ -52,19 +164,13 @@ const LoginScreen: React.FC = () => {
             먼저 로그인해주세요.
           </p>
 
-          <button
-            onClick={handleLogin}
-            className="w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-medium rounded-xl transition-all duration-200 flex items-center justify-center gap-3 shadow-lg hover:shadow-xl hover:scale-[1.02] active:scale-[0.98]"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
-            </svg>
-            Huny 계정으로 로그인
-          </button>
+          {hasPendingShare && (
+            <p className="text-amber-300 text-sm text-center -mt-4 mb-6">
+              공유한 항목은 로그인하면 저장됩니다.
+            </p>
+          )}
 
-          <p className="text-gray-500 text-sm text-center mt-6">
-            auth.huny.dev를 통해 안전하게 인증됩니다
-          </p>
+          {renderLogin()}
         </div>
 
         {/* Auth Error Message */}
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { getAIUsageStats, AIUsageStats } from '../services/geminiService';
+import ApiTokens from './ApiTokens';
+import Webhooks from './Webhooks';
+import EmailInbox from './EmailInbox';
+import TelegramLink from './TelegramLink';
 
 interface ProfileModalProps {
   isOpen: boolean;
@@ -336,6 +340,18 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, onExport }
           </div>
         )}
 
+        {/* Personal API Tokens */}
+        <ApiTokens />
+
+        {/* Outgoing Webhooks */}
+        <Webhooks />
+
+        {/* Email Capture */}
+        <EmailInbox />
+
+        {/* Telegram Bot */}
+        <TelegramLink />
+
         {/* Danger Zone */}
         <div className="border border-red-200 rounded-xl p-4 space-y-3">
           <h4 className="font-medium text-red-600 text-sm flex items-center gap-2">
@@ -399,7 +415,7 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, onExport }
         </div>
 
         {/* Content */}
-        <div className="p-4">
+        <div className="p-4 max-h-[80vh] overflow-y-auto">
           {renderContent()}
         </div>
       </div>
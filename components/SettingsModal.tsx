@@ -211,6 +211,33 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             </p>
           </div>
 
+          {/* Vault Auto-Lock */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              금고 자동 잠금
+            </label>
+            <select
+              value={settings.vaultAutoLockMinutes}
+              onChange={(e) => updateSetting('vaultAutoLockMinutes', Number(e.target.value) as Settings['vaultAutoLockMinutes'])}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value={5}>5분 동안 사용하지 않으면</option>
+              <option value={15}>15분 동안 사용하지 않으면</option>
+              <option value={30}>30분 동안 사용하지 않으면</option>
+              <option value={60}>1시간 동안 사용하지 않으면</option>
+              <option value={0}>자동 잠금 안 함</option>
+            </select>
+            <label className="flex items-center gap-2 mt-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.vaultLockOnHide}
+                onChange={(e) => updateSetting('vaultLockOnHide', e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              다른 탭으로 이동하면 잠금
+            </label>
+          </div>
+
         </div>
 
         {/* Footer */}
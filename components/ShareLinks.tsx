@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, Loader2, Copy, Check, Trash2, LockKeyhole, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ShareLink } from '../types';
+import { getShareLinks, createShareLink, revokeShareLink } from '../services/db';
+import { exportItemKeyForLink } from '../services/encryptionService';
+
+interface ShareLinksProps {
+  itemId: string;
+  isEncrypted: boolean;
+  itemKey: CryptoKey | null; // 암호화된 아이템은 링크의 #key=... 로 브라우저에서 복호화
+  onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: { label: string; duration: number | null }[] = [
+  { label: '만료 없음', duration: null },
+  { label: '1일', duration: DAY },
+  { label: '7일', duration: 7 * DAY },
+  { label: '30일', duration: 30 * DAY },
+];
+
+const STATUS_LABELS: Record<ShareLink['status'], string> = {
+  active: '사용 중',
+  revoked: '해제됨',
+  expired: '만료됨',
+  exhausted: '조회수 초과',
+};
+
+// 공개 공유 링크 - 생성(만료/비밀번호/조회수 제한), 목록, 복사, 해제
+const ShareLinks: React.FC<ShareLinksProps> = ({ itemId, isEncrypted, itemKey, onClose }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [maxViews, setMaxViews] = useState('');
+  const [password, setPassword] = useState('');
+
+  const loadLinks = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLinks(await getShareLinks(itemId));
+    } catch (err) {
+      console.error('Failed to load share links:', err);
+      setError('공유 링크를 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, [itemId]);
+
+  // 암호화된 아이템은 키가 링크에 포함되어야 내용을 볼 수 있음
+  const getLinkUrl = async (link: ShareLink): Promise<string> => {
+    if (!itemKey) return link.url;
+    return `${link.url}#key=${await exportItemKeyForLink(itemKey)}`;
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(await getLinkUrl(link));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(prev => prev === link.id ? null : prev), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+      setError('링크를 복사하지 못했습니다.');
+    }
+  };
+
+  const handleCreate = async () => {
+    const views = maxViews.trim() ? parseInt(maxViews, 10) : null;
+    if (views !== null && (!Number.isInteger(views) || views < 1)) {
+      setError('조회수 제한은 1 이상의 숫자여야 합니다.');
+      return;
+    }
+    if (isEncrypted && !confirm('암호화된 아이템입니다. 링크를 가진 사람은 누구나 내용을 볼 수 있습니다. 공유 링크를 만드시겠습니까?')) {
+      return;
+    }
+
+    const duration = EXPIRY_OPTIONS[expiryIndex].duration;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const link = await createShareLink(itemId, {
+        expiresAt: duration ? Date.now() + duration : null,
+        password: password || null,
+        maxViews: views,
+        allowEncrypted: isEncrypted,
+      });
+      setLinks(prev => [link, ...prev]);
+      setPassword('');
+      setMaxViews('');
+      await handleCopy(link);
+    } catch (err) {
+      console.error('Failed to create share link:', err);
+      setError(err instanceof Error ? err.message : '공유 링크를 만들지 못했습니다.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('이 링크를 해제하시겠습니까? 더 이상 열 수 없게 됩니다.')) return;
+    try {
+      await revokeShareLink(itemId, link.id);
+      setLinks(prev => prev.filter(l => l.id !== link.id));
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      setError('링크를 해제하지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-b border-slate-200">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <Link2 size={16} />
+          공유 링크
+          {!isLoading && <span className="text-xs text-slate-400">{links.length}개</span>}
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* New link */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-slate-100">
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          className="text-sm px-2 py-1.5 border border-slate-200 rounded-lg bg-white"
+          title="만료"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={maxViews}
+          onChange={(e) => setMaxViews(e.target.value)}
+          placeholder="조회수 제한"
+          className="w-28 text-sm px-2 py-1.5 border border-slate-200 rounded-lg"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="비밀번호 (선택)"
+          autoComplete="new-password"
+          className="w-36 text-sm px-2 py-1.5 border border-slate-200 rounded-lg"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
+          링크 만들기
+        </button>
+      </div>
+
+      {error && <p className="px-4 pt-2 text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-slate-400">
+          <Loader2 size={16} className="animate-spin" />
+          불러오는 중...
+        </div>
+      ) : links.length === 0 ? (
+        <div className="py-6 text-center text-sm text-slate-400">공유 링크가 없습니다.</div>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto divide-y divide-slate-100">
+          {links.map(link => (
+            <li key={link.id} className="flex items-center gap-3 px-4 py-2">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1.5 text-sm text-slate-700">
+                  <span className="truncate font-mono text-xs">{link.url}</span>
+                  {link.hasPassword && <LockKeyhole size={12} className="shrink-0 text-amber-500" />}
+                </div>
+                <div className="text-xs text-slate-400">
+                  <span className={link.status === 'active' ? 'text-green-600' : 'text-slate-500'}>{STATUS_LABELS[link.status]}</span>
+                  {' · '}조회 {link.viewCount}{link.maxViews ? `/${link.maxViews}` : ''}
+                  {link.expiresAt && <> · {format(link.expiresAt, 'yyyy.MM.dd HH:mm')} 만료</>}
+                </div>
+              </div>
+              <button
+                onClick={() => handleCopy(link)}
+                className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded"
+                title="링크 복사"
+              >
+                {copiedId === link.id ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
+              </button>
+              <button
+                onClick={() => handleRevoke(link)}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded"
+                title="링크 해제"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinks;
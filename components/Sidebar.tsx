@@ -21,9 +21,14 @@ import {
   HelpCircle,
   Bell,
   Timer,
-  Mail
+  Mail,
+  Globe,
+  Copy,
+  Check,
+  RefreshCw,
+  Rss
 } from 'lucide-react';
-import { NavItem, ItemType, Tag } from '../types';
+import { NavItem, ItemType, Tag, ItemFacets } from '../types';
 
 interface SidebarProps {
   activeFilter: ItemType | 'all' | 'favorites' | 'encrypted' | 'trash' | 'scheduled' | 'expiring';
@@ -33,13 +38,14 @@ interface SidebarProps {
   tags: Tag[];
   onAddTag: (name: string) => void;
   onUpdateTag: (tag: Tag) => void;
+  onPublishTag: (tag: Tag, action: 'publish' | 'rotate' | 'unpublish') => Promise<Tag | null>;
   onDeleteTag: (id: string) => void;
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
   onSettingsClick: () => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
-  itemCounts: Record<string, number>;
+  facets: ItemFacets | null;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -50,13 +56,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   tags, 
   onAddTag,
   onUpdateTag,
+  onPublishTag,
   onDeleteTag,
   isOpen,
   setIsOpen,
   onSettingsClick,
   searchQuery,
   onSearchChange,
-  itemCounts
+  facets
 }) => {
   const [newTag, setNewTag] = useState('');
   const [showTagInput, setShowTagInput] = useState(false);
@@ -67,6 +74,8 @@ const Sidebar: React.FC<SidebarProps> = ({
   const [keywordInput, setKeywordInput] = useState('');
   const [showTagModal, setShowTagModal] = useState(false);
   const [isCreatingTag, setIsCreatingTag] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publicUrlCopied, setPublicUrlCopied] = useState(false);
   const [showCreditsModal, setShowCreditsModal] = useState(false);
   const [showAboutModal, setShowAboutModal] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
@@ -90,6 +99,20 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: 'trash', label: 'Trash', icon: <Trash2 size={18} />, filterType: 'trash' as any },
   ];
 
+  // Count for a nav filter, read from the server facets
+  const getFilterCount = (filterType: NavItem['filterType'] | string = 'all'): number => {
+    if (!facets) return 0;
+    switch (filterType) {
+      case 'all': return facets.all;
+      case 'favorites': return facets.favorites;
+      case 'encrypted': return facets.encrypted;
+      case 'scheduled': return facets.scheduled;
+      case 'expiring': return facets.expiring;
+      case 'trash': return facets.trash;
+      default: return facets.types[filterType as ItemType] || 0;
+    }
+  };
+
   const openTagModal = (tag?: Tag) => {
     if (tag) {
       setEditingTag(tag);
@@ -133,6 +156,32 @@ const Sidebar: React.FC<SidebarProps> = ({
     closeTagModal();
   };
 
+  // 공개 설정은 저장 버튼과 별개로 바로 반영
+  const handlePublish = async (action: 'publish' | 'rotate' | 'unpublish') => {
+    if (!editingTag) return;
+    if (action === 'rotate' && !confirm('공개 URL을 바꾸시겠습니까? 기존 주소와 피드는 더 이상 열리지 않습니다.')) return;
+    if (action === 'unpublish' && !confirm('공개를 중지하시겠습니까? 공개 주소와 피드가 더 이상 열리지 않습니다.')) return;
+
+    setIsPublishing(true);
+    const updated = await onPublishTag(editingTag, action);
+    if (updated) {
+      setEditingTag(updated);
+      setPublicUrlCopied(false);
+    }
+    setIsPublishing(false);
+  };
+
+  const handleCopyPublicUrl = async () => {
+    if (!editingTag?.publicUrl) return;
+    try {
+      await navigator.clipboard.writeText(editingTag.publicUrl);
+      setPublicUrlCopied(true);
+      setTimeout(() => setPublicUrlCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy public URL:', err);
+    }
+  };
+
   const addKeyword = (keyword: string) => {
     const trimmed = keyword.trim().toLowerCase();
     if (trimmed && !editTagKeywords.includes(trimmed)) {
@@ -234,7 +283,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           {/* Main Nav - Type Filters */}
           <nav className="flex-1 overflow-y-auto py-2 px-3 space-y-1">
             {typeNavItems.map((item) => {
-              const count = itemCounts[item.filterType || 'all'] || 0;
+              const count = getFilterCount(item.filterType);
               return (
                 <button
                   key={item.id}
@@ -269,7 +318,7 @@ const Sidebar: React.FC<SidebarProps> = ({
               <span className="px-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Collections</span>
               <div className="mt-2 space-y-1">
                 {specialNavItems.map((item) => {
-                  const count = itemCounts[item.filterType || 'all'] || 0;
+                  const count = getFilterCount(item.filterType);
                   return (
                     <button
                       key={item.id}
@@ -345,7 +394,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
               <div className="space-y-0.5">
                 {tags.map((tag) => {
-                  const tagCount = itemCounts[`tag:${tag.id}`] || 0;
+                  const tagCount = facets?.tags[tag.id] || 0;
                   const hasAutoKeywords = tag.autoKeywords && tag.autoKeywords.length > 0;
                   return (
                     <div 
@@ -364,6 +413,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                           <TagIcon size={16} className={`shrink-0 ${activeTagFilter === tag.id ? 'text-indigo-500' : 'text-slate-400'}`} />
                         )}
                         <span className="truncate">{tag.name}</span>
+                        {tag.publicUrl && <Globe size={12} className="shrink-0 text-emerald-500" aria-label="Public collection" />}
                       </div>
                       <div className="flex items-center gap-1">
                         <span className="text-xs text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded-full min-w-[20px] text-center">
@@ -757,6 +807,77 @@ const Sidebar: React.FC<SidebarProps> = ({
                   Press <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-[10px] font-mono">Enter</kbd> or <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-[10px] font-mono">,</kbd> to add. <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-[10px] font-mono">Backspace</kbd> to remove last.
                 </p>
               </div>
+
+              {/* Public collection - 기존 레이블만 */}
+              {editingTag && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Public Collection
+                  </label>
+                  {editingTag.publicUrl ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          readOnly
+                          value={editingTag.publicUrl}
+                          onFocus={(e) => e.target.select()}
+                          className="flex-1 min-w-0 px-3 py-2 text-sm font-mono border border-slate-200 rounded-lg bg-slate-50 text-slate-600"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleCopyPublicUrl}
+                          className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                          title="주소 복사"
+                        >
+                          {publicUrlCopied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <a
+                          href={`${editingTag.publicUrl}/feed.atom`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 px-2 py-1 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                          <Rss size={14} />
+                          Atom 피드
+                        </a>
+                        <button
+                          type="button"
+                          onClick={() => handlePublish('rotate')}
+                          disabled={isPublishing}
+                          className="flex items-center gap-1 px-2 py-1 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <RefreshCw size={14} />
+                          URL 변경
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handlePublish('unpublish')}
+                          disabled={isPublishing}
+                          className="px-2 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          공개 중지
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handlePublish('publish')}
+                      disabled={isPublishing}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Globe size={16} />
+                      공개 컬렉션으로 게시
+                    </button>
+                  )}
+                  <p className="text-xs text-slate-500 mt-1.5">
+                    암호화되지 않은 항목만 최신순으로 공개되며, 누구나 주소로 볼 수 있습니다.
+                  </p>
+                </div>
+              )}
             </div>
             
             <div className="flex justify-end gap-2 p-4 border-t border-slate-100">
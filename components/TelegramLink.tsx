@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Send, Loader2, Copy, Check, RefreshCw, Trash2, ExternalLink } from 'lucide-react';
+import { format } from 'date-fns';
+import { TelegramChat, TelegramLinkCode } from '../types';
+import { getTelegramStatus, createTelegramLinkCode, unlinkTelegramChat } from '../services/db';
+
+// 텔레그램으로 저장 - 봇과의 대화를 계정에 연결하면 보낸 메시지, 링크, 사진, 파일이 아이템으로 저장
+const TelegramLink: React.FC = () => {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [botUsername, setBotUsername] = useState<string | null>(null);
+  const [chats, setChats] = useState<TelegramChat[]>([]);
+  const [linkCode, setLinkCode] = useState<TelegramLinkCode | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      const status = await getTelegramStatus();
+      setIsEnabled(status.enabled);
+      setBotUsername(status.botUsername);
+      setChats(status.chats);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load Telegram chats:', err);
+      setError('텔레그램 연결 정보를 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleCreateCode = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setLinkCode(await createTelegramLinkCode());
+      setCopied(false);
+    } catch (err) {
+      console.error('Failed to create Telegram link code:', err);
+      setError(err instanceof Error ? err.message : '연결 코드를 만들지 못했습니다.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!linkCode) return;
+    try {
+      await navigator.clipboard.writeText(`/start ${linkCode.code}`);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy link code:', err);
+    }
+  };
+
+  // 봇에 코드를 보낸 뒤 연결된 대화 목록을 다시 불러옴
+  const handleRefresh = async () => {
+    setIsLoading(true);
+    await loadStatus();
+    setLinkCode(null);
+  };
+
+  const handleUnlink = async (chat: TelegramChat) => {
+    if (!confirm(`${chat.title || '이 대화'}의 연결을 해제하시겠습니까?`)) return;
+    try {
+      await unlinkTelegramChat(chat.chatId);
+      setChats(prev => prev.filter(c => c.chatId !== chat.chatId));
+    } catch (err) {
+      console.error('Failed to unlink Telegram chat:', err);
+      setError('연결을 해제하지 못했습니다.');
+    }
+  };
+
+  // 서버에 봇이 설정되지 않았으면 표시하지 않음
+  if (!isLoading && !isEnabled && !error) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-slate-700 text-sm flex items-center gap-2">
+          <Send size={16} className="text-slate-500" />
+          텔레그램으로 저장
+        </h4>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading}
+          className="p-1 text-slate-400 hover:text-slate-600 rounded disabled:opacity-50"
+          title="새로고침"
+        >
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {chats.length > 0 && (
+        <div className="space-y-2">
+          {chats.map(chat => (
+            <div key={chat.chatId} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-700 truncate">{chat.title || '텔레그램 대화'}</p>
+                <p className="text-xs text-slate-400">
+                  {chat.lastMessageAt
+                    ? `최근 저장 ${format(chat.lastMessageAt, 'yyyy.MM.dd HH:mm')}`
+                    : `${format(chat.linkedAt, 'yyyy.MM.dd')} 연결`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleUnlink(chat)}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded"
+                title="연결 해제"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {linkCode ? (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">
+            {botUsername ? `@${botUsername}` : '봇'}에게 아래 메시지를 보내면 대화가 연결됩니다.
+            코드는 {format(linkCode.expiresAt, 'HH:mm')}까지 한 번만 쓸 수 있습니다.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm bg-white border border-slate-200 rounded px-2 py-1.5 tracking-wider">/start {linkCode.code}</code>
+            <button onClick={handleCopy} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="복사">
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+            </button>
+          </div>
+          {linkCode.url && (
+            <a
+              href={linkCode.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-sky-500 hover:bg-sky-600 rounded-lg transition-colors"
+            >
+              <ExternalLink size={14} />
+              텔레그램에서 열기
+            </a>
+          )}
+        </div>
+      ) : (
+        <>
+          {chats.length === 0 && !isLoading && (
+            <p className="text-xs text-slate-500">텔레그램 봇에게 보낸 메시지, 링크, 사진, 파일을 바로 저장합니다.</p>
+          )}
+          <button
+            onClick={handleCreateCode}
+            disabled={isCreating || isLoading}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isCreating && <Loader2 size={14} className="animate-spin" />}
+            {chats.length > 0 ? '다른 대화 연결' : '연결 코드 받기'}
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default TelegramLink;
@@ -3,6 +3,7 @@ import { useAuth } from '../contexts/AuthContext';
 import ExportModal from './ExportModal';
 import ImportModal from './ImportModal';
 import ProfileModal from './ProfileModal';
+import BookmarkletModal from './BookmarkletModal';
 
 const UserMenu: React.FC = () => {
   const { user, logout, isAuthenticated } = useAuth();
@@ -10,6 +11,7 @@ const UserMenu: React.FC = () => {
   const [showExport, setShowExport] = useState(false);
   const [showImport, setShowImport] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
+  const [showBookmarklet, setShowBookmarklet] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -146,6 +148,20 @@ const UserMenu: React.FC = () => {
               가져오기
             </button>
 
+            {/* Bookmarklet Button */}
+            <button
+              onClick={() => {
+                setShowBookmarklet(true);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-slate-700 hover:bg-slate-100 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+              북마클릿
+            </button>
+
             {/* Logout Button */}
             <button
               onClick={handleLogout}
@@ -176,6 +192,12 @@ const UserMenu: React.FC = () => {
         onClose={() => setShowExport(false)}
       />
 
+      {/* Bookmarklet Modal */}
+      <BookmarkletModal
+        isOpen={showBookmarklet}
+        onClose={() => setShowBookmarklet(false)}
+      />
+
       {/* Import Modal */}
       <ImportModal
         isOpen={showImport}
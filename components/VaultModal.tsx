@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { X, Vault, Eye, EyeOff, AlertCircle, LockKeyhole } from 'lucide-react';
+import { useVault } from '../contexts/VaultContext';
+import { useToast } from '../contexts/ToastContext';
+
+interface VaultModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 금고 설정/잠금 해제 - 마스터 암호 하나로 이번 세션 동안 암호화된 아이템을 열 수 있음
+const VaultModal: React.FC<VaultModalProps> = ({ isOpen, onClose }) => {
+  const { status, setupVault, unlockVault, lockVault, resetVault } = useVault();
+  const { showToast } = useToast();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSetup = status === 'none';
+
+  const handleClose = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setShowPassphrase(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (passphrase.length < 8) {
+      setError('마스터 암호는 8자 이상이어야 합니다');
+      return;
+    }
+
+    if (isSetup && passphrase !== confirmPassphrase) {
+      setError('암호가 일치하지 않습니다');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (isSetup) {
+        await setupVault(passphrase);
+        showToast('금고가 설정되었습니다', 'success');
+      } else if (!await unlockVault(passphrase)) {
+        setError('마스터 암호가 올바르지 않습니다');
+        return;
+      } else {
+        showToast('금고가 열렸습니다', 'success');
+      }
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLock = () => {
+    lockVault();
+    showToast('금고가 잠겼습니다', 'info');
+    handleClose();
+  };
+
+  const handleReset = async () => {
+    if (!confirm('금고를 초기화하시겠습니까? 아이템은 암호화된 채로 남으며, 각 아이템의 암호로 계속 열 수 있습니다.')) return;
+
+    setIsLoading(true);
+    try {
+      await resetVault();
+      showToast('금고가 초기화되었습니다', 'success');
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '오류가 발생했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Vault size={20} className="text-indigo-600" />
+            <h2 className="text-lg font-semibold text-slate-800">
+              {isSetup ? '금고 설정' : status === 'unlocked' ? '금고 열림' : '금고 잠금 해제'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        {status === 'unlocked' ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              금고가 열려 있는 동안 금고에 등록된 암호화 아이템은 암호 없이 열리고, 피드에 제목과 미리보기가 표시됩니다.
+            </p>
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleReset}
+                disabled={isLoading}
+                className="flex-1 py-2.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors font-medium disabled:opacity-50"
+              >
+                초기화
+              </button>
+              <button
+                onClick={handleLock}
+                className="flex-1 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <LockKeyhole size={16} />
+                지금 잠그기
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              {isSetup
+                ? '마스터 암호로 아이템별 암호를 감싸 보관합니다. 마스터 암호는 브라우저 밖으로 전송되지 않으며, 잊으면 각 아이템의 암호로만 열 수 있습니다.'
+                : '마스터 암호를 입력하면 이번 세션 동안 암호화된 아이템을 바로 열 수 있습니다.'}
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                마스터 암호
+              </label>
+              <div className="relative">
+                <input
+                  type={showPassphrase ? 'text' : 'password'}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="마스터 암호 입력 (8자 이상)"
+                  className="w-full px-4 py-2.5 pr-12 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                  autoFocus
+                  disabled={isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassphrase(!showPassphrase)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                >
+                  {showPassphrase ? <EyeOff size={18} /> : <Eye size={18} />}
+                </button>
+              </div>
+            </div>
+
+            {isSetup && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  암호 확인
+                </label>
+                <input
+                  type={showPassphrase ? 'text' : 'password'}
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="암호 다시 입력"
+                  className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-red-600 text-sm bg-red-50 px-3 py-2 rounded-lg">
+                <AlertCircle size={16} />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              {!isSetup && (
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="py-2.5 px-3 text-sm text-slate-500 hover:text-red-600 transition-colors"
+                  disabled={isLoading}
+                >
+                  초기화
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 py-2.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors font-medium"
+                disabled={isLoading}
+              >
+                취소
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex-1 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    처리 중...
+                  </>
+                ) : isSetup ? '설정' : '잠금 해제'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultModal;
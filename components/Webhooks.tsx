@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import { Webhook as WebhookIcon, Loader2, Copy, Check, Trash2, Plus, Send, History, RotateCcw, CircleCheck, CircleX, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { Tag, Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  testWebhook,
+  redeliverWebhook,
+  getTags,
+} from '../services/db';
+
+const EVENT_OPTIONS: { value: WebhookEvent; label: string }[] = [
+  { value: 'item.created', label: '추가' },
+  { value: 'item.updated', label: '수정' },
+  { value: 'item.trashed', label: '휴지통 이동' },
+  { value: 'item.restored', label: '복원' },
+  { value: 'item.deleted', label: '영구 삭제' },
+];
+
+const eventLabel = (event: string) => EVENT_OPTIONS.find(option => option.value === event)?.label || event;
+
+// 웹훅 - 아이템 이벤트를 외부 URL로 전송 (HMAC 서명, 실패 시 재시도, 전송 기록)
+const Webhooks: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [url, setUrl] = useState('');
+  const [secret, setSecret] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['item.created']);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // 시크릿은 만들거나 바꿀 때만 볼 수 있음
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // 전송 기록을 펼친 웹훅
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingLog, setIsLoadingLog] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadWebhooks = async () => {
+      try {
+        const [loadedWebhooks, loadedTags] = await Promise.all([getWebhooks(), getTags()]);
+        setWebhooks(loadedWebhooks);
+        setTags(loadedTags);
+      } catch (err) {
+        console.error('Failed to load webhooks:', err);
+        setError('웹훅을 불러오지 못했습니다.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadWebhooks();
+  }, []);
+
+  const tagName = (id: string) => tags.find(tag => tag.id === id)?.name || '삭제된 태그';
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+  };
+
+  const toggleTag = (id: string) => {
+    setTagIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+  };
+
+  const showSecret = (value: string) => {
+    setNewSecret(value);
+    setCopied(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { secret: createdSecret, ...created } = await createWebhook({
+        url: url.trim(),
+        secret: secret || undefined,
+        events,
+        tagIds,
+      });
+      setWebhooks(prev => [created, ...prev]);
+      showSecret(createdSecret);
+      setShowForm(false);
+      setUrl('');
+      setSecret('');
+      setTagIds([]);
+    } catch (err) {
+      console.error('Failed to create webhook:', err);
+      setError(err instanceof Error ? err.message : '웹훅을 만들지 못했습니다.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy webhook secret:', err);
+    }
+  };
+
+  const handleToggleEnabled = async (webhook: Webhook) => {
+    try {
+      const updated = await updateWebhook(webhook.id, { enabled: !webhook.enabled });
+      setWebhooks(prev => prev.map(w => w.id === webhook.id ? updated : w));
+    } catch (err) {
+      console.error('Failed to update webhook:', err);
+      setError('웹훅을 변경하지 못했습니다.');
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!confirm('시크릿을 새로 만드시겠습니까? 받는 쪽의 서명 검증도 새 시크릿으로 바꿔야 합니다.')) return;
+    try {
+      const { secret: rotatedSecret, ...updated } = await updateWebhook(webhook.id, { rotateSecret: true });
+      setWebhooks(prev => prev.map(w => w.id === webhook.id ? updated : w));
+      if (rotatedSecret) {
+        showSecret(rotatedSecret);
+      }
+    } catch (err) {
+      console.error('Failed to rotate webhook secret:', err);
+      setError('시크릿을 바꾸지 못했습니다.');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`${webhook.url} 웹훅을 삭제하시겠습니까? 전송 기록도 함께 삭제됩니다.`)) return;
+    try {
+      await deleteWebhook(webhook.id);
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+      if (openLogId === webhook.id) {
+        setOpenLogId(null);
+      }
+    } catch (err) {
+      console.error('Failed to delete webhook:', err);
+      setError('웹훅을 삭제하지 못했습니다.');
+    }
+  };
+
+  const loadDeliveries = async (id: string) => {
+    setIsLoadingLog(true);
+    try {
+      setDeliveries(await getWebhookDeliveries(id));
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err);
+      setError('전송 기록을 불러오지 못했습니다.');
+    } finally {
+      setIsLoadingLog(false);
+    }
+  };
+
+  const handleToggleLog = (webhook: Webhook) => {
+    if (openLogId === webhook.id) {
+      setOpenLogId(null);
+      return;
+    }
+    setOpenLogId(webhook.id);
+    setDeliveries([]);
+    loadDeliveries(webhook.id);
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setBusyId(webhook.id);
+    setError(null);
+    try {
+      const delivery = await testWebhook(webhook.id);
+      if (openLogId === webhook.id) {
+        setDeliveries(prev => [delivery, ...prev]);
+      }
+      if (delivery.status !== 'success') {
+        setError(`테스트 전송 실패: ${delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || '응답 없음'}`);
+      }
+    } catch (err) {
+      console.error('Failed to test webhook:', err);
+      setError('테스트 전송을 하지 못했습니다.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setBusyId(delivery.id);
+    try {
+      const updated = await redeliverWebhook(delivery.webhookId, delivery.id);
+      setDeliveries(prev => prev.map(d => d.id === delivery.id ? updated : d));
+    } catch (err) {
+      console.error('Failed to redeliver webhook:', err);
+      setError('다시 보내지 못했습니다.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderDeliveryStatus = (delivery: WebhookDelivery) => {
+    if (delivery.status === 'success') {
+      return <CircleCheck size={14} className="text-green-500 shrink-0" />;
+    }
+    if (delivery.status === 'failed') {
+      return <CircleX size={14} className="text-red-500 shrink-0" />;
+    }
+    return <Clock size={14} className="text-amber-500 shrink-0" />;
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-slate-700 text-sm flex items-center gap-2">
+          <WebhookIcon size={16} className="text-slate-500" />
+          웹훅
+        </h4>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+          >
+            <Plus size={14} />
+            새 웹훅
+          </button>
+        )}
+      </div>
+
+      {newSecret && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+          <p className="text-xs text-amber-700">서명 시크릿은 지금만 볼 수 있습니다. 받는 쪽에 설정해 두세요.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs bg-white border border-amber-200 rounded px-2 py-1.5">{newSecret}</code>
+            <button onClick={handleCopy} className="p-1.5 text-amber-700 hover:bg-amber-100 rounded" title="복사">
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+            </button>
+          </div>
+          <button onClick={() => setNewSecret(null)} className="text-xs text-amber-700 hover:underline">
+            확인했습니다
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white border border-slate-200 rounded-lg p-3 space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/self"
+            autoFocus
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <input
+            type="text"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder="서명 시크릿 (비워 두면 자동 생성)"
+            autoComplete="off"
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {EVENT_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={events.includes(option.value)}
+                  onChange={() => toggleEvent(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {tags.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs text-slate-500">태그 필터 (선택하지 않으면 모든 아이템)</p>
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map(tag => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleTag(tag.id)}
+                    className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                      tagIds.includes(tag.id)
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'
+                    }`}
+                  >
+                    {tag.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating || !url.trim() || events.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isCreating && <Loader2 size={14} className="animate-spin" />}
+              만들기
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 size={16} className="animate-spin text-slate-400" />
+        </div>
+      ) : webhooks.length === 0 ? (
+        <p className="text-xs text-slate-500">아이템이 추가되거나 바뀔 때 알림을 받을 URL이 없습니다.</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="bg-white border border-slate-200 rounded-lg p-2.5">
+              <div className="flex items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`font-medium truncate ${webhook.enabled ? 'text-slate-700' : 'text-slate-400 line-through'}`}>{webhook.url}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {webhook.events.map(event => (
+                      <span key={event} className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600">{eventLabel(event)}</span>
+                    ))}
+                    {webhook.tagIds.map(id => (
+                      <span key={id} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">#{tagName(id)}</span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    <code>{webhook.secretPrefix}…</code>
+                    {' · '}
+                    <button onClick={() => handleToggleEnabled(webhook)} className="hover:underline">
+                      {webhook.enabled ? '사용 중지' : '다시 사용'}
+                    </button>
+                    {' · '}
+                    <button onClick={() => handleRotateSecret(webhook)} className="hover:underline">
+                      시크릿 변경
+                    </button>
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleTest(webhook)}
+                  disabled={busyId === webhook.id}
+                  className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-50"
+                  title="테스트 전송"
+                >
+                  {busyId === webhook.id ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                </button>
+                <button
+                  onClick={() => handleToggleLog(webhook)}
+                  className={`p-1.5 rounded ${openLogId === webhook.id ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                  title="전송 기록"
+                >
+                  <History size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(webhook)}
+                  className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded"
+                  title="삭제"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {openLogId === webhook.id && (
+                <div className="mt-2 pt-2 border-t border-slate-100">
+                  {isLoadingLog ? (
+                    <div className="flex items-center justify-center py-2">
+                      <Loader2 size={14} className="animate-spin text-slate-400" />
+                    </div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-xs text-slate-500">전송 기록이 없습니다.</p>
+                  ) : (
+                    <ul className="space-y-1.5 max-h-60 overflow-y-auto">
+                      {deliveries.map(delivery => (
+                        <li key={delivery.id} className="flex items-start gap-2 text-xs">
+                          <span className="mt-0.5">{renderDeliveryStatus(delivery)}</span>
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-1.5 text-slate-600">
+                              <span className="font-medium">{delivery.event === 'ping' ? '테스트' : eventLabel(delivery.event)}</span>
+                              <span className="text-slate-400">{format(delivery.createdAt, 'MM.dd HH:mm')}</span>
+                            </div>
+                            <p className="text-slate-400 truncate">
+                              {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || '대기 중'}
+                              {delivery.attempts > 1 && ` · ${delivery.attempts}회 시도`}
+                              {delivery.status === 'pending' && delivery.nextAttemptAt && delivery.attempts > 0 &&
+                                ` · ${format(delivery.nextAttemptAt, 'HH:mm')} 재시도`}
+                            </p>
+                          </div>
+                          {delivery.status !== 'success' && (
+                            <button
+                              onClick={() => handleRedeliver(delivery)}
+                              disabled={busyId === delivery.id}
+                              className="p-1 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-50"
+                              title="다시 보내기"
+                            >
+                              {busyId === delivery.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Webhooks;
@@ -1,7 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import {
   User,
+  AuthConfig,
+  loadAuthConfig,
   initiateLogin,
+  loginWithPassword as authLoginWithPassword,
+  loginAsDevUser,
   handleCallback,
   refreshAccessToken,
   logout as authLogout,
@@ -16,7 +20,9 @@ interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: () => Promise<void>;
+  authConfig: AuthConfig | null; // Provider in use (null until loaded)
+  login: () => Promise<void>; // OAuth redirect, or the test user with the dev provider
+  loginWithPassword: (username: string, password: string, signup?: { name?: string }) => Promise<void>;
   logout: () => Promise<void>;
   accessToken: string | null;
   authError: string | null;
@@ -33,6 +39,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [authError, setAuthError] = useState<string | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [authConfig, setAuthConfig] = useState<AuthConfig | null>(null);
 
   // Schedule token refresh
   const scheduleRefresh = useCallback((expiresAt: number, refreshToken: string) => {
@@ -85,6 +92,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Initialize auth state from storage
   useEffect(() => {
     const initAuth = async () => {
+      try {
+        setAuthConfig(await loadAuthConfig());
+      } catch (error) {
+        console.error('Failed to load auth config:', error);
+        setAuthError('인증 설정을 불러오지 못했습니다');
+      }
+
       const data = loadAuthData();
       
       if (data.accessToken && data.user) {
@@ -165,6 +179,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (code && isCallbackPage) {
         try {
           setIsLoading(true);
+          await loadAuthConfig();
           const result = await handleCallback();
           
           setUser(result.user);
@@ -191,9 +206,32 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     handleOAuthCallback();
   }, [scheduleRefresh]);
 
+  // Worker-issued sessions (local/dev providers) have no refresh token: they end at expiresAt
+  const completeLogin = useCallback((result: { accessToken: string; user: User; expiresAt?: number }) => {
+    setUser(result.user);
+    setAccessToken(result.accessToken);
+    saveAuthData(result);
+  }, []);
+
   const login = useCallback(async () => {
+    if (authConfig?.provider === 'dev') {
+      try {
+        completeLogin(await loginAsDevUser());
+      } catch (error) {
+        setAuthError(error instanceof Error ? error.message : '인증에 실패했습니다');
+      }
+      return;
+    }
     await initiateLogin();
-  }, []);
+  }, [authConfig, completeLogin]);
+
+  const loginWithPassword = useCallback(async (username: string, password: string, signup?: { name?: string }) => {
+    try {
+      completeLogin(await authLoginWithPassword(username, password, signup));
+    } catch (error) {
+      setAuthError(error instanceof Error ? error.message : '인증에 실패했습니다');
+    }
+  }, [completeLogin]);
 
   const logout = useCallback(async () => {
     if (refreshTimer) {
@@ -215,7 +253,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         user,
         isAuthenticated: !!user,
         isLoading,
+        authConfig,
         login,
+        loginWithPassword,
         logout,
         accessToken,
         authError,
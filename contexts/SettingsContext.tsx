@@ -8,6 +8,8 @@ export interface Settings {
   submitShortcut: 'enter' | 'ctrl+enter';
   imageFit: 'cover' | 'contain';
   fontFamily: 'system' | 'pretendard' | 'noto-sans' | 'inter' | 'spoqa';
+  vaultAutoLockMinutes: 0 | 5 | 15 | 30 | 60; // 0 = 자동 잠금 안 함
+  vaultLockOnHide: boolean;
 }
 
 const defaultSettings: Settings = {
@@ -18,6 +20,8 @@ const defaultSettings: Settings = {
   submitShortcut: 'ctrl+enter',
   imageFit: 'cover',
   fontFamily: 'pretendard',
+  vaultAutoLockMinutes: 15,
+  vaultLockOnHide: true,
 };
 
 interface SettingsContextType {
@@ -0,0 +1,272 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { Item, ItemType } from '../types';
+import * as db from '../services/db';
+import type { UnlockedItem } from '../services/db';
+import {
+  ItemKey,
+  generateSalt,
+  deriveVaultKey,
+  createVaultCheck,
+  verifyVaultKey,
+  wrapItemKey,
+  unwrapItemKey,
+} from '../services/encryptionService';
+import { useSettings } from './SettingsContext';
+
+// none: no vault set up, locked: vault exists but master key not in memory
+export type VaultStatus = 'loading' | 'none' | 'locked' | 'unlocked';
+
+// Decrypted summary of an encrypted item shown in the feed while the vault is open
+export interface VaultPreview {
+  title: string;
+  thumbnailUrl?: string; // Object URL of the decrypted image
+}
+
+interface VaultContextType {
+  status: VaultStatus;
+  setupVault: (passphrase: string) => Promise<void>;
+  unlockVault: (passphrase: string) => Promise<boolean>;
+  lockVault: () => void;
+  resetVault: () => Promise<void>;
+  hasItemKey: (itemId: string) => boolean;
+  addItemKey: (itemId: string, itemKey: ItemKey) => Promise<void>;
+  addItem: (itemId: string, passphrase: string) => Promise<void>;
+  unlockItem: (itemId: string, purpose?: 'open' | 'preview') => Promise<UnlockedItem | null>;
+  previews: Record<string, VaultPreview>;
+  requestPreview: (item: Item) => void;
+}
+
+const VaultContext = createContext<VaultContextType | null>(null);
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+const previewTitle = (unlocked: UnlockedItem): string => {
+  const { item } = unlocked;
+  return item.ogTitle || item.fileName || item.content.split('\n')[0].substring(0, 80) || item.title || '';
+};
+
+export const VaultProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { settings } = useSettings();
+  const [status, setStatus] = useState<VaultStatus>('loading');
+  const [previews, setPreviews] = useState<Record<string, VaultPreview>>({});
+
+  // Key material lives only in memory and is dropped on lock
+  const vaultKeyRef = useRef<CryptoKey | null>(null);
+  const wrappedKeysRef = useRef<Map<string, db.VaultKey>>(new Map());
+  const itemKeysRef = useRef<Map<string, ItemKey>>(new Map());
+  const requestedPreviewsRef = useRef<Set<string>>(new Set());
+  const previewsRef = useRef<Record<string, VaultPreview>>({});
+  previewsRef.current = previews;
+
+  const revokePreviews = () => {
+    Object.values(previewsRef.current).forEach(preview => {
+      if (preview.thumbnailUrl) URL.revokeObjectURL(preview.thumbnailUrl);
+    });
+  };
+
+  const loadVault = useCallback(async () => {
+    try {
+      const { vault, keys } = await db.getVault();
+      wrappedKeysRef.current = new Map(keys.map(key => [key.itemId, key]));
+      return vault;
+    } catch (error) {
+      console.error('Failed to load vault:', error);
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVault().then(vault => setStatus(vault ? 'locked' : 'none'));
+  }, [loadVault]);
+
+  const lockVault = useCallback(() => {
+    if (!vaultKeyRef.current) return;
+    vaultKeyRef.current = null;
+    itemKeysRef.current.clear();
+    requestedPreviewsRef.current.clear();
+    revokePreviews();
+    setPreviews({});
+    setStatus('locked');
+  }, []);
+
+  // Release object URLs when the provider goes away (logout)
+  useEffect(() => revokePreviews, []);
+
+  const setupVault = useCallback(async (passphrase: string) => {
+    const salt = generateSalt();
+    const vaultKey = await deriveVaultKey(passphrase, salt);
+    await db.createVault(salt, await createVaultCheck(vaultKey));
+    wrappedKeysRef.current = new Map();
+    vaultKeyRef.current = vaultKey;
+    setStatus('unlocked');
+  }, []);
+
+  const unlockVault = useCallback(async (passphrase: string): Promise<boolean> => {
+    const vault = await loadVault();
+    if (!vault) {
+      setStatus('none');
+      return false;
+    }
+
+    const vaultKey = await deriveVaultKey(passphrase, vault.salt);
+    if (!await verifyVaultKey(vaultKey, vault)) {
+      return false;
+    }
+
+    vaultKeyRef.current = vaultKey;
+    setStatus('unlocked');
+    return true;
+  }, [loadVault]);
+
+  const resetVault = useCallback(async () => {
+    await db.deleteVault();
+    lockVault();
+    wrappedKeysRef.current = new Map();
+    setStatus('none');
+  }, [lockVault]);
+
+  const getItemKey = useCallback(async (itemId: string): Promise<ItemKey | null> => {
+    const vaultKey = vaultKeyRef.current;
+    if (!vaultKey) return null;
+
+    const cached = itemKeysRef.current.get(itemId);
+    if (cached) return cached;
+
+    const wrapped = wrappedKeysRef.current.get(itemId);
+    if (!wrapped) return null;
+
+    try {
+      const itemKey = await unwrapItemKey(vaultKey, wrapped);
+      itemKeysRef.current.set(itemId, itemKey);
+      return itemKey;
+    } catch (error) {
+      console.error('Failed to unwrap item key:', error);
+      return null;
+    }
+  }, []);
+
+  const hasItemKey = useCallback((itemId: string) => {
+    return status === 'unlocked' && wrappedKeysRef.current.has(itemId);
+  }, [status]);
+
+  const addItemKey = useCallback(async (itemId: string, itemKey: ItemKey) => {
+    const vaultKey = vaultKeyRef.current;
+    if (!vaultKey) return;
+
+    const wrapped = await wrapItemKey(vaultKey, itemKey);
+    await db.storeVaultKey(itemId, wrapped);
+    wrappedKeysRef.current.set(itemId, { itemId, ...wrapped });
+    itemKeysRef.current.set(itemId, itemKey);
+    requestedPreviewsRef.current.delete(itemId);
+  }, []);
+
+  const addItem = useCallback(async (itemId: string, passphrase: string) => {
+    if (!vaultKeyRef.current) return;
+    const itemKey = await db.getItemKey(itemId, passphrase);
+    if (itemKey) {
+      await addItemKey(itemId, itemKey);
+    }
+  }, [addItemKey]);
+
+  const unlockItem = useCallback(async (itemId: string, purpose: 'open' | 'preview' = 'open'): Promise<UnlockedItem | null> => {
+    const itemKey = await getItemKey(itemId);
+    if (!itemKey) return null;
+
+    try {
+      return await db.unlockItemWithKey(itemId, itemKey, purpose);
+    } catch (error) {
+      // The stored key no longer matches (e.g. item re-encrypted elsewhere)
+      console.error('Failed to unlock item from vault:', error);
+      itemKeysRef.current.delete(itemId);
+      wrappedKeysRef.current.delete(itemId);
+      return null;
+    }
+  }, [getItemKey]);
+
+  const requestPreview = useCallback((item: Item) => {
+    if (!vaultKeyRef.current || !wrappedKeysRef.current.has(item.id)) return;
+    if (requestedPreviewsRef.current.has(item.id)) return;
+    requestedPreviewsRef.current.add(item.id);
+
+    (async () => {
+      const unlocked = await unlockItem(item.id, 'preview');
+      if (!unlocked) return;
+
+      let thumbnailUrl: string | undefined;
+      if (item.type === ItemType.IMAGE && unlocked.item.fileKey) {
+        thumbnailUrl = await db.getDecryptedFileUrl(unlocked).catch(() => null) || undefined;
+      }
+
+      // Locked while decrypting: discard the result
+      if (!vaultKeyRef.current) {
+        if (thumbnailUrl) URL.revokeObjectURL(thumbnailUrl);
+        return;
+      }
+
+      setPreviews(prev => {
+        const previous = prev[item.id];
+        if (previous?.thumbnailUrl) URL.revokeObjectURL(previous.thumbnailUrl);
+        return { ...prev, [item.id]: { title: previewTitle(unlocked), thumbnailUrl } };
+      });
+    })();
+  }, [unlockItem]);
+
+  // Auto-lock after inactivity
+  useEffect(() => {
+    if (status !== 'unlocked' || settings.vaultAutoLockMinutes === 0) return;
+
+    const timeoutMs = settings.vaultAutoLockMinutes * 60 * 1000;
+    let timerId = setTimeout(lockVault, timeoutMs);
+
+    const resetTimer = () => {
+      clearTimeout(timerId);
+      timerId = setTimeout(lockVault, timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timerId);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [status, settings.vaultAutoLockMinutes, lockVault]);
+
+  // Lock when the tab is hidden
+  useEffect(() => {
+    if (status !== 'unlocked' || !settings.vaultLockOnHide) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        lockVault();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [status, settings.vaultLockOnHide, lockVault]);
+
+  return (
+    <VaultContext.Provider value={{
+      status,
+      setupVault,
+      unlockVault,
+      lockVault,
+      resetVault,
+      hasItemKey,
+      addItemKey,
+      addItem,
+      unlockItem,
+      previews,
+      requestPreview,
+    }}>
+      {children}
+    </VaultContext.Provider>
+  );
+};
+
+export const useVault = () => {
+  const context = useContext(VaultContext);
+  if (!context) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
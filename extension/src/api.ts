@@ -0,0 +1,56 @@
+import { getSettings } from './storage.js';
+import type { QuickCapture, SavedItem, Tag } from './types.js';
+
+// Calls to the Self API with the personal token. Errors carry the server's message when there is one.
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { serverUrl, token } = await getSettings();
+  if (!token) {
+    throw new Error('API 토큰이 없습니다. 설정에서 토큰을 입력해 주세요.');
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  if (typeof init.body === 'string') {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${serverUrl}${path}`, { ...init, headers });
+  if (response.status === 401) {
+    throw new Error('토큰이 올바르지 않거나 만료되었습니다.');
+  }
+  if (response.status === 403) {
+    throw new Error('토큰에 필요한 권한(items:write, tags:read)이 없습니다.');
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(data.error || `요청이 실패했습니다 (${response.status})`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export const getTags = (): Promise<Tag[]> => request<Tag[]>('/api/tags');
+
+export const quickCapture = (capture: QuickCapture): Promise<SavedItem> =>
+  request<SavedItem>('/api/items/quick', {
+    method: 'POST',
+    body: JSON.stringify(capture),
+  });
+
+// Stores a file in R2 (the item is created separately with the returned key)
+export const uploadFile = (file: Blob, fileName: string): Promise<{ fileKey: string; fileName: string; fileSize: number; mimeType: string }> => {
+  const formData = new FormData();
+  formData.append('file', file, fileName);
+  return request('/api/upload', { method: 'POST', body: formData });
+};
+
+export const createFileItem = (options: {
+  file: { fileKey: string; fileName: string; fileSize: number; mimeType: string };
+  content: string;
+  title: string | null;
+  tags: string[];
+}): Promise<SavedItem> =>
+  request<SavedItem>('/api/items', {
+    method: 'POST',
+    body: JSON.stringify({ ...options.file, content: options.content, title: options.title, tags: options.tags }),
+  });
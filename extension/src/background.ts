@@ -0,0 +1,70 @@
+import { saveImage, saveLink, savePage, saveSelection } from './capture.js';
+import { getSettings } from './storage.js';
+
+// Service worker: context menu actions. The result is shown on the toolbar badge
+// (✓ or !, with the error in the button's tooltip); the popup lists recent saves.
+
+const MENU_ITEMS: { id: string; title: string; contexts: chrome.contextMenus.ContextType[] }[] = [
+  { id: 'save-page', title: '페이지를 Self에 저장', contexts: ['page'] },
+  { id: 'save-selection', title: '선택한 텍스트를 Self에 저장', contexts: ['selection'] },
+  { id: 'save-image', title: '이미지를 Self에 저장', contexts: ['image'] },
+  { id: 'save-link', title: '링크를 Self에 저장', contexts: ['link'] },
+];
+
+const DEFAULT_TITLE = 'Self에 저장';
+const BADGE_DURATION_MS = 3000;
+
+chrome.runtime.onInstalled.addListener(async (details) => {
+  await chrome.contextMenus.removeAll();
+  for (const item of MENU_ITEMS) {
+    chrome.contextMenus.create(item);
+  }
+
+  // First install: the token has to be entered before anything can be saved
+  if (details.reason === 'install' && !(await getSettings()).token) {
+    await chrome.runtime.openOptionsPage();
+  }
+});
+
+async function showResult(error: unknown): Promise<void> {
+  const failed = error !== null;
+  await chrome.action.setBadgeBackgroundColor({ color: failed ? '#dc2626' : '#16a34a' });
+  await chrome.action.setBadgeText({ text: failed ? '!' : '✓' });
+  await chrome.action.setTitle({ title: failed ? `저장 실패: ${error instanceof Error ? error.message : error}` : DEFAULT_TITLE });
+
+  setTimeout(() => {
+    chrome.action.setBadgeText({ text: '' });
+    if (!failed) chrome.action.setTitle({ title: DEFAULT_TITLE });
+  }, BADGE_DURATION_MS);
+}
+
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  const pageUrl = info.pageUrl || tab?.url || '';
+  const title = tab?.title || null;
+
+  try {
+    switch (info.menuItemId) {
+      case 'save-page':
+        await savePage(pageUrl, title);
+        break;
+      case 'save-selection':
+        await saveSelection(info.selectionText || '', pageUrl, title);
+        break;
+      case 'save-image':
+        if (!info.srcUrl) throw new Error('이미지 주소를 찾을 수 없습니다.');
+        await saveImage(info.srcUrl, pageUrl, title);
+        break;
+      case 'save-link':
+        if (!info.linkUrl) throw new Error('링크 주소를 찾을 수 없습니다.');
+        // Chrome doesn't report the link's text; a selection inside the link is the closest thing
+        await saveLink(info.linkUrl, pageUrl, info.selectionText || null);
+        break;
+      default:
+        return;
+    }
+    await showResult(null);
+  } catch (error) {
+    console.error('[Self] Save failed:', error);
+    await showResult(error);
+  }
+});
@@ -0,0 +1,77 @@
+import { createFileItem, quickCapture, uploadFile } from './api.js';
+import { addRecentSave } from './storage.js';
+import type { RecentSave, SavedItem, SaveKind } from './types.js';
+
+// The four ways to save (page, selection, image, link), shared by the context menu and the popup.
+// Each one records the result in the recent saves list.
+
+export interface CaptureOptions {
+  tags?: string[];
+  reminderAt?: number | null;
+}
+
+const MAX_SELECTION_LENGTH = 20000;
+
+async function record(kind: SaveKind, item: SavedItem, fallbackTitle: string, url: string | null): Promise<RecentSave> {
+  const save: RecentSave = {
+    id: item.id,
+    kind,
+    title: item.title || item.ogTitle || item.fileName || fallbackTitle,
+    url,
+    savedAt: Date.now(),
+  };
+  await addRecentSave(save);
+  return save;
+}
+
+export async function savePage(pageUrl: string, title: string | null, options: CaptureOptions = {}): Promise<RecentSave> {
+  const item = await quickCapture({ url: pageUrl, sourceUrl: pageUrl, title, ...options });
+  return record('page', item, title || pageUrl, pageUrl);
+}
+
+export async function saveSelection(selection: string, pageUrl: string, title: string | null, options: CaptureOptions = {}): Promise<RecentSave> {
+  const text = selection.trim().slice(0, MAX_SELECTION_LENGTH);
+  const item = await quickCapture({ selection: text, url: pageUrl, sourceUrl: pageUrl, title, ...options });
+  return record('selection', item, text.slice(0, 80), pageUrl);
+}
+
+export async function saveLink(linkUrl: string, pageUrl: string, linkText: string | null, options: CaptureOptions = {}): Promise<RecentSave> {
+  const item = await quickCapture({ url: linkUrl, sourceUrl: pageUrl, title: linkText, ...options });
+  return record('link', item, linkText || linkUrl, linkUrl);
+}
+
+// Downloads the image and stores it as a file item. Images the extension can't read
+// (no CORS access to their host, data too large) are saved as a link to the image instead.
+export async function saveImage(imageUrl: string, pageUrl: string, title: string | null, options: CaptureOptions = {}): Promise<RecentSave> {
+  let image: Blob | null = null;
+  try {
+    const response = await fetch(imageUrl, { credentials: 'omit' });
+    if (response.ok) {
+      image = await response.blob();
+    }
+  } catch (error) {
+    console.warn('[Self] Image download failed, saving the link instead:', error);
+  }
+
+  if (!image || !image.type.startsWith('image/')) {
+    const item = await quickCapture({ url: imageUrl, sourceUrl: pageUrl, title, ...options });
+    return record('image', item, title || imageUrl, imageUrl);
+  }
+
+  const fileName = imageFileName(imageUrl, image.type);
+  const file = await uploadFile(image, fileName);
+  const item = await createFileItem({ file, content: pageUrl, title, tags: options.tags || [] });
+  return record('image', item, fileName, imageUrl);
+}
+
+function imageFileName(imageUrl: string, mimeType: string): string {
+  const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg').replace(/\+.*$/, '') || 'png';
+  try {
+    const name = decodeURIComponent(new URL(imageUrl).pathname.split('/').pop() || '');
+    if (/\.\w{2,5}$/.test(name)) return name;
+    if (name) return `${name}.${extension}`;
+  } catch {
+    // data: URLs and malformed paths get a generated name
+  }
+  return `image-${Date.now()}.${extension}`;
+}
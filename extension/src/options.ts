@@ -0,0 +1,46 @@
+import { getTags } from './api.js';
+import { DEFAULT_SERVER_URL, getSettings, saveSettings } from './storage.js';
+
+// Options page: the Self server and the personal API token. Saving checks the token with GET /api/tags.
+
+const form = document.getElementById('options-form') as HTMLFormElement;
+const serverUrl = document.getElementById('server-url') as HTMLInputElement;
+const token = document.getElementById('token') as HTMLInputElement;
+const status = document.getElementById('status') as HTMLElement;
+const tokenLink = document.getElementById('token-link') as HTMLAnchorElement;
+
+function setStatus(message: string, className: string): void {
+  status.textContent = message;
+  status.className = className;
+}
+
+function updateTokenLink(): void {
+  tokenLink.href = serverUrl.value.trim().replace(/\/+$/, '') || DEFAULT_SERVER_URL;
+}
+
+async function init(): Promise<void> {
+  const settings = await getSettings();
+  serverUrl.value = settings.serverUrl;
+  token.value = settings.token;
+  updateTokenLink();
+  serverUrl.addEventListener('input', updateTokenLink);
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    if (!/^https?:\/\//.test(serverUrl.value.trim())) {
+      setStatus('서버 주소는 http:// 또는 https://로 시작해야 합니다.', 'error');
+      return;
+    }
+
+    await saveSettings({ serverUrl: serverUrl.value, token: token.value });
+    setStatus('연결 확인 중...', 'muted');
+    try {
+      const tags = await getTags();
+      setStatus(`저장했습니다. 연결되었습니다 (태그 ${tags.length}개).`, 'success');
+    } catch (error) {
+      setStatus(`저장했지만 연결하지 못했습니다: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  });
+}
+
+init();
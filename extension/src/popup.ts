@@ -0,0 +1,167 @@
+import { getTags } from './api.js';
+import { savePage, saveSelection } from './capture.js';
+import { clearRecentSaves, getRecentSaves, getSettings } from './storage.js';
+import type { RecentSave, SaveKind } from './types.js';
+
+// Toolbar popup: save the current tab (or the selection / a note) with tags, and the recent saves list
+
+const KIND_LABELS: Record<SaveKind, string> = {
+  page: '페이지',
+  selection: '텍스트',
+  image: '이미지',
+  link: '링크',
+};
+
+const element = <T extends HTMLElement>(id: string): T => document.getElementById(id) as T;
+
+const selectedTags = new Set<string>();
+
+function setStatus(message: string, className = 'muted'): void {
+  const status = element('status');
+  status.textContent = message;
+  status.className = className;
+}
+
+function formatTime(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '방금';
+  if (minutes < 60) return `${minutes}분 전`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}시간 전`;
+  return new Date(timestamp).toLocaleDateString('ko-KR');
+}
+
+async function renderRecentSaves(): Promise<void> {
+  const saves = await getRecentSaves();
+  const list = element<HTMLUListElement>('recent-list');
+  list.replaceChildren();
+  element('recent').hidden = saves.length === 0;
+
+  for (const save of saves) {
+    list.appendChild(renderRecentSave(save));
+  }
+}
+
+function renderRecentSave(save: RecentSave): HTMLLIElement {
+  const item = document.createElement('li');
+
+  const title = document.createElement(save.url ? 'a' : 'span');
+  title.className = 'recent-title';
+  title.textContent = save.title;
+  if (save.url) {
+    const url = save.url;
+    title.setAttribute('href', url);
+    title.addEventListener('click', (event) => {
+      event.preventDefault();
+      chrome.tabs.create({ url });
+    });
+  }
+
+  const meta = document.createElement('span');
+  meta.className = 'muted';
+  meta.textContent = `${KIND_LABELS[save.kind]} · ${formatTime(save.savedAt)}`;
+
+  item.append(title, meta);
+  return item;
+}
+
+async function renderTags(): Promise<void> {
+  const container = element('tags');
+  try {
+    const tags = await getTags();
+    element('tags-field').hidden = tags.length === 0;
+    for (const tag of tags) {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'chip';
+      chip.textContent = tag.name;
+      chip.addEventListener('click', () => {
+        if (selectedTags.has(tag.id)) {
+          selectedTags.delete(tag.id);
+        } else {
+          selectedTags.add(tag.id);
+        }
+        chip.classList.toggle('on', selectedTags.has(tag.id));
+      });
+      container.appendChild(chip);
+    }
+  } catch (error) {
+    setStatus(error instanceof Error ? error.message : '태그를 불러오지 못했습니다.', 'error');
+  }
+}
+
+// Text selected in the tab (nothing on pages scripts can't run in, like the browser's own pages)
+async function getSelectionText(tabId: number): Promise<string> {
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => String(getSelection()),
+    });
+    return (result?.result as string | undefined)?.trim() || '';
+  } catch {
+    return '';
+  }
+}
+
+async function init(): Promise<void> {
+  const settings = await getSettings();
+  element('open-options').addEventListener('click', () => chrome.runtime.openOptionsPage());
+  element('open-app').addEventListener('click', () => chrome.tabs.create({ url: settings.serverUrl }));
+  element('clear-recent').addEventListener('click', async () => {
+    await clearRecentSaves();
+    await renderRecentSaves();
+  });
+  await renderRecentSaves();
+
+  if (!settings.token) {
+    element('setup').hidden = false;
+    element('setup-button').addEventListener('click', () => chrome.runtime.openOptionsPage());
+    return;
+  }
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  const pageUrl = tab?.url || '';
+  if (!tab?.id || !/^https?:\/\//.test(pageUrl)) {
+    element('unsupported').hidden = false;
+    return;
+  }
+
+  const form = element<HTMLFormElement>('capture-form');
+  const note = element<HTMLTextAreaElement>('note');
+  const submit = element<HTMLButtonElement>('submit');
+  form.hidden = false;
+  element('page-title').textContent = tab.title || pageUrl;
+  element('page-url').textContent = pageUrl;
+  note.value = await getSelectionText(tab.id);
+
+  const updateButton = () => {
+    submit.textContent = note.value.trim() ? '텍스트와 함께 저장' : '페이지 저장';
+  };
+  note.addEventListener('input', updateButton);
+  updateButton();
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    submit.disabled = true;
+    setStatus('저장 중...');
+    try {
+      const options = { tags: [...selectedTags] };
+      const text = note.value.trim();
+      if (text) {
+        await saveSelection(text, pageUrl, tab.title || null, options);
+      } else {
+        await savePage(pageUrl, tab.title || null, options);
+      }
+      setStatus('저장했습니다.', 'success');
+      await renderRecentSaves();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : '저장하지 못했습니다.', 'error');
+    } finally {
+      submit.disabled = false;
+    }
+  });
+
+  await renderTags();
+}
+
+init();
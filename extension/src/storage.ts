@@ -0,0 +1,36 @@
+import type { RecentSave, Settings } from './types.js';
+
+// Settings and the recent saves list, in chrome.storage.local (never synced: the token stays on this device)
+
+export const DEFAULT_SERVER_URL = 'https://self.huny.dev';
+
+const MAX_RECENT_SAVES = 20;
+
+export async function getSettings(): Promise<Settings> {
+  const stored = await chrome.storage.local.get(['serverUrl', 'token']);
+  return {
+    serverUrl: (stored.serverUrl as string | undefined) || DEFAULT_SERVER_URL,
+    token: (stored.token as string | undefined) || '',
+  };
+}
+
+export async function saveSettings(settings: Settings): Promise<void> {
+  await chrome.storage.local.set({
+    serverUrl: settings.serverUrl.trim().replace(/\/+$/, '') || DEFAULT_SERVER_URL,
+    token: settings.token.trim(),
+  });
+}
+
+export async function getRecentSaves(): Promise<RecentSave[]> {
+  const stored = await chrome.storage.local.get('recentSaves');
+  return (stored.recentSaves as RecentSave[] | undefined) || [];
+}
+
+export async function addRecentSave(save: RecentSave): Promise<void> {
+  const recentSaves = await getRecentSaves();
+  await chrome.storage.local.set({ recentSaves: [save, ...recentSaves].slice(0, MAX_RECENT_SAVES) });
+}
+
+export async function clearRecentSaves(): Promise<void> {
+  await chrome.storage.local.remove('recentSaves');
+}
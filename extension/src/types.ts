@@ -0,0 +1,43 @@
+// Shapes shared by the background worker, the popup and the options page
+
+export interface Settings {
+  serverUrl: string; // Origin of the Self deployment
+  token: string; // Personal API token (items:write, tags:read)
+}
+
+// Subset of the app's Tag (GET /api/tags)
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+// Body of POST /api/items/quick
+export interface QuickCapture {
+  url?: string;
+  title?: string | null;
+  selection?: string;
+  sourceUrl?: string;
+  tags?: string[];
+  reminderAt?: number | null;
+}
+
+// Subset of the created item returned by the API
+export interface SavedItem {
+  id: string;
+  type: string;
+  title: string | null;
+  ogTitle?: string | null;
+  fileName?: string | null;
+}
+
+export type SaveKind = 'page' | 'selection' | 'image' | 'link';
+
+// Entry of the popup's "recent saves" list
+export interface RecentSave {
+  id: string;
+  kind: SaveKind;
+  title: string;
+  url: string | null;
+  savedAt: number;
+}
@@ -1,7 +1,7 @@
 // Service Worker for Self PWA
-// Version 15 - Improved Android browser compatibility
-const SW_VERSION = 15;
-const CACHE_NAME = 'self-v15';
+// Version 16 - Public share and collection pages bypass the cache
+const SW_VERSION = 16;
+const CACHE_NAME = 'self-v16';
 const STATIC_ASSETS = [
   '/',
   '/index.html',
@@ -55,6 +55,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // DO NOT intercept public pages rendered by the worker (share links, published tags)
+  if (url.pathname.startsWith('/s/') || url.pathname.startsWith('/c/')) {
+    return;
+  }
+
   // Skip non-http(s) schemes
   if (!url.protocol.startsWith('http')) {
     return;
@@ -1,7 +1,19 @@
-// HunyDev SSO OAuth 2.0 Service
+// Authentication providers: HunyDev SSO (or another OAuth 2.0 server) with PKCE,
+// local accounts and a dev-only test user. The worker decides which one is used (GET /api/auth/config).
 
-const CLIENT_ID = 'client_BBonadEVFcfxGoHxB0DnJtsw';
-const AUTH_SERVER = 'https://auth.huny.dev';
+export type AuthProviderType = 'oauth' | 'local' | 'dev';
+
+export interface AuthConfig {
+  provider: AuthProviderType;
+  issuer?: string; // oauth
+  clientId?: string; // oauth
+  allowSignup?: boolean; // local
+}
+
+// Last config from the worker, so a signed-in PWA can refresh tokens and log out offline
+const AUTH_CONFIG_STORAGE_KEY = 'auth_config';
+
+let authConfig: AuthConfig | null = null;
 
 // Dynamic callback URI based on environment
 const getCallbackUri = () => {
@@ -12,6 +24,47 @@ const getCallbackUri = () => {
 // Token refresh buffer (5 minutes before expiry)
 const REFRESH_BUFFER_MS = 5 * 60 * 1000;
 
+let authConfigPromise: Promise<AuthConfig> | null = null;
+
+// Load the auth provider config from the worker once (falls back to the last known config)
+export function loadAuthConfig(): Promise<AuthConfig> {
+  if (!authConfigPromise) {
+    authConfigPromise = fetchAuthConfig().catch((error) => {
+      authConfigPromise = null;
+      throw error;
+    });
+  }
+  return authConfigPromise;
+}
+
+async function fetchAuthConfig(): Promise<AuthConfig> {
+  try {
+    const response = await fetch('/api/auth/config');
+    if (!response.ok) {
+      throw new Error(`Auth config request failed: ${response.status}`);
+    }
+    const config: AuthConfig = await response.json();
+    localStorage.setItem(AUTH_CONFIG_STORAGE_KEY, JSON.stringify(config));
+    authConfig = config;
+    return config;
+  } catch (error) {
+    const cached = localStorage.getItem(AUTH_CONFIG_STORAGE_KEY);
+    if (!cached) {
+      throw error;
+    }
+    const config: AuthConfig = JSON.parse(cached);
+    authConfig = config;
+    return config;
+  }
+}
+
+function getOAuthConfig(): { issuer: string; clientId: string } {
+  if (authConfig?.provider !== 'oauth' || !authConfig.issuer || !authConfig.clientId) {
+    throw new Error('OAuth sign-in is not configured');
+  }
+  return { issuer: authConfig.issuer, clientId: authConfig.clientId };
+}
+
 export interface TokenResponse {
   access_token: string;
   refresh_token?: string;
@@ -55,6 +108,7 @@ function generateState(): string {
 
 // Initiate login (redirect method)
 export async function initiateLogin(): Promise<void> {
+  const { issuer, clientId } = getOAuthConfig();
   const codeVerifier = generateCodeVerifier();
   const codeChallenge = await generateCodeChallenge(codeVerifier);
   const state = generateState();
@@ -65,7 +119,7 @@ export async function initiateLogin(): Promise<void> {
 
   const params = new URLSearchParams({
     response_type: 'code',
-    client_id: CLIENT_ID,
+    client_id: clientId,
     redirect_uri: getCallbackUri(),
     scope: 'openid profile email',
     state: state,
@@ -73,11 +127,12 @@ export async function initiateLogin(): Promise<void> {
     code_challenge_method: 'S256',
   });
 
-  window.location.href = `${AUTH_SERVER}/oauth/authorize?${params.toString()}`;
+  window.location.href = `${issuer}/oauth/authorize?${params.toString()}`;
 }
 
 // Handle callback and exchange code for tokens
 export async function handleCallback(): Promise<{ accessToken: string; user: User; refreshToken?: string; expiresAt?: number }> {
+  const { issuer, clientId } = getOAuthConfig();
   const params = new URLSearchParams(window.location.search);
   const code = params.get('code');
   const state = params.get('state');
@@ -99,14 +154,14 @@ export async function handleCallback(): Promise<{ accessToken: string; user: Use
   }
 
   // Exchange code for tokens
-  const tokenResponse = await fetch(`${AUTH_SERVER}/oauth/token`, {
+  const tokenResponse = await fetch(`${issuer}/oauth/token`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     body: new URLSearchParams({
       grant_type: 'authorization_code',
       code: code,
       redirect_uri: getCallbackUri(),
-      client_id: CLIENT_ID,
+      client_id: clientId,
       code_verifier: codeVerifier,
     }),
   });
@@ -138,7 +193,8 @@ export async function handleCallback(): Promise<{ accessToken: string; user: Use
 
 // Fetch user info from OAuth server
 export async function fetchUserInfo(accessToken: string): Promise<User> {
-  const response = await fetch(`${AUTH_SERVER}/oauth/userinfo`, {
+  const { issuer } = getOAuthConfig();
+  const response = await fetch(`${issuer}/oauth/userinfo`, {
     headers: { Authorization: `Bearer ${accessToken}` },
   });
 
@@ -152,13 +208,14 @@ export async function fetchUserInfo(accessToken: string): Promise<User> {
 // Refresh access token
 export async function refreshAccessToken(refreshToken: string): Promise<TokenResponse | null> {
   try {
-    const response = await fetch(`${AUTH_SERVER}/oauth/token`, {
+    const { issuer, clientId } = getOAuthConfig();
+    const response = await fetch(`${issuer}/oauth/token`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: new URLSearchParams({
         grant_type: 'refresh_token',
         refresh_token: refreshToken,
-        client_id: CLIENT_ID,
+        client_id: clientId,
       }),
     });
 
@@ -172,15 +229,56 @@ export async function refreshAccessToken(refreshToken: string): Promise<TokenRes
   }
 }
 
-// Logout (revoke token)
+// Sign in with a local account, or create one (local provider)
+export async function loginWithPassword(
+  username: string,
+  password: string,
+  signup?: { name?: string }
+): Promise<{ accessToken: string; user: User; expiresAt?: number }> {
+  const response = await fetch(`/api/auth/local/${signup ? 'signup' : 'login'}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password, name: signup?.name }),
+  });
+  return readSessionResponse(response);
+}
+
+// Sign in as the fixed test user (dev provider)
+export async function loginAsDevUser(): Promise<{ accessToken: string; user: User; expiresAt?: number }> {
+  const response = await fetch('/api/auth/dev/login', { method: 'POST' });
+  return readSessionResponse(response);
+}
+
+async function readSessionResponse(response: Response): Promise<{ accessToken: string; user: User; expiresAt?: number }> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: '로그인에 실패했습니다' })) as { error?: string };
+    throw new Error(errorData.error || '로그인에 실패했습니다');
+  }
+
+  const data: TokenResponse & { user: User } = await response.json();
+  return {
+    accessToken: data.access_token,
+    user: data.user,
+    expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+  };
+}
+
+// Logout (revoke token at the OAuth server, or end the worker session)
 export async function logout(accessToken?: string): Promise<void> {
   if (accessToken) {
     try {
-      await fetch(`${AUTH_SERVER}/oauth/revoke`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({ token: accessToken }),
-      });
+      if (authConfig?.provider === 'oauth' && authConfig.issuer) {
+        await fetch(`${authConfig.issuer}/oauth/revoke`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ token: accessToken }),
+        });
+      } else {
+        await fetch('/api/auth/logout', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+      }
     } catch {
       // Continue with local logout even if revoke fails
     }
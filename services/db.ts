@@ -1,4 +1,18 @@
-import { Item, ItemType, Tag } from '../types';
+import { ApiToken, ApiTokenScope, EmailInbox, Item, ItemFacets, ItemFile, ItemRevision, ItemType, ShareLink, Tag, TelegramChat, TelegramLinkCode, Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import {
+  ENCRYPTION_VERSION,
+  ItemKey,
+  EncryptedItemFields,
+  generateSalt,
+  deriveItemKey,
+  encryptItemFields,
+  decryptItemFields,
+  encryptBlob,
+  decryptBlob,
+  hashLegacyEncryptionKey,
+  VaultCheck,
+  WrappedItemKey,
+} from './encryptionService';
 
 const API_BASE = '/api';
 
@@ -8,9 +22,11 @@ interface ApiItem {
   content: string;
   htmlContent?: string;
   fileKey?: string;
+  fileUrl?: string;
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
+  files?: ItemFile[];
   title?: string;
   ogImage?: string;
   ogTitle?: string;
@@ -25,15 +41,31 @@ interface ApiItem {
   createdAt: number;
 }
 
+// Item returned by POST /api/items/:id/unlock
+interface ApiUnlockedItem extends ApiItem {
+  encryptionVersion: number;
+  encryptionSalt?: string;
+  encryptionIv?: string;
+  encryptedData?: string;
+  failedAttempts?: FailedUnlockAttempts;
+}
+
+interface ApiSearchItem extends ApiItem {
+  snippet?: string;
+  rank?: number;
+}
+
 interface ApiTag {
   id: string;
   name: string;
   color?: string;
   autoKeywords?: string[];
+  publicUrl?: string | null;
 }
 
 interface UploadResult {
   fileKey: string;
+  fileUrl: string;
   fileName: string;
   fileSize: number;
   mimeType: string;
@@ -63,9 +95,11 @@ const transformItem = (apiItem: ApiItem): Item => ({
   content: apiItem.content,
   htmlContent: apiItem.htmlContent,
   fileKey: apiItem.fileKey,
+  fileUrl: apiItem.fileUrl,
   fileName: apiItem.fileName,
   fileSize: apiItem.fileSize,
   mimeType: apiItem.mimeType,
+  files: apiItem.files,
   title: apiItem.title,
   ogImage: apiItem.ogImage,
   ogTitle: apiItem.ogTitle,
@@ -86,25 +120,35 @@ const transformTag = (apiTag: ApiTag): Tag => ({
   name: apiTag.name,
   color: apiTag.color,
   autoKeywords: apiTag.autoKeywords || [],
+  publicUrl: apiTag.publicUrl ?? null,
 });
 
-// Hash encryption key using SHA-256
-export const hashEncryptionKey = async (key: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(key);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-};
+export interface ItemsPage {
+  items: Item[];
+  nextCursor: string | null;
+}
 
-// Get all items
-export const getItems = async (type?: ItemType | 'all', encrypted?: boolean): Promise<Item[]> => {
+export interface GetItemsPageOptions {
+  type?: ItemType | 'all';
+  encrypted?: boolean;
+  cursor?: string | null;
+  limit?: number;
+}
+
+// Get one page of items (newest first). Pass the previous page's nextCursor to continue.
+export const getItemsPage = async (options: GetItemsPageOptions = {}): Promise<ItemsPage> => {
   const params = new URLSearchParams();
-  if (type && type !== 'all') {
-    params.set('type', type);
+  if (options.type && options.type !== 'all') {
+    params.set('type', options.type);
+  }
+  if (options.encrypted !== undefined) {
+    params.set('encrypted', options.encrypted.toString());
+  }
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
   }
-  if (encrypted !== undefined) {
-    params.set('encrypted', encrypted.toString());
+  if (options.limit) {
+    params.set('limit', options.limit.toString());
   }
 
   const url = `${API_BASE}/items${params.toString() ? '?' + params.toString() : ''}`;
@@ -116,8 +160,68 @@ export const getItems = async (type?: ItemType | 'all', encrypted?: boolean): Pr
     throw new Error('Failed to fetch items');
   }
 
-  const data: ApiItem[] = await response.json();
-  return data.map(transformItem);
+  const data: { items: ApiItem[]; nextCursor: string | null } = await response.json();
+  return {
+    items: data.items.map(transformItem),
+    nextCursor: data.nextCursor,
+  };
+};
+
+// Get all items by walking every page (used by export)
+export const getItems = async (type?: ItemType | 'all', encrypted?: boolean): Promise<Item[]> => {
+  const allItems: Item[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: ItemsPage = await getItemsPage({ type, encrypted, cursor, limit: 200 });
+    allItems.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return allItems;
+};
+
+// Search items on the server (full-text, ranked by relevance)
+export const searchItems = async (
+  query: string,
+  options: { type?: ItemType | 'all'; tagId?: string | null; signal?: AbortSignal } = {}
+): Promise<Item[]> => {
+  const params = new URLSearchParams();
+  params.set('q', query);
+  if (options.type && options.type !== 'all') {
+    params.set('type', options.type);
+  }
+  if (options.tagId) {
+    params.set('tagId', options.tagId);
+  }
+
+  const response = await fetch(`${API_BASE}/items/search?${params.toString()}`, {
+    headers: getAuthHeaders(),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to search items');
+  }
+
+  const data: ApiSearchItem[] = await response.json();
+  return data.map(item => ({
+    ...transformItem(item),
+    searchSnippet: item.snippet,
+  }));
+};
+
+// Get exact sidebar counts for the current user
+export const getItemFacets = async (): Promise<ItemFacets> => {
+  const response = await fetch(`${API_BASE}/items/facets`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch item facets');
+  }
+
+  return response.json();
 };
 
 // Get single item by ID
@@ -191,7 +295,7 @@ const uploadFileWithProgress = (
 
 // Save item with optional progress tracking and encryption
 export const saveItem = async (
-  item: Omit<Item, 'id' | 'createdAt'> & { encryptionKey?: string },
+  item: Omit<Item, 'id' | 'createdAt'> & { encryptionKey?: string; autoTag?: boolean },
   onProgress?: UploadProgressCallback
 ): Promise<Item> => {
   let fileKey: string | undefined;
@@ -199,25 +303,69 @@ export const saveItem = async (
   let fileSize: number | undefined;
   let mimeType: string | undefined;
 
+  // Encrypted items are encrypted here, before anything leaves the browser
+  const itemKey = item.isEncrypted && item.encryptionKey
+    ? await deriveItemKey(item.encryptionKey, generateSalt())
+    : null;
+  if (item.isEncrypted && !itemKey) {
+    throw new Error('암호화 키가 필요합니다.');
+  }
+  let fileIv: string | undefined;
+  let files: Omit<ItemFile, 'id'>[] | undefined;
+
+  // Album: upload every file first (progress is reported over the total size)
+  if (item.fileBlobs && item.fileBlobs.length > 1) {
+    if (itemKey) {
+      throw new Error('앨범은 암호화할 수 없습니다.');
+    }
+
+    const totalSize = item.fileBlobs.reduce((sum, blob) => sum + blob.size, 0) || 1;
+    let uploadedSize = 0;
+    files = [];
+    for (const blob of item.fileBlobs) {
+      const uploadResult = await uploadFileWithProgress(blob, blob.name || 'file', (progress) => {
+        onProgress?.(Math.round(((uploadedSize + (blob.size * progress) / 100) / totalSize) * 100));
+      });
+      uploadedSize += blob.size;
+      files.push({
+        fileKey: uploadResult.fileKey,
+        fileName: uploadResult.fileName,
+        fileSize: uploadResult.fileSize,
+        mimeType: uploadResult.mimeType,
+      });
+    }
+  }
+
   // Upload file first if exists
-  if (item.fileBlob) {
+  if (item.fileBlob && !files) {
+    let fileBlob = item.fileBlob;
+    if (itemKey) {
+      const encrypted = await encryptBlob(itemKey.key, item.fileBlob);
+      fileBlob = encrypted.blob;
+      fileIv = encrypted.iv;
+    }
+
     const uploadResult = await uploadFileWithProgress(
-      item.fileBlob,
-      item.fileName || 'file',
+      fileBlob,
+      itemKey ? ENCRYPTED_FILE_NAME : (item.fileName || 'file'),
       onProgress
     );
 
     fileKey = uploadResult.fileKey;
-    fileName = uploadResult.fileName;
-    fileSize = uploadResult.fileSize;
-    mimeType = uploadResult.mimeType;
+    fileName = itemKey ? (item.fileName || 'file') : uploadResult.fileName;
+    fileSize = itemKey ? item.fileBlob.size : uploadResult.fileSize;
+    mimeType = itemKey ? item.fileBlob.type : uploadResult.mimeType;
   }
 
-  // Generate encryption hash if encryption is enabled
-  let encryptionHash: string | undefined;
-  if (item.isEncrypted && item.encryptionKey) {
-    encryptionHash = await hashEncryptionKey(item.encryptionKey);
-  }
+  const encryptedPayload = itemKey
+    ? await encryptItemFields(itemKey, {
+        content: item.content,
+        htmlContent: item.htmlContent,
+        fileName: fileName || item.fileName,
+        mimeType: mimeType || item.mimeType,
+        fileIv,
+      })
+    : undefined;
 
   // Create item
   const response = await fetch(`${API_BASE}/items`, {
@@ -225,17 +373,20 @@ export const saveItem = async (
     headers: getAuthHeaders(),
     body: JSON.stringify({
       type: item.type,
-      content: item.content,
-      htmlContent: item.htmlContent,
+      content: itemKey ? '' : item.content,
+      htmlContent: itemKey ? undefined : item.htmlContent,
       fileKey: fileKey || item.fileKey,
-      fileName: fileName || item.fileName,
+      fileName: itemKey ? undefined : (fileName || item.fileName),
       fileSize: fileSize || item.fileSize,
-      mimeType: mimeType || item.mimeType,
+      mimeType: itemKey ? undefined : (mimeType || item.mimeType),
       title: item.title,
       tags: item.tags,
       isEncrypted: item.isEncrypted,
       isCode: item.isCode,
-      encryptionHash,
+      files,
+      // The server adds tags whose keywords match unless the caller already did
+      autoTag: item.autoTag,
+      ...encryptedPayload,
     }),
   });
 
@@ -248,6 +399,22 @@ export const saveItem = async (
   return transformItem(data);
 };
 
+// Group file items into one album (the first item becomes the album, the others are merged into it)
+export const createAlbum = async (itemIds: string[], title?: string): Promise<{ id: string; mergedIds: string[] }> => {
+  const response = await fetch(`${API_BASE}/items/album`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ itemIds, title }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create album' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create album');
+  }
+
+  return response.json();
+};
+
 // Delete item
 export const deleteItem = async (id: string): Promise<void> => {
   const response = await fetch(`${API_BASE}/items/${id}`, {
@@ -325,6 +492,34 @@ export const deleteTag = async (id: string): Promise<void> => {
   }
 };
 
+// Publish tag as a public collection (rotate: replace its URL). Returns the public URL.
+export const publishTag = async (id: string, rotate = false): Promise<string> => {
+  const response = await fetch(`${API_BASE}/tags/${id}/publish`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ rotate }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to publish tag');
+  }
+
+  const data: { publicUrl: string } = await response.json();
+  return data.publicUrl;
+};
+
+// Unpublish tag
+export const unpublishTag = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/tags/${id}/publish`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to unpublish tag');
+  }
+};
+
 // Update item tags
 export const updateItemTags = async (itemId: string, tagIds: string[]): Promise<void> => {
   const response = await fetch(`${API_BASE}/items/${itemId}`, {
@@ -355,14 +550,115 @@ export const toggleFavorite = async (itemId: string, isFavorite: boolean): Promi
   }
 };
 
+// Bulk operation applied to many items at once (POST /api/items/bulk)
+export type BulkAction =
+  | { operation: 'addTags' | 'removeTags'; tagIds: string[] }
+  | { operation: 'setFavorite'; isFavorite: boolean }
+  | { operation: 'trash' | 'restore' | 'deletePermanently' }
+  | { operation: 'setReminder'; reminderAt: number | null }
+  | { operation: 'setExpiry'; expiresAt: number | null };
+
+// Apply a bulk action to a list of items, returns the number of affected rows
+export const bulkUpdateItems = async (ids: string[], action: BulkAction): Promise<number> => {
+  const response = await fetch(`${API_BASE}/items/bulk`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...action, ids }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to apply bulk operation' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to apply bulk operation');
+  }
+
+  const data = await response.json() as { affected: number };
+  return data.affected;
+};
+
 // Get file URL
-export const getFileUrl = (fileKey: string): string => {
-  return `${API_BASE}/upload/${fileKey}`;
+// Signed download URL of an item's file (files are not served without a signature)
+export const getFileUrl = (item: Pick<Item, 'fileKey' | 'fileUrl'>): string | null => {
+  return item.fileKey ? item.fileUrl ?? null : null;
+};
+
+// Signed file URL that makes the server send the original file name (Content-Disposition)
+// Object URLs of decrypted files are returned unchanged.
+export const getFileDownloadUrl = (fileUrl: string): string => {
+  return fileUrl.startsWith(`${API_BASE}/upload/`) ? `${fileUrl}&download=1` : fileUrl;
+};
+
+// How long the app uses signed URLs before asking for new ones (the server keeps them valid for at least an hour)
+export const FILE_URL_REFRESH_MS = 45 * 60 * 1000;
+
+export type SignedFileUrls = Pick<Item, 'id' | 'fileUrl' | 'files'>;
+
+// Server limit of ids per file URL request
+const FILE_URL_BATCH_SIZE = 500;
+
+// Re-sign the file URLs of loaded items (POST /api/items/file-urls). Items without files are omitted.
+export const refreshFileUrls = async (ids: string[]): Promise<SignedFileUrls[]> => {
+  const signed: SignedFileUrls[] = [];
+  for (let i = 0; i < ids.length; i += FILE_URL_BATCH_SIZE) {
+    const response = await fetch(`${API_BASE}/items/file-urls`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ids: ids.slice(i, i + FILE_URL_BATCH_SIZE) }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to refresh file URLs');
+    }
+
+    const data = await response.json() as { items: SignedFileUrls[] };
+    signed.push(...data.items);
+  }
+  return signed;
+};
+
+// Name used for encrypted uploads (the real file name is inside the ciphertext)
+const ENCRYPTED_FILE_NAME = 'encrypted.bin';
+
+// Wrong passwords entered for an item since it was last opened
+export interface FailedUnlockAttempts {
+  count: number;
+  lastFailedAt: number | null;
+}
+
+// Decrypted view of an encrypted item, kept only in memory while it is open
+export interface UnlockedItem {
+  item: Item; // Decrypted fields; fileKey points to the stored (encrypted) file
+  itemKey: ItemKey | null; // null for legacy items that are not migrated yet
+  keyHash: string; // Proof of the passphrase for follow-up requests
+  fileIv?: string;
+  failedAttempts?: FailedUnlockAttempts;
+}
+
+// Public encryption parameters of an item
+const getEncryptionParams = async (itemId: string): Promise<{ version: number; salt?: string }> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/encryption`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch encryption parameters');
+  }
+
+  return response.json();
+};
+
+// Derive the key hash the server checks (and the item key for current-format items)
+const deriveKeyHash = async (itemId: string, passphrase: string): Promise<{ keyHash: string; itemKey: ItemKey | null }> => {
+  const params = await getEncryptionParams(itemId);
+  if (params.version === ENCRYPTION_VERSION && params.salt) {
+    const itemKey = await deriveItemKey(passphrase, params.salt);
+    return { keyHash: itemKey.verifier, itemKey };
+  }
+  return { keyHash: await hashLegacyEncryptionKey(passphrase), itemKey: null };
 };
 
 // Verify encryption key for an item
 export const verifyEncryptionKey = async (itemId: string, key: string): Promise<boolean> => {
-  const keyHash = await hashEncryptionKey(key);
+  const { keyHash } = await deriveKeyHash(itemId, key);
 
   const response = await fetch(`${API_BASE}/items/${itemId}/verify`, {
     method: 'POST',
@@ -378,14 +674,18 @@ export const verifyEncryptionKey = async (itemId: string, key: string): Promise<
   return data.valid;
 };
 
-// Unlock encrypted item and get full content
-export const unlockItem = async (itemId: string, key: string): Promise<Item> => {
-  const keyHash = await hashEncryptionKey(key);
-
+// Fetch an encrypted item with its key hash and decrypt it locally
+// `preview` unlocks (feed thumbnails) do not count as opening the item
+const fetchUnlockedItem = async (
+  itemId: string,
+  keyHash: string,
+  itemKey: ItemKey | null,
+  purpose: 'open' | 'preview' = 'open'
+): Promise<UnlockedItem> => {
   const response = await fetch(`${API_BASE}/items/${itemId}/unlock`, {
     method: 'POST',
     headers: getAuthHeaders(),
-    body: JSON.stringify({ keyHash }),
+    body: JSON.stringify({ keyHash, purpose }),
   });
 
   if (!response.ok) {
@@ -393,38 +693,282 @@ export const unlockItem = async (itemId: string, key: string): Promise<Item> =>
     throw new Error(errorData.error || 'Failed to unlock item');
   }
 
-  const data: ApiItem = await response.json();
-  return transformItem(data);
+  const data: ApiUnlockedItem = await response.json();
+  const item = transformItem(data);
+
+  // Legacy items come back as plaintext
+  if (!itemKey || !data.encryptedData || !data.encryptionIv) {
+    return { item, itemKey: null, keyHash, failedAttempts: data.failedAttempts };
+  }
+
+  const fields = await decryptItemFields(itemKey.key, data.encryptedData, data.encryptionIv);
+  return {
+    item: {
+      ...item,
+      content: fields.content,
+      htmlContent: fields.htmlContent,
+      ogImage: fields.ogImage,
+      ogTitle: fields.ogTitle,
+      ogDescription: fields.ogDescription,
+      fileName: fields.fileName,
+      mimeType: fields.mimeType,
+    },
+    itemKey,
+    keyHash,
+    fileIv: fields.fileIv,
+    failedAttempts: data.failedAttempts,
+  };
 };
 
-// Toggle item encryption status
-export const toggleEncryption = async (
-  itemId: string,
-  isEncrypted: boolean,
-  key: string,
-  title?: string
-): Promise<void> => {
-  const keyHash = await hashEncryptionKey(key);
-
-  const body: Record<string, unknown> = {
-    isEncrypted,
-    encryptionHash: keyHash,
+// Download the plaintext file of an item (decrypting it when needed)
+const fetchPlainFile = async (unlocked: UnlockedItem): Promise<Blob | null> => {
+  const { item, itemKey, fileIv } = unlocked;
+  const fileUrl = getFileUrl(item);
+  if (!fileUrl) return null;
+
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error('Failed to fetch file');
+  }
+
+  const blob = await response.blob();
+  if (itemKey && fileIv) {
+    return decryptBlob(itemKey.key, blob, fileIv, item.mimeType);
+  }
+  return blob;
+};
+
+// Object URL of the decrypted file (caller revokes it)
+export const getDecryptedFileUrl = async (unlocked: UnlockedItem): Promise<string | null> => {
+  const blob = await fetchPlainFile(unlocked);
+  return blob ? URL.createObjectURL(blob) : null;
+};
+
+// Encrypt a plaintext item (or legacy encrypted item) with `itemKey` and store the ciphertext
+const storeEncryptedItem = async (
+  item: Item,
+  itemKey: ItemKey,
+  options: { previousKeyHash?: string; title?: string; plainFile?: Blob | null }
+): Promise<UnlockedItem> => {
+  let fileKey: string | undefined;
+  let fileUrl: string | undefined;
+  let fileIv: string | undefined;
+
+  if (options.plainFile) {
+    const encrypted = await encryptBlob(itemKey.key, options.plainFile);
+    const uploadResult = await uploadFileWithProgress(encrypted.blob, ENCRYPTED_FILE_NAME);
+    fileKey = uploadResult.fileKey;
+    fileUrl = uploadResult.fileUrl;
+    fileIv = encrypted.iv;
+  }
+
+  const fields: EncryptedItemFields = {
+    content: item.content,
+    htmlContent: item.htmlContent,
+    ogImage: item.ogImage,
+    ogTitle: item.ogTitle,
+    ogDescription: item.ogDescription,
+    fileName: item.fileName,
+    mimeType: item.mimeType,
+    fileIv,
   };
+  const payload = await encryptItemFields(itemKey, fields);
+
+  const response = await fetch(`${API_BASE}/items/${item.id}/encrypt`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({
+      ...payload,
+      previousKeyHash: options.previousKeyHash,
+      fileKey,
+      title: options.title,
+    }),
+  });
 
-  // If enabling encryption and title is provided, update title too
-  if (isEncrypted && title) {
-    body.title = title;
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to encrypt item' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to encrypt item');
   }
 
-  const response = await fetch(`${API_BASE}/items/${itemId}`, {
+  return {
+    item: {
+      ...item,
+      isEncrypted: true,
+      title: options.title || item.title,
+      fileKey: fileKey || item.fileKey,
+      fileUrl: fileUrl || item.fileUrl,
+    },
+    itemKey,
+    keyHash: itemKey.verifier,
+    fileIv,
+  };
+};
+
+// Unlock encrypted item and get full content
+// Legacy (plaintext) items are re-encrypted client-side on the way.
+export const unlockItem = async (itemId: string, key: string): Promise<UnlockedItem> => {
+  const { keyHash, itemKey } = await deriveKeyHash(itemId, key);
+  const unlocked = await fetchUnlockedItem(itemId, keyHash, itemKey);
+
+  if (unlocked.itemKey) {
+    return unlocked;
+  }
+
+  try {
+    const newKey = await deriveItemKey(key, generateSalt());
+    const plainFile = await fetchPlainFile(unlocked);
+    const migrated = await storeEncryptedItem(unlocked.item, newKey, { previousKeyHash: keyHash, plainFile });
+    return { ...migrated, failedAttempts: unlocked.failedAttempts };
+  } catch (error) {
+    // The item stays readable; migration is retried on the next unlock
+    console.error('Failed to migrate legacy encrypted item:', error);
+    return unlocked;
+  }
+};
+
+// Unlock with an item key that is already known (e.g. unwrapped from the vault)
+export const unlockItemWithKey = async (itemId: string, itemKey: ItemKey, purpose: 'open' | 'preview' = 'open'): Promise<UnlockedItem> => {
+  return fetchUnlockedItem(itemId, itemKey.verifier, itemKey, purpose);
+};
+
+// Item key for a passphrase without unlocking (null for legacy items)
+export const getItemKey = async (itemId: string, key: string): Promise<ItemKey | null> => {
+  const { itemKey } = await deriveKeyHash(itemId, key);
+  return itemKey;
+};
+
+// Encrypt an existing item with a new passphrase
+export const encryptItem = async (itemId: string, key: string, title?: string): Promise<UnlockedItem> => {
+  const item = await getItem(itemId);
+  const itemKey = await deriveItemKey(key, generateSalt());
+  const plainFile = await fetchPlainFile({ item, itemKey: null, keyHash: '' });
+  return storeEncryptedItem(item, itemKey, { title, plainFile });
+};
+
+// Decrypt an encrypted item back into a plain item
+export const decryptItem = async (itemId: string, key: string): Promise<void> => {
+  const { keyHash, itemKey } = await deriveKeyHash(itemId, key);
+  const unlocked = await fetchUnlockedItem(itemId, keyHash, itemKey);
+  const { item } = unlocked;
+
+  // Current-format files are stored encrypted and have to be uploaded again in plaintext
+  let fileKey: string | undefined;
+  if (unlocked.itemKey && item.fileKey) {
+    const plainFile = await fetchPlainFile(unlocked);
+    if (plainFile) {
+      const uploadResult = await uploadFileWithProgress(plainFile, item.fileName || 'file');
+      fileKey = uploadResult.fileKey;
+    }
+  }
+
+  const response = await fetch(`${API_BASE}/items/${itemId}/decrypt`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({
+      keyHash,
+      content: item.content,
+      htmlContent: item.htmlContent,
+      ogImage: item.ogImage,
+      ogTitle: item.ogTitle,
+      ogDescription: item.ogDescription,
+      fileKey,
+      fileName: item.fileName,
+      mimeType: item.mimeType,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to decrypt item' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to decrypt item');
+  }
+};
+
+// Save an edited body of an unlocked encrypted item (re-encrypted with the same key)
+export const updateEncryptedItemContent = async (unlocked: UnlockedItem, update: ItemContentUpdate): Promise<UnlockedItem> => {
+  if (!unlocked.itemKey) {
+    throw new Error('Item is not unlocked');
+  }
+
+  const item = { ...unlocked.item, content: update.content, htmlContent: update.htmlContent, isCode: update.isCode };
+  const payload = await encryptItemFields(unlocked.itemKey, {
+    content: item.content,
+    htmlContent: item.htmlContent,
+    ogImage: item.ogImage,
+    ogTitle: item.ogTitle,
+    ogDescription: item.ogDescription,
+    fileName: item.fileName,
+    mimeType: item.mimeType,
+    fileIv: unlocked.fileIv,
+  });
+
+  const response = await fetch(`${API_BASE}/items/${item.id}/encrypt`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...payload, previousKeyHash: unlocked.keyHash, isCode: !!update.isCode }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update item content');
+  }
+
+  return { ...unlocked, item };
+};
+
+// Vault (master passphrase) - only ciphertext is exchanged with the server
+export interface Vault extends VaultCheck {
+  salt: string;
+  createdAt: number;
+}
+
+export interface VaultKey extends WrappedItemKey {
+  itemId: string;
+}
+
+export const getVault = async (): Promise<{ vault: Vault | null; keys: VaultKey[] }> => {
+  const response = await fetch(`${API_BASE}/vault`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch vault');
+  }
+
+  return response.json();
+};
+
+export const createVault = async (salt: string, check: VaultCheck): Promise<void> => {
+  const response = await fetch(`${API_BASE}/vault`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ salt, ...check }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create vault' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create vault');
+  }
+};
+
+export const deleteVault = async (): Promise<void> => {
+  const response = await fetch(`${API_BASE}/vault`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete vault');
+  }
+};
+
+export const storeVaultKey = async (itemId: string, wrapped: WrappedItemKey): Promise<void> => {
+  const response = await fetch(`${API_BASE}/vault/keys/${itemId}`, {
     method: 'PUT',
     headers: getAuthHeaders(),
-    body: JSON.stringify(body),
+    body: JSON.stringify(wrapped),
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Failed to toggle encryption' })) as { error?: string };
-    throw new Error(errorData.error || 'Failed to toggle encryption');
+    throw new Error('Failed to store vault key');
   }
 };
 
@@ -441,6 +985,104 @@ export const updateItemTitle = async (itemId: string, title: string): Promise<vo
   }
 };
 
+// Editable body of an item (text/code/rich content)
+export interface ItemContentUpdate {
+  content: string;
+  htmlContent?: string;
+  isCode?: boolean;
+}
+
+// Update item body (the server keeps the previous body as a revision)
+export const updateItemContent = async (itemId: string, update: ItemContentUpdate): Promise<void> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}`, {
+    method: 'PUT',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({
+      content: update.content,
+      htmlContent: update.htmlContent || null,
+      isCode: !!update.isCode,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update item content');
+  }
+};
+
+// Get revision history of an item's body (newest first)
+export const getItemRevisions = async (itemId: string): Promise<ItemRevision[]> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/revisions`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch item revisions');
+  }
+
+  return response.json();
+};
+
+// Restore an item's body from a revision, returns the restored body
+export const restoreItemRevision = async (itemId: string, revisionId: string): Promise<ItemContentUpdate> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/revisions/${revisionId}/restore`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to restore item revision');
+  }
+
+  const data = await response.json() as ItemContentUpdate;
+  return { content: data.content, htmlContent: data.htmlContent, isCode: data.isCode };
+};
+
+export interface ShareLinkOptions {
+  expiresAt?: number | null;
+  password?: string | null;
+  maxViews?: number | null;
+  allowEncrypted?: boolean; // Required for encrypted items (the user confirmed sharing)
+}
+
+// Active share links of an item
+export const getShareLinks = async (itemId: string): Promise<ShareLink[]> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/share-links`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch share links');
+  }
+
+  return response.json();
+};
+
+export const createShareLink = async (itemId: string, options: ShareLinkOptions): Promise<ShareLink> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/share-links`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create share link' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create share link');
+  }
+
+  return response.json();
+};
+
+export const revokeShareLink = async (itemId: string, linkId: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/items/${itemId}/share-links/${linkId}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to revoke share link');
+  }
+};
+
 // Update item reminder
 export const updateItemReminder = async (itemId: string, reminderAt: number | null): Promise<void> => {
   const response = await fetch(`${API_BASE}/items/${itemId}`, {
@@ -565,3 +1207,252 @@ export const checkExpiredItems = async (): Promise<number> => {
   const data: { expired: number } = await response.json();
   return data.expired || 0;
 };
+
+// Share received by the share target while signed out
+export type ClaimedShare =
+  | { kind: 'items'; itemIds: string[] }
+  | { kind: 'text'; content: string; title: string | null };
+
+// Whether the share target stashed a share before sign-in (cookie set by the worker)
+export const hasPendingShare = (): boolean => {
+  return document.cookie.split(';').some(part => part.trim().startsWith('pending_share='));
+};
+
+// Save the stashed share for the signed-in user (null when it expired)
+export const claimPendingShare = async (): Promise<ClaimedShare | null> => {
+  const response = await fetch(`${API_BASE}/share/pending/claim`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error('Failed to save pending share');
+  }
+
+  return response.json();
+};
+
+// Personal API tokens
+export const getApiTokens = async (): Promise<ApiToken[]> => {
+  const response = await fetch(`${API_BASE}/tokens`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch API tokens');
+  }
+
+  return response.json();
+};
+
+// Returns the token secret, which can't be fetched again
+export const createApiToken = async (options: { name: string; scopes: ApiTokenScope[]; expiresAt: number | null }): Promise<ApiToken & { token: string }> => {
+  const response = await fetch(`${API_BASE}/tokens`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create API token' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create API token');
+  }
+
+  return response.json();
+};
+
+export const revokeApiToken = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/tokens/${id}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to revoke API token');
+  }
+};
+
+// Outgoing webhooks
+export interface WebhookOptions {
+  url?: string;
+  secret?: string; // Generated by the server when left out on creation
+  events?: WebhookEvent[];
+  tagIds?: string[];
+  enabled?: boolean;
+  rotateSecret?: boolean;
+}
+
+export const getWebhooks = async (): Promise<Webhook[]> => {
+  const response = await fetch(`${API_BASE}/webhooks`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch webhooks');
+  }
+
+  return response.json();
+};
+
+// Returns the secret, which can't be fetched again
+export const createWebhook = async (options: WebhookOptions): Promise<Webhook & { secret: string }> => {
+  const response = await fetch(`${API_BASE}/webhooks`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create webhook' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create webhook');
+  }
+
+  return response.json();
+};
+
+// `secret` is only set when the secret was replaced
+export const updateWebhook = async (id: string, options: WebhookOptions): Promise<Webhook & { secret?: string }> => {
+  const response = await fetch(`${API_BASE}/webhooks/${id}`, {
+    method: 'PUT',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to update webhook' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to update webhook');
+  }
+
+  return response.json();
+};
+
+export const deleteWebhook = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/webhooks/${id}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete webhook');
+  }
+};
+
+export const getWebhookDeliveries = async (id: string): Promise<WebhookDelivery[]> => {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/deliveries`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch webhook deliveries');
+  }
+
+  return response.json();
+};
+
+// Sends a ping and returns its delivery
+export const testWebhook = async (id: string): Promise<WebhookDelivery> => {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/test`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to test webhook');
+  }
+
+  return response.json();
+};
+
+export const redeliverWebhook = async (id: string, deliveryId: string): Promise<WebhookDelivery> => {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/deliveries/${deliveryId}/redeliver`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to redeliver webhook');
+  }
+
+  return response.json();
+};
+
+// Email capture inbox (`enabled` is false when the server has no EMAIL_DOMAIN)
+export const getEmailInbox = async (): Promise<{ enabled: boolean; inbox: EmailInbox | null }> => {
+  const response = await fetch(`${API_BASE}/inbox`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch inbox');
+  }
+
+  return response.json();
+};
+
+// Creates the address, or replaces it (the old address stops working)
+export const createEmailInbox = async (): Promise<EmailInbox> => {
+  const response = await fetch(`${API_BASE}/inbox`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create inbox' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create inbox');
+  }
+
+  return response.json();
+};
+
+export const deleteEmailInbox = async (): Promise<void> => {
+  const response = await fetch(`${API_BASE}/inbox`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete inbox');
+  }
+};
+
+// Linked Telegram chats (`enabled` is false when the server has no bot configured)
+export const getTelegramStatus = async (): Promise<{ enabled: boolean; botUsername: string | null; chats: TelegramChat[] }> => {
+  const response = await fetch(`${API_BASE}/telegram`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch Telegram chats');
+  }
+
+  return response.json();
+};
+
+// Replaces any previous code; valid for 10 minutes
+export const createTelegramLinkCode = async (): Promise<TelegramLinkCode> => {
+  const response = await fetch(`${API_BASE}/telegram/link-code`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to create link code' })) as { error?: string };
+    throw new Error(errorData.error || 'Failed to create link code');
+  }
+
+  return response.json();
+};
+
+export const unlinkTelegramChat = async (chatId: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/telegram/chats/${encodeURIComponent(chatId)}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to unlink chat');
+  }
+};
@@ -0,0 +1,190 @@
+// Encryption Service - client-side (end-to-end) encryption for encrypted items
+//
+// The passphrase never leaves the browser. PBKDF2 stretches it with a per-item salt
+// into 512 bits: the first half is the AES-GCM key for the item, the second half is
+// a verifier the server compares before releasing the ciphertext.
+// The server only stores ciphertext, salt, IV and verifier.
+
+// Current format (1 = legacy: plaintext in D1 + unsalted SHA-256 hash)
+export const ENCRYPTION_VERSION = 2;
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Sensitive fields of an item, encrypted together as one JSON document
+export interface EncryptedItemFields {
+  content: string;
+  htmlContent?: string;
+  ogImage?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  fileName?: string;
+  mimeType?: string;
+  fileIv?: string; // IV of the encrypted file blob in R2
+}
+
+// Key material derived from a passphrase for one item
+export interface ItemKey {
+  key: CryptoKey;
+  verifier: string; // Sent to the server as encryptionHash
+  salt: string;
+}
+
+// Ciphertext of EncryptedItemFields as stored in D1
+export interface EncryptedPayload {
+  encryptedData: string;
+  encryptionIv: string;
+  encryptionSalt: string;
+  encryptionHash: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+export const generateSalt = (): string => bytesToBase64(randomBytes(SALT_BYTES));
+
+// Derive the AES-GCM key and server verifier for an item
+export const deriveItemKey = async (passphrase: string, salt: string): Promise<ItemKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    512
+  ));
+
+  // Extractable so the key can be wrapped by a vault key
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', true, ['encrypt', 'decrypt']);
+  return { key, verifier: toHex(bits.slice(32)), salt };
+};
+
+const encryptBytes = async (key: CryptoKey, data: Uint8Array): Promise<{ ciphertext: Uint8Array; iv: string }> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+  return { ciphertext, iv: bytesToBase64(iv) };
+};
+
+const decryptBytes = async (key: CryptoKey, ciphertext: Uint8Array, iv: string): Promise<Uint8Array> => {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, ciphertext));
+  } catch {
+    // AES-GCM authentication failed: wrong key or tampered data
+    throw new Error('복호화에 실패했습니다. 비밀번호를 확인하세요.');
+  }
+};
+
+// Encrypt the sensitive fields of an item
+export const encryptItemFields = async (itemKey: ItemKey, fields: EncryptedItemFields): Promise<EncryptedPayload> => {
+  const { ciphertext, iv } = await encryptBytes(itemKey.key, encoder.encode(JSON.stringify(fields)));
+  return {
+    encryptedData: bytesToBase64(ciphertext),
+    encryptionIv: iv,
+    encryptionSalt: itemKey.salt,
+    encryptionHash: itemKey.verifier,
+  };
+};
+
+export const decryptItemFields = async (key: CryptoKey, encryptedData: string, iv: string): Promise<EncryptedItemFields> => {
+  const plaintext = await decryptBytes(key, base64ToBytes(encryptedData), iv);
+  return JSON.parse(decoder.decode(plaintext)) as EncryptedItemFields;
+};
+
+// Encrypt a file before upload (stored in R2 as opaque bytes)
+export const encryptBlob = async (key: CryptoKey, blob: Blob): Promise<{ blob: Blob; iv: string }> => {
+  const { ciphertext, iv } = await encryptBytes(key, new Uint8Array(await blob.arrayBuffer()));
+  return { blob: new Blob([ciphertext], { type: 'application/octet-stream' }), iv };
+};
+
+export const decryptBlob = async (key: CryptoKey, blob: Blob, iv: string, mimeType?: string): Promise<Blob> => {
+  const plaintext = await decryptBytes(key, new Uint8Array(await blob.arrayBuffer()), iv);
+  return new Blob([plaintext], { type: mimeType || 'application/octet-stream' });
+};
+
+// Legacy (version 1) key hash: unsalted SHA-256 of the passphrase
+export const hashLegacyEncryptionKey = async (key: string): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(key));
+  return toHex(new Uint8Array(hashBuffer));
+};
+
+// --- Vault: one master passphrase that wraps the keys of many items ---
+
+// Known plaintext encrypted with the vault key to check the master passphrase
+const VAULT_CHECK_VALUE = 'self-vault-v1';
+
+export interface VaultCheck {
+  checkData: string;
+  checkIv: string;
+}
+
+export interface WrappedItemKey {
+  wrappedKey: string;
+  iv: string;
+}
+
+export const deriveVaultKey = async (passphrase: string, salt: string): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const createVaultCheck = async (vaultKey: CryptoKey): Promise<VaultCheck> => {
+  const { ciphertext, iv } = await encryptBytes(vaultKey, encoder.encode(VAULT_CHECK_VALUE));
+  return { checkData: bytesToBase64(ciphertext), checkIv: iv };
+};
+
+export const verifyVaultKey = async (vaultKey: CryptoKey, check: VaultCheck): Promise<boolean> => {
+  try {
+    const plaintext = await decryptBytes(vaultKey, base64ToBytes(check.checkData), check.checkIv);
+    return decoder.decode(plaintext) === VAULT_CHECK_VALUE;
+  } catch {
+    return false;
+  }
+};
+
+// Wrap an item key (AES key + verifier + salt) so it can be stored on the server
+export const wrapItemKey = async (vaultKey: CryptoKey, itemKey: ItemKey): Promise<WrappedItemKey> => {
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', itemKey.key));
+  const material = JSON.stringify({ key: bytesToBase64(rawKey), verifier: itemKey.verifier, salt: itemKey.salt });
+  const { ciphertext, iv } = await encryptBytes(vaultKey, encoder.encode(material));
+  return { wrappedKey: bytesToBase64(ciphertext), iv };
+};
+
+export const unwrapItemKey = async (vaultKey: CryptoKey, wrapped: WrappedItemKey): Promise<ItemKey> => {
+  const plaintext = await decryptBytes(vaultKey, base64ToBytes(wrapped.wrappedKey), wrapped.iv);
+  const material = JSON.parse(decoder.decode(plaintext)) as { key: string; verifier: string; salt: string };
+  const key = await crypto.subtle.importKey('raw', base64ToBytes(material.key), 'AES-GCM', true, ['encrypt', 'decrypt']);
+  return { key, verifier: material.verifier, salt: material.salt };
+};
+
+// Item key as a URL fragment for share links (#key=...): the link page decrypts in the browser
+export const exportItemKeyForLink = async (key: CryptoKey): Promise<string> => {
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return bytesToBase64(rawKey).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
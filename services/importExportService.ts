@@ -445,7 +445,8 @@ export const exportData = async (onProgress?: ExportProgressCallback): Promise<B
     };
 
     // Download and add file if exists
-    if (item.fileKey) {
+    const fileUrl = getFileUrl(item);
+    if (fileUrl) {
       fileDownloadCount++;
       onProgress?.({
         phase: 'downloading-files',
@@ -455,7 +456,6 @@ export const exportData = async (onProgress?: ExportProgressCallback): Promise<B
       });
 
       try {
-        const fileUrl = getFileUrl(item.fileKey);
         const response = await fetch(fileUrl);
         
         if (response.ok) {
@@ -710,6 +710,8 @@ export const importData = async (
         isFavorite: item.isFavorite,
         isEncrypted: item.isEncrypted,
         isCode: item.isCode,
+        // Restore the exported tags as they were
+        autoTag: false,
       });
 
       itemsCreated++;
@@ -11,6 +11,17 @@ export interface Tag {
   name: string;
   color?: string;
   autoKeywords?: string[]; // Keywords for auto-classification
+  publicUrl?: string | null; // Public collection page when the tag is published
+}
+
+// Attachment of an album item (from GET /api/items, in album order)
+export interface ItemFile {
+  id: string;
+  fileKey: string;
+  fileUrl?: string; // Signed download URL
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
 }
 
 export interface Item {
@@ -18,10 +29,13 @@ export interface Item {
   type: ItemType;
   content: string;
   fileBlob?: Blob; // For uploading new files (client-side only)
+  fileBlobs?: File[]; // For uploading a new album (client-side only)
   fileKey?: string; // R2 storage key (from server)
+  fileUrl?: string; // Signed download URL (from server, valid for about an hour)
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
+  files?: ItemFile[]; // Album attachments, first one is the cover (fileKey etc. mirror it)
   title?: string;
   ogImage?: string; // Open Graph image URL
   ogTitle?: string; // Open Graph title
@@ -35,7 +49,111 @@ export interface Item {
   reminderAt?: number; // Reminder timestamp (for scheduled items)
   expiresAt?: number; // Expiration timestamp (for auto-delete items)
   deletedAt?: number; // Soft delete timestamp (for trash items)
+  searchSnippet?: string; // Highlighted match from server-side search (client-side only)
+  createdAt: number;
+}
+
+// Prior version of an item's body (from GET /api/items/:id/revisions)
+export interface ItemRevision {
+  id: string;
+  content: string;
+  htmlContent?: string;
+  isCode?: boolean;
+  createdAt: number; // When this version was replaced
+}
+
+// Public share link of an item (from /api/items/:id/share-links)
+export interface ShareLink {
+  id: string;
+  itemId: string;
+  token: string;
+  url: string; // Page at /s/<token> (encrypted items also need #key=...)
+  hasPassword: boolean;
+  expiresAt: number | null;
+  maxViews: number | null;
+  viewCount: number;
+  lastViewedAt: number | null;
+  revokedAt: number | null;
+  status: 'active' | 'revoked' | 'expired' | 'exhausted';
+  createdAt: number;
+}
+
+export type ApiTokenScope = 'items:read' | 'items:write' | 'tags:read' | 'tags:write';
+
+// Personal API token (the secret itself is only returned once, on creation)
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  createdAt: number;
+}
+
+export type WebhookEvent = 'item.created' | 'item.updated' | 'item.trashed' | 'item.restored' | 'item.deleted';
+
+// Outgoing webhook (the secret itself is only returned on creation or when it is replaced)
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  tagIds: string[]; // Empty: every item
+  enabled: boolean;
+  secretPrefix: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One delivery of an event to a webhook (retried with backoff while pending)
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | 'ping';
+  itemId: string | null;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  nextAttemptAt: number | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
   createdAt: number;
+  lastAttemptAt: number | null;
+}
+
+// Secret address for email capture (mail to it becomes items, +tag suffixes apply tags)
+export interface EmailInbox {
+  address: string;
+  createdAt: number;
+  lastReceivedAt: number | null;
+}
+
+// Telegram chat linked to the account (messages sent to the bot from it become items)
+export interface TelegramChat {
+  chatId: string;
+  title: string | null;
+  linkedAt: number;
+  lastMessageAt: number | null;
+}
+
+// One-time code sent to the bot (/start <code>) to link a chat
+export interface TelegramLinkCode {
+  code: string;
+  expiresAt: number;
+  url: string | null; // t.me deep link, when the bot's username is configured
+}
+
+// Exact item counts for the sidebar (from GET /api/items/facets)
+export interface ItemFacets {
+  all: number;
+  favorites: number;
+  encrypted: number;
+  scheduled: number;
+  expiring: number;
+  trash: number;
+  types: Partial<Record<ItemType, number>>; // Per-type counts (excluding trash)
+  tags: Record<string, number>; // Per-tag counts keyed by tag ID (excluding trash)
 }
 
 export interface NavItem {
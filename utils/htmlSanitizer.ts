@@ -1,87 +1,6 @@
 // HTML Sanitizer - 허용된 태그와 속성만 유지하여 XSS 공격 방지
 
-// 허용된 태그 목록
-const ALLOWED_TAGS = new Set([
-  'p', 'br', 'div', 'span',
-  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del',
-  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
-  'ul', 'ol', 'li',
-  'a',
-  'pre', 'code',
-  'blockquote',
-  'table', 'thead', 'tbody', 'tr', 'th', 'td',
-  'sub', 'sup',
-]);
-
-// 허용된 속성 목록 (태그별)
-const ALLOWED_ATTRIBUTES: Record<string, Set<string>> = {
-  '*': new Set(['style', 'class']),
-  'a': new Set(['href', 'target', 'rel']),
-  'td': new Set(['colspan', 'rowspan']),
-  'th': new Set(['colspan', 'rowspan']),
-};
-
-// 허용된 CSS 속성 목록
-const ALLOWED_CSS_PROPERTIES = new Set([
-  'color',
-  'background-color',
-  'background',
-  'font-weight',
-  'font-style',
-  'font-size',
-  'text-decoration',
-  'text-align',
-  'font-family',
-  'white-space',
-  // 테이블 관련
-  'border',
-  'border-collapse',
-  'border-color',
-  'border-width',
-  'border-style',
-  'border-top', 'border-right', 'border-bottom', 'border-left',
-  'padding',
-  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
-  'margin',
-  'width',
-  'height',
-  'min-width',
-  'max-width',
-  'vertical-align',
-]);
-
-// CSS 속성 값 sanitize
-const sanitizeCssValue = (_property: string, value: string): string | null => {
-  // url() 등 위험한 값 차단
-  if (/url\s*\(/i.test(value) || /expression\s*\(/i.test(value) || /javascript:/i.test(value)) {
-    return null;
-  }
-  return value;
-};
-
-// style 속성 sanitize
-const sanitizeStyle = (style: string): string => {
-  const sanitized: string[] = [];
-  
-  // CSS 파싱
-  const declarations = style.split(';');
-  for (const declaration of declarations) {
-    const colonIndex = declaration.indexOf(':');
-    if (colonIndex === -1) continue;
-    
-    const property = declaration.substring(0, colonIndex).trim().toLowerCase();
-    const value = declaration.substring(colonIndex + 1).trim();
-    
-    if (ALLOWED_CSS_PROPERTIES.has(property)) {
-      const sanitizedValue = sanitizeCssValue(property, value);
-      if (sanitizedValue) {
-        sanitized.push(`${property}: ${sanitizedValue}`);
-      }
-    }
-  }
-  
-  return sanitized.join('; ');
-};
+import { ALLOWED_ATTRIBUTES, ALLOWED_TAGS, sanitizeStyle } from './htmlSanitizerRules';
 
 // HTML sanitize
 export const sanitizeHtml = (html: string): string => {
@@ -0,0 +1,85 @@
+// HTML Sanitizer 규칙 - 브라우저(utils/htmlSanitizer.ts)와 Worker(이메일 본문)가 함께 사용
+// DOM API를 쓰지 않아야 Worker에서도 import 가능
+
+// 허용된 태그 목록
+export const ALLOWED_TAGS = new Set([
+  'p', 'br', 'div', 'span',
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li',
+  'a',
+  'pre', 'code',
+  'blockquote',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'sub', 'sup',
+]);
+
+// 허용된 속성 목록 (태그별)
+export const ALLOWED_ATTRIBUTES: Record<string, Set<string>> = {
+  '*': new Set(['style', 'class']),
+  'a': new Set(['href', 'target', 'rel']),
+  'td': new Set(['colspan', 'rowspan']),
+  'th': new Set(['colspan', 'rowspan']),
+};
+
+// 허용된 CSS 속성 목록
+export const ALLOWED_CSS_PROPERTIES = new Set([
+  'color',
+  'background-color',
+  'background',
+  'font-weight',
+  'font-style',
+  'font-size',
+  'text-decoration',
+  'text-align',
+  'font-family',
+  'white-space',
+  // 테이블 관련
+  'border',
+  'border-collapse',
+  'border-color',
+  'border-width',
+  'border-style',
+  'border-top', 'border-right', 'border-bottom', 'border-left',
+  'padding',
+  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'margin',
+  'width',
+  'height',
+  'min-width',
+  'max-width',
+  'vertical-align',
+]);
+
+// CSS 속성 값 sanitize
+const sanitizeCssValue = (_property: string, value: string): string | null => {
+  // url() 등 위험한 값 차단
+  if (/url\s*\(/i.test(value) || /expression\s*\(/i.test(value) || /javascript:/i.test(value)) {
+    return null;
+  }
+  return value;
+};
+
+// style 속성 sanitize
+export const sanitizeStyle = (style: string): string => {
+  const sanitized: string[] = [];
+  
+  // CSS 파싱
+  const declarations = style.split(';');
+  for (const declaration of declarations) {
+    const colonIndex = declaration.indexOf(':');
+    if (colonIndex === -1) continue;
+    
+    const property = declaration.substring(0, colonIndex).trim().toLowerCase();
+    const value = declaration.substring(colonIndex + 1).trim();
+    
+    if (ALLOWED_CSS_PROPERTIES.has(property)) {
+      const sanitizedValue = sanitizeCssValue(property, value);
+      if (sanitizedValue) {
+        sanitized.push(`${property}: ${sanitizedValue}`);
+      }
+    }
+  }
+  
+  return sanitized.join('; ');
+};
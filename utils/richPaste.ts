@@ -0,0 +1,116 @@
+// 붙여넣기 서식 처리 - InputArea와 ItemModal 편집기에서 공통으로 사용
+import { sanitizeHtml, hasRichFormatting } from './htmlSanitizer';
+
+// RTF를 HTML로 변환 (간단한 변환 - 색상 정보 추출)
+export const rtfToHtml = (rtf: string): string | null => {
+  try {
+    // RTF 색상 테이블 추출
+    const colorTableMatch = rtf.match(/\\colortbl;(.*?)}/);
+    if (!colorTableMatch) return null;
+
+    const colors: string[] = ['#000000']; // index 0은 자동 색상
+    const colorDefs = colorTableMatch[1].split(';');
+    for (const def of colorDefs) {
+      const r = def.match(/\\red(\d+)/)?.[1] || '0';
+      const g = def.match(/\\green(\d+)/)?.[1] || '0';
+      const b = def.match(/\\blue(\d+)/)?.[1] || '0';
+      if (r || g || b) {
+        colors.push(`rgb(${r},${g},${b})`);
+      }
+    }
+
+    // RTF 본문 추출 (색상 테이블 이후)
+    let body = rtf.substring(colorTableMatch.index! + colorTableMatch[0].length);
+
+    // RTF 제어 코드 처리
+    let html = '';
+    let currentColor = '';
+    let i = 0;
+
+    while (i < body.length) {
+      if (body[i] === '\\') {
+        // 색상 변경 감지
+        const cfMatch = body.substring(i).match(/^\\cf(\d+)/);
+        if (cfMatch) {
+          const colorIndex = parseInt(cfMatch[1]);
+          if (colors[colorIndex]) {
+            if (currentColor) html += '</span>';
+            currentColor = colors[colorIndex];
+            html += `<span style="color:${currentColor}">`;
+          }
+          i += cfMatch[0].length;
+          continue;
+        }
+
+        // 줄바꿈
+        if (body.substring(i, i + 4) === '\\par') {
+          html += '<br>';
+          i += 4;
+          continue;
+        }
+
+        // 기타 제어 코드 스킵
+        const ctrlMatch = body.substring(i).match(/^\\[a-z]+\d*\s?/);
+        if (ctrlMatch) {
+          i += ctrlMatch[0].length;
+          continue;
+        }
+
+        // 이스케이프 문자
+        if (body[i + 1] === '\\' || body[i + 1] === '{' || body[i + 1] === '}') {
+          html += body[i + 1];
+          i += 2;
+          continue;
+        }
+
+        i++;
+      } else if (body[i] === '{' || body[i] === '}') {
+        i++;
+      } else if (body[i] === '\r' || body[i] === '\n') {
+        i++;
+      } else {
+        html += body[i];
+        i++;
+      }
+    }
+
+    if (currentColor) html += '</span>';
+
+    // 의미있는 HTML이 생성되었는지 확인
+    if (html.includes('<span')) {
+      return `<pre style="font-family: monospace; white-space: pre-wrap;"><code>${html}</code></pre>`;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+// 클립보드에서 서식 있는 내용 추출 (일반 텍스트만 있으면 null)
+// text: textarea에 삽입할 일반 텍스트, html: 저장할 sanitize된 HTML
+export const getRichPasteContent = (clipboardData: DataTransfer | null): { text: string; html: string } | null => {
+  const html = clipboardData?.getData('text/html');
+  const rtf = clipboardData?.getData('text/rtf');
+  const plainText = clipboardData?.getData('text/plain');
+
+  // 1. RTF 처리 (VS Code 등 코드 에디터에서 복사한 경우)
+  if (rtf && plainText && !html) {
+    const rtfHtml = rtfToHtml(rtf);
+    if (rtfHtml) {
+      return { text: plainText, html: rtfHtml };
+    }
+  }
+
+  // 2. HTML 처리 (표, 서식 텍스트 등)
+  if (html && hasRichFormatting(html)) {
+    // plainText가 없으면 HTML에서 텍스트 추출
+    const textContent = plainText || (() => {
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      return doc.body.textContent || '';
+    })();
+    return { text: textContent, html: sanitizeHtml(html) };
+  }
+
+  return null;
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+
+// Match markers emitted by GET /api/items/search (see worker/src/utils/searchIndex.ts)
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Renders a search snippet with matched terms wrapped in <mark> elements
+ */
+export function renderSearchSnippet(snippet: string, className?: string): React.ReactNode {
+  if (!snippet) return null;
+
+  const parts: React.ReactNode[] = [];
+  let key = 0;
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(MATCH_START);
+    if (start === -1) {
+      parts.push(rest);
+      break;
+    }
+
+    if (start > 0) {
+      parts.push(rest.slice(0, start));
+    }
+
+    const end = rest.indexOf(MATCH_END, start + 1);
+    const matched = end === -1 ? rest.slice(start + 1) : rest.slice(start + 1, end);
+    parts.push(
+      <mark key={key++} className={className || 'bg-yellow-200 text-slate-800 rounded px-0.5'}>
+        {matched}
+      </mark>
+    );
+
+    rest = end === -1 ? '' : rest.slice(end + 1);
+  }
+
+  return <>{parts}</>;
+}
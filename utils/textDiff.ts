@@ -0,0 +1,69 @@
+// 줄 단위 텍스트 비교 (버전 기록 diff 보기용)
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// LCS 테이블이 너무 커지지 않도록 제한 (줄 수 곱)
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line-based diff from `before` to `after` (longest common subsequence).
+ * Very large inputs fall back to "everything removed, everything added".
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // 공통 앞/뒤 줄은 LCS 계산에서 제외
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const head: DiffLine[] = a.slice(0, prefix).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(a.length - suffix).map(text => ({ type: 'same', text }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = midA[i..], midB[j..]의 최장 공통 부분열 길이
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
@@ -0,0 +1,24 @@
+-- Full-text search index for items
+-- Migration: 0011_add_items_fts.sql
+
+-- FTS5 index maintained by the worker (see worker/src/utils/searchIndex.ts)
+-- item_id/user_id are stored for lookups only and are not tokenized.
+-- Encrypted items are never written to this table.
+CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+  item_id UNINDEXED,
+  user_id UNINDEXED,
+  title,
+  content,
+  og_title,
+  og_description,
+  file_name,
+  html_text,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing non-encrypted items
+-- html_text is filled in the next time the item is updated (content already holds the plain text)
+INSERT INTO items_fts (item_id, user_id, title, content, og_title, og_description, file_name, html_text)
+SELECT id, user_id, title, content, og_title, og_description, file_name, NULL
+FROM items
+WHERE is_encrypted = 0;
@@ -0,0 +1,17 @@
+-- Revision history for item bodies
+-- Migration: 0012_add_item_revisions.sql
+
+-- Each row is the body of an item as it was before a content change
+-- (written by PUT /api/items/:id and revision restores)
+CREATE TABLE IF NOT EXISTS item_revisions (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  user_id TEXT,
+  content TEXT NOT NULL DEFAULT '',
+  html_content TEXT,
+  is_code INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_revisions_item_created ON item_revisions(item_id, created_at DESC);
@@ -0,0 +1,10 @@
+-- Client-side (end-to-end) encryption for encrypted items
+-- Migration: 0013_add_e2e_encryption.sql
+
+-- encryption_version: NULL/1 = legacy (plaintext columns + unsalted SHA-256 hash),
+--                     2 = AES-GCM ciphertext in encrypted_data (see services/encryptionService.ts)
+-- For version 2 items content/html_content/og_* are empty and encryption_hash holds the PBKDF2 verifier.
+ALTER TABLE items ADD COLUMN encryption_version INTEGER;
+ALTER TABLE items ADD COLUMN encryption_salt TEXT;
+ALTER TABLE items ADD COLUMN encryption_iv TEXT;
+ALTER TABLE items ADD COLUMN encrypted_data TEXT;
@@ -0,0 +1,17 @@
+-- Account-level vault for encrypted items
+-- Migration: 0014_add_encryption_vault.sql
+
+-- One vault per user. The master passphrase never leaves the browser:
+-- salt derives the vault key (PBKDF2), check_data is a known value encrypted with it
+-- so the client can tell whether the passphrase is correct.
+CREATE TABLE IF NOT EXISTS encryption_vaults (
+  user_id TEXT PRIMARY KEY,
+  salt TEXT NOT NULL,
+  check_data TEXT NOT NULL,
+  check_iv TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+);
+
+-- Item key (AES key + server verifier) wrapped with the vault key
+ALTER TABLE items ADD COLUMN vault_key TEXT;
+ALTER TABLE items ADD COLUMN vault_key_iv TEXT;
@@ -0,0 +1,27 @@
+-- Brute-force protection for encrypted item passwords
+-- Migration: 0015_add_unlock_attempts.sql
+
+-- Consecutive failures and lockout per scope ('user:<id>' or 'item:<id>')
+CREATE TABLE IF NOT EXISTS unlock_throttles (
+  scope TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until INTEGER,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_unlock_throttles_user ON unlock_throttles(user_id);
+
+-- Audit log of password checks against encrypted items
+CREATE TABLE IF NOT EXISTS unlock_attempts (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  action TEXT NOT NULL, -- verify, unlock, preview, encrypt, decrypt
+  success INTEGER NOT NULL,
+  ip_address TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_unlock_attempts_item ON unlock_attempts(item_id, created_at DESC);
@@ -0,0 +1,18 @@
+-- Scheduled maintenance run history
+-- Migration: 0016_add_maintenance_runs.sql
+
+CREATE TABLE IF NOT EXISTS maintenance_runs (
+  id TEXT PRIMARY KEY,
+  trigger TEXT NOT NULL, -- cron expression, or 'manual'
+  status TEXT NOT NULL, -- running, success, error
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER,
+  expired_items INTEGER NOT NULL DEFAULT 0,
+  purged_items INTEGER NOT NULL DEFAULT 0,
+  deleted_files INTEGER NOT NULL DEFAULT 0,
+  failed_files INTEGER NOT NULL DEFAULT 0,
+  stale_throttles INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_runs_started ON maintenance_runs(started_at DESC);
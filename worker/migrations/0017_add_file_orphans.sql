@@ -0,0 +1,16 @@
+-- R2 orphan reconciliation
+-- Migration: 0017_add_file_orphans.sql
+
+-- Objects in R2 that no item references. They are kept for a grace period
+-- (in case an item shows up for them) and deleted by a later maintenance run.
+CREATE TABLE IF NOT EXISTS file_orphans (
+  file_key TEXT PRIMARY KEY,
+  size INTEGER NOT NULL,
+  uploaded_at INTEGER NOT NULL,
+  first_seen_at INTEGER NOT NULL
+);
+
+-- Reconciliation results per maintenance run
+ALTER TABLE maintenance_runs ADD COLUMN quarantined_files INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE maintenance_runs ADD COLUMN deleted_orphans INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE maintenance_runs ADD COLUMN missing_files INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,19 @@
+-- Shares received by the PWA share target while signed out
+-- Migration: 0018_add_pending_shares.sql
+
+-- The payload is kept until the user signs in and claims it (pending_share cookie),
+-- and removed by scheduled maintenance once it expires.
+CREATE TABLE IF NOT EXISTS pending_shares (
+  id TEXT PRIMARY KEY,
+  title TEXT,
+  text TEXT,
+  url TEXT,
+  file_key TEXT, -- R2 object under pending/
+  file_name TEXT,
+  file_size INTEGER,
+  mime_type TEXT,
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_shares_expires ON pending_shares(expires_at);
@@ -0,0 +1,22 @@
+-- Album items: an item that owns an ordered list of attachments
+-- Migration: 0019_add_item_files.sql
+
+-- The album item's own file_* columns mirror the first attachment (cover),
+-- so views that only know about single files keep working.
+CREATE TABLE IF NOT EXISTS item_files (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  file_key TEXT NOT NULL,
+  file_name TEXT,
+  file_size INTEGER,
+  mime_type TEXT,
+  position INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_files_item ON item_files(item_id, position);
+CREATE INDEX IF NOT EXISTS idx_item_files_file_key ON item_files(file_key);
+
+-- Signed-out shares can carry several files: JSON array of { key, name, size, type }
+ALTER TABLE pending_shares ADD COLUMN files TEXT;
@@ -0,0 +1,22 @@
+-- Public share links for individual items
+-- Migration: 0020_add_share_links.sql
+
+-- Anyone with the token can open the item at /s/<token> until the link is revoked,
+-- expires or runs out of views. The password (optional) is stored as a PBKDF2 hash.
+CREATE TABLE IF NOT EXISTS share_links (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  password_hash TEXT,
+  password_salt TEXT,
+  expires_at INTEGER,
+  max_views INTEGER,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at INTEGER,
+  created_at INTEGER NOT NULL,
+  last_viewed_at INTEGER,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_item ON share_links(item_id);
@@ -0,0 +1,6 @@
+-- Public collections: a tag can be published as a read-only page (/c/<public_token>) with an Atom feed
+-- public_token is NULL while the tag is private; rotating it replaces the URL
+ALTER TABLE tags ADD COLUMN public_token TEXT;
+ALTER TABLE tags ADD COLUMN published_at INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_public_token ON tags(public_token) WHERE public_token IS NOT NULL;
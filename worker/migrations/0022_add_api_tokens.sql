@@ -0,0 +1,18 @@
+-- Personal API tokens for scripts and automations
+-- Migration: 0022_add_api_tokens.sql
+
+-- Only the SHA-256 hash of a token is stored; token_prefix is kept so the user can tell tokens apart.
+-- scopes is a JSON array such as ["items:read", "items:write"].
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT NOT NULL,
+  expires_at INTEGER,
+  last_used_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id, created_at DESC);
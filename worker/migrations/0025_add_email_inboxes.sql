@@ -0,0 +1,11 @@
+-- Inbound email capture
+-- Migration: 0025_add_email_inboxes.sql
+
+-- Each user can have one secret inbox address: <token>@<EMAIL_DOMAIN>, optionally with
+-- +tag suffixes (<token>+receipts@...). Rotating the token retires the old address.
+CREATE TABLE IF NOT EXISTS email_inboxes (
+  user_id TEXT PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  created_at INTEGER NOT NULL,
+  last_received_at INTEGER
+);
@@ -0,0 +1,26 @@
+-- Telegram bot ingestion
+-- Migration: 0026_add_telegram_chats.sql
+
+-- A chat linked to a user: messages sent to the bot from it become items of that user.
+-- chat_id is Telegram's numeric chat id as text. last_update_id skips updates that
+-- Telegram delivers again after a timeout.
+CREATE TABLE IF NOT EXISTS telegram_chats (
+  chat_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  title TEXT,
+  linked_at INTEGER NOT NULL,
+  last_message_at INTEGER,
+  last_update_id INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_chats_user ON telegram_chats(user_id);
+
+-- One-time codes shown in the app and sent to the bot (/start <code>) to link a chat
+CREATE TABLE IF NOT EXISTS telegram_link_codes (
+  code TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_link_codes_user ON telegram_link_codes(user_id);
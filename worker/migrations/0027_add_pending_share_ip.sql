@@ -0,0 +1,7 @@
+-- Limit how many shares a signed-out visitor can stash
+-- Migration: 0027_add_pending_share_ip.sql
+
+-- CF-Connecting-IP of the request that stashed the share
+ALTER TABLE pending_shares ADD COLUMN ip_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_pending_shares_ip ON pending_shares(ip_address, expires_at);
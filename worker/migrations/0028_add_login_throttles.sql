@@ -0,0 +1,12 @@
+-- Failed local sign-ins counted per account and client
+-- Migration: 0028_add_login_throttles.sql
+
+-- scope is 'client:<username>|<CF-Connecting-IP>' or 'account:<username>' (username lowercased):
+-- one client is locked out quickly, the account as a whole only after many more failures.
+-- Replaces local_users.failed_logins / locked_until.
+CREATE TABLE IF NOT EXISTS login_throttles (
+  scope TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until INTEGER,
+  updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,10 @@
+-- Brute-force protection for share link passwords
+-- Migration: 0029_add_share_link_throttles.sql
+
+-- scope is 'link:<share link id>' or 'ip:<CF-Connecting-IP>'
+CREATE TABLE IF NOT EXISTS share_link_throttles (
+  scope TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until INTEGER,
+  updated_at INTEGER NOT NULL
+);
@@ -4,10 +4,24 @@ import { itemsRoutes } from './routes/items';
 import { tagsRoutes } from './routes/tags';
 import { uploadRoutes } from './routes/upload';
 import { shareRoutes } from './routes/share';
-import { ogRoutes, parseOgMetadata } from './routes/og';
+import { ogRoutes } from './routes/og';
 import { geminiRoutes } from './routes/gemini';
-import { uploadFileToR2 } from './utils/uploadFile';
-import { authMiddleware, AuthUser } from './middleware/auth';
+import { vaultRoutes } from './routes/vault';
+import { adminRoutes } from './routes/admin';
+import { apiTokensRoutes } from './routes/apiTokens';
+import { authRoutes } from './routes/auth';
+import { webhooksRoutes } from './routes/webhooks';
+import { inboxRoutes } from './routes/inbox';
+import { telegramRoutes, telegramWebhookRoutes } from './routes/telegram';
+import { sharePageRoutes } from './routes/sharePage';
+import { collectionPageRoutes } from './routes/collectionPage';
+import { capturePageRoutes } from './routes/capturePage';
+import { runMaintenance } from './utils/maintenance';
+import { fireItemEvent, retryWebhookDeliveries, WEBHOOK_RETRY_CRON } from './utils/webhooks';
+import { handleIncomingEmail } from './utils/emailInbox';
+import { authMiddleware, AuthUser, getCookieUser } from './middleware/auth';
+import { stashPendingShare } from './utils/pendingShare';
+import { combineShareText, ingestItem, ingestSharedFiles, SharePayload } from './utils/ingest';
 
 export interface Env {
   DB: D1Database;
@@ -15,10 +29,24 @@ export interface Env {
   ENVIRONMENT: string;
   ASSETS: Fetcher;
   GEMINI_API_KEY: SecretsStoreSecret;
+  FILE_URL_SECRET: SecretsStoreSecret;
+  TRASH_RETENTION_DAYS?: string;
+  ADMIN_USER_IDS?: string;
+  AUTH_PROVIDER?: string; // oauth (default), local or dev - see utils/authProviders.ts
+  AUTH_ISSUER?: string; // OAuth issuer (default https://auth.huny.dev)
+  AUTH_CLIENT_ID?: string; // OAuth client of the web app
+  AUTH_JWKS_URL?: string; // Default <issuer>/.well-known/jwks.json
+  AUTH_ALLOW_SIGNUP?: string; // "true": anyone can create a local account
+  EMAIL_DOMAIN?: string; // Domain of the inbox addresses (Email Routing catch-all to this worker)
+  TELEGRAM_BOT_TOKEN?: string; // Secret - Telegram ingestion is off without it
+  TELEGRAM_WEBHOOK_SECRET?: string; // Secret - secret_token of the bot's webhook
+  TELEGRAM_BOT_USERNAME?: string; // For t.me deep links with the link code
+  TELEGRAM_API_BASE_URL?: string; // Default https://api.telegram.org (a local stand-in in development)
 }
 
 export interface Variables {
   user: AuthUser;
+  apiTokenId?: string; // Set when the request was authenticated with a personal API token
 }
 
 const app = new Hono<{ Bindings: Env; Variables: Variables }>();
@@ -33,9 +61,15 @@ app.use('/api/*', cors({
 // Auth middleware for protected routes
 app.use('/api/items/*', authMiddleware);
 app.use('/api/tags/*', authMiddleware);
-// Note: /api/upload uses route-level auth - GET is public, POST/DELETE require auth
+// Note: /api/upload uses route-level auth - GET requires a signed URL, POST/DELETE require auth
 app.use('/api/user/*', authMiddleware);
 app.use('/api/gemini/*', authMiddleware);
+app.use('/api/vault/*', authMiddleware);
+app.use('/api/admin/*', authMiddleware);
+app.use('/api/tokens/*', authMiddleware);
+app.use('/api/webhooks/*', authMiddleware);
+app.use('/api/inbox/*', authMiddleware);
+app.use('/api/telegram/*', authMiddleware);
 
 // API routes
 app.route('/api/items', itemsRoutes);
@@ -44,6 +78,14 @@ app.route('/api/upload', uploadRoutes);
 app.route('/api/share', shareRoutes);
 app.route('/api/og', ogRoutes);
 app.route('/api/gemini', geminiRoutes);
+app.route('/api/vault', vaultRoutes);
+app.route('/api/admin', adminRoutes);
+app.route('/api/tokens', apiTokensRoutes);
+app.route('/api/auth', authRoutes);
+app.route('/api/webhooks', webhooksRoutes);
+app.route('/api/inbox', inboxRoutes);
+app.route('/api/telegram', telegramRoutes);
+app.route('/api/integrations/telegram', telegramWebhookRoutes);
 
 // Delete user account (deletes all data for the authenticated user)
 app.delete('/api/user', authMiddleware, async (c) => {
@@ -52,7 +94,11 @@ app.delete('/api/user', authMiddleware, async (c) => {
     const userId = user.sub;
 
     // Get all file keys to delete from R2
-    const { results: items } = await c.env.DB.prepare('SELECT file_key FROM items WHERE file_key IS NOT NULL AND user_id = ?').bind(userId).all();
+    const { results: items } = await c.env.DB.prepare(`
+      SELECT file_key FROM items WHERE file_key IS NOT NULL AND user_id = ?
+      UNION
+      SELECT f.file_key FROM item_files f JOIN items i ON i.id = f.item_id WHERE i.user_id = ?
+    `).bind(userId, userId).all();
     
     // Delete all files from R2
     for (const item of items || []) {
@@ -66,6 +112,20 @@ app.delete('/api/user', authMiddleware, async (c) => {
     }
 
     // Delete all data for the user
+    await c.env.DB.prepare('DELETE FROM items_fts WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM item_revisions WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM encryption_vaults WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM unlock_attempts WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM unlock_throttles WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM share_links WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM api_tokens WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM webhook_deliveries WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM webhooks WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM email_inboxes WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM telegram_chats WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM telegram_link_codes WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM auth_sessions WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM local_users WHERE id = ?').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM item_tags WHERE item_id IN (SELECT id FROM items WHERE user_id = ?)').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM items WHERE user_id = ?').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM tags WHERE user_id = ?').bind(userId).run();
@@ -77,134 +137,15 @@ app.delete('/api/user', authMiddleware, async (c) => {
   }
 });
 
-// PWA Share Target - handles POST from share intent
-app.post('/share-target', async (c) => {
-  console.log('[Share Target] Received request');
-  console.log('[Share Target] Content-Type:', c.req.header('content-type'));
-  
-  let formData: FormData;
-  try {
-    // Use the raw request to parse formData instead of Hono's wrapper
-    const rawRequest = c.req.raw;
-    formData = await rawRequest.formData();
-  } catch (parseError) {
-    console.error('[Share Target] Failed to parse formData:', parseError);
-    return c.redirect('/?shared=error&reason=parse_failed', 303);
-  }
+// PWA Share Target - normally intercepted by the fetch handler below before Hono reads the body
+app.post('/share-target', (c) => handleShareTarget(c.req.raw, c.env, c.executionCtx));
 
-  const title = formData.get('title') as string;
-  const text = formData.get('text') as string;
-  const url = formData.get('url') as string;
-  
-  // Collect ALL files from formData - Android may use different field names
-  // Common field names: files, file, media, image, video, audio, attachment
-  const allFiles: File[] = [];
-  const formDataEntries: { key: string; type: string; isFile: boolean; size: number | null }[] = [];
-  
-  // Iterate through all formData entries to find files
-  for (const [key, value] of formData.entries()) {
-    formDataEntries.push({ 
-      key, 
-      type: typeof value, 
-      isFile: value instanceof File, 
-      size: value instanceof File ? value.size : null 
-    });
-    if (value instanceof File && value.size > 0) {
-      allFiles.push(value);
-    }
-  }
+// Public share links and published tags (no auth - the token is the credential)
+app.route('/s', sharePageRoutes);
+app.route('/c', collectionPageRoutes);
 
-  console.log('[Share Target] Parsed data:', {
-    title,
-    text,
-    url,
-    formDataEntries,
-    filesCount: allFiles.length,
-    fileDetails: allFiles.map(f => ({ 
-      name: f?.name, 
-      size: f?.size, 
-      type: f?.type
-    }))
-  });
-
-  // Handle file uploads first
-  if (allFiles.length > 0) {
-    console.log('[Share Target] Valid files count:', allFiles.length);
-
-    // Process first valid file
-    const file = allFiles[0];
-    if (file) {
-      const originalName = typeof file.name === 'string' && file.name.trim().length > 0
-        ? file.name.trim()
-        : 'unnamed';
-      const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const fileKey = `${crypto.randomUUID()}-${sanitizedName}`;
-      
-      console.log('[Share Target] Processing file:', {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        fileKey
-      });
-
-      try {
-        const { bytes, strategy } = await uploadFileToR2(
-          c.env.R2_BUCKET,
-          file,
-          fileKey,
-          '[Share Target]'
-        );
-        console.log('[Share Target] File uploaded to R2', { strategy, bytes });
-
-        const type = file.type?.startsWith('image/') ? 'image' 
-          : file.type?.startsWith('video/') ? 'video' 
-          : 'file';
-
-        const id = crypto.randomUUID();
-        const now = Date.now();
-
-        await c.env.DB.prepare(`
-          INSERT INTO items (id, type, content, file_key, file_name, file_size, mime_type, title, created_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).bind(id, type, '', fileKey, originalName, file.size, file.type || 'application/octet-stream', title || null, now).run();
-
-        console.log('[Share Target] DB record created, id:', id);
-        return c.redirect('/?shared=success');
-      } catch (error) {
-        console.error('[Share Target] File upload failed:', error);
-        // Do not expose internal error messages in the URL
-        return c.redirect('/?shared=error&reason=upload_failed');
-      }
-    }
-  }
-
-  // Handle text/link share
-  const content = url || text || title || '';
-  const type = /^https?:\/\//i.test(content.trim()) ? 'link' : 'text';
-  
-  console.log('[Share Target] Processing as text/link:', { content, type });
-
-  if (content) {
-    try {
-      const id = crypto.randomUUID();
-      const now = Date.now();
-      
-      await c.env.DB.prepare(`
-        INSERT INTO items (id, type, content, title, created_at)
-        VALUES (?, ?, ?, ?, ?)
-      `).bind(id, type, content, title || null, now).run();
-
-      console.log('[Share Target] Text/link saved, id:', id);
-      return c.redirect('/?shared=success');
-    } catch (error) {
-      console.error('[Share Target] Text/link save failed:', error);
-      return c.redirect('/?shared=error');
-    }
-  }
-
-  console.log('[Share Target] No content to save');
-  return c.redirect('/');
-});
+// Bookmarklet capture page (authenticates its requests with the token in the URL fragment)
+app.route('/capture', capturePageRoutes);
 
 // Health check
 app.get('/api/health', (c) => c.json({ status: 'ok', time: new Date().toISOString() }));
@@ -240,21 +181,39 @@ export default {
     
     // Handle share-target directly, before Hono processes the request
     if (url.pathname === '/share-target' && request.method === 'POST') {
-      return handleShareTarget(request, env);
+      return handleShareTarget(request, env, ctx);
     }
     
     // For all other requests, use Hono app
     return app.fetch(request, env, ctx);
   },
+
+  // Cron triggers: webhook retries, and daily expiry, trash purge and cleanup for all users
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === WEBHOOK_RETRY_CRON) {
+      ctx.waitUntil(retryWebhookDeliveries(env));
+      return;
+    }
+    ctx.waitUntil(runMaintenance(env, controller.cron));
+  },
+
+  // Email Routing: mail to a user's inbox address becomes items
+  async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+    await handleIncomingEmail(message, env, ctx);
+  },
 };
 
 // Direct share-target handler (outside Hono to avoid body consumption issues)
-async function handleShareTarget(request: Request, env: Env): Promise<Response> {
+async function handleShareTarget(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
   console.log('[Share Target Direct] Received request');
   const contentType = request.headers.get('content-type') || '';
   const contentLength = request.headers.get('content-length');
   console.log('[Share Target Direct] Content-Type:', contentType);
   console.log('[Share Target Direct] Content-Length:', contentLength);
+
+  // The share target can't send an Authorization header - authenticate with the auth_token cookie
+  const user = await getCookieUser(request, env);
+  console.log('[Share Target Direct] Signed in:', !!user);
   
   // Read the raw body ONCE - this is the only read we'll do
   const rawBody = await request.arrayBuffer();
@@ -271,7 +230,10 @@ async function handleShareTarget(request: Request, env: Env): Promise<Response>
     
     const formData = await freshRequest.formData();
     console.log('[Share Target Direct] FormData parsed successfully');
-    return await processFormData(formData, request.url, env);
+    if (!user) {
+      return await stashPendingShare(env, await sharePayloadFromFormData(formData), request);
+    }
+    return await processFormData(formData, request.url, env, ctx, user.sub);
   } catch (parseError) {
     console.error('[Share Target Direct] Standard formData parsing failed:', parseError);
   }
@@ -280,14 +242,17 @@ async function handleShareTarget(request: Request, env: Env): Promise<Response>
   try {
     console.log('[Share Target Direct] Trying manual multipart parsing...');
     const result = parseMultipartManually(rawBody, contentType);
-    if (result && (result.file || result.text || result.url || result.title)) {
+    if (result && (result.files.length > 0 || result.text || result.url || result.title)) {
       console.log('[Share Target Direct] Manual parsing succeeded:', {
-        hasFile: !!result.file,
+        filesCount: result.files.length,
         hasText: !!result.text,
         hasUrl: !!result.url,
         hasTitle: !!result.title,
       });
-      return await processShareData(result, request.url, env);
+      if (!user) {
+        return await stashPendingShare(env, result, request);
+      }
+      return await processShareData(result, request.url, env, ctx, user.sub);
     }
     console.log('[Share Target Direct] Manual parsing returned no useful data');
   } catch (manualError) {
@@ -297,8 +262,47 @@ async function handleShareTarget(request: Request, env: Env): Promise<Response>
   return Response.redirect(new URL('/?shared=error&reason=parse_failed', request.url).toString(), 303);
 }
 
+// Payload to stash for a signed-out share
+async function sharePayloadFromFormData(formData: FormData): Promise<SharePayload> {
+  const files: SharePayload['files'] = [];
+  for (const value of formData.values()) {
+    if (value instanceof File && value.size > 0) {
+      files.push({ name: value.name?.trim() || 'unnamed', type: value.type, data: await value.arrayBuffer() });
+    }
+  }
+
+  return {
+    title: formData.get('title') as string,
+    text: formData.get('text') as string,
+    url: formData.get('url') as string,
+    files,
+  };
+}
+
+// Save every shared file as its own item. With several files the app offers to group them into an album.
+async function saveSharedFiles(payload: SharePayload, requestUrl: string, env: Env, ctx: ExecutionContext, userId: string): Promise<Response> {
+  console.log('[Share Target Direct] Processing files:', payload.files.map(file => ({
+    name: file.name,
+    size: file.data.byteLength,
+    type: file.type,
+  })));
+
+  const items = await ingestSharedFiles(env, userId, payload, '[Share Target Direct]');
+  ctx.waitUntil(fireItemEvent(env, userId, 'item.created', items.map(item => item.id)));
+
+  if (items.length === 0) {
+    return Response.redirect(new URL('/?shared=error&reason=upload_failed', requestUrl).toString(), 303);
+  }
+
+  const params = new URLSearchParams({ shared: 'success' });
+  if (items.length > 1) {
+    params.set('share_items', items.map(item => item.id).join(','));
+  }
+  return Response.redirect(new URL(`/?${params.toString()}`, requestUrl).toString(), 303);
+}
+
 // Process parsed formData - redirect to share choice page
-async function processFormData(formData: FormData, requestUrl: string, env: Env): Promise<Response> {
+async function processFormData(formData: FormData, requestUrl: string, env: Env, ctx: ExecutionContext, userId: string): Promise<Response> {
   const title = formData.get('title') as string;
   const text = formData.get('text') as string;
   const urlParam = formData.get('url') as string;
@@ -329,53 +333,11 @@ async function processFormData(formData: FormData, requestUrl: string, env: Env)
 
   // Handle file uploads - files go directly to storage (no choice for files)
   if (allFiles.length > 0) {
-    const file = allFiles[0];
-    const originalName = typeof file.name === 'string' && file.name.trim().length > 0
-      ? file.name.trim()
-      : 'unnamed';
-    const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const fileKey = `${crypto.randomUUID()}-${sanitizedName}`;
-    
-    console.log('[Share Target Direct] Processing file:', {
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      fileKey
-    });
-
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      
-      await env.R2_BUCKET.put(fileKey, arrayBuffer, {
-        httpMetadata: {
-          contentType: file.type || 'application/octet-stream',
-        },
-      });
-      
-      console.log('[Share Target Direct] File uploaded to R2, bytes:', arrayBuffer.byteLength);
-
-      const type = file.type?.startsWith('image/') ? 'image' 
-        : file.type?.startsWith('video/') ? 'video' 
-        : 'file';
-
-      const id = crypto.randomUUID();
-      const now = Date.now();
-
-      await env.DB.prepare(`
-        INSERT INTO items (id, type, content, file_key, file_name, file_size, mime_type, title, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(id, type, '', fileKey, originalName, file.size, file.type || 'application/octet-stream', title || null, now).run();
-
-      console.log('[Share Target Direct] DB record created, id:', id);
-      return Response.redirect(new URL('/?shared=success', requestUrl).toString(), 303);
-    } catch (error) {
-      console.error('[Share Target Direct] File upload failed:', error);
-      return Response.redirect(new URL('/?shared=error&reason=upload_failed', requestUrl).toString(), 303);
-    }
+    return saveSharedFiles(await sharePayloadFromFormData(formData), requestUrl, env, ctx, userId);
   }
 
-  // Handle text/link share - redirect to choice page with data
-  const content = urlParam || text || title || '';
+  // Handle text/link share - redirect to choice page with data (a caption in `text` is kept with the `url`)
+  const content = combineShareText({ title, text, url: urlParam });
   
   console.log('[Share Target Direct] Processing as text/link:', { content });
 
@@ -398,7 +360,7 @@ interface ParsedMultipart {
   title?: string;
   text?: string;
   url?: string;
-  file?: { name: string; type: string; data: Uint8Array };
+  files: { name: string; type: string; data: Uint8Array }[];
 }
 
 function parseMultipartManually(body: ArrayBuffer, contentType: string): ParsedMultipart | null {
@@ -413,7 +375,7 @@ function parseMultipartManually(body: ArrayBuffer, contentType: string): ParsedM
   
   const bodyBytes = new Uint8Array(body);
   const boundaryBytes = new TextEncoder().encode('--' + boundary);
-  const result: ParsedMultipart = {};
+  const result: ParsedMultipart = { files: [] };
   
   // Find all boundary positions
   const boundaryPositions: number[] = [];
@@ -481,11 +443,11 @@ function parseMultipartManually(body: ArrayBuffer, contentType: string): ParsedM
       
       console.log('[Manual Parser] Found file:', filename, 'size:', fileData.length, 'type:', fileContentType);
       
-      result.file = {
+      result.files.push({
         name: filename,
         type: fileContentType,
         data: fileData
-      };
+      });
     } else {
       // Text field
       const textData = bodyBytes.slice(dataStart, dataEnd);
@@ -503,80 +465,17 @@ function parseMultipartManually(body: ArrayBuffer, contentType: string): ParsedM
 }
 
 // Process manually parsed data
-async function processShareData(data: ParsedMultipart, requestUrl: string, env: Env): Promise<Response> {
-  // Handle file if present
-  if (data.file && data.file.data.byteLength > 0) {
-    const originalName = data.file.name || 'unnamed';
-    const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const fileKey = `${crypto.randomUUID()}-${sanitizedName}`;
-    
-    try {
-      await env.R2_BUCKET.put(fileKey, data.file.data, {
-        httpMetadata: {
-          contentType: data.file.type,
-        },
-      });
-      
-      const type = data.file.type?.startsWith('image/') ? 'image' 
-        : data.file.type?.startsWith('video/') ? 'video' 
-        : 'file';
-
-      const id = crypto.randomUUID();
-      const now = Date.now();
-
-      await env.DB.prepare(`
-        INSERT INTO items (id, type, content, file_key, file_name, file_size, mime_type, title, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(id, type, '', fileKey, originalName, data.file.data.byteLength, data.file.type, data.title || null, now).run();
-
-      return Response.redirect(new URL('/?shared=success', requestUrl).toString(), 303);
-    } catch (error) {
-      console.error('[Share Target Direct] Manual file upload failed:', error);
-      return Response.redirect(new URL('/?shared=error&reason=upload_failed', requestUrl).toString(), 303);
-    }
+async function processShareData(data: ParsedMultipart, requestUrl: string, env: Env, ctx: ExecutionContext, userId: string): Promise<Response> {
+  // Handle files if present
+  if (data.files.some(file => file.data.byteLength > 0)) {
+    return saveSharedFiles(data, requestUrl, env, ctx, userId);
   }
 
   // Handle text/link
-  const content = data.url || data.text || data.title || '';
+  const content = combineShareText(data);
   if (content) {
-    const type = /^https?:\/\//i.test(content.trim()) ? 'link' : 'text';
-    const id = crypto.randomUUID();
-    const now = Date.now();
-    
-    // Parse OG metadata for link items or text containing URLs
-    let ogImage: string | null = null;
-    let ogTitle: string | null = null;
-    let ogDescription: string | null = null;
-    
-    let urlToParse: string | null = null;
-    
-    if (type === 'link') {
-      urlToParse = content;
-    } else if (type === 'text') {
-      // Extract first URL from text content
-      const urlRegex = /(?:https?:\/\/|www\.)[^\s<>"{}|\\^`[\]]+/gi;
-      const match = content.match(urlRegex);
-      if (match && match.length > 0) {
-        urlToParse = match[0].startsWith('www.') ? `https://${match[0]}` : match[0];
-      }
-    }
-    
-    if (urlToParse) {
-      try {
-        const ogData = await parseOgMetadata(urlToParse);
-        ogImage = ogData.ogImage || null;
-        ogTitle = ogData.ogTitle || null;
-        ogDescription = ogData.ogDescription || null;
-      } catch (ogError) {
-        console.error('[Share Target Direct] Failed to parse OG metadata in processShareData:', ogError);
-      }
-    }
-    
-    await env.DB.prepare(`
-      INSERT INTO items (id, type, content, title, og_image, og_title, og_description, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(id, type, content, data.title || null, ogImage, ogTitle, ogDescription, now).run();
-
+    const item = await ingestItem(env, userId, { content, title: data.title || null }, '[Share Target Direct]');
+    ctx.waitUntil(fireItemEvent(env, userId, 'item.created', [item.id]));
     return Response.redirect(new URL('/?shared=success', requestUrl).toString(), 303);
   }
 
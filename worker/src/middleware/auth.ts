@@ -1,7 +1,12 @@
 import { Context } from 'hono';
-import type { Env } from '../index';
+import type { Env, Variables } from '../index';
+import { isApiToken, requiredApiTokenScope, verifyApiToken } from '../utils/apiTokens';
+import { getAuthIssuer, getAuthProvider, isSessionToken, verifySession, DEFAULT_AUTH_CLIENT_ID } from '../utils/authProviders';
+import { isJwt, JwtConfig, verifyJwt } from '../utils/jwt';
 
-const AUTH_SERVER = 'https://auth.huny.dev';
+// Positive verifications are reused briefly (per isolate) so most requests skip verification
+const TOKEN_CACHE_TTL_MS = 60 * 1000;
+const TOKEN_CACHE_MAX_ENTRIES = 1000;
 
 export interface AuthUser {
   sub: string;
@@ -10,18 +15,80 @@ export interface AuthUser {
   picture?: string;
 }
 
-// Verify JWT token with OAuth server
-async function verifyToken(token: string): Promise<AuthUser | null> {
-  try {
-    const response = await fetch(`${AUTH_SERVER}/oauth/userinfo`, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+const tokenCache = new Map<string, { user: AuthUser; expiresAt: number }>();
+
+// Issuer and JWKS location (configurable, e.g. to point at a local stand-in), and the client id tokens must be for
+function getJwtConfig(env: Env): JwtConfig {
+  const issuer = getAuthIssuer(env);
+  return {
+    issuer,
+    jwksUrl: env.AUTH_JWKS_URL || `${issuer}/.well-known/jwks.json`,
+    audience: env.AUTH_CLIENT_ID || DEFAULT_AUTH_CLIENT_ID,
+  };
+}
+
+// Opaque tokens: ask the OAuth server
+async function fetchUserInfo(token: string, issuer: string): Promise<AuthUser | null> {
+  const response = await fetch(`${issuer}/oauth/userinfo`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  return await response.json();
+}
 
-    if (!response.ok) {
+function cacheUser(token: string, user: AuthUser, tokenExpiresAt?: number) {
+  if (tokenCache.size >= TOKEN_CACHE_MAX_ENTRIES) {
+    // Oldest entry first (Map keeps insertion order)
+    tokenCache.delete(tokenCache.keys().next().value as string);
+  }
+  const expiresAt = Math.min(Date.now() + TOKEN_CACHE_TTL_MS, tokenExpiresAt ?? Infinity);
+  tokenCache.set(token, { user, expiresAt });
+}
+
+// Verify access token - sessions issued by the worker (local/dev providers) in D1;
+// OAuth JWTs locally against the issuer's JWKS, opaque OAuth tokens with userinfo
+async function verifyToken(token: string, env: Env): Promise<AuthUser | null> {
+  if (getAuthProvider(env) !== 'oauth') {
+    try {
+      return isSessionToken(token) ? await verifySession(env.DB, token) : null;
+    } catch (error) {
+      console.error('Session verification failed:', error);
       return null;
     }
+  }
+
+  const cached = tokenCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user;
+  }
+  tokenCache.delete(token);
+
+  const config = getJwtConfig(env);
+  try {
+    if (isJwt(token)) {
+      try {
+        const payload = await verifyJwt(token, config);
+        if (!payload) {
+          return null;
+        }
+        const user: AuthUser = { sub: payload.sub as string, name: payload.name, email: payload.email, picture: payload.picture };
+        cacheUser(token, user, (payload.exp as number) * 1000);
+        return user;
+      } catch (error) {
+        // Keys unavailable - let the OAuth server decide
+        console.error('Local token verification failed, falling back to userinfo:', error);
+      }
+    }
 
-    return await response.json();
+    const user = await fetchUserInfo(token, config.issuer);
+    if (user) {
+      cacheUser(token, user);
+    }
+    return user;
   } catch (error) {
     console.error('Token verification failed:', error);
     return null;
@@ -42,8 +109,26 @@ function extractToken(authHeader: string | undefined): string | null {
   return parts[1];
 }
 
+// Read a cookie value from a request
+export function getCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get('Cookie') || '';
+  for (const part of cookies.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+}
+
+// Verify the auth_token cookie (set by the client for the PWA share target, which can't send headers)
+export async function getCookieUser(request: Request, env: Env): Promise<AuthUser | null> {
+  const token = getCookie(request, 'auth_token');
+  return token ? verifyToken(token, env) : null;
+}
+
 // Auth middleware - verifies token and attaches user to context
-export async function authMiddleware(c: Context<{ Bindings: Env }>, next: () => Promise<void>) {
+export async function authMiddleware(c: Context<{ Bindings: Env; Variables: Variables }>, next: () => Promise<void>) {
   const authHeader = c.req.header('Authorization');
   const token = extractToken(authHeader);
 
@@ -51,7 +136,28 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: () =>
     return c.json({ error: 'Unauthorized - No token provided' }, 401);
   }
 
-  const user = await verifyToken(token);
+  // Personal API token (scripts, automations)
+  if (isApiToken(token)) {
+    const apiToken = await verifyApiToken(c.env.DB, token);
+    if (!apiToken) {
+      return c.json({ error: 'Unauthorized - Invalid token' }, 401);
+    }
+
+    const scope = requiredApiTokenScope(c.req.method, c.req.path);
+    if (!scope) {
+      return c.json({ error: 'Forbidden - API tokens cannot access this endpoint' }, 403);
+    }
+    if (!apiToken.scopes.includes(scope)) {
+      return c.json({ error: `Forbidden - Token is missing the ${scope} scope` }, 403);
+    }
+
+    c.set('user', { sub: apiToken.userId });
+    c.set('apiTokenId', apiToken.tokenId);
+    await next();
+    return;
+  }
+
+  const user = await verifyToken(token, c.env);
 
   if (!user) {
     return c.json({ error: 'Unauthorized - Invalid token' }, 401);
@@ -67,8 +173,3 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: () =>
 export function getUser(c: Context): AuthUser {
   return c.get('user') as AuthUser;
 }
-
-// Helper to get optional user from context (returns undefined if not authenticated)
-export function getOptionalUser(c: Context): AuthUser | undefined {
-  return c.get('user') as AuthUser | undefined;
-}
@@ -0,0 +1,80 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+import { getTrashRetentionDays } from '../utils/maintenance';
+import { reconcileFiles } from '../utils/fileReconcile';
+import { isTelegramEnabled, setTelegramWebhook } from '../utils/telegram';
+
+export const adminRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Admins are listed by user id (sub) in the ADMIN_USER_IDS var, comma-separated
+adminRoutes.use('*', async (c, next) => {
+  const adminIds = (c.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (!adminIds.includes(getUser(c).sub)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+  await next();
+});
+
+// Recent scheduled maintenance runs
+adminRoutes.get('/maintenance', async (c) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20') || 20, 1), 100);
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT * FROM maintenance_runs
+      ORDER BY started_at DESC
+      LIMIT ?
+    `).bind(limit).all();
+
+    return c.json({
+      trashRetentionDays: getTrashRetentionDays(c.env),
+      runs: results.map(row => ({
+        id: row.id as string,
+        trigger: row.trigger as string,
+        status: row.status as string,
+        startedAt: row.started_at as number,
+        finishedAt: (row.finished_at as number | null) ?? null,
+        expiredItems: row.expired_items as number,
+        purgedItems: row.purged_items as number,
+        deletedFiles: row.deleted_files as number,
+        failedFiles: row.failed_files as number,
+        staleThrottles: row.stale_throttles as number,
+        quarantinedFiles: row.quarantined_files as number,
+        deletedOrphans: row.deleted_orphans as number,
+        missingFiles: row.missing_files as number,
+        error: (row.error as string | null) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching maintenance runs:', error);
+    return c.json({ error: 'Failed to fetch maintenance runs' }, 500);
+  }
+});
+
+// R2/D1 reconciliation report (dry run - nothing is changed; the scheduled run applies it)
+adminRoutes.get('/files/reconcile', async (c) => {
+  try {
+    const report = await reconcileFiles(c.env, { dryRun: true });
+    return c.json(report);
+  } catch (error) {
+    console.error('Error reconciling files:', error);
+    return c.json({ error: 'Failed to reconcile files' }, 500);
+  }
+});
+
+// Point the Telegram bot's webhook at this deployment (run once after setting the bot secrets)
+adminRoutes.post('/telegram/webhook', async (c) => {
+  try {
+    if (!isTelegramEnabled(c.env)) {
+      return c.json({ error: 'Telegram bot is not configured' }, 404);
+    }
+
+    const url = `${new URL(c.req.url).origin}/api/integrations/telegram/webhook`;
+    await setTelegramWebhook(c.env, url);
+    return c.json({ success: true, url });
+  } catch (error) {
+    console.error('Error setting Telegram webhook:', error);
+    return c.json({ error: 'Failed to set Telegram webhook' }, 500);
+  }
+});
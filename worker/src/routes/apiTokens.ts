@@ -0,0 +1,97 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+import { createApiToken, isApiTokenScope, MAX_API_TOKENS_PER_USER, toApiToken } from '../utils/apiTokens';
+
+// Personal API tokens, managed from the app (API tokens themselves can't reach these routes)
+
+export const apiTokensRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const MAX_NAME_LENGTH = 100;
+
+// List tokens
+apiTokensRoutes.get('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC
+    `).bind(userId).all();
+
+    return c.json(results.map(toApiToken));
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return c.json({ error: 'Failed to fetch API tokens' }, 500);
+  }
+});
+
+// Create token - the token itself is only returned here
+apiTokensRoutes.post('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json() as { name?: string; scopes?: unknown[]; expiresAt?: number | null };
+    const name = body.name?.trim() || '';
+    const scopes = [...new Set(body.scopes || [])];
+    const expiresAt = body.expiresAt ?? null;
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return c.json({ error: `토큰 이름은 1~${MAX_NAME_LENGTH}자여야 합니다.` }, 400);
+    }
+    if (scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return c.json({ error: '권한을 하나 이상 선택해 주세요.' }, 400);
+    }
+    if (expiresAt !== null && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) {
+      return c.json({ error: '만료 시각은 미래여야 합니다.' }, 400);
+    }
+
+    const count = await c.env.DB.prepare('SELECT COUNT(*) as count FROM api_tokens WHERE user_id = ?')
+      .bind(userId).first<{ count: number }>();
+    if ((count?.count || 0) >= MAX_API_TOKENS_PER_USER) {
+      return c.json({ error: `API 토큰은 최대 ${MAX_API_TOKENS_PER_USER}개까지 만들 수 있습니다.` }, 400);
+    }
+
+    const { token, hash, prefix } = await createApiToken();
+    const row = {
+      id: crypto.randomUUID(),
+      name,
+      token_prefix: prefix,
+      scopes: JSON.stringify(scopes),
+      expires_at: expiresAt,
+      last_used_at: null,
+      created_at: Date.now(),
+    };
+
+    await c.env.DB.prepare(`
+      INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(row.id, userId, row.name, hash, row.token_prefix, row.scopes, row.expires_at, row.created_at).run();
+
+    return c.json({ ...toApiToken(row), token }, 201);
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return c.json({ error: 'Failed to create API token' }, 500);
+  }
+});
+
+// Revoke token
+apiTokensRoutes.delete('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const result = await c.env.DB.prepare('DELETE FROM api_tokens WHERE id = ? AND user_id = ?').bind(id, userId).run();
+    if (!result.meta.changes) {
+      return c.json({ error: 'Token not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return c.json({ error: 'Failed to revoke API token' }, 500);
+  }
+});
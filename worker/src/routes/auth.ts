@@ -0,0 +1,170 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import type { AuthUser } from '../middleware/auth';
+import { createSession, DEV_USER, getAuthConfig, getAuthProvider, isSessionToken, isSignupAllowed, revokeSession } from '../utils/authProviders';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { clearThrottle, getThrottleRetryAfter, recordThrottleFailure, ThrottlePolicy } from '../utils/attemptThrottle';
+
+// Sign-in for the built-in providers (see utils/authProviders.ts). No auth middleware:
+// these routes hand out the access tokens. The OAuth provider signs in at the issuer instead.
+
+export const authRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Failed logins before a lockout, then the lockout doubles up to the maximum. The per-client
+// count locks out quickly; the account-wide count catches guessing spread over many IPs
+// without letting one client lock the owner out for long.
+const CLIENT_LOGIN_POLICY: ThrottlePolicy = { freeAttempts: 5, baseLockoutMs: 60 * 1000, maxLockoutMs: 60 * 60 * 1000 };
+const ACCOUNT_LOGIN_POLICY: ThrottlePolicy = { freeAttempts: 20, baseLockoutMs: 30 * 1000, maxLockoutMs: 15 * 60 * 1000 };
+
+// Verified against when the username doesn't exist, so both cases take the same time
+const DUMMY_PASSWORD_SALT = '00000000000000000000000000000000';
+
+// Same shape as an OAuth token response, plus the user
+const tokenResponse = (user: AuthUser, session: { accessToken: string; expiresAt: number }) => ({
+  access_token: session.accessToken,
+  token_type: 'Bearer',
+  expires_in: Math.floor((session.expiresAt - Date.now()) / 1000),
+  user,
+});
+
+const localUser = (row: Record<string, unknown>): AuthUser => ({
+  sub: row.id as string,
+  name: (row.name as string | null) || (row.username as string),
+});
+
+// Throttle scopes of a sign-in: the account from this client, and the account from anywhere
+const accountScope = (username: string) => `account:${username.toLowerCase()}`;
+const clientScope = (username: string, ipAddress: string | undefined) =>
+  `client:${username.toLowerCase()}|${ipAddress || 'unknown'}`;
+
+// Provider in use (public)
+authRoutes.get('/config', async (c) => {
+  try {
+    return c.json(await getAuthConfig(c.env));
+  } catch (error) {
+    console.error('Error fetching auth config:', error);
+    return c.json({ error: 'Failed to fetch auth config' }, 500);
+  }
+});
+
+// Create local account
+authRoutes.post('/local/signup', async (c) => {
+  try {
+    if (getAuthProvider(c.env) !== 'local') {
+      return c.json({ error: 'Local accounts are disabled' }, 404);
+    }
+    if (!await isSignupAllowed(c.env)) {
+      return c.json({ error: '새 계정 만들기가 허용되지 않습니다.' }, 403);
+    }
+
+    const body = await c.req.json() as { username?: string; password?: string; name?: string };
+    const username = body.username?.trim() || '';
+    const password = body.password || '';
+    const name = body.name?.trim() || null;
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return c.json({ error: '아이디는 3~32자의 영문, 숫자, . _ - 만 쓸 수 있습니다.' }, 400);
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return c.json({ error: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.` }, 400);
+    }
+
+    const { hash, salt } = await hashPassword(password);
+    const row = { id: crypto.randomUUID(), username, name };
+    // Without open sign-up only the first account may be created; checked in the insert
+    // itself so two concurrent sign-ups can't both become the first user
+    const result = await c.env.DB.prepare(`
+      INSERT INTO local_users (id, username, name, password_hash, password_salt, created_at)
+      SELECT ?, ?, ?, ?, ?, ?
+      WHERE ? OR NOT EXISTS (SELECT 1 FROM local_users)
+    `).bind(row.id, username, name, hash, salt, Date.now(), c.env.AUTH_ALLOW_SIGNUP === 'true' ? 1 : 0).run();
+    if (!result.meta.changes) {
+      return c.json({ error: '새 계정 만들기가 허용되지 않습니다.' }, 403);
+    }
+
+    const user = localUser(row);
+    return c.json(tokenResponse(user, await createSession(c.env.DB, user)), 201);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+      return c.json({ error: '이미 사용 중인 아이디입니다.' }, 409);
+    }
+    console.error('Error creating local account:', error);
+    return c.json({ error: 'Failed to create account' }, 500);
+  }
+});
+
+// Sign in with local account
+authRoutes.post('/local/login', async (c) => {
+  try {
+    if (getAuthProvider(c.env) !== 'local') {
+      return c.json({ error: 'Local accounts are disabled' }, 404);
+    }
+
+    const body = await c.req.json() as { username?: string; password?: string };
+    const username = body.username?.trim() || '';
+    const password = body.password || '';
+
+    // Unknown usernames are throttled the same way, so they can't be told apart
+    const scopes: [string, ThrottlePolicy][] = [
+      [clientScope(username, c.req.header('CF-Connecting-IP')), CLIENT_LOGIN_POLICY],
+      [accountScope(username), ACCOUNT_LOGIN_POLICY],
+    ];
+    const retryAfter = await getThrottleRetryAfter(c.env.DB, 'login_throttles', scopes.map(([scope]) => scope));
+    if (retryAfter) {
+      c.header('Retry-After', String(retryAfter));
+      return c.json({ error: `로그인 시도가 너무 많습니다. ${retryAfter}초 후에 다시 시도하세요.`, retryAfter }, 429);
+    }
+
+    const row = await c.env.DB.prepare('SELECT * FROM local_users WHERE username = ?').bind(username).first();
+    if (!row) {
+      await verifyPassword(password, '', DUMMY_PASSWORD_SALT);
+    }
+
+    if (!row || !await verifyPassword(password, row.password_hash as string, row.password_salt as string)) {
+      await recordThrottleFailure(c.env.DB, 'login_throttles', scopes);
+      return c.json({ error: '아이디 또는 비밀번호가 올바르지 않습니다.' }, 401);
+    }
+
+    // The account-wide count only expires with time, so a successful sign-in elsewhere
+    // doesn't reset the backoff of someone guessing from many IPs
+    await clearThrottle(c.env.DB, 'login_throttles', scopes[0][0]);
+
+    const user = localUser(row);
+    return c.json(tokenResponse(user, await createSession(c.env.DB, user)));
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return c.json({ error: 'Failed to sign in' }, 500);
+  }
+});
+
+// Sign in as the fixed test user (development only)
+authRoutes.post('/dev/login', async (c) => {
+  try {
+    if (getAuthProvider(c.env) !== 'dev') {
+      return c.json({ error: 'Dev sign-in is disabled' }, 404);
+    }
+
+    console.log('[Auth] Dev sign-in as', DEV_USER.sub);
+    return c.json(tokenResponse(DEV_USER, await createSession(c.env.DB, DEV_USER)));
+  } catch (error) {
+    console.error('Error signing in dev user:', error);
+    return c.json({ error: 'Failed to sign in' }, 500);
+  }
+});
+
+// Sign out (local/dev sessions; OAuth tokens are revoked at the issuer)
+authRoutes.post('/logout', async (c) => {
+  try {
+    const token = c.req.header('Authorization')?.replace(/^Bearer /, '');
+    if (token && isSessionToken(token)) {
+      await revokeSession(c.env.DB, token);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return c.json({ error: 'Failed to sign out' }, 500);
+  }
+});
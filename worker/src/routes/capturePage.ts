@@ -0,0 +1,168 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { renderPublicPage } from '../utils/publicPage';
+
+// Capture page opened by the bookmarklet in a popup (/capture?url=&title=&text=&source=#token=...).
+// It is rendered without the SPA and never sees the user's session: requests are made with the
+// personal API token in the URL fragment (items:write, tags:read), which is never sent to the server.
+// Everything from the query is set by the script as text, nothing is rendered into the HTML.
+
+export const capturePageRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const CAPTURE_STYLE = `<style>
+  main{max-width:480px;padding:16px}
+  label{display:block;font-size:13px;color:#64748b;margin:12px 0 4px}
+  input[type=text],input[type=url],input[type=datetime-local],textarea,select{width:100%;padding:8px 10px;border:1px solid #cbd5e1;border-radius:8px;font:inherit;font-size:14px;background:#fff}
+  textarea{min-height:96px;resize:vertical}
+  #reminder-at{margin-top:6px}
+  .chips{display:flex;flex-wrap:wrap;gap:6px}
+  .chip{padding:4px 10px;border-radius:999px;border:1px solid #cbd5e1;background:#fff;font-size:13px;cursor:pointer;color:#334155}
+  .chip.on{background:#4f46e5;border-color:#4f46e5;color:#fff}
+  .actions{display:flex;align-items:center;justify-content:space-between;gap:12px;margin-top:16px}
+  .button:disabled{opacity:.5;cursor:default}
+  .success{color:#16a34a;font-size:14px}
+</style>`;
+
+const CAPTURE_SCRIPT = `
+(() => {
+  const params = new URLSearchParams(location.search);
+  const token = new URLSearchParams(location.hash.slice(1)).get('token');
+  // Keep the token out of the history and of anything that reads the URL later
+  history.replaceState(null, '', location.pathname + location.search);
+
+  const form = document.getElementById('capture-form');
+  const status = document.getElementById('status');
+  const tagList = document.getElementById('tags');
+  const reminder = document.getElementById('reminder');
+  const reminderAt = document.getElementById('reminder-at');
+  const submit = document.getElementById('submit');
+  const selectedTags = new Set();
+
+  const showStatus = (message, className) => {
+    status.textContent = message;
+    status.className = className;
+  };
+
+  form.elements.title.value = params.get('title') || '';
+  form.elements.url.value = params.get('url') || params.get('source') || '';
+  form.elements.selection.value = params.get('text') || '';
+
+  if (!token) {
+    form.replaceWith(status);
+    showStatus('캡처 토큰이 없습니다. 앱의 메뉴 → 북마클릿에서 북마클릿을 다시 만들어 주세요.', 'error');
+    return;
+  }
+  const headers = { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' };
+
+  fetch('/api/tags', { headers }).then((response) => response.ok ? response.json() : []).then((tags) => {
+    document.getElementById('tags-field').hidden = tags.length === 0;
+    for (const tag of tags) {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'chip';
+      chip.textContent = tag.name;
+      chip.addEventListener('click', () => {
+        if (selectedTags.has(tag.id)) selectedTags.delete(tag.id); else selectedTags.add(tag.id);
+        chip.classList.toggle('on', selectedTags.has(tag.id));
+      });
+      tagList.appendChild(chip);
+    }
+  });
+
+  reminder.addEventListener('change', () => {
+    reminderAt.hidden = reminder.value !== 'custom';
+  });
+
+  const getReminderAt = () => {
+    const date = new Date();
+    switch (reminder.value) {
+      case 'hour':
+        return date.getTime() + 60 * 60 * 1000;
+      case 'evening':
+        date.setHours(20, 0, 0, 0);
+        if (date.getTime() <= Date.now()) date.setDate(date.getDate() + 1);
+        return date.getTime();
+      case 'tomorrow':
+        date.setDate(date.getDate() + 1);
+        date.setHours(9, 0, 0, 0);
+        return date.getTime();
+      case 'week':
+        date.setDate(date.getDate() + 7);
+        date.setHours(9, 0, 0, 0);
+        return date.getTime();
+      case 'custom':
+        return reminderAt.value ? new Date(reminderAt.value).getTime() : null;
+      default:
+        return null;
+    }
+  };
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    submit.disabled = true;
+    showStatus('저장 중...', 'muted');
+    try {
+      const response = await fetch('/api/items/quick', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          url: form.elements.url.value,
+          title: form.elements.title.value,
+          selection: form.elements.selection.value,
+          sourceUrl: params.get('source') || '',
+          tags: [...selectedTags],
+          reminderAt: getReminderAt(),
+        }),
+      });
+      if (response.status === 401) {
+        throw new Error('캡처 토큰이 만료되었거나 취소되었습니다. 북마클릿을 다시 만들어 주세요.');
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '저장하지 못했습니다.');
+      }
+      showStatus('저장했습니다.', 'success');
+      setTimeout(() => window.close(), 1200);
+    } catch (error) {
+      showStatus(error.message, 'error');
+      submit.disabled = false;
+    }
+  });
+})();
+`;
+
+capturePageRoutes.get('/', (c) => {
+  const body = `<h1>Self에 저장</h1>
+<form id="capture-form">
+  <label for="title">제목</label>
+  <input type="text" id="title" name="title" maxlength="500" />
+  <label for="url">URL</label>
+  <input type="url" id="url" name="url" />
+  <label for="selection">선택한 텍스트</label>
+  <textarea id="selection" name="selection" placeholder="메모를 남기려면 여기에 적으세요"></textarea>
+  <div id="tags-field" hidden>
+    <label>태그</label>
+    <div class="chips" id="tags"></div>
+  </div>
+  <label for="reminder">리마인더</label>
+  <select id="reminder">
+    <option value="">없음</option>
+    <option value="hour">1시간 후</option>
+    <option value="evening">오늘 저녁 (20:00)</option>
+    <option value="tomorrow">내일 아침 (09:00)</option>
+    <option value="week">다음 주 (09:00)</option>
+    <option value="custom">직접 선택</option>
+  </select>
+  <input type="datetime-local" id="reminder-at" hidden />
+  <div class="actions">
+    <span id="status" class="muted"></span>
+    <button type="submit" id="submit" class="button">저장</button>
+  </div>
+</form>`;
+
+  return renderPublicPage(c, 'Self에 저장', body, {
+    head: CAPTURE_STYLE,
+    script: CAPTURE_SCRIPT,
+    footer: '북마클릿으로 저장',
+  });
+});
@@ -0,0 +1,173 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { signFileUrl } from '../utils/fileAccess';
+import { escapeHtml, formatSize, linkify, PublicPageContext, renderPublicPage } from '../utils/publicPage';
+
+// Public collection of a published tag (/c/<token>) and its Atom feed (/c/<token>/feed.atom).
+// Only the tag owner's non-encrypted items are listed; trashed, expired and unfinished uploads are left out.
+// Unpublishing or rotating the tag's token makes the old URL return 404.
+
+export const collectionPageRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const PAGE_SIZE = 20;
+const FEED_SIZE = 50;
+const TEXT_PREVIEW_LENGTH = 1000;
+
+// Signed file URLs in the page stay valid for at least an hour
+const PAGE_CACHE_CONTROL = 'public, max-age=300';
+
+async function findPublishedTag(c: PublicPageContext): Promise<Record<string, unknown> | null> {
+  return c.env.DB.prepare('SELECT id, name, user_id, published_at FROM tags WHERE public_token = ?')
+    .bind(c.req.param('token')).first();
+}
+
+async function listCollectionItems(c: PublicPageContext, tag: Record<string, unknown>, limit: number, offset: number) {
+  const { results } = await c.env.DB.prepare(`
+    SELECT i.* FROM items i
+    JOIN item_tags it ON it.item_id = i.id
+    WHERE it.tag_id = ? AND i.user_id = ? AND i.is_encrypted = 0 AND i.deleted_at IS NULL
+      AND i.upload_status IS NULL AND (i.expires_at IS NULL OR i.expires_at > ?)
+    ORDER BY i.created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(tag.id, tag.user_id, Date.now(), limit, offset).all();
+  return results;
+}
+
+function itemTitle(item: Record<string, unknown>): string {
+  const firstLine = ((item.content as string) || '').trim().split('\n')[0].slice(0, 80);
+  return (item.title || item.og_title || item.file_name || firstLine || '제목 없음') as string;
+}
+
+// Where an entry points: the page of a link, otherwise the collection itself
+function itemLink(item: Record<string, unknown>): string | null {
+  const content = ((item.content as string) || '').trim();
+  return item.type === 'link' && /^https?:\/\//i.test(content) ? content : null;
+}
+
+function textPreview(item: Record<string, unknown>): string {
+  const content = ((item.content as string) || '').trim();
+  if (item.type === 'link' || !content) return '';
+  return content.length > TEXT_PREVIEW_LENGTH ? `${content.slice(0, TEXT_PREVIEW_LENGTH)}…` : content;
+}
+
+async function renderEntry(c: PublicPageContext, item: Record<string, unknown>): Promise<string> {
+  const fileUrl = item.file_key ? await signFileUrl(c.env, item.file_key as string) : null;
+  const isImage = (item.mime_type as string | null)?.startsWith('image/');
+  const thumbnail = (item.og_image as string | null) || (isImage ? fileUrl : null);
+  const link = itemLink(item);
+  const title = escapeHtml(itemTitle(item));
+  const preview = textPreview(item);
+
+  const parts = [
+    link ? `<h2><a href="${escapeHtml(link)}" rel="noopener nofollow" target="_blank">${title}</a></h2>` : `<h2>${title}</h2>`,
+  ];
+  if (item.og_description) {
+    parts.push(`<div class="muted">${escapeHtml(item.og_description as string)}</div>`);
+  }
+  if (preview) {
+    parts.push(`<div class="text">${linkify(preview)}</div>`);
+  }
+  if (fileUrl && !isImage) {
+    parts.push(`<div class="muted">${escapeHtml((item.file_name as string) || '파일')} ${formatSize(item.file_size as number | null)} · <a href="${escapeHtml(fileUrl)}&amp;download=1">다운로드</a></div>`);
+  }
+  parts.push(`<div class="muted">${new Date(item.created_at as number).toLocaleDateString('ko-KR', { timeZone: 'Asia/Seoul' })}</div>`);
+
+  const image = thumbnail ? `<img class="thumb" src="${escapeHtml(thumbnail)}" alt="" loading="lazy" />` : '';
+  return `<article class="entry" id="item-${escapeHtml(item.id as string)}">${image}<div class="body">${parts.join('\n')}</div></article>`;
+}
+
+collectionPageRoutes.get('/:token', async (c) => {
+  try {
+    const tag = await findPublishedTag(c);
+    if (!tag) {
+      return renderPublicPage(c, '컬렉션', '<h1>공개 중인 컬렉션이 아닙니다.</h1><p class="muted">주소가 바뀌었거나 공개가 중지되었습니다.</p>', {
+        status: 404,
+        footer: 'Self',
+      });
+    }
+
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+    // One extra row tells whether there is a next page
+    const rows = await listCollectionItems(c, tag, PAGE_SIZE + 1, (page - 1) * PAGE_SIZE);
+    const hasNext = rows.length > PAGE_SIZE;
+    const entries = await Promise.all(rows.slice(0, PAGE_SIZE).map(item => renderEntry(c, item)));
+
+    const name = `#${tag.name as string}`;
+    const basePath = `/c/${encodeURIComponent(c.req.param('token'))}`;
+    const feedPath = `${basePath}/feed.atom`;
+    const pager = page > 1 || hasNext
+      ? `<nav class="pager">
+  <span>${page > 1 ? `<a href="${basePath}?page=${page - 1}">← 이전</a>` : ''}</span>
+  <span>${hasNext ? `<a href="${basePath}?page=${page + 1}">다음 →</a>` : ''}</span>
+</nav>`
+      : '';
+
+    const body = `<h1>${escapeHtml(name)}</h1>
+<p class="muted"><a href="${feedPath}">Atom 피드</a></p>
+${entries.length > 0 ? entries.join('\n') : '<p class="muted">아직 공개된 항목이 없습니다.</p>'}
+${pager}`;
+
+    return renderPublicPage(c, name, body, {
+      footer: 'Self로 공개된 컬렉션',
+      head: `<link rel="alternate" type="application/atom+xml" title="${escapeHtml(name)}" href="${feedPath}" />`,
+      indexable: true,
+      cacheControl: PAGE_CACHE_CONTROL,
+    });
+  } catch (error) {
+    console.error('Error rendering collection page:', error);
+    return c.text('Failed to render collection', 500);
+  }
+});
+
+collectionPageRoutes.get('/:token/feed.atom', async (c) => {
+  try {
+    const tag = await findPublishedTag(c);
+    if (!tag) {
+      return c.text('Not found', 404);
+    }
+
+    const rows = await listCollectionItems(c, tag, FEED_SIZE, 0);
+    const origin = new URL(c.req.url).origin;
+    const pageUrl = `${origin}/c/${encodeURIComponent(c.req.param('token'))}`;
+    const updated = (rows[0]?.created_at as number | undefined) ?? (tag.published_at as number | null) ?? Date.now();
+
+    // Files are left out: their signed URLs expire long before a feed reader is done with them
+    const entries = rows.map(item => {
+      const link = itemLink(item) || pageUrl;
+      const html = [
+        item.og_image ? `<p><img src="${escapeHtml(item.og_image as string)}" alt="" /></p>` : '',
+        item.og_description ? `<p>${escapeHtml(item.og_description as string)}</p>` : '',
+        textPreview(item) ? `<p>${linkify(textPreview(item)).replace(/\n/g, '<br />')}</p>` : '',
+      ].join('');
+      const date = new Date(item.created_at as number).toISOString();
+      return `  <entry>
+    <title>${escapeHtml(itemTitle(item))}</title>
+    <id>urn:uuid:${escapeHtml(item.id as string)}</id>
+    <link href="${escapeHtml(link)}" />
+    <published>${date}</published>
+    <updated>${date}</updated>
+    <content type="html">${escapeHtml(html)}</content>
+  </entry>`;
+    });
+
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeHtml(`#${tag.name as string}`)}</title>
+  <id>${escapeHtml(pageUrl)}</id>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(`${pageUrl}/feed.atom`)}" />
+  <link rel="alternate" type="text/html" href="${escapeHtml(pageUrl)}" />
+  <updated>${new Date(updated).toISOString()}</updated>
+  <author><name>Self</name></author>
+${entries.join('\n')}
+</feed>`;
+
+    return c.body(xml, 200, {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+      'Cache-Control': PAGE_CACHE_CONTROL,
+      'X-Content-Type-Options': 'nosniff',
+    });
+  } catch (error) {
+    console.error('Error rendering collection feed:', error);
+    return c.text('Failed to render feed', 500);
+  }
+});
@@ -0,0 +1,93 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+import { createInboxToken, getEmailDomain, ingestEmail, toEmailInbox, MAX_EMAIL_SIZE } from '../utils/emailInbox';
+import { IngestedItem } from '../utils/ingest';
+import { fireItemEvent } from '../utils/webhooks';
+
+// Secret inbox address for email capture (see utils/emailInbox.ts)
+
+export const inboxRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Current address (null when none was created or email capture isn't configured)
+inboxRoutes.get('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    if (!getEmailDomain(c.env)) {
+      return c.json({ enabled: false, inbox: null });
+    }
+
+    const row = await c.env.DB.prepare('SELECT * FROM email_inboxes WHERE user_id = ?').bind(userId).first();
+    return c.json({ enabled: true, inbox: row ? toEmailInbox(c.env, row) : null });
+  } catch (error) {
+    console.error('Error fetching inbox:', error);
+    return c.json({ error: 'Failed to fetch inbox' }, 500);
+  }
+});
+
+// Create the address, or replace it with a new one (the old address stops working)
+inboxRoutes.post('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    if (!getEmailDomain(c.env)) {
+      return c.json({ error: '이메일 수신이 설정되지 않았습니다.' }, 404);
+    }
+
+    const row = { token: createInboxToken(), created_at: Date.now(), last_received_at: null };
+    await c.env.DB.prepare(`
+      INSERT INTO email_inboxes (user_id, token, created_at) VALUES (?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET token = excluded.token, created_at = excluded.created_at, last_received_at = NULL
+    `).bind(userId, row.token, row.created_at).run();
+
+    return c.json(toEmailInbox(c.env, row), 201);
+  } catch (error) {
+    console.error('Error creating inbox:', error);
+    return c.json({ error: 'Failed to create inbox' }, 500);
+  }
+});
+
+// Remove the address
+inboxRoutes.delete('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    await c.env.DB.prepare('DELETE FROM email_inboxes WHERE user_id = ?').bind(userId).run();
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting inbox:', error);
+    return c.json({ error: 'Failed to delete inbox' }, 500);
+  }
+});
+
+// Import a saved message (.eml body, tags as in the +suffixes: ?tags=receipts,work)
+inboxRoutes.post('/import', async (c) => {
+  const userId = getUser(c).sub;
+  const items: IngestedItem[] = [];
+  try {
+
+    const raw = await c.req.arrayBuffer();
+    if (raw.byteLength === 0) {
+      return c.json({ error: 'No message provided' }, 400);
+    }
+    if (raw.byteLength > MAX_EMAIL_SIZE) {
+      return c.json({ error: 'Message too large' }, 413);
+    }
+
+    const tagNames = (c.req.query('tags') || '').split(',').map(name => name.trim()).filter(Boolean);
+    await ingestEmail(c.env, userId, raw, tagNames, items);
+
+    return c.json({ success: true, itemIds: items.map(item => item.id) }, 201);
+  } catch (error) {
+    console.error('Error importing email:', error);
+    return c.json({ error: 'Failed to import email' }, 500);
+  } finally {
+    if (items.length > 0) {
+      c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', items.map(item => item.id)));
+    }
+  }
+});
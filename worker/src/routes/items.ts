@@ -1,7 +1,16 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import type { Env, Variables } from '../index';
-import { parseOgMetadata } from './og';
 import { getUser } from '../middleware/auth';
+import { buildFtsQuery, removeFromIndex, safeReindexItem, SNIPPET_MATCH_START, SNIPPET_MATCH_END } from '../utils/searchIndex';
+import { moveExpiredItemsToTrash } from '../utils/maintenance';
+import { isOwnedFileKey, signFileUrl } from '../utils/fileAccess';
+import { albumItemType, getItemFileKeys, getItemFiles, itemFileStatements, withItemFiles, ItemFileInput, MAX_ALBUM_FILES } from '../utils/itemFiles';
+import { ENCRYPTION_VERSION, ingestItem } from '../utils/ingest';
+import { hashPassword } from '../utils/password';
+import { createShareToken, toShareLink, MAX_SHARE_LINKS_PER_ITEM } from '../utils/shareLinks';
+import { getUnlockRetryAfter, recordUnlockAttempt, getFailedAttemptsSinceLastUnlock, UnlockAction } from '../utils/unlockThrottle';
+import { emitItemEvent, fireItemEvent, getWebhookItems } from '../utils/webhooks';
 
 export const itemsRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -34,6 +43,67 @@ itemsRoutes.get('/stats', async (c) => {
   }
 });
 
+// Get exact sidebar counts (per type, per tag, favorites, ...) - MUST be before /:id route
+itemsRoutes.get('/facets', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const [totalsResult, typesResult, tagsResult] = await c.env.DB.batch([
+      c.env.DB.prepare(`
+        SELECT
+          COALESCE(SUM(CASE WHEN deleted_at IS NULL THEN 1 ELSE 0 END), 0) as all_count,
+          COALESCE(SUM(CASE WHEN deleted_at IS NULL AND is_favorite = 1 THEN 1 ELSE 0 END), 0) as favorites,
+          COALESCE(SUM(CASE WHEN deleted_at IS NULL AND is_encrypted = 1 THEN 1 ELSE 0 END), 0) as encrypted,
+          COALESCE(SUM(CASE WHEN deleted_at IS NULL AND reminder_at IS NOT NULL THEN 1 ELSE 0 END), 0) as scheduled,
+          COALESCE(SUM(CASE WHEN deleted_at IS NULL AND expires_at IS NOT NULL THEN 1 ELSE 0 END), 0) as expiring,
+          COALESCE(SUM(CASE WHEN deleted_at IS NOT NULL THEN 1 ELSE 0 END), 0) as trash
+        FROM items
+        WHERE user_id = ?
+      `).bind(userId),
+      c.env.DB.prepare(`
+        SELECT type, COUNT(*) as count
+        FROM items
+        WHERE user_id = ? AND deleted_at IS NULL
+        GROUP BY type
+      `).bind(userId),
+      c.env.DB.prepare(`
+        SELECT it.tag_id, COUNT(*) as count
+        FROM item_tags it
+        JOIN items i ON i.id = it.item_id
+        WHERE i.user_id = ? AND i.deleted_at IS NULL
+        GROUP BY it.tag_id
+      `).bind(userId),
+    ]);
+
+    const totals = (totalsResult.results[0] || {}) as Record<string, number>;
+
+    const types: Record<string, number> = {};
+    for (const row of typesResult.results as any[]) {
+      types[row.type] = row.count;
+    }
+
+    const tags: Record<string, number> = {};
+    for (const row of tagsResult.results as any[]) {
+      tags[row.tag_id] = row.count;
+    }
+
+    return c.json({
+      all: totals.all_count || 0,
+      favorites: totals.favorites || 0,
+      encrypted: totals.encrypted || 0,
+      scheduled: totals.scheduled || 0,
+      expiring: totals.expiring || 0,
+      trash: totals.trash || 0,
+      types,
+      tags,
+    });
+  } catch (error) {
+    console.error('Error fetching facets:', error);
+    return c.json({ error: 'Failed to fetch facets' }, 500);
+  }
+});
+
 // Delete all data (items, tags, files) for current user - MUST be before /:id route
 itemsRoutes.delete('/delete-all', async (c) => {
   try {
@@ -41,7 +111,11 @@ itemsRoutes.delete('/delete-all', async (c) => {
     const userId = user.sub;
 
     // Get all file keys to delete from R2 for this user
-    const { results: items } = await c.env.DB.prepare('SELECT file_key FROM items WHERE file_key IS NOT NULL AND user_id = ?').bind(userId).all();
+    const { results: items } = await c.env.DB.prepare(`
+      SELECT file_key FROM items WHERE file_key IS NOT NULL AND user_id = ?
+      UNION
+      SELECT f.file_key FROM item_files f JOIN items i ON i.id = f.item_id WHERE i.user_id = ?
+    `).bind(userId, userId).all();
 
     // Delete all files from R2
     for (const item of items || []) {
@@ -55,6 +129,9 @@ itemsRoutes.delete('/delete-all', async (c) => {
     }
 
     // Delete all item_tags, items, and tags for this user
+    await c.env.DB.prepare('DELETE FROM items_fts WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM item_revisions WHERE user_id = ?').bind(userId).run();
+    await c.env.DB.prepare('DELETE FROM unlock_attempts WHERE user_id = ?').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM item_tags WHERE item_id IN (SELECT id FROM items WHERE user_id = ?)').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM items WHERE user_id = ?').bind(userId).run();
     await c.env.DB.prepare('DELETE FROM tags WHERE user_id = ?').bind(userId).run();
@@ -110,7 +187,7 @@ itemsRoutes.get('/trash', async (c) => {
       };
     });
 
-    return c.json(items);
+    return c.json(await withItemFiles(c.env, items));
   } catch (error) {
     console.error('Error fetching trash items:', error);
     return c.json({ error: 'Failed to fetch trash items' }, 500);
@@ -128,15 +205,24 @@ itemsRoutes.delete('/trash/empty', async (c) => {
       'SELECT id, file_key FROM items WHERE user_id = ? AND deleted_at IS NOT NULL'
     ).bind(userId).all();
 
-    // Delete files from R2
+    // Payloads for item.deleted, taken while the rows still exist
+    const deletedItems = await getWebhookItems(c.env.DB, userId, results.map(item => item.id as string));
+
+    // Delete files (and album attachments) from R2
     for (const item of results) {
       if (item.file_key) {
         await c.env.R2_BUCKET.delete(item.file_key as string);
       }
     }
+    const albumFileKeys = await getItemFileKeys(c.env.DB, results.map(item => item.id as string));
+    if (albumFileKeys.length > 0) {
+      await c.env.R2_BUCKET.delete(albumFileKeys);
+    }
 
     // Delete all trash items
+    await removeFromIndex(c.env.DB, results.map(item => item.id as string));
     await c.env.DB.prepare('DELETE FROM items WHERE user_id = ? AND deleted_at IS NOT NULL').bind(userId).run();
+    c.executionCtx.waitUntil(emitItemEvent(c.env, userId, 'item.deleted', deletedItems));
 
     return c.json({ success: true, deleted: results.length });
   } catch (error) {
@@ -187,7 +273,7 @@ itemsRoutes.get('/scheduled', async (c) => {
       };
     });
 
-    return c.json(items);
+    return c.json(await withItemFiles(c.env, items));
   } catch (error) {
     console.error('Error fetching scheduled items:', error);
     return c.json({ error: 'Failed to fetch scheduled items' }, 500);
@@ -237,7 +323,7 @@ itemsRoutes.get('/expiring', async (c) => {
       };
     });
 
-    return c.json(items);
+    return c.json(await withItemFiles(c.env, items));
   } catch (error) {
     console.error('Error fetching expiring items:', error);
     return c.json({ error: 'Failed to fetch expiring items' }, 500);
@@ -249,29 +335,18 @@ itemsRoutes.post('/expire-check', async (c) => {
   try {
     const user = getUser(c);
     const userId = user.sub;
-    const now = Date.now();
-
-    // Get expired items
-    const { results: expiredItems } = await c.env.DB.prepare(`
-      SELECT id FROM items 
-      WHERE user_id = ? AND deleted_at IS NULL AND expires_at IS NOT NULL AND expires_at < ?
-    `).bind(userId, now).all();
+    // Move expired items to trash (the scheduled worker does the same for all users)
+    const expiredIds = (await moveExpiredItemsToTrash(c.env.DB, Date.now(), userId)).get(userId) || [];
+    const expired = expiredIds.length;
 
-    if (expiredItems.length === 0) {
-      return c.json({ success: true, expired: 0 });
+    if (expired > 0) {
+      c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.trashed', expiredIds));
+      console.log('[Expire Check] Expired items moved to trash:', expired, 'for user:', userId);
     }
 
-    // Move expired items to trash
-    const result = await c.env.DB.prepare(`
-      UPDATE items SET deleted_at = ? 
-      WHERE user_id = ? AND deleted_at IS NULL AND expires_at IS NOT NULL AND expires_at < ?
-    `).bind(now, userId, now).run();
-
-    console.log('[Expire Check] Expired items moved to trash:', result.meta.changes, 'for user:', userId);
-
     return c.json({
       success: true,
-      expired: result.meta.changes || 0
+      expired
     });
   } catch (error) {
     console.error('Error checking expired items:', error);
@@ -279,13 +354,465 @@ itemsRoutes.post('/expire-check', async (c) => {
   }
 });
 
-// Get all items with their tags
+// Full-text search over items (ranked, with highlighted snippets) - MUST be before /:id route
+itemsRoutes.get('/search', async (c) => {
+  const q = c.req.query('q') || '';
+  const type = c.req.query('type');
+  const tagId = c.req.query('tagId');
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50') || 50, 1), 100);
+
+  const matchQuery = buildFtsQuery(q);
+  if (!matchQuery) {
+    return c.json([]);
+  }
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const conditions: string[] = [
+      'items_fts MATCH ?',
+      'items_fts.user_id = ?',
+      'i.user_id = ?',
+      'i.deleted_at IS NULL',
+      'i.is_encrypted = 0',
+    ];
+    const params: any[] = [SNIPPET_MATCH_START, SNIPPET_MATCH_END, matchQuery, userId, userId];
+
+    if (type && type !== 'all') {
+      conditions.push('i.type = ?');
+      params.push(type);
+    }
+
+    if (tagId) {
+      conditions.push('EXISTS (SELECT 1 FROM item_tags WHERE item_id = i.id AND tag_id = ?)');
+      params.push(tagId);
+    }
+
+    params.push(limit);
+
+    // bm25 weights follow column order: item_id, user_id, title, content, og_title, og_description, file_name, html_text
+    const { results } = await c.env.DB.prepare(`
+      SELECT 
+        i.*,
+        (SELECT GROUP_CONCAT(tag_id) FROM item_tags WHERE item_id = i.id) as tag_ids,
+        snippet(items_fts, -1, ?, ?, '…', 16) as snippet,
+        bm25(items_fts, 0, 0, 10.0, 5.0, 3.0, 2.0, 3.0, 1.0) as rank
+      FROM items_fts
+      JOIN items i ON i.id = items_fts.item_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY rank
+      LIMIT ?
+    `).bind(...params).all();
+
+    const items = results.map((row: any) => ({
+      id: row.id,
+      type: row.type,
+      content: row.content,
+      htmlContent: row.html_content,
+      fileKey: row.file_key,
+      fileName: row.file_name,
+      fileSize: row.file_size,
+      mimeType: row.mime_type,
+      title: row.title,
+      ogImage: row.og_image,
+      ogTitle: row.og_title,
+      ogDescription: row.og_description,
+      tags: row.tag_ids ? row.tag_ids.split(',') : [],
+      isFavorite: row.is_favorite === 1,
+      isEncrypted: false,
+      isCode: row.is_code === 1,
+      createdAt: row.created_at,
+      reminderAt: row.reminder_at,
+      expiresAt: row.expires_at,
+      snippet: row.snippet,
+      rank: row.rank,
+    }));
+
+    return c.json(await withItemFiles(c.env, items));
+  } catch (error) {
+    console.error('Error searching items:', error);
+    return c.json({ error: 'Failed to search items' }, 500);
+  }
+});
+
+type BulkOperation =
+  | 'addTags'
+  | 'removeTags'
+  | 'setFavorite'
+  | 'trash'
+  | 'restore'
+  | 'deletePermanently'
+  | 'setReminder'
+  | 'setExpiry';
+
+const BULK_OPERATIONS: BulkOperation[] = [
+  'addTags', 'removeTags', 'setFavorite', 'trash', 'restore', 'deletePermanently', 'setReminder', 'setExpiry',
+];
+const BULK_MAX_ITEMS = 500;
+// D1 limits bound parameters per statement (100), so ids are split into chunks
+const BULK_CHUNK_SIZE = 50;
+// removeTags binds the tag ids, the user id and a chunk of item ids together: 40 + 1 + 50 <= 100
+const BULK_MAX_TAGS = 40;
+
+function chunkIds(ids: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function placeholders(count: number): string {
+  return Array(count).fill('?').join(', ');
+}
+
+// Apply one operation to many items in a single D1 batch
+itemsRoutes.post('/bulk', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const { operation, ids, tagIds, isFavorite, reminderAt, expiresAt } = body as {
+      operation: BulkOperation;
+      ids: unknown;
+      tagIds?: unknown;
+      isFavorite?: boolean;
+      reminderAt?: number | null;
+      expiresAt?: number | null;
+    };
+
+    if (!BULK_OPERATIONS.includes(operation)) {
+      return c.json({ error: 'Unknown bulk operation' }, 400);
+    }
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return c.json({ error: 'ids must be a non-empty array' }, 400);
+    }
+
+    const uniqueIds = [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))];
+    if (uniqueIds.length > BULK_MAX_ITEMS) {
+      return c.json({ error: `A maximum of ${BULK_MAX_ITEMS} items can be changed at once` }, 400);
+    }
+
+    const db = c.env.DB;
+    const chunks = chunkIds(uniqueIds, BULK_CHUNK_SIZE);
+    const statements: D1PreparedStatement[] = [];
+    let fileKeys: string[] = [];
+
+    // Webhook payloads from before the change tell which items actually move in or out of the trash
+    const snapshot = operation === 'trash' || operation === 'restore' || operation === 'deletePermanently'
+      ? await getWebhookItems(db, userId, uniqueIds)
+      : [];
+
+    switch (operation) {
+      case 'addTags':
+      case 'removeTags': {
+        const requestedTagIds = Array.isArray(tagIds)
+          ? [...new Set(tagIds.filter((id): id is string => typeof id === 'string'))]
+          : [];
+        if (requestedTagIds.length === 0 || requestedTagIds.length > BULK_MAX_TAGS) {
+          return c.json({ error: `tagIds must contain 1 to ${BULK_MAX_TAGS} tag ids` }, 400);
+        }
+
+        // Only tags owned by the user can be attached/detached
+        const { results: ownedTags } = await db.prepare(
+          `SELECT id FROM tags WHERE user_id = ? AND id IN (${placeholders(requestedTagIds.length)})`
+        ).bind(userId, ...requestedTagIds).all();
+        const ownedTagIds = ownedTags.map(tag => tag.id as string);
+        if (ownedTagIds.length === 0) {
+          return c.json({ error: 'Tags not found' }, 404);
+        }
+
+        for (const chunk of chunks) {
+          if (operation === 'addTags') {
+            for (const tagId of ownedTagIds) {
+              statements.push(db.prepare(`
+                INSERT OR IGNORE INTO item_tags (item_id, tag_id)
+                SELECT id, ? FROM items WHERE user_id = ? AND id IN (${placeholders(chunk.length)})
+              `).bind(tagId, userId, ...chunk));
+            }
+          } else {
+            statements.push(db.prepare(`
+              DELETE FROM item_tags
+              WHERE tag_id IN (${placeholders(ownedTagIds.length)})
+                AND item_id IN (SELECT id FROM items WHERE user_id = ? AND id IN (${placeholders(chunk.length)}))
+            `).bind(...ownedTagIds, userId, ...chunk));
+          }
+        }
+        break;
+      }
+
+      case 'setFavorite': {
+        if (typeof isFavorite !== 'boolean') {
+          return c.json({ error: 'isFavorite is required' }, 400);
+        }
+        for (const chunk of chunks) {
+          statements.push(db.prepare(
+            `UPDATE items SET is_favorite = ? WHERE user_id = ? AND id IN (${placeholders(chunk.length)})`
+          ).bind(isFavorite ? 1 : 0, userId, ...chunk));
+        }
+        break;
+      }
+
+      case 'trash': {
+        const deletedAt = Date.now();
+        for (const chunk of chunks) {
+          statements.push(db.prepare(
+            `UPDATE items SET deleted_at = ? WHERE user_id = ? AND deleted_at IS NULL AND id IN (${placeholders(chunk.length)})`
+          ).bind(deletedAt, userId, ...chunk));
+        }
+        break;
+      }
+
+      case 'restore': {
+        for (const chunk of chunks) {
+          statements.push(db.prepare(
+            `UPDATE items SET deleted_at = NULL WHERE user_id = ? AND deleted_at IS NOT NULL AND id IN (${placeholders(chunk.length)})`
+          ).bind(userId, ...chunk));
+        }
+        break;
+      }
+
+      case 'setReminder':
+      case 'setExpiry': {
+        const value = operation === 'setReminder' ? reminderAt : expiresAt;
+        if (value !== null && typeof value !== 'number') {
+          return c.json({ error: `${operation === 'setReminder' ? 'reminderAt' : 'expiresAt'} must be a timestamp or null` }, 400);
+        }
+        const column = operation === 'setReminder' ? 'reminder_at' : 'expires_at';
+        for (const chunk of chunks) {
+          statements.push(db.prepare(
+            `UPDATE items SET ${column} = ? WHERE user_id = ? AND deleted_at IS NULL AND id IN (${placeholders(chunk.length)})`
+          ).bind(value, userId, ...chunk));
+        }
+        break;
+      }
+
+      case 'deletePermanently': {
+        for (const chunk of chunks) {
+          const { results } = await db.prepare(
+            `SELECT id, file_key FROM items WHERE user_id = ? AND id IN (${placeholders(chunk.length)})`
+          ).bind(userId, ...chunk).all();
+          fileKeys = fileKeys.concat(results.map(row => row.file_key as string | null).filter((key): key is string => !!key));
+          // Album attachments: their item_files rows cascade, their R2 objects don't
+          fileKeys = fileKeys.concat(await getItemFileKeys(db, results.map(row => row.id as string)));
+
+          // Remove index rows only for items the user owns
+          statements.push(db.prepare(`
+            DELETE FROM items_fts
+            WHERE item_id IN (SELECT id FROM items WHERE user_id = ? AND id IN (${placeholders(chunk.length)}))
+          `).bind(userId, ...chunk));
+          // item_tags will cascade
+          statements.push(db.prepare(
+            `DELETE FROM items WHERE user_id = ? AND id IN (${placeholders(chunk.length)})`
+          ).bind(userId, ...chunk));
+        }
+        break;
+      }
+    }
+
+    const results = await db.batch(statements);
+    const affected = operation === 'deletePermanently'
+      // Every other statement is the items delete
+      ? results.filter((_, index) => index % 2 === 1).reduce((sum, result) => sum + (result.meta.changes || 0), 0)
+      : results.reduce((sum, result) => sum + (result.meta.changes || 0), 0);
+
+    // Delete R2 objects after the rows are gone (R2 takes up to 1000 keys per call)
+    for (let i = 0; i < fileKeys.length; i += 1000) {
+      const keys = fileKeys.slice(i, i + 1000);
+      try {
+        await c.env.R2_BUCKET.delete(keys);
+      } catch (err) {
+        console.error('[Bulk] Failed to delete files from R2:', keys, err);
+      }
+    }
+
+    console.log('[Bulk]', operation, 'items:', uniqueIds.length, 'affected:', affected, 'user:', userId);
+
+    if (operation === 'trash') {
+      const trashed = snapshot.filter(item => item.deletedAt === null);
+      const deletedAt = Date.now();
+      c.executionCtx.waitUntil(emitItemEvent(c.env, userId, 'item.trashed', trashed.map(item => ({ ...item, deletedAt }))));
+    } else if (operation === 'restore') {
+      const restored = snapshot.filter(item => item.deletedAt !== null);
+      c.executionCtx.waitUntil(emitItemEvent(c.env, userId, 'item.restored', restored.map(item => ({ ...item, deletedAt: null }))));
+    } else if (operation === 'deletePermanently') {
+      c.executionCtx.waitUntil(emitItemEvent(c.env, userId, 'item.deleted', snapshot));
+    } else if (affected > 0) {
+      c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.updated', uniqueIds));
+    }
+
+    return c.json({ success: true, operation, affected });
+  } catch (error) {
+    console.error('Error applying bulk operation:', error);
+    return c.json({ error: 'Failed to apply bulk operation' }, 500);
+  }
+});
+
+// Fresh signed URLs for items the app already has loaded (signed URLs expire after 1-2 hours)
+itemsRoutes.post('/file-urls', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const { ids } = await c.req.json() as { ids: unknown };
+    if (!Array.isArray(ids)) {
+      return c.json({ error: 'ids must be an array' }, 400);
+    }
+    const uniqueIds = [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))];
+    if (uniqueIds.length > BULK_MAX_ITEMS) {
+      return c.json({ error: `A maximum of ${BULK_MAX_ITEMS} items can be refreshed at once` }, 400);
+    }
+
+    const rows: { id: string; fileKey?: string }[] = [];
+    for (const chunk of chunkIds(uniqueIds, BULK_CHUNK_SIZE)) {
+      const { results } = await c.env.DB.prepare(`
+        SELECT id, file_key FROM items
+        WHERE user_id = ? AND is_encrypted = 0 AND file_key IS NOT NULL AND id IN (${placeholders(chunk.length)})
+      `).bind(userId, ...chunk).all();
+      rows.push(...results.map(row => ({ id: row.id as string, fileKey: row.file_key as string })));
+    }
+
+    const items = await withItemFiles(c.env, rows);
+    return c.json({ items: items.map(item => ({ id: item.id, fileUrl: item.fileUrl, files: item.files })) });
+  } catch (error) {
+    console.error('Error signing file URLs:', error);
+    return c.json({ error: 'Failed to sign file URLs' }, 500);
+  }
+});
+
+// Group file items into one album item (in the given order) - MUST be before /:id route
+// The first item becomes the album and keeps its id; the others are merged into it and removed.
+itemsRoutes.post('/album', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : null;
+    const ids: string[] = Array.isArray(body.itemIds)
+      ? [...new Set<string>(body.itemIds.filter((id: unknown): id is string => typeof id === 'string'))]
+      : [];
+
+    if (ids.length < 2) {
+      return c.json({ error: '앨범으로 묶을 아이템을 2개 이상 선택하세요.' }, 400);
+    }
+    if (ids.length > MAX_ALBUM_FILES) {
+      return c.json({ error: `앨범에는 최대 ${MAX_ALBUM_FILES}개의 파일을 담을 수 있습니다.` }, 400);
+    }
+
+    const { results: rows } = await c.env.DB.prepare(`
+      SELECT id, file_key, file_name, file_size, mime_type, is_encrypted FROM items
+      WHERE user_id = ? AND deleted_at IS NULL AND id IN (${placeholders(ids.length)})
+    `).bind(userId, ...ids).all();
+
+    if (rows.length !== ids.length) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (rows.some(row => row.is_encrypted === 1 || !row.file_key)) {
+      return c.json({ error: '암호화되지 않은 파일 아이템만 앨범으로 묶을 수 있습니다.' }, 400);
+    }
+
+    // Albums among the items contribute all of their attachments
+    const { results: existingFiles } = await c.env.DB.prepare(`
+      SELECT item_id, file_key, file_name, file_size, mime_type FROM item_files
+      WHERE item_id IN (${placeholders(ids.length)})
+      ORDER BY position
+    `).bind(...ids).all();
+
+    const rowsById = new Map(rows.map(row => [row.id as string, row]));
+    const files: ItemFileInput[] = ids.flatMap(id => {
+      const attachments = existingFiles.filter(file => file.item_id === id);
+      return (attachments.length > 0 ? attachments : [rowsById.get(id)!]).map(file => ({
+        fileKey: file.file_key as string,
+        fileName: file.file_name as string | null,
+        fileSize: file.file_size as number | null,
+        mimeType: file.mime_type as string | null,
+      }));
+    });
+
+    if (files.length > MAX_ALBUM_FILES) {
+      return c.json({ error: `앨범에는 최대 ${MAX_ALBUM_FILES}개의 파일을 담을 수 있습니다.` }, 400);
+    }
+
+    const [albumId, ...mergedIds] = ids;
+    const cover = files[0];
+    const now = Date.now();
+    const mergedItems = await getWebhookItems(c.env.DB, userId, mergedIds);
+
+    await c.env.DB.batch([
+      c.env.DB.prepare(`DELETE FROM item_files WHERE item_id IN (${placeholders(ids.length)})`).bind(...ids),
+      ...itemFileStatements(c.env.DB, albumId, files, now),
+      c.env.DB.prepare(`
+        UPDATE items SET type = ?, file_key = ?, file_name = ?, file_size = ?, mime_type = ?, title = COALESCE(?, title)
+        WHERE id = ? AND user_id = ?
+      `).bind(albumItemType(files), cover.fileKey, cover.fileName, cover.fileSize, cover.mimeType, title, albumId, userId),
+      // The album keeps every tag of the merged items
+      c.env.DB.prepare(`
+        INSERT OR IGNORE INTO item_tags (item_id, tag_id)
+        SELECT ?, tag_id FROM item_tags WHERE item_id IN (${placeholders(mergedIds.length)})
+      `).bind(albumId, ...mergedIds),
+      c.env.DB.prepare(`DELETE FROM items WHERE user_id = ? AND id IN (${placeholders(mergedIds.length)})`).bind(userId, ...mergedIds),
+    ]);
+
+    await removeFromIndex(c.env.DB, mergedIds);
+    await safeReindexItem(c.env.DB, albumId, '[Album]');
+
+    console.log('[Album] Created album:', albumId, 'files:', files.length, 'merged items:', mergedIds.length);
+
+    c.executionCtx.waitUntil(Promise.all([
+      fireItemEvent(c.env, userId, 'item.updated', [albumId]),
+      emitItemEvent(c.env, userId, 'item.deleted', mergedItems),
+    ]));
+
+    return c.json({ success: true, id: albumId, mergedIds });
+  } catch (error) {
+    console.error('Error creating album:', error);
+    return c.json({ error: 'Failed to create album' }, 500);
+  }
+});
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+interface ItemsCursor {
+  createdAt: number;
+  id: string;
+}
+
+// Opaque cursor for keyset pagination: position after (created_at, id) in DESC order
+function encodeCursor(cursor: ItemsCursor): string {
+  return btoa(`${cursor.createdAt}:${cursor.id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(value: string): ItemsCursor | null {
+  try {
+    const decoded = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+    const createdAt = Number(decoded.slice(0, separator));
+    const id = decoded.slice(separator + 1);
+    if (!Number.isFinite(createdAt) || !id) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// Get items with their tags (cursor-paginated, newest first)
 itemsRoutes.get('/', async (c) => {
   const type = c.req.query('type');
   const tagId = c.req.query('tagId');
   const encrypted = c.req.query('encrypted'); // Filter encrypted items
-  const limit = parseInt(c.req.query('limit') || '100');
-  const offset = parseInt(c.req.query('offset') || '0');
+  const cursorParam = c.req.query('cursor');
+  const requestedLimit = parseInt(c.req.query('limit') || String(DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE;
+  const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return c.json({ error: 'Invalid cursor' }, 400);
+  }
 
   try {
     const user = getUser(c);
@@ -319,15 +846,24 @@ itemsRoutes.get('/', async (c) => {
       conditions.push('i.is_encrypted = 0');
     }
 
+    // Keyset condition: strictly after the cursor position (stable even when new items arrive)
+    if (cursor) {
+      conditions.push('(i.created_at < ? OR (i.created_at = ? AND i.id < ?))');
+      params.push(cursor.createdAt, cursor.createdAt, cursor.id);
+    }
+
     query += ' WHERE ' + conditions.join(' AND ');
 
-    query += ' GROUP BY i.id ORDER BY i.created_at DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
+    // Fetch one extra row to know whether another page exists
+    query += ' GROUP BY i.id ORDER BY i.created_at DESC, i.id DESC LIMIT ?';
+    params.push(limit + 1);
 
     const { results } = await c.env.DB.prepare(query).bind(...params).all();
+    const hasMore = results.length > limit;
+    const pageRows = hasMore ? results.slice(0, limit) : results;
 
     // Transform results
-    const items = results.map((row: any) => {
+    const items = pageRows.map((row: any) => {
       const isEncrypted = row.is_encrypted === 1;
       return {
         id: row.id,
@@ -354,7 +890,12 @@ itemsRoutes.get('/', async (c) => {
       };
     });
 
-    return c.json(items);
+    const lastRow = pageRows[pageRows.length - 1] as any;
+    const nextCursor = hasMore && lastRow
+      ? encodeCursor({ createdAt: lastRow.created_at, id: lastRow.id })
+      : null;
+
+    return c.json({ items: await withItemFiles(c.env, items), nextCursor });
   } catch (error) {
     console.error('Error fetching items:', error);
     return c.json({ error: 'Failed to fetch items' }, 500);
@@ -392,6 +933,8 @@ itemsRoutes.get('/:id', async (c) => {
       htmlContent: isEncrypted ? undefined : item.html_content,
       // Hide fileKey for encrypted items
       fileKey: isEncrypted ? undefined : item.file_key,
+      fileUrl: !isEncrypted && item.file_key ? await signFileUrl(c.env, item.file_key as string) : undefined,
+      files: isEncrypted ? undefined : await getItemFiles(c.env, id),
       fileName: item.file_name,
       fileSize: item.file_size,
       mimeType: item.mime_type,
@@ -420,102 +963,75 @@ itemsRoutes.post('/', async (c) => {
     const userId = user.sub;
 
     const body = await c.req.json();
-    const { type, content, htmlContent, fileKey, fileName, fileSize, mimeType, title, tags, isEncrypted, encryptionHash, isCode } = body;
+    const { content, htmlContent, title, tags, isEncrypted, encryptionHash, encryptedData, encryptionSalt, encryptionIv, isCode, autoTag } = body;
+
+    // Album: several attachments in order; the item's own file columns mirror the first one
+    const albumFiles: ItemFileInput[] | null = Array.isArray(body.files) && body.files.length > 1 ? body.files : null;
+    const { fileKey, fileName, fileSize, mimeType } = body;
 
     // Title is required for encrypted items
     if (isEncrypted && !title) {
       return c.json({ error: '암호화된 아이템은 제목이 필수입니다.' }, 400);
     }
 
-    const id = crypto.randomUUID();
-    const now = Date.now();
+    // Encrypted items must arrive already encrypted by the client
+    if (isEncrypted && (!encryptedData || !encryptionSalt || !encryptionIv || !encryptionHash)) {
+      return c.json({ error: '암호화된 아이템은 클라이언트에서 암호화되어야 합니다.' }, 400);
+    }
 
-    // Parse OG metadata for link items or text items containing URLs
-    let ogImage: string | null = null;
-    let ogTitle: string | null = null;
-    let ogDescription: string | null = null;
-
-    if (content) {
-      let urlToParse: string | null = null;
-
-      if (type === 'link') {
-        // For link type, use the content directly
-        urlToParse = content;
-      } else if (type === 'text') {
-        // For text type, extract the first URL from the content
-        const urlRegex = /(?:https?:\/\/|www\.)[^\s<>"{}|\\^`[\]]+/gi;
-        const match = content.match(urlRegex);
-        if (match && match.length > 0) {
-          urlToParse = match[0].startsWith('www.') ? `https://${match[0]}` : match[0];
-          console.log('[Items] Found URL in text content:', urlToParse);
-        }
-      }
+    if (albumFiles && isEncrypted) {
+      return c.json({ error: '앨범은 암호화할 수 없습니다.' }, 400);
+    }
 
-      if (urlToParse) {
-        try {
-          const ogData = await parseOgMetadata(urlToParse);
-          ogImage = ogData.ogImage || null;
-          ogTitle = ogData.ogTitle || null;
-          ogDescription = ogData.ogDescription || null;
-          console.log('[Items] OG metadata parsed:', { ogImage: !!ogImage, ogTitle, ogDescription: !!ogDescription });
-        } catch (error) {
-          console.error('[Items] Failed to parse OG metadata:', error);
-          // Continue without OG data
-        }
+    if (albumFiles && albumFiles.length > MAX_ALBUM_FILES) {
+      return c.json({ error: `앨범에는 최대 ${MAX_ALBUM_FILES}개의 파일을 담을 수 있습니다.` }, 400);
+    }
+
+    // Only the user's own uploads can be attached
+    const fileKeys: unknown[] = albumFiles ? albumFiles.map(file => file?.fileKey) : (fileKey ? [fileKey] : []);
+    for (const key of fileKeys) {
+      if (typeof key !== 'string' || !await isOwnedFileKey(c.env.DB, key, userId)) {
+        return c.json({ error: 'File not found' }, 404);
       }
     }
 
-    await c.env.DB.prepare(`
-      INSERT INTO items (id, type, content, html_content, file_key, file_name, file_size, mime_type, title, og_image, og_title, og_description, is_encrypted, encryption_hash, is_code, user_id, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      id,
-      type,
-      content || '',
-      htmlContent || null,
-      fileKey || null,
-      fileName || null,
-      fileSize || null,
-      mimeType || null,
-      title || null,
-      ogImage,
-      ogTitle,
-      ogDescription,
-      isEncrypted ? 1 : 0,
-      encryptionHash || null,
-      isCode ? 1 : 0,
-      userId,
-      now
-    ).run();
+    const item = await ingestItem(c.env, userId, {
+      type: body.type,
+      content,
+      htmlContent,
+      title,
+      file: fileKey ? { fileKey, fileName, fileSize, mimeType } : null,
+      files: albumFiles,
+      tagIds: Array.isArray(tags) ? tags : [],
+      autoTag: autoTag !== false,
+      isCode: !!isCode,
+      encrypted: isEncrypted
+        ? { hash: encryptionHash, salt: encryptionSalt, iv: encryptionIv, data: encryptedData }
+        : null,
+    }, '[Items]');
 
-    // Insert tags if provided
-    if (tags && tags.length > 0) {
-      const tagInserts = tags.map((tagId: string) =>
-        c.env.DB.prepare('INSERT INTO item_tags (item_id, tag_id) VALUES (?, ?)')
-          .bind(id, tagId)
-          .run()
-      );
-      await Promise.all(tagInserts);
-    }
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', [item.id]));
 
     return c.json({
-      id,
-      type,
-      content: isEncrypted ? '' : (content || ''),
-      htmlContent: isEncrypted ? undefined : (htmlContent || null),
-      fileKey: isEncrypted ? undefined : fileKey,
-      fileName,
-      fileSize,
-      mimeType,
-      title,
-      ogImage: isEncrypted ? undefined : ogImage,
-      ogTitle,
-      ogDescription: isEncrypted ? undefined : ogDescription,
-      tags: tags || [],
+      id: item.id,
+      type: item.type,
+      content: item.content,
+      htmlContent: isEncrypted ? undefined : item.htmlContent,
+      fileKey: isEncrypted ? undefined : (item.fileKey || undefined),
+      fileUrl: !isEncrypted && item.fileKey ? await signFileUrl(c.env, item.fileKey) : undefined,
+      files: item.isAlbum ? await getItemFiles(c.env, item.id) : undefined,
+      fileName: isEncrypted ? undefined : item.fileName,
+      fileSize: item.fileSize,
+      mimeType: isEncrypted ? undefined : item.mimeType,
+      title: item.title,
+      ogImage: isEncrypted ? undefined : item.ogImage,
+      ogTitle: item.ogTitle,
+      ogDescription: isEncrypted ? undefined : item.ogDescription,
+      tags: item.tags,
       isFavorite: false,
-      isEncrypted: !!isEncrypted,
-      isCode: !!isCode,
-      createdAt: now
+      isEncrypted: item.isEncrypted,
+      isCode: item.isCode,
+      createdAt: item.createdAt
     }, 201);
   } catch (error) {
     console.error('Error creating item:', error);
@@ -523,6 +1039,112 @@ itemsRoutes.post('/', async (c) => {
   }
 });
 
+const MAX_QUICK_URL_LENGTH = 2000;
+const MAX_QUICK_SELECTION_LENGTH = 20000;
+
+// Quick capture from a page (bookmarklet and capture page): the link, or the selected text
+// with the link, plus the page it came from when that is another page
+itemsRoutes.post('/quick', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json() as {
+      url?: string;
+      title?: string;
+      selection?: string;
+      sourceUrl?: string;
+      tags?: unknown[];
+      reminderAt?: number | null;
+    };
+    const url = body.url?.trim() || '';
+    const sourceUrl = body.sourceUrl?.trim() || '';
+    const selection = body.selection?.trim() || '';
+    const title = body.title?.trim().slice(0, 500) || null;
+    const reminderAt = body.reminderAt ?? null;
+
+    for (const value of [url, sourceUrl]) {
+      if (value && (value.length > MAX_QUICK_URL_LENGTH || !/^https?:\/\//i.test(value))) {
+        return c.json({ error: 'URL은 http(s) 주소여야 합니다.' }, 400);
+      }
+    }
+    if (!url && !sourceUrl && !selection) {
+      return c.json({ error: '저장할 URL이나 선택한 텍스트가 없습니다.' }, 400);
+    }
+    if (selection.length > MAX_QUICK_SELECTION_LENGTH) {
+      return c.json({ error: `선택한 텍스트는 ${MAX_QUICK_SELECTION_LENGTH}자까지 저장할 수 있습니다.` }, 400);
+    }
+    if (reminderAt !== null && (typeof reminderAt !== 'number' || !Number.isFinite(reminderAt))) {
+      return c.json({ error: 'reminderAt must be a timestamp or null' }, 400);
+    }
+
+    // Only the user's own tags
+    const requestedTags = Array.isArray(body.tags) ? body.tags.filter((id): id is string => typeof id === 'string') : [];
+    let tagIds: string[] = [];
+    if (requestedTags.length > 0) {
+      const { results } = await c.env.DB.prepare(`
+        SELECT id FROM tags WHERE user_id = ? AND id IN (${requestedTags.map(() => '?').join(',')})
+      `).bind(userId, ...requestedTags).all();
+      tagIds = results.map(row => row.id as string);
+    }
+
+    // A bare link becomes a link item (with OG metadata); a selection is kept as text with its links
+    const link = url || sourceUrl;
+    const content = [selection, link, sourceUrl && sourceUrl !== link ? sourceUrl : '']
+      .filter(Boolean)
+      .join('\n\n');
+
+    const item = await ingestItem(c.env, userId, {
+      type: content === link ? undefined : 'text',
+      content,
+      title,
+      tagIds,
+      reminderAt,
+    }, '[Quick Capture]');
+
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', [item.id]));
+
+    return c.json({
+      id: item.id,
+      type: item.type,
+      content: item.content,
+      title: item.title,
+      ogImage: item.ogImage,
+      ogTitle: item.ogTitle,
+      ogDescription: item.ogDescription,
+      tags: item.tags,
+      isFavorite: false,
+      isEncrypted: false,
+      isCode: false,
+      createdAt: item.createdAt,
+      reminderAt: item.reminderAt,
+    }, 201);
+  } catch (error) {
+    console.error('Error capturing item:', error);
+    return c.json({ error: 'Failed to capture item' }, 500);
+  }
+});
+
+// Maximum number of revisions kept per item (oldest are pruned)
+const MAX_REVISIONS_PER_ITEM = 50;
+
+// Statements that store `row` (the current body of an item) as a new revision
+// and prune revisions beyond MAX_REVISIONS_PER_ITEM
+function revisionStatements(db: D1Database, itemId: string, userId: string, row: Record<string, unknown>): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      INSERT INTO item_revisions (id, item_id, user_id, content, html_content, is_code, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(crypto.randomUUID(), itemId, userId, row.content ?? '', row.html_content ?? null, row.is_code === 1 ? 1 : 0, Date.now()),
+    db.prepare(`
+      DELETE FROM item_revisions
+      WHERE item_id = ? AND id NOT IN (
+        SELECT id FROM item_revisions WHERE item_id = ? ORDER BY created_at DESC LIMIT ?
+      )
+    `).bind(itemId, itemId, MAX_REVISIONS_PER_ITEM),
+  ];
+}
+
 // Update item
 itemsRoutes.put('/:id', async (c) => {
   const id = c.req.param('id');
@@ -532,34 +1154,26 @@ itemsRoutes.put('/:id', async (c) => {
     const userId = user.sub;
 
     const body = await c.req.json();
-    const { content, htmlContent, title, tags, isFavorite, isEncrypted, encryptionHash, isCode, reminderAt, expiresAt } = body;
+    const { content, htmlContent, title, tags, isFavorite, isEncrypted, isCode, reminderAt, expiresAt } = body;
 
-    // 암호화 해제 시 기존 비밀번호 검증
-    if (isEncrypted === false) {
-      const existingItem = await c.env.DB.prepare('SELECT is_encrypted, encryption_hash FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
-      if (!existingItem) {
-        return c.json({ error: 'Item not found' }, 404);
-      }
-      if (existingItem?.is_encrypted === 1) {
-        // 암호화된 아이템을 해제하려면 기존 비밀번호가 필요
-        if (!encryptionHash) {
-          return c.json({ error: '암호화 해제에는 기존 비밀번호가 필요합니다.' }, 400);
-        }
-        if (existingItem.encryption_hash !== encryptionHash) {
-          return c.json({ error: '비밀번호가 올바르지 않습니다.' }, 401);
-        }
-      }
+    // Encryption is changed through POST /:id/encrypt and /:id/decrypt (the client does the crypto)
+    if (isEncrypted !== undefined) {
+      return c.json({ error: '암호화 설정은 /encrypt, /decrypt 로 변경해야 합니다.' }, 400);
     }
 
-    // Title is required for encrypted items
-    if (isEncrypted && !title) {
-      // Check if item already has a title
-      const existingItem = await c.env.DB.prepare('SELECT title FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    // The body of an encrypted item is ciphertext and can only be replaced via /encrypt
+    if (content !== undefined || htmlContent !== undefined || isCode !== undefined || title === '') {
+      const existingItem = await c.env.DB.prepare('SELECT is_encrypted FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
       if (!existingItem) {
         return c.json({ error: 'Item not found' }, 404);
       }
-      if (!existingItem?.title) {
-        return c.json({ error: '암호화된 아이템은 제목이 필수입니다.' }, 400);
+      if (existingItem.is_encrypted === 1) {
+        if (title === '') {
+          return c.json({ error: '암호화된 아이템은 제목이 필수입니다.' }, 400);
+        }
+        if (content !== undefined || htmlContent !== undefined || isCode !== undefined) {
+          return c.json({ error: '암호화된 아이템의 내용은 /encrypt 로 변경해야 합니다.' }, 400);
+        }
       }
     }
 
@@ -583,15 +1197,6 @@ itemsRoutes.put('/:id', async (c) => {
       updates.push('is_favorite = ?');
       params.push(isFavorite ? 1 : 0);
     }
-    if (isEncrypted !== undefined) {
-      updates.push('is_encrypted = ?');
-      params.push(isEncrypted ? 1 : 0);
-    }
-    if (isEncrypted !== undefined) {
-      // 암호화 해제 시 해시도 null로 설정
-      updates.push('encryption_hash = ?');
-      params.push(isEncrypted ? encryptionHash : null);
-    }
     if (isCode !== undefined) {
       updates.push('is_code = ?');
       params.push(isCode ? 1 : 0);
@@ -607,9 +1212,23 @@ itemsRoutes.put('/:id', async (c) => {
 
     if (updates.length > 0) {
       params.push(id, userId);
-      await c.env.DB.prepare(`UPDATE items SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
-        .bind(...params)
-        .run();
+      const statements = [
+        c.env.DB.prepare(`UPDATE items SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`).bind(...params),
+      ];
+
+      // Keep the previous body as a revision when the content actually changes
+      if (content !== undefined || htmlContent !== undefined) {
+        const existingItem = await c.env.DB.prepare('SELECT content, html_content, is_code FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+        const contentChanged = existingItem && (
+          (content !== undefined && (content || '') !== existingItem.content) ||
+          (htmlContent !== undefined && (htmlContent || null) !== existingItem.html_content)
+        );
+        if (existingItem && contentChanged) {
+          statements.unshift(...revisionStatements(c.env.DB, id, userId, existingItem));
+        }
+      }
+
+      await c.env.DB.batch(statements);
     }
 
     // Update tags if provided
@@ -628,6 +1247,13 @@ itemsRoutes.put('/:id', async (c) => {
       }
     }
 
+    // Keep the search index in sync with searchable fields
+    if (content !== undefined || htmlContent !== undefined || title !== undefined) {
+      await safeReindexItem(c.env.DB, id, '[Items]');
+    }
+
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.updated', [id]));
+
     return c.json({ success: true });
   } catch (error) {
     console.error('Error updating item:', error);
@@ -635,6 +1261,210 @@ itemsRoutes.put('/:id', async (c) => {
   }
 });
 
+// Get revision history of an item's body (newest first)
+itemsRoutes.get('/:id/revisions', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const item = await c.env.DB.prepare('SELECT is_encrypted FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (item.is_encrypted === 1) {
+      return c.json({ error: '암호화된 아이템의 버전 기록은 볼 수 없습니다.' }, 403);
+    }
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT id, content, html_content, is_code, created_at
+      FROM item_revisions
+      WHERE item_id = ? AND user_id = ?
+      ORDER BY created_at DESC
+    `).bind(id, userId).all();
+
+    const revisions = results.map((row: any) => ({
+      id: row.id,
+      content: row.content,
+      htmlContent: row.html_content || undefined,
+      isCode: row.is_code === 1,
+      createdAt: row.created_at,
+    }));
+
+    return c.json(revisions);
+  } catch (error) {
+    console.error('Error fetching item revisions:', error);
+    return c.json({ error: 'Failed to fetch item revisions' }, 500);
+  }
+});
+
+// Restore an item's body from a revision (the current body is kept as a new revision)
+itemsRoutes.post('/:id/revisions/:revisionId/restore', async (c) => {
+  const id = c.req.param('id');
+  const revisionId = c.req.param('revisionId');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const item = await c.env.DB.prepare('SELECT content, html_content, is_code, is_encrypted FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (item.is_encrypted === 1) {
+      return c.json({ error: '암호화된 아이템은 복원할 수 없습니다.' }, 403);
+    }
+
+    const revision = await c.env.DB.prepare('SELECT content, html_content, is_code FROM item_revisions WHERE id = ? AND item_id = ? AND user_id = ?').bind(revisionId, id, userId).first();
+
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    await c.env.DB.batch([
+      ...revisionStatements(c.env.DB, id, userId, item),
+      c.env.DB.prepare('UPDATE items SET content = ?, html_content = ?, is_code = ? WHERE id = ? AND user_id = ?')
+        .bind(revision.content, revision.html_content ?? null, revision.is_code, id, userId),
+    ]);
+
+    await safeReindexItem(c.env.DB, id, '[Items]');
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.updated', [id]));
+
+    return c.json({
+      success: true,
+      content: revision.content,
+      htmlContent: revision.html_content || undefined,
+      isCode: revision.is_code === 1,
+    });
+  } catch (error) {
+    console.error('Error restoring item revision:', error);
+    return c.json({ error: 'Failed to restore item revision' }, 500);
+  }
+});
+
+// Public share links of an item (newest first, revoked ones are left out)
+itemsRoutes.get('/:id/share-links', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const userId = getUser(c).sub;
+
+    const item = await c.env.DB.prepare('SELECT id FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT * FROM share_links
+      WHERE item_id = ? AND user_id = ? AND revoked_at IS NULL
+      ORDER BY created_at DESC
+    `).bind(id, userId).all();
+
+    const origin = new URL(c.req.url).origin;
+    return c.json(results.map(row => toShareLink(row, origin)));
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return c.json({ error: 'Failed to fetch share links' }, 500);
+  }
+});
+
+// Create a public share link (optional expiry, password and view limit)
+// Encrypted items are only shared when the request confirms it with allowEncrypted
+itemsRoutes.post('/:id/share-links', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const userId = getUser(c).sub;
+    const body = await c.req.json().catch(() => ({}));
+    const { expiresAt, password, maxViews, allowEncrypted } = body as {
+      expiresAt?: number | null;
+      password?: string | null;
+      maxViews?: number | null;
+      allowEncrypted?: boolean;
+    };
+    const now = Date.now();
+
+    if (expiresAt != null && (typeof expiresAt !== 'number' || expiresAt <= now)) {
+      return c.json({ error: '만료 시간은 미래여야 합니다.' }, 400);
+    }
+    if (maxViews != null && (!Number.isInteger(maxViews) || maxViews < 1)) {
+      return c.json({ error: '조회 수 제한은 1 이상이어야 합니다.' }, 400);
+    }
+    if (password != null && (typeof password !== 'string' || password.length === 0 || password.length > 128)) {
+      return c.json({ error: '비밀번호는 1~128자여야 합니다.' }, 400);
+    }
+
+    const item = await c.env.DB.prepare('SELECT is_encrypted, deleted_at FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (item.deleted_at) {
+      return c.json({ error: '휴지통에 있는 아이템은 공유할 수 없습니다.' }, 400);
+    }
+    if (item.is_encrypted === 1 && allowEncrypted !== true) {
+      return c.json({ error: '암호화된 아이템은 공유를 확인한 경우에만 링크를 만들 수 있습니다.', code: 'encrypted_item' }, 409);
+    }
+
+    const { count } = await c.env.DB.prepare(`
+      SELECT COUNT(*) as count FROM share_links WHERE item_id = ? AND revoked_at IS NULL
+    `).bind(id).first() as { count: number };
+    if (count >= MAX_SHARE_LINKS_PER_ITEM) {
+      return c.json({ error: `아이템 하나에 최대 ${MAX_SHARE_LINKS_PER_ITEM}개의 링크를 만들 수 있습니다.` }, 400);
+    }
+
+    const passwordHash = password ? await hashPassword(password) : null;
+    const linkId = crypto.randomUUID();
+
+    await c.env.DB.prepare(`
+      INSERT INTO share_links (id, item_id, user_id, token, password_hash, password_salt, expires_at, max_views, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      linkId,
+      id,
+      userId,
+      createShareToken(),
+      passwordHash?.hash ?? null,
+      passwordHash?.salt ?? null,
+      expiresAt ?? null,
+      maxViews ?? null,
+      now
+    ).run();
+
+    const row = await c.env.DB.prepare('SELECT * FROM share_links WHERE id = ?').bind(linkId).first();
+    return c.json(toShareLink(row!, new URL(c.req.url).origin), 201);
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return c.json({ error: 'Failed to create share link' }, 500);
+  }
+});
+
+// Revoke a share link (the page stops working immediately)
+itemsRoutes.delete('/:id/share-links/:linkId', async (c) => {
+  const id = c.req.param('id');
+  const linkId = c.req.param('linkId');
+
+  try {
+    const userId = getUser(c).sub;
+
+    const result = await c.env.DB.prepare(`
+      UPDATE share_links SET revoked_at = ?
+      WHERE id = ? AND item_id = ? AND user_id = ? AND revoked_at IS NULL
+    `).bind(Date.now(), linkId, id, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ error: 'Share link not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return c.json({ error: 'Failed to revoke share link' }, 500);
+  }
+});
+
 // Delete item (soft delete - move to trash)
 itemsRoutes.delete('/:id', async (c) => {
   const id = c.req.param('id');
@@ -653,6 +1483,7 @@ itemsRoutes.delete('/:id', async (c) => {
     // Soft delete - set deleted_at timestamp
     const deletedAt = Date.now();
     await c.env.DB.prepare('UPDATE items SET deleted_at = ? WHERE id = ? AND user_id = ?').bind(deletedAt, id, userId).run();
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.trashed', [id]));
 
     return c.json({ success: true, deletedAt });
   } catch (error) {
@@ -678,6 +1509,7 @@ itemsRoutes.post('/:id/restore', async (c) => {
 
     // Restore item
     await c.env.DB.prepare('UPDATE items SET deleted_at = NULL WHERE id = ? AND user_id = ?').bind(id, userId).run();
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.restored', [id]));
 
     return c.json({ success: true });
   } catch (error) {
@@ -701,13 +1533,21 @@ itemsRoutes.delete('/:id/permanent', async (c) => {
       return c.json({ error: 'Item not found' }, 404);
     }
 
+    const deletedItems = await getWebhookItems(c.env.DB, userId, [id]);
+
     if (item?.file_key) {
       // Delete file from R2
       await c.env.R2_BUCKET.delete(item.file_key as string);
     }
+    const albumFileKeys = await getItemFileKeys(c.env.DB, [id]);
+    if (albumFileKeys.length > 0) {
+      await c.env.R2_BUCKET.delete(albumFileKeys);
+    }
 
-    // Permanently delete item (item_tags will cascade)
+    // Permanently delete item (item_tags and item_files will cascade)
+    await removeFromIndex(c.env.DB, [id]);
     await c.env.DB.prepare('DELETE FROM items WHERE id = ? AND user_id = ?').bind(id, userId).run();
+    c.executionCtx.waitUntil(emitItemEvent(c.env, userId, 'item.deleted', deletedItems));
 
     return c.json({ success: true });
   } catch (error) {
@@ -716,6 +1556,44 @@ itemsRoutes.delete('/:id/permanent', async (c) => {
   }
 });
 
+// 429 response while password checks for an item are locked out
+function lockedOutResponse(c: Context<{ Bindings: Env; Variables: Variables }>, retryAfter: number) {
+  const wait = retryAfter >= 60 ? `${Math.ceil(retryAfter / 60)}분` : `${retryAfter}초`;
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: `비밀번호를 너무 많이 틀렸습니다. ${wait} 후에 다시 시도하세요.`, retryAfter }, 429);
+}
+
+// Check a key hash against an item with lockout and audit logging
+// Returns a response to send when the check did not pass, or null when the key is correct.
+async function checkItemKey(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  userId: string,
+  itemId: string,
+  action: UnlockAction,
+  expectedHash: unknown,
+  keyHash: unknown
+): Promise<Response | null> {
+  const retryAfter = await getUnlockRetryAfter(c.env.DB, userId, itemId);
+  if (retryAfter) {
+    return lockedOutResponse(c, retryAfter);
+  }
+
+  const success = !!keyHash && expectedHash === keyHash;
+  const nextRetryAfter = await recordUnlockAttempt(c.env.DB, {
+    userId,
+    itemId,
+    action,
+    success,
+    ipAddress: c.req.header('CF-Connecting-IP'),
+  });
+
+  if (success) return null;
+  if (nextRetryAfter) {
+    c.header('Retry-After', String(nextRetryAfter));
+  }
+  return c.json({ error: '비밀번호가 올바르지 않습니다.', retryAfter: nextRetryAfter || undefined }, 401);
+}
+
 // Verify encryption key for an item
 itemsRoutes.post('/:id/verify', async (c) => {
   const id = c.req.param('id');
@@ -737,8 +1615,12 @@ itemsRoutes.post('/:id/verify', async (c) => {
       return c.json({ error: 'Item not found' }, 404);
     }
 
-    const isValid = item.encryption_hash === keyHash;
-    return c.json({ valid: isValid });
+    const rejected = await checkItemKey(c, userId, id, 'verify', item.encryption_hash, keyHash);
+    if (rejected?.status === 429) {
+      return rejected;
+    }
+
+    return c.json({ valid: !rejected });
   } catch (error) {
     console.error('Error verifying encryption key:', error);
     return c.json({ error: 'Failed to verify encryption key' }, 500);
@@ -754,7 +1636,7 @@ itemsRoutes.post('/:id/unlock', async (c) => {
     const userId = user.sub;
 
     const body = await c.req.json();
-    const { keyHash } = body;
+    const { keyHash, purpose } = body;
 
     if (!keyHash) {
       return c.json({ error: '암호화 키가 필요합니다.' }, 400);
@@ -774,17 +1656,26 @@ itemsRoutes.post('/:id/unlock', async (c) => {
       return c.json({ error: 'Item not found' }, 404);
     }
 
+    // Failed attempts since the last open are reported before this open is recorded
+    // (vault previews in the feed do not count as opening the item)
+    const action: UnlockAction = purpose === 'preview' ? 'preview' : 'unlock';
+    const failedAttempts = action === 'unlock' ? await getFailedAttemptsSinceLastUnlock(c.env.DB, id) : undefined;
+
     // Verify encryption key
-    if (item.encryption_hash !== keyHash) {
-      return c.json({ error: '암호화 키가 올바르지 않습니다.' }, 401);
+    const rejected = await checkItemKey(c, userId, id, action, item.encryption_hash, keyHash);
+    if (rejected) {
+      return rejected;
     }
 
     // Return full item content
+    // (version 2 items return ciphertext in encryptedData, decrypted by the client)
     return c.json({
       id: item.id,
       type: item.type,
       content: item.content,
+      htmlContent: item.html_content || undefined,
       fileKey: item.file_key,
+      fileUrl: item.file_key ? await signFileUrl(c.env, item.file_key as string) : undefined,
       fileName: item.file_name,
       fileSize: item.file_size,
       mimeType: item.mime_type,
@@ -795,10 +1686,233 @@ itemsRoutes.post('/:id/unlock', async (c) => {
       tags: item.tag_ids ? (item.tag_ids as string).split(',') : [],
       isFavorite: item.is_favorite === 1,
       isEncrypted: item.is_encrypted === 1,
+      isCode: item.is_code === 1,
+      reminderAt: item.reminder_at,
+      expiresAt: item.expires_at,
       createdAt: item.created_at,
+      encryptionVersion: item.encryption_version || 1,
+      encryptionSalt: item.encryption_salt || undefined,
+      encryptionIv: item.encryption_iv || undefined,
+      encryptedData: item.encrypted_data || undefined,
+      failedAttempts,
     });
   } catch (error) {
     console.error('Error unlocking item:', error);
     return c.json({ error: 'Failed to unlock item' }, 500);
   }
 });
+
+// Get the public encryption parameters of an item (needed to derive the key hash before unlocking)
+itemsRoutes.get('/:id/encryption', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const item = await c.env.DB.prepare('SELECT is_encrypted, encryption_version, encryption_salt FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (item.is_encrypted !== 1) {
+      return c.json({ error: '암호화된 아이템이 아닙니다.' }, 400);
+    }
+
+    return c.json({
+      version: item.encryption_version || 1,
+      salt: item.encryption_salt || undefined,
+    });
+  } catch (error) {
+    console.error('Error fetching encryption parameters:', error);
+    return c.json({ error: 'Failed to fetch encryption parameters' }, 500);
+  }
+});
+
+// Delete a replaced file from R2 (failures are only logged; the item already points to the new file)
+async function deleteReplacedFile(bucket: R2Bucket, oldKey: unknown, newKey: unknown): Promise<void> {
+  if (!oldKey || oldKey === newKey) return;
+  try {
+    await bucket.delete(oldKey as string);
+  } catch (err) {
+    console.error('Failed to delete replaced file from R2:', oldKey, err);
+  }
+}
+
+// Store client-side encrypted content for an item
+// Used to encrypt a plain item, to migrate a legacy encrypted item, and to save edits of an encrypted item.
+// The plaintext columns, revisions and search index entry are removed.
+itemsRoutes.post('/:id/encrypt', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const { encryptedData, encryptionSalt, encryptionIv, encryptionHash, previousKeyHash, fileKey, title, isCode } = body;
+
+    if (!encryptedData || !encryptionSalt || !encryptionIv || !encryptionHash) {
+      return c.json({ error: '암호화된 데이터가 필요합니다.' }, 400);
+    }
+
+    const item = await c.env.DB.prepare('SELECT title, file_key, is_encrypted, encryption_hash, encryption_version FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+
+    const albumFile = await c.env.DB.prepare('SELECT id FROM item_files WHERE item_id = ? LIMIT 1').bind(id).first();
+    if (albumFile) {
+      return c.json({ error: '앨범은 암호화할 수 없습니다.' }, 400);
+    }
+
+    // Re-encrypting an encrypted item requires its current key
+    if (item.is_encrypted === 1) {
+      const rejected = await checkItemKey(c, userId, id, 'encrypt', item.encryption_hash, previousKeyHash);
+      if (rejected) {
+        return rejected;
+      }
+    }
+
+    if (!title && !item.title) {
+      return c.json({ error: '암호화된 아이템은 제목이 필수입니다.' }, 400);
+    }
+
+    if (fileKey && !await isOwnedFileKey(c.env.DB, fileKey, userId)) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    // A plaintext file must be replaced by its encrypted upload
+    const hasEncryptedFile = item.is_encrypted === 1 && item.encryption_version === ENCRYPTION_VERSION;
+    if (item.file_key && !hasEncryptedFile && !fileKey) {
+      return c.json({ error: '암호화된 파일이 필요합니다.' }, 400);
+    }
+
+    const newFileKey = fileKey || item.file_key || null;
+
+    // A wrapped vault key stays valid only while the item key is unchanged
+    await c.env.DB.batch([
+      c.env.DB.prepare(`
+        UPDATE items SET
+          is_encrypted = 1,
+          encryption_hash = ?,
+          encryption_version = ?,
+          encryption_salt = ?,
+          encryption_iv = ?,
+          encrypted_data = ?,
+          title = ?,
+          is_code = COALESCE(?, is_code),
+          content = '',
+          html_content = NULL,
+          og_image = NULL,
+          og_title = NULL,
+          og_description = NULL,
+          file_key = ?,
+          file_name = NULL,
+          mime_type = NULL,
+          vault_key = CASE WHEN encryption_hash = ? THEN vault_key ELSE NULL END,
+          vault_key_iv = CASE WHEN encryption_hash = ? THEN vault_key_iv ELSE NULL END
+        WHERE id = ? AND user_id = ?
+      `).bind(encryptionHash, ENCRYPTION_VERSION, encryptionSalt, encryptionIv, encryptedData, title || item.title, isCode === undefined ? null : (isCode ? 1 : 0), newFileKey, encryptionHash, encryptionHash, id, userId),
+      c.env.DB.prepare('DELETE FROM item_revisions WHERE item_id = ?').bind(id),
+      c.env.DB.prepare('DELETE FROM items_fts WHERE item_id = ?').bind(id),
+    ]);
+
+    await deleteReplacedFile(c.env.R2_BUCKET, item.file_key, newFileKey);
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.updated', [id]));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error encrypting item:', error);
+    return c.json({ error: 'Failed to encrypt item' }, 500);
+  }
+});
+
+// Turn an encrypted item back into a plain item with content decrypted by the client
+itemsRoutes.post('/:id/decrypt', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const { keyHash, content, htmlContent, ogImage, ogTitle, ogDescription, fileKey, fileName, mimeType } = body;
+
+    if (!keyHash) {
+      return c.json({ error: '암호화 키가 필요합니다.' }, 400);
+    }
+
+    const item = await c.env.DB.prepare('SELECT file_key, file_name, mime_type, is_encrypted, encryption_hash, encryption_version FROM items WHERE id = ? AND user_id = ?').bind(id, userId).first();
+
+    if (!item) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+    if (item.is_encrypted !== 1) {
+      return c.json({ error: '암호화된 아이템이 아닙니다.' }, 400);
+    }
+    const rejected = await checkItemKey(c, userId, id, 'decrypt', item.encryption_hash, keyHash);
+    if (rejected) {
+      return rejected;
+    }
+
+    if (fileKey && !await isOwnedFileKey(c.env.DB, fileKey, userId)) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    const isLegacy = item.encryption_version !== ENCRYPTION_VERSION;
+
+    // Legacy items still hold plaintext, only the flag has to be cleared
+    if (isLegacy) {
+      await c.env.DB.prepare('UPDATE items SET is_encrypted = 0, encryption_hash = NULL, vault_key = NULL, vault_key_iv = NULL WHERE id = ? AND user_id = ?').bind(id, userId).run();
+    } else {
+      // The encrypted file must be replaced by its decrypted upload
+      if (item.file_key && !fileKey) {
+        return c.json({ error: '복호화된 파일이 필요합니다.' }, 400);
+      }
+
+      await c.env.DB.prepare(`
+        UPDATE items SET
+          is_encrypted = 0,
+          encryption_hash = NULL,
+          encryption_version = NULL,
+          encryption_salt = NULL,
+          encryption_iv = NULL,
+          encrypted_data = NULL,
+          vault_key = NULL,
+          vault_key_iv = NULL,
+          content = ?,
+          html_content = ?,
+          og_image = ?,
+          og_title = ?,
+          og_description = ?,
+          file_key = ?,
+          file_name = ?,
+          mime_type = ?
+        WHERE id = ? AND user_id = ?
+      `).bind(
+        content || '',
+        htmlContent || null,
+        ogImage || null,
+        ogTitle || null,
+        ogDescription || null,
+        fileKey || null,
+        fileName || item.file_name || null,
+        mimeType || item.mime_type || null,
+        id,
+        userId
+      ).run();
+
+      await deleteReplacedFile(c.env.R2_BUCKET, item.file_key, fileKey);
+    }
+
+    await safeReindexItem(c.env.DB, id, '[Items]');
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.updated', [id]));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error decrypting item:', error);
+    return c.json({ error: 'Failed to decrypt item' }, 500);
+  }
+});
@@ -1,16 +1,33 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import type { Env, Variables } from '../index';
 import { uploadFileToR2 } from '../utils/uploadFile';
-import { getOptionalUser } from '../middleware/auth';
+import { authMiddleware, getCookie, getCookieUser, getUser } from '../middleware/auth';
+import { combineShareText, ingestItem } from '../utils/ingest';
+import { createFileKey, signFileUrl, userFilePrefix } from '../utils/fileAccess';
+import { PENDING_SHARE_COOKIE, claimPendingShare, clearPendingShareCookie } from '../utils/pendingShare';
+import { fireItemEvent } from '../utils/webhooks';
 
 export const shareRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// Bearer token, or the auth_token cookie when the share comes from a page that can't send headers
+async function shareAuthMiddleware(c: Context<{ Bindings: Env; Variables: Variables }>, next: () => Promise<void>) {
+  if (c.req.header('Authorization')) {
+    return authMiddleware(c, next);
+  }
+
+  const user = await getCookieUser(c.req.raw, c.env);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - No token provided' }, 401);
+  }
+  c.set('user', user);
+  await next();
+}
+
 // Handle Web Share Target API (POST from share intent)
-shareRoutes.post('/', async (c) => {
+shareRoutes.post('/', shareAuthMiddleware, async (c) => {
   try {
-    // Get optional user (may be undefined if not authenticated)
-    const user = getOptionalUser(c);
-    const userId = user?.sub || null;
+    const userId = getUser(c).sub;
     
     const contentType = c.req.header('content-type') || '';
     
@@ -53,12 +70,14 @@ shareRoutes.post('/', async (c) => {
     // Handle file uploads first
     if (allFiles.length > 0) {
       const uploadedItems = [];
+      const shareText = combineShareText({ text, url });
       
       console.log('[API Share] Processing files:', allFiles.length, 'valid files');
+      const ownPrefix = await userFilePrefix(userId);
 
       for (const file of allFiles) {
-        const sanitizedName = file.name?.replace(/[^a-zA-Z0-9.-]/g, '_') || 'unnamed';
-        const fileKey = `${crypto.randomUUID()}-${sanitizedName}`;
+        const fileName = file.name?.trim() || 'unnamed';
+        const fileKey = await createFileKey(userId, fileName);
         
         console.log('[API Share] Processing file:', {
           name: file.name,
@@ -76,28 +95,25 @@ shareRoutes.post('/', async (c) => {
           );
           console.log('[API Share] File uploaded to R2', { strategy, bytes });
 
-          const type = file.type?.startsWith('image/') ? 'image' 
-            : file.type?.startsWith('video/') ? 'video' 
-            : 'file';
-
-          const id = crypto.randomUUID();
-          const now = Date.now();
-
-          await c.env.DB.prepare(`
-            INSERT INTO items (id, type, content, file_key, file_name, file_size, mime_type, title, user_id, created_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `).bind(id, type, '', fileKey, file.name?.trim() || 'unnamed', file.size, file.type || 'application/octet-stream', title || null, userId, now).run();
-
-          console.log('[API Share] DB record created, id:', id, 'userId:', userId);
+          const item = await ingestItem(c.env, userId, {
+            content: shareText,
+            title: title || null,
+            file: { fileKey, fileName, fileSize: bytes, mimeType: file.type },
+          }, '[API Share]');
 
           uploadedItems.push({
-            id,
-            type,
+            id: item.id,
+            type: item.type,
+            content: item.content,
+            title: item.title,
             fileKey,
-            fileName: file.name,
-            fileSize: file.size,
-            mimeType: file.type,
-            createdAt: now,
+            // Signed URLs are only handed out for the caller's own files
+            fileUrl: fileKey.startsWith(ownPrefix) ? await signFileUrl(c.env, fileKey) : undefined,
+            fileName: item.fileName,
+            fileSize: item.fileSize,
+            mimeType: item.mimeType,
+            tags: item.tags,
+            createdAt: item.createdAt,
           });
         } catch (fileError) {
           console.error('[API Share] Error processing file:', file.name, fileError);
@@ -105,36 +121,38 @@ shareRoutes.post('/', async (c) => {
       }
 
       if (uploadedItems.length > 0) {
+        c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', uploadedItems.map(item => item.id)));
         return c.json({ success: true, items: uploadedItems }, 201);
       }
       // If no files were successfully uploaded, fall through to text/link handling
     }
 
-    // Handle text/link share
-    const content = url || text || title || '';
+    // Handle text/link share (a caption in `text` is kept together with the `url`)
+    const content = combineShareText({ title, text, url });
     
     if (!content) {
       return c.json({ error: 'No content provided' }, 400);
     }
 
-    const type = /^https?:\/\//i.test(content.trim()) ? 'link' : 'text';
-    const id = crypto.randomUUID();
-    const now = Date.now();
+    const item = await ingestItem(c.env, userId, {
+      content,
+      title: title || null,
+    }, '[API Share]');
 
-    await c.env.DB.prepare(`
-      INSERT INTO items (id, type, content, title, user_id, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(id, type, content, title || null, userId, now).run();
+    c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', [item.id]));
 
     return c.json({
       success: true,
       item: {
-        id,
-        type,
-        content,
-        title,
-        tags: [],
-        createdAt: now,
+        id: item.id,
+        type: item.type,
+        content: item.content,
+        title: item.title,
+        ogImage: item.ogImage,
+        ogTitle: item.ogTitle,
+        ogDescription: item.ogDescription,
+        tags: item.tags,
+        createdAt: item.createdAt,
       },
     }, 201);
   } catch (error) {
@@ -142,3 +160,30 @@ shareRoutes.post('/', async (c) => {
     return c.json({ error: 'Failed to process shared content' }, 500);
   }
 });
+
+// Save a share received by the share target while signed out (pending_share cookie)
+shareRoutes.post('/pending/claim', authMiddleware, async (c) => {
+  try {
+    const pendingId = getCookie(c.req.raw, PENDING_SHARE_COOKIE);
+    if (!pendingId) {
+      return c.json({ error: 'No pending share' }, 404);
+    }
+
+    const userId = getUser(c).sub;
+    const claimed = await claimPendingShare(c.env, pendingId, userId);
+    c.header('Set-Cookie', clearPendingShareCookie());
+
+    if (!claimed) {
+      return c.json({ error: 'Pending share not found or expired' }, 404);
+    }
+    if (claimed.kind === 'items') {
+      c.executionCtx.waitUntil(fireItemEvent(c.env, userId, 'item.created', claimed.itemIds));
+    }
+
+    console.log('[API Share] Pending share claimed:', pendingId, claimed.kind);
+    return c.json(claimed);
+  } catch (error) {
+    console.error('Error claiming pending share:', error);
+    return c.json({ error: 'Failed to save pending share' }, 500);
+  }
+});
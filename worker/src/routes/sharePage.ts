@@ -0,0 +1,237 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { signFileUrl } from '../utils/fileAccess';
+import { ENCRYPTION_VERSION } from '../utils/ingest';
+import { escapeHtml, formatSize, linkify, PublicPageContext, renderPublicPage } from '../utils/publicPage';
+import { verifyPassword } from '../utils/password';
+import { clearThrottle, getThrottleRetryAfter, recordThrottleFailure, ThrottlePolicy } from '../utils/attemptThrottle';
+import { getShareLinkStatus, recordShareLinkView, ShareLinkStatus } from '../utils/shareLinks';
+
+// Public page of a share link (/s/<token>), rendered here without the SPA.
+// Files are served through the usual signed file URLs, which are scoped to one file and expire within two hours.
+// End-to-end encrypted items are decrypted in the visitor's browser with the key in the URL fragment
+// (#key=...), which is never sent to the server.
+
+export const sharePageRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Wrong passwords lock the link after a few tries, and a client guessing across links a bit later.
+// Checked before the (deliberately slow) password hash runs.
+const LINK_PASSWORD_POLICY: ThrottlePolicy = { freeAttempts: 5, baseLockoutMs: 30 * 1000, maxLockoutMs: 60 * 60 * 1000 };
+const CLIENT_PASSWORD_POLICY: ThrottlePolicy = { freeAttempts: 20, baseLockoutMs: 60 * 1000, maxLockoutMs: 24 * 60 * 60 * 1000 };
+
+const STATUS_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'>, string> = {
+  revoked: '공유가 취소된 링크입니다.',
+  expired: '만료된 링크입니다.',
+  exhausted: '조회 수 제한에 도달한 링크입니다.',
+};
+
+// Decrypts an end-to-end encrypted item (see services/encryptionService.ts for the format)
+const DECRYPT_SCRIPT = `
+(async () => {
+  const out = document.getElementById('encrypted-content');
+  const data = JSON.parse(document.getElementById('share-data').textContent);
+  const keyParam = new URLSearchParams(location.hash.slice(1)).get('key');
+  if (!keyParam) {
+    out.textContent = '복호화 키가 없습니다. # 뒤까지 포함한 링크 전체로 열어 주세요.';
+    return;
+  }
+  const fromBase64 = (value) => Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (ch) => ch.charCodeAt(0));
+  try {
+    const key = await crypto.subtle.importKey('raw', fromBase64(keyParam), 'AES-GCM', false, ['decrypt']);
+    const decrypt = (bytes, iv) => crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, bytes);
+    const fields = JSON.parse(new TextDecoder().decode(await decrypt(fromBase64(data.encryptedData), data.iv)));
+    out.textContent = '';
+    if (data.fileUrl && fields.fileIv) {
+      const response = await fetch(data.fileUrl);
+      const plain = await decrypt(await response.arrayBuffer(), fields.fileIv);
+      const type = fields.mimeType || 'application/octet-stream';
+      const url = URL.createObjectURL(new Blob([plain], { type }));
+      const tag = type.startsWith('image/') ? 'img' : type.startsWith('video/') ? 'video' : type.startsWith('audio/') ? 'audio' : null;
+      if (tag) {
+        const media = document.createElement(tag);
+        media.src = url;
+        media.className = 'media';
+        if (tag !== 'img') media.controls = true;
+        out.appendChild(media);
+      }
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fields.fileName || 'download';
+      link.className = 'button';
+      link.textContent = '다운로드';
+      out.appendChild(link);
+    }
+    if (fields.content) {
+      const text = document.createElement('div');
+      text.className = 'text';
+      text.textContent = fields.content;
+      out.appendChild(text);
+    }
+  } catch (error) {
+    out.textContent = '복호화에 실패했습니다. 링크가 올바른지 확인해 주세요.';
+  }
+})();
+`;
+
+// A form post drops the URL fragment; keep the decryption key of encrypted items
+const KEEP_FRAGMENT_SCRIPT = `document.querySelector('form').action += location.hash;`;
+
+const renderPage = (c: PublicPageContext, title: string, body: string, status: 200 | 401 | 404 | 410 | 429 = 200, script?: string): Response =>
+  renderPublicPage(c, title, body, { status, script, footer: 'Self로 공유된 항목' });
+
+const renderMessage = (c: PublicPageContext, message: string, status: 404 | 410) =>
+  renderPage(c, '공유 링크', `<h1>${escapeHtml(message)}</h1><p class="muted">링크를 보낸 사람에게 새 링크를 요청하세요.</p>`, status);
+
+function renderPasswordForm(c: PublicPageContext, token: string, error?: string, status: 200 | 401 | 429 = error ? 401 : 200): Response {
+  return renderPage(c, '비밀번호 필요', `
+<h1>비밀번호로 보호된 항목입니다</h1>
+<form method="post" action="/s/${escapeHtml(token)}">
+  <input type="password" name="password" placeholder="비밀번호" autocomplete="off" autofocus required />
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  <button type="submit" class="button">열기</button>
+</form>`, status, KEEP_FRAGMENT_SCRIPT);
+}
+
+function renderFile(fileUrl: string, fileName: string | null, fileSize: number | null, mimeType: string | null): string {
+  const url = escapeHtml(fileUrl);
+  const media = mimeType?.startsWith('image/') ? `<img class="media" src="${url}" alt="${escapeHtml(fileName || '')}" />`
+    : mimeType?.startsWith('video/') ? `<video class="media" src="${url}" controls preload="metadata"></video>`
+    : mimeType?.startsWith('audio/') ? `<audio class="media" src="${url}" controls preload="metadata"></audio>`
+    : '';
+
+  return `${media}
+<div class="file">
+  <div><div class="file-name">${escapeHtml(fileName || '파일')}</div><div class="muted">${formatSize(fileSize)}</div></div>
+  <a class="button" href="${url}&amp;download=1">다운로드</a>
+</div>`;
+}
+
+async function renderItem(c: PublicPageContext, item: Record<string, unknown>): Promise<Response> {
+  const title = (item.title || item.og_title || item.file_name || '공유된 항목') as string;
+  const heading = `<h1>${escapeHtml(title)}</h1>`;
+
+  // End-to-end encrypted: the server only has ciphertext
+  if (item.is_encrypted === 1 && item.encryption_version === ENCRYPTION_VERSION) {
+    const data = {
+      encryptedData: item.encrypted_data,
+      iv: item.encryption_iv,
+      fileUrl: item.file_key ? await signFileUrl(c.env, item.file_key as string) : null,
+    };
+    // "<" is escaped so the JSON can't close the script element
+    const json = JSON.stringify(data).replace(/</g, '\\u003c');
+    return renderPage(c, title, `${heading}
+<div id="encrypted-content" class="muted">복호화하는 중...</div>
+<script type="application/json" id="share-data">${json}</script>`, 200, DECRYPT_SCRIPT);
+  }
+
+  const parts: string[] = [heading];
+
+  const { results: attachments } = await c.env.DB.prepare('SELECT * FROM item_files WHERE item_id = ? ORDER BY position')
+    .bind(item.id).all();
+  if (attachments.length > 0) {
+    for (const file of attachments) {
+      parts.push(renderFile(
+        await signFileUrl(c.env, file.file_key as string),
+        file.file_name as string | null,
+        file.file_size as number | null,
+        file.mime_type as string | null
+      ));
+    }
+  } else if (item.file_key) {
+    parts.push(renderFile(
+      await signFileUrl(c.env, item.file_key as string),
+      item.file_name as string | null,
+      item.file_size as number | null,
+      item.mime_type as string | null
+    ));
+  }
+
+  const content = (item.content as string) || '';
+  if (item.type === 'link' && /^https?:\/\//i.test(content.trim())) {
+    const url = escapeHtml(content.trim());
+    parts.push(`<a class="preview" href="${url}" rel="noopener noreferrer nofollow" target="_blank">
+  ${item.og_image ? `<img src="${escapeHtml(item.og_image as string)}" alt="" />` : ''}
+  <div>
+    <div class="file-name">${escapeHtml((item.og_title as string) || content.trim())}</div>
+    ${item.og_description ? `<div class="muted">${escapeHtml(item.og_description as string)}</div>` : ''}
+    <div class="muted">${url}</div>
+  </div>
+</a>`);
+  } else if (content) {
+    parts.push(`<div class="text">${linkify(content)}</div>`);
+  }
+
+  return renderPage(c, title, parts.join('\n'));
+}
+
+// Checks the link and its item, counts the view and renders the item
+async function openShareLink(c: PublicPageContext, password?: string): Promise<Response> {
+  const token = c.req.param('token');
+  const now = Date.now();
+
+  const link = await c.env.DB.prepare('SELECT * FROM share_links WHERE token = ?').bind(token).first();
+  if (!link) {
+    return renderMessage(c, '링크를 찾을 수 없습니다.', 404);
+  }
+
+  const status = getShareLinkStatus(link, now);
+  if (status !== 'active') {
+    return renderMessage(c, STATUS_MESSAGES[status], 410);
+  }
+
+  const item = await c.env.DB.prepare(`
+    SELECT * FROM items WHERE id = ? AND deleted_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+  `).bind(link.item_id, now).first();
+  if (!item) {
+    return renderMessage(c, '더 이상 공유되지 않는 항목입니다.', 410);
+  }
+
+  if (link.password_hash) {
+    if (password === undefined) {
+      return renderPasswordForm(c, token);
+    }
+
+    const scopes: [string, ThrottlePolicy][] = [
+      [`link:${link.id}`, LINK_PASSWORD_POLICY],
+      [`ip:${c.req.header('CF-Connecting-IP') || 'unknown'}`, CLIENT_PASSWORD_POLICY],
+    ];
+    const retryAfter = await getThrottleRetryAfter(c.env.DB, 'share_link_throttles', scopes.map(([scope]) => scope));
+    if (retryAfter) {
+      c.header('Retry-After', String(retryAfter));
+      return renderPasswordForm(c, token, `시도가 너무 많습니다. ${retryAfter}초 후에 다시 시도하세요.`, 429);
+    }
+
+    if (!await verifyPassword(password, link.password_hash as string, link.password_salt as string)) {
+      await recordThrottleFailure(c.env.DB, 'share_link_throttles', scopes);
+      return renderPasswordForm(c, token, '비밀번호가 올바르지 않습니다.');
+    }
+    // The client counter only expires with time
+    await clearThrottle(c.env.DB, 'share_link_throttles', scopes[0][0]);
+  }
+
+  if (!await recordShareLinkView(c.env.DB, link.id as string, now)) {
+    return renderMessage(c, STATUS_MESSAGES.exhausted, 410);
+  }
+
+  return renderItem(c, item);
+}
+
+sharePageRoutes.get('/:token', async (c) => {
+  try {
+    return await openShareLink(c);
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return c.text('Failed to open share link', 500);
+  }
+});
+
+// Password form
+sharePageRoutes.post('/:token', async (c) => {
+  try {
+    const body = await c.req.parseBody();
+    return await openShareLink(c, typeof body.password === 'string' ? body.password : '');
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return c.text('Failed to open share link', 500);
+  }
+});
@@ -1,20 +1,26 @@
 import { Hono } from 'hono';
 import type { Env, Variables } from '../index';
 import { getUser } from '../middleware/auth';
+import { createShareToken } from '../utils/shareLinks';
 
 export const tagsRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// Page of a published tag (see routes/collectionPage.ts)
+const publicCollectionUrl = (origin: string, token: unknown): string | null =>
+  token ? `${origin}/c/${token}` : null;
+
 // Get all tags
 tagsRoutes.get('/', async (c) => {
   try {
     const user = getUser(c);
     const userId = user.sub;
+    const origin = new URL(c.req.url).origin;
 
     const { results } = await c.env.DB.prepare(`
-      SELECT t.*, COUNT(it.item_id) as item_count
+      SELECT t.*, COUNT(i.id) as item_count
       FROM tags t
       LEFT JOIN item_tags it ON t.id = it.tag_id
-      LEFT JOIN items i ON it.item_id = i.id AND i.user_id = ?
+      LEFT JOIN items i ON it.item_id = i.id AND i.user_id = ? AND i.deleted_at IS NULL
       WHERE t.user_id = ?
       GROUP BY t.id
       ORDER BY t.name ASC
@@ -25,6 +31,7 @@ tagsRoutes.get('/', async (c) => {
       name: row.name,
       color: row.color,
       autoKeywords: row.auto_keywords ? JSON.parse(row.auto_keywords) : [],
+      publicUrl: publicCollectionUrl(origin, row.public_token),
       itemCount: row.item_count,
       createdAt: row.created_at,
     }));
@@ -103,6 +110,54 @@ tagsRoutes.put('/:id', async (c) => {
   }
 });
 
+// Publish tag as a public collection (rotate: replace the URL of a published tag)
+tagsRoutes.post('/:id/publish', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json().catch(() => ({})) as { rotate?: boolean };
+
+    const tag = await c.env.DB.prepare('SELECT public_token FROM tags WHERE id = ? AND user_id = ?')
+      .bind(id, userId).first();
+    if (!tag) {
+      return c.json({ error: 'Tag not found' }, 404);
+    }
+
+    let token = tag.public_token as string | null;
+    if (!token || body.rotate) {
+      token = createShareToken();
+      await c.env.DB.prepare(`
+        UPDATE tags SET public_token = ?, published_at = COALESCE(published_at, ?) WHERE id = ? AND user_id = ?
+      `).bind(token, Date.now(), id, userId).run();
+    }
+
+    return c.json({ publicUrl: publicCollectionUrl(new URL(c.req.url).origin, token) });
+  } catch (error) {
+    console.error('Error publishing tag:', error);
+    return c.json({ error: 'Failed to publish tag' }, 500);
+  }
+});
+
+// Unpublish tag (the public URL stops working)
+tagsRoutes.delete('/:id/publish', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    await c.env.DB.prepare('UPDATE tags SET public_token = NULL, published_at = NULL WHERE id = ? AND user_id = ?')
+      .bind(id, userId).run();
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error unpublishing tag:', error);
+    return c.json({ error: 'Failed to unpublish tag' }, 500);
+  }
+});
+
 // Delete tag
 tagsRoutes.delete('/:id', async (c) => {
   const id = c.req.param('id');
@@ -0,0 +1,106 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+import {
+  createLinkCode,
+  handleTelegramUpdate,
+  isTelegramEnabled,
+  linkCodeUrl,
+  toTelegramChat,
+  verifyWebhookSecret,
+  LINK_CODE_TTL_MS,
+  TelegramUpdate,
+} from '../utils/telegram';
+
+// Telegram bot ingestion (see utils/telegram.ts): linked chats managed from the app,
+// and the bot's webhook, which is authenticated by its secret token instead of a user.
+
+export const telegramRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+export const telegramWebhookRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Linked chats (enabled is false when no bot is configured)
+telegramRoutes.get('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    if (!isTelegramEnabled(c.env)) {
+      return c.json({ enabled: false, botUsername: null, chats: [] });
+    }
+
+    const { results } = await c.env.DB.prepare('SELECT * FROM telegram_chats WHERE user_id = ? ORDER BY linked_at DESC')
+      .bind(userId).all();
+
+    return c.json({
+      enabled: true,
+      botUsername: c.env.TELEGRAM_BOT_USERNAME?.trim().replace(/^@/, '') || null,
+      chats: results.map(toTelegramChat),
+    });
+  } catch (error) {
+    console.error('Error fetching Telegram chats:', error);
+    return c.json({ error: 'Failed to fetch Telegram chats' }, 500);
+  }
+});
+
+// New one-time link code (replaces the user's previous codes)
+telegramRoutes.post('/link-code', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    if (!isTelegramEnabled(c.env)) {
+      return c.json({ error: '텔레그램 봇이 설정되지 않았습니다.' }, 404);
+    }
+
+    const now = Date.now();
+    const code = createLinkCode();
+    const expiresAt = now + LINK_CODE_TTL_MS;
+
+    await c.env.DB.batch([
+      c.env.DB.prepare('DELETE FROM telegram_link_codes WHERE user_id = ? OR expires_at < ?').bind(userId, now),
+      c.env.DB.prepare('INSERT INTO telegram_link_codes (code, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)')
+        .bind(code, userId, expiresAt, now),
+    ]);
+
+    return c.json({ code, expiresAt, url: linkCodeUrl(c.env, code) }, 201);
+  } catch (error) {
+    console.error('Error creating Telegram link code:', error);
+    return c.json({ error: 'Failed to create link code' }, 500);
+  }
+});
+
+// Unlink a chat
+telegramRoutes.delete('/chats/:chatId', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+    const chatId = c.req.param('chatId');
+
+    const result = await c.env.DB.prepare('DELETE FROM telegram_chats WHERE chat_id = ? AND user_id = ?')
+      .bind(chatId, userId).run();
+
+    if ((result.meta.changes || 0) === 0) {
+      return c.json({ error: 'Chat not found' }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error unlinking Telegram chat:', error);
+    return c.json({ error: 'Failed to unlink chat' }, 500);
+  }
+});
+
+// Bot API webhook. Always answers 200 once authenticated: Telegram retries anything else,
+// and failures are reported to the chat instead.
+telegramWebhookRoutes.post('/webhook', async (c) => {
+  if (!isTelegramEnabled(c.env) || !verifyWebhookSecret(c.env, c.req.header('X-Telegram-Bot-Api-Secret-Token'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const update = await c.req.json<TelegramUpdate>();
+    await handleTelegramUpdate(c.env, update, c.executionCtx);
+  } catch (error) {
+    console.error('Error handling Telegram update:', error);
+  }
+  return c.json({ ok: true });
+});
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import type { Env, Variables } from '../index';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, getUser } from '../middleware/auth';
+import { createFileKey, isOwnedFileKey, signFileUrl, verifyFileUrl } from '../utils/fileAccess';
 
 export const uploadRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -14,8 +15,8 @@ uploadRoutes.post('/', authMiddleware, async (c) => {
       return c.json({ error: 'No file provided' }, 400);
     }
 
-    // Generate unique key with original filename
-    const fileKey = `${crypto.randomUUID()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+    // Generate unique key with original filename under the user's prefix
+    const fileKey = await createFileKey(getUser(c).sub, file.name);
     
     // Upload to R2
     await c.env.R2_BUCKET.put(fileKey, file.stream(), {
@@ -26,6 +27,7 @@ uploadRoutes.post('/', authMiddleware, async (c) => {
 
     return c.json({
       fileKey,
+      fileUrl: await signFileUrl(c.env, fileKey),
       fileName: file.name,
       fileSize: file.size,
       mimeType: file.type,
@@ -36,12 +38,72 @@ uploadRoutes.post('/', authMiddleware, async (c) => {
   }
 });
 
-// Get file from R2 - public access (no auth required)
-uploadRoutes.get('/:key', async (c) => {
+// Original file name for downloads: the album attachment's or the item's file_name, or the name
+// part of the key ("users/<hash>/<uuid>-name.ext" or "<uuid>-name.ext")
+async function getDownloadName(db: D1Database, key: string): Promise<string> {
+  const attachment = await db.prepare('SELECT file_name FROM item_files WHERE file_key = ? AND file_name IS NOT NULL LIMIT 1').bind(key).first();
+  if (attachment?.file_name) {
+    return attachment.file_name as string;
+  }
+  const item = await db.prepare('SELECT file_name FROM items WHERE file_key = ? AND file_name IS NOT NULL LIMIT 1').bind(key).first();
+  if (item?.file_name) {
+    return item.file_name as string;
+  }
+  const baseName = key.split('/').pop() || key;
+  return baseName.replace(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/i, '') || 'download';
+}
+
+// Content-Disposition with an ASCII fallback and an RFC 5987 encoded UTF-8 name (Korean file names)
+function attachmentDisposition(fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encodedName = encodeURIComponent(fileName).replace(/['()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+// Byte range actually returned by R2
+function rangeBounds(range: R2Range, size: number): { start: number; end: number } {
+  if ('suffix' in range) {
+    return { start: Math.max(size - range.suffix, 0), end: size - 1 };
+  }
+  const start = range.offset ?? 0;
+  const end = range.length !== undefined ? start + range.length - 1 : size - 1;
+  return { start, end: Math.min(end, size - 1) };
+}
+
+// Get file from R2 - requires a signed URL minted by the items API (no auth header, so <img> can load it)
+// Supports Range (206) for seeking in media, If-None-Match/If-Modified-Since (304),
+// and ?download=1 to save under the original file name.
+uploadRoutes.get('/:key{.+}', async (c) => {
   const key = c.req.param('key');
 
   try {
-    const object = await c.env.R2_BUCKET.get(key);
+    const expiresAt = await verifyFileUrl(c.env, key, c.req.query('expires'), c.req.query('sig'));
+    if (!expiresAt) {
+      return c.json({ error: 'Invalid or expired file URL' }, 403);
+    }
+
+    const requestHeaders = c.req.raw.headers;
+    const hasRange = requestHeaders.has('Range');
+
+    let object: R2Object | R2ObjectBody | null;
+    try {
+      object = await c.env.R2_BUCKET.get(key, {
+        onlyIf: requestHeaders,
+        range: hasRange ? requestHeaders : undefined,
+      });
+    } catch (error) {
+      if (!hasRange) throw error;
+
+      // R2 rejects ranges outside the object
+      const head = await c.env.R2_BUCKET.head(key);
+      if (!head) {
+        return c.json({ error: 'File not found' }, 404);
+      }
+      return new Response(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${head.size}` },
+      });
+    }
 
     if (!object) {
       return c.json({ error: 'File not found' }, 404);
@@ -50,8 +112,29 @@ uploadRoutes.get('/:key', async (c) => {
     const headers = new Headers();
     object.writeHttpMetadata(headers);
     headers.set('etag', object.httpEtag);
-    headers.set('Cache-Control', 'public, max-age=31536000'); // 1 year cache
+    headers.set('Last-Modified', object.uploaded.toUTCString());
+    headers.set('Accept-Ranges', 'bytes');
+    // Cache privately until the signed URL expires
+    headers.set('Cache-Control', `private, max-age=${Math.floor((expiresAt - Date.now()) / 1000)}`);
+
+    if (c.req.query('download') === '1') {
+      headers.set('Content-Disposition', attachmentDisposition(await getDownloadName(c.env.DB, key)));
+    }
+
+    // A precondition failed: R2 returns the metadata without a body
+    if (!('body' in object)) {
+      const isWritePrecondition = requestHeaders.has('If-Match') || requestHeaders.has('If-Unmodified-Since');
+      return new Response(null, { status: isWritePrecondition ? 412 : 304, headers });
+    }
 
+    if (hasRange && object.range) {
+      const { start, end } = rangeBounds(object.range, object.size);
+      headers.set('Content-Range', `bytes ${start}-${end}/${object.size}`);
+      headers.set('Content-Length', String(end - start + 1));
+      return new Response(object.body, { status: 206, headers });
+    }
+
+    headers.set('Content-Length', String(object.size));
     return new Response(object.body, {
       headers,
     });
@@ -61,11 +144,15 @@ uploadRoutes.get('/:key', async (c) => {
   }
 });
 
-// Delete file from R2 - requires authentication
-uploadRoutes.delete('/:key', authMiddleware, async (c) => {
+// Delete file from R2 - requires authentication and ownership
+uploadRoutes.delete('/:key{.+}', authMiddleware, async (c) => {
   const key = c.req.param('key');
 
   try {
+    if (!await isOwnedFileKey(c.env.DB, key, getUser(c).sub)) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
     await c.env.R2_BUCKET.delete(key);
     return c.json({ success: true });
   } catch (error) {
@@ -0,0 +1,121 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+
+export const vaultRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Get the vault of the user with all wrapped item keys
+// Everything returned here is ciphertext; unwrapping happens in the browser.
+vaultRoutes.get('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const [vault, keys] = await c.env.DB.batch([
+      c.env.DB.prepare('SELECT salt, check_data, check_iv, created_at FROM encryption_vaults WHERE user_id = ?').bind(userId),
+      c.env.DB.prepare(`
+        SELECT id, vault_key, vault_key_iv
+        FROM items
+        WHERE user_id = ? AND is_encrypted = 1 AND vault_key IS NOT NULL
+      `).bind(userId),
+    ]);
+
+    const row = vault.results[0] as any;
+
+    return c.json({
+      vault: row ? {
+        salt: row.salt,
+        checkData: row.check_data,
+        checkIv: row.check_iv,
+        createdAt: row.created_at,
+      } : null,
+      keys: keys.results.map((key: any) => ({
+        itemId: key.id,
+        wrappedKey: key.vault_key,
+        iv: key.vault_key_iv,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching vault:', error);
+    return c.json({ error: 'Failed to fetch vault' }, 500);
+  }
+});
+
+// Create the vault
+vaultRoutes.post('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const { salt, checkData, checkIv } = body;
+
+    if (!salt || !checkData || !checkIv) {
+      return c.json({ error: 'salt, checkData and checkIv are required' }, 400);
+    }
+
+    const existing = await c.env.DB.prepare('SELECT user_id FROM encryption_vaults WHERE user_id = ?').bind(userId).first();
+    if (existing) {
+      return c.json({ error: '이미 금고가 설정되어 있습니다.' }, 409);
+    }
+
+    await c.env.DB.prepare(`
+      INSERT INTO encryption_vaults (user_id, salt, check_data, check_iv, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(userId, salt, checkData, checkIv, Date.now()).run();
+
+    return c.json({ success: true }, 201);
+  } catch (error) {
+    console.error('Error creating vault:', error);
+    return c.json({ error: 'Failed to create vault' }, 500);
+  }
+});
+
+// Delete the vault (items stay encrypted and can still be opened with their own passphrase)
+vaultRoutes.delete('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    await c.env.DB.batch([
+      c.env.DB.prepare('UPDATE items SET vault_key = NULL, vault_key_iv = NULL WHERE user_id = ?').bind(userId),
+      c.env.DB.prepare('DELETE FROM encryption_vaults WHERE user_id = ?').bind(userId),
+    ]);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting vault:', error);
+    return c.json({ error: 'Failed to delete vault' }, 500);
+  }
+});
+
+// Store the wrapped key of an encrypted item
+vaultRoutes.put('/keys/:itemId', async (c) => {
+  const itemId = c.req.param('itemId');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json();
+    const { wrappedKey, iv } = body;
+
+    if (!wrappedKey || !iv) {
+      return c.json({ error: 'wrappedKey and iv are required' }, 400);
+    }
+
+    const result = await c.env.DB.prepare(`
+      UPDATE items SET vault_key = ?, vault_key_iv = ?
+      WHERE id = ? AND user_id = ? AND is_encrypted = 1
+    `).bind(wrappedKey, iv, itemId, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ error: 'Item not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error storing vault key:', error);
+    return c.json({ error: 'Failed to store vault key' }, 500);
+  }
+});
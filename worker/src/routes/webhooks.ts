@@ -0,0 +1,307 @@
+import { Hono } from 'hono';
+import type { Env, Variables } from '../index';
+import { getUser } from '../middleware/auth';
+import {
+  createWebhookSecret,
+  isWebhookEvent,
+  redeliver,
+  sendPing,
+  toWebhook,
+  toWebhookDelivery,
+  MAX_WEBHOOKS_PER_USER,
+  MIN_WEBHOOK_SECRET_LENGTH,
+} from '../utils/webhooks';
+
+// Outgoing webhooks and their delivery log, managed from the app (API tokens can't reach these routes)
+
+export const webhooksRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const MAX_URL_LENGTH = 2000;
+const MAX_SECRET_LENGTH = 200;
+const MAX_TAG_FILTERS = 50;
+const DELIVERY_LOG_LIMIT = 50;
+
+interface WebhookBody {
+  url?: string;
+  secret?: string;
+  events?: unknown[];
+  tagIds?: unknown[];
+  enabled?: boolean;
+}
+
+// Error message for an invalid target URL (plain http is allowed outside production, for local receivers)
+function validateUrl(env: Env, value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return '올바른 URL을 입력해 주세요.';
+  }
+  if (value.length > MAX_URL_LENGTH) {
+    return `URL은 ${MAX_URL_LENGTH}자 이하여야 합니다.`;
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && env.ENVIRONMENT !== 'production')) {
+    return 'https:// URL만 사용할 수 있습니다.';
+  }
+  return null;
+}
+
+// Validated fields of a create/update body; `partial` leaves missing fields out
+async function parseWebhookBody(
+  env: Env,
+  userId: string,
+  body: WebhookBody,
+  partial: boolean
+): Promise<{ error: string } | { url?: string; secret?: string; events?: string[]; tagIds?: string[]; enabled?: boolean }> {
+  const fields: { url?: string; secret?: string; events?: string[]; tagIds?: string[]; enabled?: boolean } = {};
+
+  if (body.url !== undefined || !partial) {
+    const url = body.url?.trim() || '';
+    const error = validateUrl(env, url);
+    if (error) return { error };
+    fields.url = url;
+  }
+
+  if (body.secret !== undefined && body.secret !== '') {
+    if (body.secret.length < MIN_WEBHOOK_SECRET_LENGTH || body.secret.length > MAX_SECRET_LENGTH) {
+      return { error: `시크릿은 ${MIN_WEBHOOK_SECRET_LENGTH}~${MAX_SECRET_LENGTH}자여야 합니다.` };
+    }
+    fields.secret = body.secret;
+  }
+
+  if (body.events !== undefined || !partial) {
+    const events = [...new Set(body.events || [])];
+    if (events.length === 0 || !events.every(isWebhookEvent)) {
+      return { error: '이벤트를 하나 이상 선택해 주세요.' };
+    }
+    fields.events = events;
+  }
+
+  if (body.tagIds !== undefined) {
+    const tagIds = [...new Set((body.tagIds || []).filter((id): id is string => typeof id === 'string'))];
+    if (tagIds.length > MAX_TAG_FILTERS) {
+      return { error: `태그 필터는 최대 ${MAX_TAG_FILTERS}개까지 지정할 수 있습니다.` };
+    }
+    if (tagIds.length > 0) {
+      // Only the user's own tags can be used as filters
+      const { results } = await env.DB.prepare(
+        `SELECT id FROM tags WHERE user_id = ? AND id IN (${tagIds.map(() => '?').join(', ')})`
+      ).bind(userId, ...tagIds).all();
+      if (results.length !== tagIds.length) {
+        return { error: 'Tags not found' };
+      }
+    }
+    fields.tagIds = tagIds;
+  }
+
+  if (body.enabled !== undefined) {
+    fields.enabled = !!body.enabled;
+  }
+
+  return fields;
+}
+
+// List webhooks
+webhooksRoutes.get('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at DESC
+    `).bind(userId).all();
+
+    return c.json(results.map(toWebhook));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return c.json({ error: 'Failed to fetch webhooks' }, 500);
+  }
+});
+
+// Create webhook - the secret (given or generated) is only returned here
+webhooksRoutes.post('/', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const fields = await parseWebhookBody(c.env, userId, await c.req.json() as WebhookBody, false);
+    if ('error' in fields) {
+      return c.json({ error: fields.error }, 400);
+    }
+
+    const count = await c.env.DB.prepare('SELECT COUNT(*) as count FROM webhooks WHERE user_id = ?')
+      .bind(userId).first<{ count: number }>();
+    if ((count?.count || 0) >= MAX_WEBHOOKS_PER_USER) {
+      return c.json({ error: `웹훅은 최대 ${MAX_WEBHOOKS_PER_USER}개까지 만들 수 있습니다.` }, 400);
+    }
+
+    const now = Date.now();
+    const row = {
+      id: crypto.randomUUID(),
+      url: fields.url!,
+      secret: fields.secret || createWebhookSecret(),
+      events: JSON.stringify(fields.events),
+      tag_ids: JSON.stringify(fields.tagIds || []),
+      enabled: fields.enabled === false ? 0 : 1,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await c.env.DB.prepare(`
+      INSERT INTO webhooks (id, user_id, url, secret, events, tag_ids, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(row.id, userId, row.url, row.secret, row.events, row.tag_ids, row.enabled, row.created_at, row.updated_at).run();
+
+    return c.json({ ...toWebhook(row), secret: row.secret }, 201);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return c.json({ error: 'Failed to create webhook' }, 500);
+  }
+});
+
+// Update webhook (a new secret is returned once when it was changed)
+webhooksRoutes.put('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const body = await c.req.json() as WebhookBody & { rotateSecret?: boolean };
+    const fields = await parseWebhookBody(c.env, userId, body, true);
+    if ('error' in fields) {
+      return c.json({ error: fields.error }, 400);
+    }
+    if (body.rotateSecret && !fields.secret) {
+      fields.secret = createWebhookSecret();
+    }
+
+    const updates: string[] = ['updated_at = ?'];
+    const params: unknown[] = [Date.now()];
+    if (fields.url !== undefined) {
+      updates.push('url = ?');
+      params.push(fields.url);
+    }
+    if (fields.secret !== undefined) {
+      updates.push('secret = ?');
+      params.push(fields.secret);
+    }
+    if (fields.events !== undefined) {
+      updates.push('events = ?');
+      params.push(JSON.stringify(fields.events));
+    }
+    if (fields.tagIds !== undefined) {
+      updates.push('tag_ids = ?');
+      params.push(JSON.stringify(fields.tagIds));
+    }
+    if (fields.enabled !== undefined) {
+      updates.push('enabled = ?');
+      params.push(fields.enabled ? 1 : 0);
+    }
+
+    const result = await c.env.DB.prepare(`UPDATE webhooks SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
+      .bind(...params, id, userId).run();
+    if (!result.meta.changes) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    const row = await c.env.DB.prepare('SELECT * FROM webhooks WHERE id = ?').bind(id).first();
+    return c.json({ ...toWebhook(row!), secret: fields.secret });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return c.json({ error: 'Failed to update webhook' }, 500);
+  }
+});
+
+// Delete webhook (its delivery log cascades)
+webhooksRoutes.delete('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const result = await c.env.DB.prepare('DELETE FROM webhooks WHERE id = ? AND user_id = ?').bind(id, userId).run();
+    if (!result.meta.changes) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return c.json({ error: 'Failed to delete webhook' }, 500);
+  }
+});
+
+// Delivery log of a webhook (newest first)
+webhooksRoutes.get('/:id/deliveries', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT id, webhook_id, event, item_id, status, attempts, next_attempt_at, response_status, response_body,
+        error, duration_ms, created_at, last_attempt_at
+      FROM webhook_deliveries
+      WHERE webhook_id = ? AND user_id = ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).bind(id, userId, DELIVERY_LOG_LIMIT).all();
+
+    return c.json(results.map(toWebhookDelivery));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return c.json({ error: 'Failed to fetch webhook deliveries' }, 500);
+  }
+});
+
+// Send a ping to check the receiver
+webhooksRoutes.post('/:id/test', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const webhook = await c.env.DB.prepare('SELECT * FROM webhooks WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    if (!webhook) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    const deliveryId = await sendPing(c.env.DB, webhook);
+    const delivery = await c.env.DB.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').bind(deliveryId).first();
+
+    return c.json(toWebhookDelivery(delivery!));
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    return c.json({ error: 'Failed to test webhook' }, 500);
+  }
+});
+
+// Send a logged delivery again right away
+webhooksRoutes.post('/:id/deliveries/:deliveryId/redeliver', async (c) => {
+  const id = c.req.param('id');
+  const deliveryId = c.req.param('deliveryId');
+
+  try {
+    const user = getUser(c);
+    const userId = user.sub;
+
+    const webhook = await c.env.DB.prepare('SELECT * FROM webhooks WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    const delivery = webhook && await c.env.DB.prepare('SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?')
+      .bind(deliveryId, id).first();
+    if (!webhook || !delivery) {
+      return c.json({ error: 'Delivery not found' }, 404);
+    }
+
+    await redeliver(c.env.DB, webhook, delivery);
+    const updated = await c.env.DB.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').bind(deliveryId).first();
+
+    return c.json(toWebhookDelivery(updated!));
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return c.json({ error: 'Failed to redeliver webhook' }, 500);
+  }
+});
@@ -0,0 +1,124 @@
+// Personal API tokens (api_tokens).
+// A token is "self_pat_" followed by 32 random bytes; only its SHA-256 hash is stored, so a
+// lost token can't be shown again. Tokens are limited to their scopes and never reach
+// account, vault, admin or encryption endpoints, which stay OAuth-only.
+
+export const API_TOKEN_PREFIX = 'self_pat_';
+export const API_TOKEN_SCOPES = ['items:read', 'items:write', 'tags:read', 'tags:write'] as const;
+export const MAX_API_TOKENS_PER_USER = 20;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the token, for display
+  scopes: ApiTokenScope[];
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  createdAt: number;
+}
+
+export interface ApiTokenAuth {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 4;
+
+// last_used_at is only written when older than this, so busy scripts don't write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Endpoints that an item scope would cover but that stay OAuth-only
+const OAUTH_ONLY_ITEM_PATHS = [
+  /^\/api\/items\/delete-all$/,
+  /^\/api\/items\/trash\/empty$/,
+  /^\/api\/items\/[^/]+\/(verify|unlock|encryption|encrypt|decrypt)$/,
+];
+
+// POST endpoints that only read (the ids go in the body)
+const READ_ONLY_POST_PATHS = ['/api/items/file-urls'];
+
+export const isApiToken = (token: string): boolean => token.startsWith(API_TOKEN_PREFIX);
+
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * New token and what is stored for it.
+ */
+export async function createApiToken(): Promise<{ token: string; hash: string; prefix: string }> {
+  const random = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(TOKEN_BYTES))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const token = `${API_TOKEN_PREFIX}${random}`;
+  return { token, hash: await hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+export function toApiToken(row: Record<string, unknown>): ApiToken {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    prefix: row.token_prefix as string,
+    scopes: JSON.parse(row.scopes as string),
+    expiresAt: (row.expires_at as number | null) ?? null,
+    lastUsedAt: (row.last_used_at as number | null) ?? null,
+    createdAt: row.created_at as number,
+  };
+}
+
+/**
+ * Scope needed for a request made with an API token, or null when tokens can't use the endpoint.
+ */
+export function requiredApiTokenScope(method: string, path: string): ApiTokenScope | null {
+  const access = method === 'GET' || method === 'HEAD' || (method === 'POST' && READ_ONLY_POST_PATHS.includes(path)) ? 'read' : 'write';
+
+  if (path === '/api/items' || path.startsWith('/api/items/')) {
+    if (OAUTH_ONLY_ITEM_PATHS.some(pattern => pattern.test(path))) return null;
+    return `items:${access}`;
+  }
+  // Uploaded files belong to items
+  if (path === '/api/upload' || path.startsWith('/api/upload/')) {
+    return `items:${access}`;
+  }
+  if (path === '/api/tags' || path.startsWith('/api/tags/')) {
+    return `tags:${access}`;
+  }
+  return null;
+}
+
+/**
+ * Looks up an API token. Returns null for unknown or expired tokens.
+ */
+export async function verifyApiToken(db: D1Database, token: string): Promise<ApiTokenAuth | null> {
+  const now = Date.now();
+  const row = await db.prepare('SELECT id, user_id, scopes, expires_at, last_used_at FROM api_tokens WHERE token_hash = ?')
+    .bind(await hashApiToken(token)).first();
+
+  if (!row || (row.expires_at && (row.expires_at as number) <= now)) {
+    return null;
+  }
+
+  if (!row.last_used_at || now - (row.last_used_at as number) > LAST_USED_RESOLUTION_MS) {
+    try {
+      await db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').bind(now, row.id).run();
+    } catch (error) {
+      console.error('Failed to record API token use:', error);
+    }
+  }
+
+  return {
+    tokenId: row.id as string,
+    userId: row.user_id as string,
+    scopes: JSON.parse(row.scopes as string),
+  };
+}
@@ -0,0 +1,80 @@
+// Lockouts for password checks that anyone can attempt (local sign-in, share link passwords).
+// Failures are counted per scope; after a few free attempts every further failure doubles
+// the lockout of that scope. The tables share one shape: (scope, failures, locked_until, updated_at).
+
+export type ThrottleTable = 'login_throttles' | 'share_link_throttles';
+
+export interface ThrottlePolicy {
+  freeAttempts: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+// Failures older than this start a new count
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function lockoutDuration(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(policy.baseLockoutMs * 2 ** (failures - policy.freeAttempts), policy.maxLockoutMs);
+}
+
+const toRetryAfter = (lockedUntil: number, now: number): number =>
+  lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+
+const placeholders = (count: number) => Array(count).fill('?').join(', ');
+
+/**
+ * Seconds until any of the scopes may try again (0 = allowed now).
+ */
+export async function getThrottleRetryAfter(db: D1Database, table: ThrottleTable, scopes: string[]): Promise<number> {
+  const { results } = await db.prepare(`SELECT locked_until FROM ${table} WHERE scope IN (${placeholders(scopes.length)})`)
+    .bind(...scopes)
+    .all();
+
+  const lockedUntil = Math.max(0, ...results.map(row => (row.locked_until as number | null) || 0));
+  return toRetryAfter(lockedUntil, Date.now());
+}
+
+/**
+ * Counts a failure against every scope. Returns the seconds until the next attempt is allowed.
+ */
+export async function recordThrottleFailure(
+  db: D1Database,
+  table: ThrottleTable,
+  scopes: [string, ThrottlePolicy][]
+): Promise<number> {
+  const now = Date.now();
+  const { results } = await db.prepare(`SELECT scope, failures, updated_at FROM ${table} WHERE scope IN (${placeholders(scopes.length)})`)
+    .bind(...scopes.map(([scope]) => scope))
+    .all();
+  const current = new Map(results.map(row => [row.scope as string, row]));
+
+  let lockedUntil = 0;
+  const statements = scopes.map(([scope, policy]) => {
+    const row = current.get(scope);
+    const isStale = !row || (row.updated_at as number) < now - FAILURE_WINDOW_MS;
+    const failures = (isStale ? 0 : row.failures as number) + 1;
+    const duration = lockoutDuration(failures, policy);
+    const scopeLockedUntil = duration ? now + duration : null;
+    lockedUntil = Math.max(lockedUntil, scopeLockedUntil || 0);
+
+    return db.prepare(`
+      INSERT INTO ${table} (scope, failures, locked_until, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(scope) DO UPDATE SET
+        failures = excluded.failures,
+        locked_until = excluded.locked_until,
+        updated_at = excluded.updated_at
+    `).bind(scope, failures, scopeLockedUntil, now);
+  });
+
+  await db.batch(statements);
+  return toRetryAfter(lockedUntil, now);
+}
+
+/**
+ * Forgets the failures of a scope (after a correct password).
+ */
+export async function clearThrottle(db: D1Database, table: ThrottleTable, scope: string): Promise<void> {
+  await db.prepare(`DELETE FROM ${table} WHERE scope = ?`).bind(scope).run();
+}
@@ -0,0 +1,113 @@
+import type { Env } from '../index';
+import type { AuthUser } from '../middleware/auth';
+
+// Authentication providers, selected with AUTH_PROVIDER:
+//   oauth - external OAuth 2.0 server with PKCE (AUTH_ISSUER, AUTH_CLIENT_ID), the default
+//   local - username/password accounts stored in D1 (local_users)
+//   dev   - signs in a fixed test user without credentials; refused when ENVIRONMENT is production
+// local and dev sign-ins get access tokens issued by the worker (auth_sessions).
+
+export type AuthProviderType = 'oauth' | 'local' | 'dev';
+
+// What the client needs to show the right sign-in screen (GET /api/auth/config)
+export interface AuthConfig {
+  provider: AuthProviderType;
+  issuer?: string;
+  clientId?: string;
+  allowSignup?: boolean;
+}
+
+export const DEFAULT_AUTH_ISSUER = 'https://auth.huny.dev';
+export const DEFAULT_AUTH_CLIENT_ID = 'client_BBonadEVFcfxGoHxB0DnJtsw';
+
+export const SESSION_TOKEN_PREFIX = 'self_session_';
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const DEV_USER: AuthUser = {
+  sub: 'dev-user',
+  name: '테스트 사용자',
+  email: 'dev@localhost',
+};
+
+const TOKEN_BYTES = 32;
+
+export function getAuthProvider(env: Env): AuthProviderType {
+  const provider = env.AUTH_PROVIDER || 'oauth';
+  if (provider === 'dev' && env.ENVIRONMENT === 'production') {
+    console.error('[Auth] AUTH_PROVIDER=dev is not allowed in production, using oauth');
+    return 'oauth';
+  }
+  if (provider !== 'oauth' && provider !== 'local' && provider !== 'dev') {
+    console.error('[Auth] Unknown AUTH_PROVIDER, using oauth:', provider);
+    return 'oauth';
+  }
+  return provider;
+}
+
+export const getAuthIssuer = (env: Env): string => (env.AUTH_ISSUER || DEFAULT_AUTH_ISSUER).replace(/\/$/, '');
+
+/**
+ * Local sign-up is open while there are no accounts yet (the first user sets up the instance),
+ * afterwards only with AUTH_ALLOW_SIGNUP = "true".
+ */
+export async function isSignupAllowed(env: Env): Promise<boolean> {
+  if (env.AUTH_ALLOW_SIGNUP === 'true') return true;
+  const row = await env.DB.prepare('SELECT COUNT(*) as count FROM local_users').first<{ count: number }>();
+  return (row?.count || 0) === 0;
+}
+
+export async function getAuthConfig(env: Env): Promise<AuthConfig> {
+  const provider = getAuthProvider(env);
+  if (provider === 'oauth') {
+    return { provider, issuer: getAuthIssuer(env), clientId: env.AUTH_CLIENT_ID || DEFAULT_AUTH_CLIENT_ID };
+  }
+  if (provider === 'local') {
+    return { provider, allowSignup: await isSignupAllowed(env) };
+  }
+  return { provider };
+}
+
+async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const isSessionToken = (token: string): boolean => token.startsWith(SESSION_TOKEN_PREFIX);
+
+/**
+ * Issues an access token for a local or dev sign-in. Expired sessions of the user are dropped.
+ */
+export async function createSession(db: D1Database, user: AuthUser): Promise<{ accessToken: string; expiresAt: number }> {
+  const random = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(TOKEN_BYTES))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const accessToken = `${SESSION_TOKEN_PREFIX}${random}`;
+  const now = Date.now();
+  const expiresAt = now + SESSION_TTL_MS;
+
+  await db.batch([
+    db.prepare('DELETE FROM auth_sessions WHERE user_id = ? AND expires_at <= ?').bind(user.sub, now),
+    db.prepare(`
+      INSERT INTO auth_sessions (id, user_id, name, email, token_hash, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(crypto.randomUUID(), user.sub, user.name || null, user.email || null, await hashSessionToken(accessToken), expiresAt, now),
+  ]);
+
+  return { accessToken, expiresAt };
+}
+
+export async function verifySession(db: D1Database, token: string): Promise<AuthUser | null> {
+  const row = await db.prepare('SELECT user_id, name, email FROM auth_sessions WHERE token_hash = ? AND expires_at > ?')
+    .bind(await hashSessionToken(token), Date.now()).first();
+  if (!row) return null;
+  return {
+    sub: row.user_id as string,
+    name: (row.name as string | null) || undefined,
+    email: (row.email as string | null) || undefined,
+  };
+}
+
+export async function revokeSession(db: D1Database, token: string): Promise<void> {
+  await db.prepare('DELETE FROM auth_sessions WHERE token_hash = ?').bind(await hashSessionToken(token)).run();
+}
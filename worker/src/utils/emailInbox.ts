@@ -0,0 +1,156 @@
+import type { Env } from '../index';
+import { ingestItem, ingestSharedFiles, IngestedItem } from './ingest';
+import { parseEmail } from './mime';
+import { sanitizeHtml } from './htmlSanitizer';
+import { htmlToText } from './searchIndex';
+import { fireItemEvent } from './webhooks';
+
+// Inbound email (email_inboxes).
+// Mail to <token>@<EMAIL_DOMAIN> reaches the worker's email handler (Email Routing catch-all).
+// The token identifies the user; +suffixes of the local part name tags to apply
+// (<token>+receipts+work@...). A message becomes a text item (subject as title) plus one file
+// item per attachment.
+
+const TOKEN_LENGTH = 16;
+const TOKEN_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Email Routing accepts messages up to 25 MiB
+export const MAX_EMAIL_SIZE = 25 * 1024 * 1024;
+const MAX_ATTACHMENTS = 20;
+const MAX_TAG_SUFFIXES = 10;
+
+export interface EmailInbox {
+  address: string;
+  createdAt: number;
+  lastReceivedAt: number | null;
+}
+
+/**
+ * Random lowercase token (addresses are case-insensitive in practice).
+ */
+export function createInboxToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH));
+  return Array.from(bytes, b => TOKEN_ALPHABET[b % TOKEN_ALPHABET.length]).join('');
+}
+
+export function getEmailDomain(env: Env): string | null {
+  return env.EMAIL_DOMAIN?.trim().toLowerCase() || null;
+}
+
+export function toEmailInbox(env: Env, row: Record<string, unknown>): EmailInbox {
+  return {
+    address: `${row.token}@${getEmailDomain(env)}`,
+    createdAt: row.created_at as number,
+    lastReceivedAt: (row.last_received_at as number | null) ?? null,
+  };
+}
+
+/**
+ * Token and tag names of a recipient address (token+tag1+tag2@domain).
+ */
+export function parseInboxAddress(address: string): { token: string; tagNames: string[] } {
+  const localPart = address.trim().toLowerCase().replace(/^<|>$/g, '').split('@')[0] || '';
+  const [token, ...suffixes] = localPart.split('+');
+  const tagNames = suffixes.map(suffix => suffix.trim()).filter(Boolean).slice(0, MAX_TAG_SUFFIXES);
+  return { token, tagNames };
+}
+
+// Existing tags of the user named by the suffixes. A dash also matches a space ("my-tag" -> "my tag").
+async function resolveTagIds(db: D1Database, userId: string, tagNames: string[]): Promise<string[]> {
+  if (tagNames.length === 0) return [];
+
+  const { results } = await db.prepare('SELECT id, name FROM tags WHERE user_id = ?').bind(userId).all();
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
+  const wanted = new Set(tagNames.map(normalize));
+  const tagIds = results.filter(tag => wanted.has(normalize(tag.name as string))).map(tag => tag.id as string);
+
+  if (tagIds.length < wanted.size) {
+    console.log('[Email] Unknown tag suffixes ignored:', tagNames);
+  }
+  return tagIds;
+}
+
+/**
+ * Creates items from a raw RFC 5322 message for a user: a text item with the body
+ * (and the sanitized HTML), then a file item per attachment. Also used to replay .eml files.
+ * Created items are appended to `items` as they are saved, so a caller still sees them
+ * when a later step throws.
+ */
+export async function ingestEmail(
+  env: Env,
+  userId: string,
+  raw: Uint8Array | ArrayBuffer,
+  tagNames: string[] = [],
+  items: IngestedItem[] = []
+): Promise<IngestedItem[]> {
+  const email = parseEmail(raw);
+  const tagIds = await resolveTagIds(env.DB, userId, tagNames);
+  const title = email.subject || '(제목 없음)';
+
+  const htmlContent = email.html ? await sanitizeHtml(email.html) : null;
+  const content = email.text || htmlToText(htmlContent) || '';
+
+  // A message with only attachments doesn't need an empty text item
+  if (content || email.attachments.length === 0) {
+    items.push(await ingestItem(env, userId, {
+      type: 'text',
+      content,
+      htmlContent: htmlContent || null,
+      title,
+      tagIds,
+    }, '[Email]'));
+  }
+
+  if (email.attachments.length > MAX_ATTACHMENTS) {
+    console.log('[Email] Too many attachments, keeping the first', MAX_ATTACHMENTS, 'of', email.attachments.length);
+  }
+  items.push(...await ingestSharedFiles(env, userId, {
+    title,
+    files: email.attachments.slice(0, MAX_ATTACHMENTS).map(attachment => ({
+      name: attachment.fileName,
+      type: attachment.mimeType,
+      data: attachment.data,
+    })),
+  }, '[Email]', tagIds));
+
+  console.log('[Email] Message saved:', { userId, items: items.length, attachments: email.attachments.length, tags: tagIds.length });
+  return items;
+}
+
+/**
+ * Email handler: maps the recipient to a user, or rejects the message.
+ */
+export async function handleIncomingEmail(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+  const { token, tagNames } = parseInboxAddress(message.to);
+  const inbox = token
+    ? await env.DB.prepare('SELECT user_id FROM email_inboxes WHERE token = ?').bind(token).first<{ user_id: string }>()
+    : null;
+
+  if (!inbox) {
+    console.log('[Email] Unknown recipient rejected');
+    message.setReject('Unknown address');
+    return;
+  }
+  if (message.rawSize > MAX_EMAIL_SIZE) {
+    message.setReject('Message too large');
+    return;
+  }
+
+  const userId = inbox.user_id;
+  const items: IngestedItem[] = [];
+  try {
+    const raw = new Uint8Array(await new Response(message.raw).arrayBuffer());
+    await ingestEmail(env, userId, raw, tagNames, items);
+    await env.DB.prepare('UPDATE email_inboxes SET last_received_at = ? WHERE user_id = ?').bind(Date.now(), userId).run();
+  } catch (error) {
+    console.error('[Email] Failed to save message:', { userId, savedItems: items.length }, error);
+    // Bounce only when nothing was saved, so a resend doesn't duplicate items
+    if (items.length === 0) {
+      message.setReject('Failed to save message');
+    }
+  }
+
+  if (items.length > 0) {
+    ctx.waitUntil(fireItemEvent(env, userId, 'item.created', items.map(item => item.id)));
+  }
+}
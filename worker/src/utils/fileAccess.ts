@@ -0,0 +1,112 @@
+import type { Env } from '../index';
+
+// Access control for files in R2.
+// New objects are stored under a per-user prefix, and downloads need a short-lived
+// HMAC-signed URL that the items API mints for the owner.
+
+// Signed URLs expire at the end of the next full hour, so the URL of a file stays the
+// same for an hour (browser cache keeps working) and is valid for 1-2 hours.
+const URL_TTL_MS = 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+let cachedSigningKey: { secret: string; key: CryptoKey } | null = null;
+
+async function getSigningKey(env: Env): Promise<CryptoKey> {
+  const secret = await env.FILE_URL_SECRET.get();
+  if (!secret) {
+    throw new Error('File URL secret not configured');
+  }
+
+  if (cachedSigningKey?.secret !== secret) {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    cachedSigningKey = { secret, key };
+  }
+  return cachedSigningKey.key;
+}
+
+async function sign(env: Env, fileKey: string, expires: number): Promise<string> {
+  const key = await getSigningKey(env);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${fileKey}:${expires}`)));
+}
+
+// Constant-time comparison of two hex signatures
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * R2 key prefix of a user's files ("users/<hash>/").
+ * The user id is hashed because it may contain characters that are not URL-safe.
+ */
+export async function userFilePrefix(userId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(userId));
+  return `users/${toHex(digest).slice(0, 32)}/`;
+}
+
+/**
+ * Creates a new R2 key for an uploaded file.
+ * Files shared without a signed-in user get no prefix and are only reachable through their item.
+ */
+export async function createFileKey(userId: string | null, fileName: string): Promise<string> {
+  const sanitizedName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const prefix = userId ? await userFilePrefix(userId) : '';
+  return `${prefix}${crypto.randomUUID()}-${sanitizedName}`;
+}
+
+/**
+ * Whether a file belongs to the user: stored under the user's prefix, or (for files
+ * uploaded before prefixes existed) referenced by one of the user's items.
+ */
+export async function isOwnedFileKey(db: D1Database, fileKey: string, userId: string): Promise<boolean> {
+  if (fileKey.startsWith(await userFilePrefix(userId))) {
+    return true;
+  }
+  if (fileKey.startsWith('users/')) {
+    return false;
+  }
+
+  const item = await db.prepare('SELECT id FROM items WHERE file_key = ? AND user_id = ? LIMIT 1').bind(fileKey, userId).first();
+  return !!item;
+}
+
+/**
+ * Mints a signed download URL for a file.
+ */
+export async function signFileUrl(env: Env, fileKey: string): Promise<string> {
+  const expires = (Math.floor(Date.now() / URL_TTL_MS) + 2) * URL_TTL_MS;
+  const signature = await sign(env, fileKey, expires);
+  return `/api/upload/${fileKey}?expires=${expires}&sig=${signature}`;
+}
+
+/**
+ * Checks the signature of a download URL. Returns the expiry time, or null when invalid or expired.
+ */
+export async function verifyFileUrl(env: Env, fileKey: string, expires: string | undefined, signature: string | undefined): Promise<number | null> {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const expected = await sign(env, fileKey, expiresAt);
+  return safeEqual(expected, signature) ? expiresAt : null;
+}
+
+/**
+ * Adds a signed `fileUrl` to every item that exposes a `fileKey`.
+ */
+export async function withFileUrls<T extends { fileKey?: unknown }>(env: Env, items: T[]): Promise<(T & { fileUrl?: string })[]> {
+  return Promise.all(items.map(async item => (
+    typeof item.fileKey === 'string' && item.fileKey
+      ? { ...item, fileUrl: await signFileUrl(env, item.fileKey) }
+      : item
+  )));
+}
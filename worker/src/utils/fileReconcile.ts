@@ -0,0 +1,176 @@
+import type { Env } from '../index';
+import { getPendingShareFileKeys } from './pendingShare';
+
+// Reconciliation between R2 and D1.
+// - Objects no item references (upload whose item was never saved, failed deletes) are
+//   quarantined in file_orphans and deleted once the grace period has passed.
+// - Items whose file is missing from R2 are marked upload_status = 'failed'.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Time between POST /api/upload and the item being saved
+const UPLOAD_GRACE_MS = HOUR_MS;
+// How long an orphan stays in quarantine before it is deleted
+const QUARANTINE_MS = 7 * 24 * HOUR_MS;
+
+const LIST_PAGE_SIZE = 1000;
+// Upper bound per run; with a partial listing missing files can't be detected
+const MAX_LIST_PAGES = 50;
+// D1 allows up to 100 bound parameters per statement
+const UPDATE_CHUNK_SIZE = 90;
+
+export interface OrphanFile {
+  fileKey: string;
+  size: number;
+  uploadedAt: number;
+  firstSeenAt: number;
+}
+
+export interface MissingFile {
+  itemId: string;
+  fileKey: string;
+  uploadStatus: string | null;
+}
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  scannedObjects: number;
+  truncated: boolean; // Listing stopped at MAX_LIST_PAGES
+  quarantined: OrphanFile[]; // Newly found orphans
+  pending: OrphanFile[]; // Orphans still within the grace period
+  deleted: OrphanFile[]; // Orphans past the grace period (deleted unless dry run)
+  missing: MissingFile[]; // Items whose file is not in R2
+}
+
+async function listBucket(bucket: R2Bucket): Promise<{ objects: Map<string, R2Object>; truncated: boolean }> {
+  const objects = new Map<string, R2Object>();
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const listing = await bucket.list({ limit: LIST_PAGE_SIZE, cursor });
+    listing.objects.forEach(object => objects.set(object.key, object));
+    if (!listing.truncated) {
+      return { objects, truncated: false };
+    }
+    cursor = listing.cursor;
+  }
+
+  return { objects, truncated: true };
+}
+
+async function runChunked(db: D1Database, keys: string[], buildSql: (placeholders: string) => string): Promise<void> {
+  for (let i = 0; i < keys.length; i += UPDATE_CHUNK_SIZE) {
+    const chunk = keys.slice(i, i + UPDATE_CHUNK_SIZE);
+    await db.prepare(buildSql(chunk.map(() => '?').join(', '))).bind(...chunk).run();
+  }
+}
+
+/**
+ * Compares the bucket with items.file_key and item_files.file_key. With dryRun nothing is written or deleted,
+ * and the report shows what a real run would do.
+ */
+export async function reconcileFiles(env: Env, options: { dryRun: boolean; now?: number }): Promise<ReconcileReport> {
+  const now = options.now ?? Date.now();
+  const { dryRun } = options;
+
+  const { objects, truncated } = await listBucket(env.R2_BUCKET);
+
+  // Album attachments are checked like item files, as rows of their item
+  const { results: itemRows } = await env.DB.prepare(`
+    SELECT id, file_key, upload_status, created_at FROM items WHERE file_key IS NOT NULL
+    UNION ALL
+    SELECT i.id, f.file_key, i.upload_status, i.created_at FROM item_files f JOIN items i ON i.id = f.item_id
+  `).all();
+  const referencedKeys = new Set(itemRows.map(row => row.file_key as string));
+
+  // Files of shares waiting to be claimed after sign-in
+  (await getPendingShareFileKeys(env.DB)).forEach(key => referencedKeys.add(key));
+
+  const { results: orphanRows } = await env.DB.prepare('SELECT * FROM file_orphans').all();
+  const knownOrphans = new Map(orphanRows.map(row => [row.file_key as string, {
+    fileKey: row.file_key as string,
+    size: row.size as number,
+    uploadedAt: row.uploaded_at as number,
+    firstSeenAt: row.first_seen_at as number,
+  }]));
+
+  const report: ReconcileReport = {
+    dryRun,
+    scannedObjects: objects.size,
+    truncated,
+    quarantined: [],
+    pending: [],
+    deleted: [],
+    missing: [],
+  };
+
+  // Orphaned objects
+  for (const object of objects.values()) {
+    if (referencedKeys.has(object.key)) continue;
+
+    const uploadedAt = object.uploaded.getTime();
+    if (uploadedAt > now - UPLOAD_GRACE_MS) continue;
+
+    const known = knownOrphans.get(object.key);
+    if (!known) {
+      report.quarantined.push({ fileKey: object.key, size: object.size, uploadedAt, firstSeenAt: now });
+    } else if (known.firstSeenAt < now - QUARANTINE_MS) {
+      report.deleted.push(known);
+    } else {
+      report.pending.push(known);
+    }
+  }
+
+  // Quarantine entries that were claimed by an item or are gone from the bucket
+  const resolvedOrphans = truncated ? [] : [...knownOrphans.keys()].filter(key => referencedKeys.has(key) || !objects.has(key));
+
+  // Items pointing at objects that don't exist
+  if (!truncated) {
+    for (const row of itemRows) {
+      const fileKey = row.file_key as string;
+      if (objects.has(fileKey) || row.upload_status === 'failed') continue;
+      // Still being uploaded in the background
+      if (row.upload_status === 'uploading' && (row.created_at as number) > now - UPLOAD_GRACE_MS) continue;
+
+      report.missing.push({ itemId: row.id as string, fileKey, uploadStatus: (row.upload_status as string) || null });
+    }
+  }
+
+  if (dryRun) {
+    return report;
+  }
+
+  if (report.quarantined.length > 0) {
+    await env.DB.batch(report.quarantined.map(orphan => env.DB.prepare(`
+      INSERT OR IGNORE INTO file_orphans (file_key, size, uploaded_at, first_seen_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(orphan.fileKey, orphan.size, orphan.uploadedAt, orphan.firstSeenAt)));
+  }
+
+  // Delete expired orphans; keys whose delete fails stay quarantined and are retried next run
+  const deletedKeys = new Set<string>();
+  for (let i = 0; i < report.deleted.length; i += LIST_PAGE_SIZE) {
+    const keys = report.deleted.slice(i, i + LIST_PAGE_SIZE).map(orphan => orphan.fileKey);
+    try {
+      await env.R2_BUCKET.delete(keys);
+      keys.forEach(key => deletedKeys.add(key));
+    } catch (error) {
+      console.error('[Reconcile] Failed to delete orphaned files from R2:', error);
+    }
+  }
+  report.deleted = report.deleted.filter(orphan => deletedKeys.has(orphan.fileKey));
+
+  await runChunked(env.DB, [...deletedKeys, ...resolvedOrphans], placeholders => `DELETE FROM file_orphans WHERE file_key IN (${placeholders})`);
+
+  await runChunked(
+    env.DB,
+    [...new Set(report.missing.map(file => file.itemId))],
+    placeholders => `UPDATE items SET upload_status = 'failed' WHERE id IN (${placeholders})`
+  );
+
+  if (report.quarantined.length > 0 || report.deleted.length > 0 || report.missing.length > 0) {
+    console.log('[Reconcile] Quarantined:', report.quarantined.length, 'deleted:', report.deleted.length, 'missing:', report.missing.length);
+  }
+
+  return report;
+}
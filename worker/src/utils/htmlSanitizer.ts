@@ -0,0 +1,61 @@
+import { ALLOWED_ATTRIBUTES, ALLOWED_TAGS, sanitizeStyle } from '../../../utils/htmlSanitizerRules';
+
+// Worker counterpart of the app's utils/htmlSanitizer.ts, with the same allow-lists (shared module).
+// Workers have no DOM, so this runs on HTMLRewriter. Elements outside the allow-list are unwrapped
+// like in the app; elements whose content is never readable text are dropped together with it.
+
+const DROPPED_WITH_CONTENT = new Set(['head', 'title', 'script', 'style', 'template', 'noscript', 'iframe', 'object', 'svg', 'math']);
+
+/**
+ * Sanitized HTML (for html_content of items created by the worker, e.g. from email).
+ */
+export async function sanitizeHtml(html: string): Promise<string> {
+  const rewriter = new HTMLRewriter()
+    .on('*', {
+      element(element) {
+        const tagName = element.tagName.toLowerCase();
+        if (DROPPED_WITH_CONTENT.has(tagName)) {
+          element.remove();
+          return;
+        }
+        if (!ALLOWED_TAGS.has(tagName)) {
+          element.removeAndKeepContent();
+          return;
+        }
+
+        const globalAttrs = ALLOWED_ATTRIBUTES['*'];
+        const tagAttrs = ALLOWED_ATTRIBUTES[tagName] || new Set<string>();
+        // Copied first, attributes are removed while iterating (typed as the DOM's NamedNodeMap here)
+        const attributes = [...element.attributes as unknown as Iterable<[string, string]>];
+        for (const [name, value] of attributes) {
+          const attrName = name.toLowerCase();
+          if (!globalAttrs.has(attrName) && !tagAttrs.has(attrName)) {
+            element.removeAttribute(name);
+          } else if (attrName === 'style') {
+            const style = sanitizeStyle(value);
+            if (style) {
+              element.setAttribute(name, style);
+            } else {
+              element.removeAttribute(name);
+            }
+          } else if (attrName === 'href' && /^\s*javascript:/i.test(value)) {
+            element.removeAttribute(name);
+          }
+        }
+
+        // External links open in a new tab without access to the app
+        if (tagName === 'a' && element.hasAttribute('href')) {
+          element.setAttribute('target', '_blank');
+          element.setAttribute('rel', 'noopener noreferrer');
+        }
+      },
+    })
+    .onDocument({
+      comments(comment) {
+        comment.remove();
+      },
+    });
+
+  const withoutDoctype = html.replace(/<!doctype[^>]*>/gi, '');
+  return (await rewriter.transform(new Response(withoutDoctype)).text()).trim();
+}
@@ -0,0 +1,311 @@
+import type { Env } from '../index';
+import { parseOgMetadata } from '../routes/og';
+import { createFileKey } from './fileAccess';
+import { albumItemType, itemFileStatements, ItemFileInput } from './itemFiles';
+import { safeReindexItem } from './searchIndex';
+
+// Item ingestion, shared by every way an item is created (items API, share target,
+// share API, claims of signed-out shares): type detection, OG metadata, keyword
+// auto-tagging and the insert itself.
+
+export type ItemType = 'text' | 'link' | 'image' | 'video' | 'file';
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+// Used when the sender reports no type (some Android share intents send octet-stream for everything)
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  '3gp': 'video/3gpp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/opus',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  m4a: 'audio/mp4',
+  amr: 'audio/amr',
+  wma: 'audio/x-ms-wma',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+};
+
+const URL_REGEX = /(?:https?:\/\/|www\.)[^\s<>"{}|\\^`[\]]+/i;
+
+// Encryption format written by the client for new encrypted items (see services/encryptionService.ts)
+// Items with is_encrypted = 1 and no encryption_version are legacy: plaintext columns guarded by a hash
+export const ENCRYPTION_VERSION = 2;
+
+// Share payload as received by the share target (or stashed for a signed-out user)
+export interface SharePayload {
+  title?: string | null;
+  text?: string | null;
+  url?: string | null;
+  files: { name: string; type: string; data: ArrayBuffer | Uint8Array }[];
+}
+
+export interface EncryptedPayload {
+  hash: string;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export interface IngestInput {
+  type?: ItemType; // Detected from the file or content when omitted
+  content?: string | null;
+  htmlContent?: string | null;
+  title?: string | null;
+  file?: ItemFileInput | null; // Already stored in R2
+  files?: ItemFileInput[] | null; // Album attachments in order (more than one)
+  tagIds?: string[];
+  autoTag?: boolean; // Add the user's tags whose keywords match (default true)
+  isCode?: boolean;
+  reminderAt?: number | null;
+  encrypted?: EncryptedPayload | null; // Encrypted by the client, body columns stay empty
+}
+
+export interface IngestedItem {
+  id: string;
+  type: ItemType;
+  content: string;
+  htmlContent: string | null;
+  fileKey: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  title: string | null;
+  ogImage: string | null;
+  ogTitle: string | null;
+  ogDescription: string | null;
+  tags: string[];
+  isCode: boolean;
+  isEncrypted: boolean;
+  isAlbum: boolean;
+  reminderAt: number | null;
+  createdAt: number;
+}
+
+/**
+ * MIME type of a file, guessed from its extension when the sender didn't report one.
+ */
+export function resolveMimeType(fileName: string | null | undefined, mimeType: string | null | undefined): string {
+  if (mimeType && mimeType !== DEFAULT_MIME_TYPE) {
+    return mimeType;
+  }
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return (extension && MIME_TYPES_BY_EXTENSION[extension]) || DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Item type of a file. Audio has no item type of its own: it is saved as a file item
+ * and the app shows a player based on the mime type.
+ */
+export function fileItemType(mimeType: string | null | undefined): 'image' | 'video' | 'file' {
+  return mimeType?.startsWith('image/') ? 'image'
+    : mimeType?.startsWith('video/') ? 'video'
+    : 'file';
+}
+
+export function textItemType(content: string): 'link' | 'text' {
+  return /^https?:\/\//i.test(content.trim()) ? 'link' : 'text';
+}
+
+/**
+ * First URL in a text ("www." links get https://).
+ */
+export function extractFirstUrl(text: string): string | null {
+  const match = text.match(URL_REGEX);
+  if (!match) return null;
+  return match[0].startsWith('www.') ? `https://${match[0]}` : match[0];
+}
+
+/**
+ * Text of a share. Apps often send a caption in `text` and the page in `url`; both are kept.
+ */
+export function combineShareText(payload: Pick<SharePayload, 'title' | 'text' | 'url'>): string {
+  const text = payload.text?.trim() || '';
+  const url = payload.url?.trim() || '';
+  if (text && url) {
+    return text.includes(url) ? text : `${text}\n${url}`;
+  }
+  return url || text || payload.title?.trim() || '';
+}
+
+/**
+ * Ids of the user's tags with an auto keyword that appears in the text (case-insensitive).
+ */
+export async function matchAutoTags(db: D1Database, userId: string, text: string): Promise<string[]> {
+  const haystack = text.toLowerCase();
+  if (!haystack.trim()) return [];
+
+  const { results } = await db.prepare('SELECT id, auto_keywords FROM tags WHERE user_id = ? AND auto_keywords IS NOT NULL')
+    .bind(userId).all();
+
+  return results.filter(row => {
+    try {
+      const keywords = JSON.parse(row.auto_keywords as string) as string[];
+      return keywords.some(keyword => keyword && haystack.includes(keyword.toLowerCase()));
+    } catch {
+      return false;
+    }
+  }).map(row => row.id as string);
+}
+
+async function fetchOgMetadata(content: string, type: ItemType, logPrefix: string): Promise<Pick<IngestedItem, 'ogImage' | 'ogTitle' | 'ogDescription'>> {
+  const empty = { ogImage: null, ogTitle: null, ogDescription: null };
+  const url = type === 'link' ? content.trim() : type === 'text' ? extractFirstUrl(content) : null;
+  if (!url) return empty;
+
+  try {
+    const ogData = await parseOgMetadata(url);
+    return {
+      ogImage: ogData.ogImage || null,
+      ogTitle: ogData.ogTitle || null,
+      ogDescription: ogData.ogDescription || null,
+    };
+  } catch (error) {
+    console.error(`${logPrefix} Failed to parse OG metadata:`, error);
+    return empty;
+  }
+}
+
+/**
+ * Creates an item (with its album attachments and tags) and indexes it for search.
+ * Validation that depends on the caller (ownership of file keys, required fields) is done before.
+ */
+export async function ingestItem(env: Env, userId: string | null, input: IngestInput, logPrefix: string): Promise<IngestedItem> {
+  const encrypted = input.encrypted || null;
+  const albumFiles = input.files && input.files.length > 1
+    ? input.files.map(file => ({ ...file, mimeType: resolveMimeType(file.fileName, file.mimeType) }))
+    : null;
+  // An album's own file columns mirror its first attachment
+  const file = albumFiles ? albumFiles[0] : input.file || null;
+  const mimeType = file ? resolveMimeType(file.fileName, file.mimeType) : null;
+  const content = encrypted ? '' : (input.content || '');
+
+  const type: ItemType = albumFiles ? albumItemType(albumFiles)
+    : input.type || (file ? fileItemType(mimeType) : textItemType(content));
+
+  const og = encrypted ? { ogImage: null, ogTitle: null, ogDescription: null } : await fetchOgMetadata(content, type, logPrefix);
+
+  const title = input.title || null;
+  const tagIds = new Set(input.tagIds || []);
+  if (userId && input.autoTag !== false) {
+    // Only plaintext is matched: the body of an encrypted item is ciphertext
+    const searchable = [title, content, encrypted ? null : file?.fileName, og.ogTitle].filter(Boolean).join(' ');
+    (await matchAutoTags(env.DB, userId, searchable)).forEach(tagId => tagIds.add(tagId));
+  }
+
+  const item: IngestedItem = {
+    id: crypto.randomUUID(),
+    type,
+    content,
+    htmlContent: encrypted ? null : (input.htmlContent || null),
+    fileKey: file?.fileKey || null,
+    fileName: encrypted ? null : (file?.fileName || null),
+    fileSize: file?.fileSize || null,
+    mimeType: encrypted ? null : mimeType,
+    title,
+    ...og,
+    tags: [...tagIds],
+    isCode: !!input.isCode,
+    isEncrypted: !!encrypted,
+    isAlbum: !!albumFiles,
+    reminderAt: input.reminderAt ?? null,
+    createdAt: Date.now(),
+  };
+
+  await env.DB.prepare(`
+    INSERT INTO items (id, type, content, html_content, file_key, file_name, file_size, mime_type, title, og_image, og_title, og_description, is_encrypted, encryption_hash, encryption_version, encryption_salt, encryption_iv, encrypted_data, is_code, reminder_at, user_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    item.id,
+    item.type,
+    item.content,
+    item.htmlContent,
+    item.fileKey,
+    item.fileName,
+    item.fileSize,
+    item.mimeType,
+    item.title,
+    item.ogImage,
+    item.ogTitle,
+    item.ogDescription,
+    encrypted ? 1 : 0,
+    encrypted ? encrypted.hash : null,
+    encrypted ? ENCRYPTION_VERSION : null,
+    encrypted ? encrypted.salt : null,
+    encrypted ? encrypted.iv : null,
+    encrypted ? encrypted.data : null,
+    item.isCode ? 1 : 0,
+    item.reminderAt,
+    userId,
+    item.createdAt
+  ).run();
+
+  const statements = [
+    ...(albumFiles ? itemFileStatements(env.DB, item.id, albumFiles, item.createdAt) : []),
+    ...item.tags.map(tagId => env.DB.prepare('INSERT OR IGNORE INTO item_tags (item_id, tag_id) VALUES (?, ?)').bind(item.id, tagId)),
+  ];
+  if (statements.length > 0) {
+    await env.DB.batch(statements);
+  }
+
+  if (!encrypted) {
+    await safeReindexItem(env.DB, item.id, logPrefix);
+  }
+
+  console.log(`${logPrefix} Item created:`, { id: item.id, type: item.type, userId, tags: item.tags.length });
+  return item;
+}
+
+/**
+ * Stores the files of a share in R2 and creates one item per file.
+ * The share's text is kept as the content of each item. Files that fail are skipped.
+ */
+export async function ingestSharedFiles(env: Env, userId: string, payload: SharePayload, logPrefix: string, tagIds: string[] = []): Promise<IngestedItem[]> {
+  const items: IngestedItem[] = [];
+  const text = combineShareText({ text: payload.text, url: payload.url });
+
+  for (const file of payload.files) {
+    if (file.data.byteLength === 0) continue;
+
+    const fileName = file.name?.trim() || 'unnamed';
+    const mimeType = resolveMimeType(fileName, file.type);
+    const fileKey = await createFileKey(userId, fileName);
+
+    try {
+      await env.R2_BUCKET.put(fileKey, file.data, {
+        httpMetadata: {
+          contentType: mimeType,
+        },
+      });
+
+      items.push(await ingestItem(env, userId, {
+        content: text,
+        title: payload.title || null,
+        file: { fileKey, fileName, fileSize: file.data.byteLength, mimeType },
+        tagIds,
+      }, logPrefix));
+    } catch (error) {
+      console.error(`${logPrefix} Failed to save shared file:`, fileName, error);
+    }
+  }
+
+  return items;
+}
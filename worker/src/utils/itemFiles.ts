@@ -0,0 +1,117 @@
+import type { Env } from '../index';
+import { signFileUrl, withFileUrls } from './fileAccess';
+
+// Album attachments (item_files).
+// An album item's own file_* columns mirror its first attachment, so only the
+// extra files need these helpers.
+
+export const MAX_ALBUM_FILES = 50;
+
+// D1 allows up to 100 bound parameters per statement
+const QUERY_CHUNK_SIZE = 90;
+
+export interface ItemFileInput {
+  fileKey: string;
+  fileName?: string | null;
+  fileSize?: number | null;
+  mimeType?: string | null;
+}
+
+export interface ItemFile {
+  id: string;
+  fileKey: string;
+  fileUrl: string;
+  fileName: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+}
+
+/**
+ * Item type of an album: image or video when every attachment is one, file otherwise.
+ */
+export function albumItemType(files: ItemFileInput[]): 'image' | 'video' | 'file' {
+  if (files.every(file => file.mimeType?.startsWith('image/'))) return 'image';
+  if (files.every(file => file.mimeType?.startsWith('video/'))) return 'video';
+  return 'file';
+}
+
+/**
+ * Statements that attach `files` (in order) to an item.
+ */
+export function itemFileStatements(db: D1Database, itemId: string, files: ItemFileInput[], now: number): D1PreparedStatement[] {
+  return files.map((file, position) => db.prepare(`
+    INSERT INTO item_files (id, item_id, file_key, file_name, file_size, mime_type, position, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    itemId,
+    file.fileKey,
+    file.fileName || null,
+    file.fileSize || null,
+    file.mimeType || null,
+    position,
+    now
+  ));
+}
+
+/**
+ * R2 keys of the attachments of the given items (to delete them with the items).
+ */
+export async function getItemFileKeys(db: D1Database, itemIds: string[]): Promise<string[]> {
+  const keys: string[] = [];
+  for (let i = 0; i < itemIds.length; i += QUERY_CHUNK_SIZE) {
+    const chunk = itemIds.slice(i, i + QUERY_CHUNK_SIZE);
+    const { results } = await db.prepare(`
+      SELECT file_key FROM item_files WHERE item_id IN (${chunk.map(() => '?').join(', ')})
+    `).bind(...chunk).all();
+    keys.push(...results.map(row => row.file_key as string));
+  }
+  return keys;
+}
+
+async function loadItemFiles(env: Env, itemIds: string[]): Promise<Map<string, ItemFile[]>> {
+  const filesByItem = new Map<string, ItemFile[]>();
+  for (let i = 0; i < itemIds.length; i += QUERY_CHUNK_SIZE) {
+    const chunk = itemIds.slice(i, i + QUERY_CHUNK_SIZE);
+    const { results } = await env.DB.prepare(`
+      SELECT * FROM item_files WHERE item_id IN (${chunk.map(() => '?').join(', ')})
+      ORDER BY item_id, position
+    `).bind(...chunk).all();
+
+    for (const row of results) {
+      const files = filesByItem.get(row.item_id as string) || [];
+      files.push({
+        id: row.id as string,
+        fileKey: row.file_key as string,
+        fileUrl: await signFileUrl(env, row.file_key as string),
+        fileName: row.file_name as string | null,
+        fileSize: row.file_size as number | null,
+        mimeType: row.mime_type as string | null,
+      });
+      filesByItem.set(row.item_id as string, files);
+    }
+  }
+  return filesByItem;
+}
+
+/**
+ * Signed attachments of one item, or undefined when it is not an album.
+ */
+export async function getItemFiles(env: Env, itemId: string): Promise<ItemFile[] | undefined> {
+  return (await loadItemFiles(env, [itemId])).get(itemId);
+}
+
+/**
+ * Adds signed `fileUrl`s and, for albums, the signed `files` list to items.
+ * Encrypted items (no fileKey exposed) never get their attachments listed.
+ */
+export async function withItemFiles<T extends { id: string; fileKey?: unknown }>(env: Env, items: T[]): Promise<(T & { fileUrl?: string; files?: ItemFile[] })[]> {
+  const signed = await withFileUrls(env, items);
+  const fileItemIds = items.filter(item => typeof item.fileKey === 'string' && item.fileKey).map(item => item.id);
+  const filesByItem = await loadItemFiles(env, fileItemIds);
+
+  return signed.map(item => {
+    const files = filesByItem.get(item.id);
+    return files ? { ...item, files } : item;
+  });
+}
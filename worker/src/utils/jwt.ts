@@ -0,0 +1,172 @@
+// Local verification of JWT access tokens against the issuer's JWKS.
+// Keys are cached per isolate; a token signed with an unknown key id refetches the set
+// (at most once per JWKS_REFETCH_INTERVAL_MS), which picks up rotated keys.
+
+export interface JwtConfig {
+  issuer: string;
+  jwksUrl: string;
+  audience: string; // Client id of the web app: tokens minted for other clients are rejected
+}
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  azp?: string;
+  client_id?: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  name?: string;
+  email?: string;
+  picture?: string;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+interface JwksCache {
+  url: string;
+  keys: JsonWebKey[];
+  fetchedAt: number;
+}
+
+const JWKS_TTL_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_INTERVAL_MS = 30 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Supported signature algorithms and their Web Crypto parameters
+const ALGORITHMS: Record<string, { importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams }> = {
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+};
+
+let jwksCache: JwksCache | null = null;
+const importedKeys = new Map<string, CryptoKey>();
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+  return Uint8Array.from(atob(padded), ch => ch.charCodeAt(0));
+}
+
+function decodeJson<T>(segment: string): T | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token looks like a signed JWT (opaque tokens are verified by the issuer instead).
+ */
+export function isJwt(token: string): boolean {
+  const parts = token.split('.');
+  if (parts.length !== 3) return false;
+  const header = decodeJson<JwtHeader>(parts[0]);
+  return !!header?.alg && header.alg !== 'none';
+}
+
+async function fetchJwks(url: string): Promise<JsonWebKey[]> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`JWKS request failed: ${response.status}`);
+  }
+  const data = await response.json() as { keys?: JsonWebKey[] };
+  if (!Array.isArray(data.keys)) {
+    throw new Error('JWKS response has no keys');
+  }
+  jwksCache = { url, keys: data.keys, fetchedAt: Date.now() };
+  importedKeys.clear();
+  return data.keys;
+}
+
+/**
+ * JWK for a key id. Refetches the set when it is stale or the key id is unknown (rotation);
+ * a failed refetch keeps using the cached set. Throws only when no set could be loaded at all.
+ */
+async function findJwk(config: JwtConfig, kid: string | undefined, alg: string): Promise<JsonWebKey | null> {
+  const now = Date.now();
+  const cache = jwksCache?.url === config.jwksUrl ? jwksCache : null;
+  const keyType = alg.startsWith('ES') ? 'EC' : 'RSA';
+  const match = (keys: JsonWebKey[]) => keys.find(key =>
+    key.kty === keyType && key.use !== 'enc' && (!kid || (key as { kid?: string }).kid === kid)
+  ) || null;
+
+  if (cache) {
+    const found = match(cache.keys);
+    const isStale = now - cache.fetchedAt > JWKS_TTL_MS;
+    const mayRefetch = now - cache.fetchedAt > JWKS_REFETCH_INTERVAL_MS;
+    if (found && !isStale) return found;
+    if (!mayRefetch) return found;
+
+    try {
+      return match(await fetchJwks(config.jwksUrl));
+    } catch (error) {
+      console.error('Failed to refresh JWKS, using cached keys:', error);
+      return found;
+    }
+  }
+
+  return match(await fetchJwks(config.jwksUrl));
+}
+
+async function importJwk(jwk: JsonWebKey, alg: string): Promise<CryptoKey> {
+  const cacheKey = `${alg}:${(jwk as { kid?: string }).kid || jwk.n || jwk.x}`;
+  const cached = importedKeys.get(cacheKey);
+  if (cached) return cached;
+
+  const key = await crypto.subtle.importKey('jwk', jwk, ALGORITHMS[alg].importParams, false, ['verify']);
+  importedKeys.set(cacheKey, key);
+  return key;
+}
+
+// The token is meant for this app: aud lists the client id, or the authorized party (azp, or
+// client_id in RFC 9068 access tokens) is the client id
+function isForAudience(payload: JwtPayload, audience: string): boolean {
+  const aud = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+  return aud.includes(audience) || payload.azp === audience || payload.client_id === audience;
+}
+
+/**
+ * Verifies the signature and the registered claims (iss, aud, exp, nbf) of a JWT.
+ * Returns null for tokens that fail verification; throws when the issuer's keys are unavailable.
+ */
+export async function verifyJwt(token: string, config: JwtConfig): Promise<JwtPayload | null> {
+  const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+  const header = decodeJson<JwtHeader>(headerSegment);
+  const payload = decodeJson<JwtPayload>(payloadSegment);
+  if (!header?.alg || !payload || !ALGORITHMS[header.alg]) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.iss !== config.issuer) return null;
+  if (!isForAudience(payload, config.audience)) return null;
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) return null;
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) return null;
+  if (!payload.sub) return null;
+
+  const jwk = await findJwk(config, header.kid, header.alg);
+  if (!jwk) {
+    return null;
+  }
+
+  const key = await importJwk(jwk, header.alg);
+  const valid = await crypto.subtle.verify(
+    ALGORITHMS[header.alg].verifyParams,
+    key,
+    base64UrlDecode(signatureSegment),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+  );
+
+  return valid ? payload : null;
+}
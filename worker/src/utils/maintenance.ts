@@ -0,0 +1,233 @@
+import type { Env } from '../index';
+import { removeFromIndex } from './searchIndex';
+import { reconcileFiles } from './fileReconcile';
+import { getItemFileKeys } from './itemFiles';
+import { purgeExpiredPendingShares } from './pendingShare';
+import { emitItemEvent, fireItemEvent, getWebhookItems, purgeOldWebhookDeliveries, WebhookItem } from './webhooks';
+
+// Scheduled maintenance (cron): expire items, purge old trash, reconcile R2 with D1, clean up stale rows.
+// Every run is recorded in maintenance_runs for the admin endpoint.
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items purged per batch (R2 accepts up to 1000 keys per delete call)
+const PURGE_BATCH_SIZE = 100;
+// Upper bound per run so a large backlog is spread over several runs
+const MAX_PURGED_PER_RUN = 2000;
+
+// Lockout rows are no longer needed once they are older than the failure window
+const STALE_THROTTLE_MS = DAY_MS;
+
+export interface MaintenanceSummary {
+  expiredItems: number;
+  purgedItems: number;
+  deletedFiles: number;
+  failedFiles: number;
+  staleThrottles: number;
+  quarantinedFiles: number;
+  deletedOrphans: number;
+  missingFiles: number;
+}
+
+export function getTrashRetentionDays(env: Env): number {
+  const days = parseInt(env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Moves items past their expires_at into the trash (for one user, or for everyone).
+ * Returns the trashed item ids by user, for the item.trashed webhook event.
+ */
+export async function moveExpiredItemsToTrash(db: D1Database, now: number, userId?: string): Promise<Map<string, string[]>> {
+  const result = userId
+    ? await db.prepare(`
+        UPDATE items SET deleted_at = ?
+        WHERE user_id = ? AND deleted_at IS NULL AND expires_at IS NOT NULL AND expires_at < ?
+      `).bind(now, userId, now).run()
+    : await db.prepare(`
+        UPDATE items SET deleted_at = ?
+        WHERE deleted_at IS NULL AND expires_at IS NOT NULL AND expires_at < ?
+      `).bind(now, now).run();
+
+  if (!result.meta.changes) return new Map();
+
+  // The rows just updated: trashed at this run's timestamp because they expired
+  const { results } = userId
+    ? await db.prepare('SELECT id, user_id FROM items WHERE user_id = ? AND deleted_at = ? AND expires_at < ?').bind(userId, now, now).all()
+    : await db.prepare('SELECT id, user_id FROM items WHERE deleted_at = ? AND expires_at < ?').bind(now, now).all();
+  return groupIdsByUser(results);
+}
+
+function groupIdsByUser(rows: Record<string, unknown>[]): Map<string, string[]> {
+  const idsByUser = new Map<string, string[]>();
+  for (const row of rows) {
+    const ids = idsByUser.get(row.user_id as string) || [];
+    ids.push(row.id as string);
+    idsByUser.set(row.user_id as string, ids);
+  }
+  return idsByUser;
+}
+
+/**
+ * Permanently deletes items that have been in the trash longer than the retention, with their R2 objects.
+ * Rows are only deleted after their files are gone, so a failed R2 call is retried on the next run.
+ * Pages through the trash by id, so items whose files couldn't be deleted are passed over in this run.
+ */
+async function purgeOldTrash(env: Env, cutoff: number): Promise<Pick<MaintenanceSummary, 'purgedItems' | 'deletedFiles' | 'failedFiles'>> {
+  let purgedItems = 0;
+  let deletedFiles = 0;
+  let failedFiles = 0;
+  let skippedItems = 0;
+  let cursor = '';
+
+  while (purgedItems + skippedItems < MAX_PURGED_PER_RUN) {
+    const { results } = await env.DB.prepare(`
+      SELECT id, user_id, file_key FROM items
+      WHERE deleted_at IS NOT NULL AND deleted_at < ? AND id > ?
+      ORDER BY id
+      LIMIT ?
+    `).bind(cutoff, cursor, PURGE_BATCH_SIZE).all();
+
+    if (results.length === 0) break;
+
+    const ids = results.map(row => row.id as string);
+    cursor = ids[ids.length - 1];
+    const fileKeys = results.map(row => row.file_key as string | null).filter((key): key is string => !!key);
+    fileKeys.push(...await getItemFileKeys(env.DB, ids));
+
+    if (fileKeys.length > 0) {
+      try {
+        await env.R2_BUCKET.delete(fileKeys);
+        deletedFiles += fileKeys.length;
+      } catch (error) {
+        console.error('[Maintenance] Failed to delete files from R2:', error);
+        failedFiles += fileKeys.length;
+        skippedItems += ids.length;
+        continue;
+      }
+    }
+
+    // Webhook payloads are read before the rows are gone
+    const snapshots: [string, WebhookItem[]][] = [];
+    for (const [userId, userIds] of groupIdsByUser(results)) {
+      snapshots.push([userId, await getWebhookItems(env.DB, userId, userIds)]);
+    }
+
+    // item_tags, item_files, item_revisions and unlock_attempts cascade
+    await removeFromIndex(env.DB, ids);
+    await env.DB.prepare(`DELETE FROM items WHERE id IN (${ids.map(() => '?').join(', ')})`).bind(...ids).run();
+    purgedItems += ids.length;
+
+    for (const [userId, items] of snapshots) {
+      await emitItemEvent(env, userId, 'item.deleted', items);
+    }
+  }
+
+  return { purgedItems, deletedFiles, failedFiles };
+}
+
+/**
+ * Runs all maintenance tasks and records the run.
+ */
+export async function runMaintenance(env: Env, trigger: string): Promise<MaintenanceSummary> {
+  const runId = crypto.randomUUID();
+  const startedAt = Date.now();
+
+  await env.DB.prepare(`
+    INSERT INTO maintenance_runs (id, trigger, status, started_at)
+    VALUES (?, ?, 'running', ?)
+  `).bind(runId, trigger, startedAt).run();
+
+  const summary: MaintenanceSummary = {
+    expiredItems: 0,
+    purgedItems: 0,
+    deletedFiles: 0,
+    failedFiles: 0,
+    staleThrottles: 0,
+    quarantinedFiles: 0,
+    deletedOrphans: 0,
+    missingFiles: 0,
+  };
+
+  try {
+    const expired = await moveExpiredItemsToTrash(env.DB, startedAt);
+    for (const [userId, ids] of expired) {
+      summary.expiredItems += ids.length;
+      await fireItemEvent(env, userId, 'item.trashed', ids);
+    }
+
+    const cutoff = startedAt - getTrashRetentionDays(env) * DAY_MS;
+    Object.assign(summary, await purgeOldTrash(env, cutoff));
+
+    // Shares stashed by a signed-out share target that were never claimed
+    const pendingShares = await purgeExpiredPendingShares(env, startedAt);
+    if (pendingShares > 0) {
+      console.log('[Maintenance] Expired pending shares removed:', pendingShares);
+    }
+
+    const webhookDeliveries = await purgeOldWebhookDeliveries(env.DB, startedAt);
+    if (webhookDeliveries > 0) {
+      console.log('[Maintenance] Old webhook deliveries removed:', webhookDeliveries);
+    }
+
+    // After the purges, so their files aren't reported as orphans
+    const reconcile = await reconcileFiles(env, { dryRun: false, now: startedAt });
+    summary.quarantinedFiles = reconcile.quarantined.length;
+    summary.deletedOrphans = reconcile.deleted.length;
+    summary.missingFiles = reconcile.missing.length;
+
+    for (const table of ['unlock_throttles', 'login_throttles', 'share_link_throttles']) {
+      const throttles = await env.DB.prepare(`
+        DELETE FROM ${table}
+        WHERE updated_at < ? AND (locked_until IS NULL OR locked_until < ?)
+      `).bind(startedAt - STALE_THROTTLE_MS, startedAt).run();
+      summary.staleThrottles += throttles.meta.changes || 0;
+    }
+
+    await finishRun(env.DB, runId, 'success', summary);
+    console.log('[Maintenance] Run finished:', summary);
+  } catch (error) {
+    console.error('[Maintenance] Run failed:', error);
+    await finishRun(env.DB, runId, 'error', summary, error instanceof Error ? error.message : String(error));
+  }
+
+  return summary;
+}
+
+async function finishRun(
+  db: D1Database,
+  runId: string,
+  status: 'success' | 'error',
+  summary: MaintenanceSummary,
+  error?: string
+): Promise<void> {
+  await db.prepare(`
+    UPDATE maintenance_runs SET
+      status = ?,
+      finished_at = ?,
+      expired_items = ?,
+      purged_items = ?,
+      deleted_files = ?,
+      failed_files = ?,
+      stale_throttles = ?,
+      quarantined_files = ?,
+      deleted_orphans = ?,
+      missing_files = ?,
+      error = ?
+    WHERE id = ?
+  `).bind(
+    status,
+    Date.now(),
+    summary.expiredItems,
+    summary.purgedItems,
+    summary.deletedFiles,
+    summary.failedFiles,
+    summary.staleThrottles,
+    summary.quarantinedFiles,
+    summary.deletedOrphans,
+    summary.missingFiles,
+    error || null,
+    runId
+  ).run();
+}
@@ -0,0 +1,298 @@
+// Minimal MIME (RFC 5322 / 2045-2047 / 2231) parser for incoming email.
+// Works on raw bytes so it can be fed a message from the email handler or a .eml file alike.
+// Bodies are kept as "binary strings" (one char per byte) while splitting, then decoded.
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface ParsedEmail {
+  subject: string | null;
+  from: string | null;
+  date: string | null;
+  messageId: string | null;
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimeHeaders {
+  get(name: string): string | null;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface LeafPart {
+  contentType: string;
+  charset: string;
+  disposition: string | null;
+  fileName: string | null;
+  contentId: string | null;
+  body: Uint8Array;
+}
+
+// Nested multiparts deeper than this are ignored (malformed or hostile messages)
+const MAX_DEPTH = 10;
+
+function toBinaryString(bytes: Uint8Array): string {
+  let result = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+}
+
+function fromBinaryString(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const clean = value.replace(/[^A-Za-z0-9+/]/g, '');
+  const padded = clean + '='.repeat((4 - clean.length % 4) % 4);
+  try {
+    return fromBinaryString(atob(padded));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+function decodeQuotedPrintable(value: string, isHeader = false): Uint8Array {
+  const text = (isHeader ? value.replace(/_/g, ' ') : value).replace(/=\r?\n/g, '');
+  return fromBinaryString(text.replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+}
+
+/**
+ * Decodes RFC 2047 encoded words (=?charset?B|Q?...?=). Whitespace between adjacent words is dropped.
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function parseHeaders(block: string): MimeHeaders {
+  const headers = new Map<string, string>();
+  // Folded lines continue the previous header
+  const unfolded = block.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins (Received and friends repeat, the ones we read don't).
+    // Raw 8-bit header bytes are taken as UTF-8; encoded words are decoded by the reader.
+    if (!headers.has(name)) {
+      headers.set(name, decodeCharset(fromBinaryString(line.slice(colon + 1).trim()), 'utf-8'));
+    }
+  }
+  return { get: (name: string) => headers.get(name.toLowerCase()) ?? null };
+}
+
+/**
+ * Value and parameters of a structured header (Content-Type, Content-Disposition),
+ * including RFC 2231 extended (name*=utf-8''...) and continued (name*0=...) parameters.
+ */
+function parseHeaderValue(header: string | null): HeaderValue {
+  if (!header) return { value: '', params: {} };
+
+  const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const raw: Record<string, string> = {};
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const name = part.slice(0, eq).trim().toLowerCase();
+    let paramValue = part.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    raw[name] = paramValue;
+  }
+
+  const params: Record<string, string> = {};
+  const continued: Record<string, { index: number; value: string; extended: boolean }[]> = {};
+  for (const [name, paramValue] of Object.entries(raw)) {
+    const match = name.match(/^([^*]+)\*(\d+)?(\*)?$/);
+    if (!match) {
+      params[name] = decodeEncodedWords(paramValue);
+      continue;
+    }
+    const [, base, index, star] = match;
+    if (index === undefined) {
+      params[base] = decodeExtendedValue(paramValue);
+    } else {
+      (continued[base] ||= []).push({ index: Number(index), value: paramValue, extended: !!star });
+    }
+  }
+
+  for (const [base, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index);
+    if (pieces[0].extended) {
+      // Only the first piece carries the charset; percent-escapes are decoded over the whole value
+      params[base] = decodeExtendedValue(pieces.map(piece => piece.value).join(''));
+    } else {
+      params[base] = pieces.map(piece => piece.value).join('');
+    }
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+// charset'language'percent-encoded-value
+function decodeExtendedValue(value: string): string {
+  const match = value.match(/^([^']*)'[^']*'(.*)$/);
+  if (!match) return value;
+  const bytes = fromBinaryString(match[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  return decodeCharset(bytes, match[1]);
+}
+
+function decodeTransferEncoding(body: string, encoding: string | null): Uint8Array {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return fromBinaryString(body);
+  }
+}
+
+// Headers and body of a message or part (binary string)
+function splitEntity(entity: string): { headers: MimeHeaders; body: string } {
+  const match = entity.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaders(entity), body: '' };
+  }
+  return {
+    headers: parseHeaders(entity.slice(0, match.index)),
+    body: entity.slice(match.index + match[0].length),
+  };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  const delimiter = `--${boundary}`;
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\n'));
+      if (line.slice(delimiter.length).startsWith('--')) return parts;
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  // Missing closing delimiter: keep what was read
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+function collectLeafParts(entity: string, depth: number, leaves: LeafPart[]): void {
+  const { headers, body } = splitEntity(entity);
+  const contentType = parseHeaderValue(headers.get('content-type'));
+  const type = contentType.value || 'text/plain';
+
+  if (type.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      collectLeafParts(part, depth + 1, leaves);
+    }
+    return;
+  }
+
+  const disposition = parseHeaderValue(headers.get('content-disposition'));
+  leaves.push({
+    contentType: type,
+    charset: contentType.params.charset || 'utf-8',
+    disposition: disposition.value || null,
+    fileName: disposition.params.filename || contentType.params.name || null,
+    contentId: headers.get('content-id')?.replace(/^<|>$/g, '') || null,
+    body: decodeTransferEncoding(body, headers.get('content-transfer-encoding')),
+  });
+}
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'text/calendar': 'ics',
+  'message/rfc822': 'eml',
+};
+
+/**
+ * Parses a raw RFC 5322 message: headers, the text and HTML bodies, and attachments.
+ * Inline images referenced from the HTML (cid:) are left out; other named or non-text parts
+ * are attachments.
+ */
+export function parseEmail(raw: Uint8Array | ArrayBuffer): ParsedEmail {
+  const entity = toBinaryString(raw instanceof Uint8Array ? raw : new Uint8Array(raw));
+  const { headers } = splitEntity(entity);
+  const header = (name: string) => {
+    const value = headers.get(name);
+    return value ? decodeEncodedWords(value).trim() || null : null;
+  };
+
+  const leaves: LeafPart[] = [];
+  collectLeafParts(entity, 0, leaves);
+
+  const texts: string[] = [];
+  const htmls: string[] = [];
+  const others: LeafPart[] = [];
+  for (const leaf of leaves) {
+    const isBody = (leaf.contentType === 'text/plain' || leaf.contentType === 'text/html')
+      && leaf.disposition !== 'attachment' && !leaf.fileName;
+    if (!isBody) {
+      others.push(leaf);
+    } else if (leaf.contentType === 'text/html') {
+      htmls.push(decodeCharset(leaf.body, leaf.charset));
+    } else {
+      texts.push(decodeCharset(leaf.body, leaf.charset));
+    }
+  }
+
+  const html = htmls.join('\n') || null;
+  const attachments: EmailAttachment[] = [];
+  for (const leaf of others) {
+    if (leaf.body.byteLength === 0) continue;
+    if (leaf.contentId && html?.includes(`cid:${leaf.contentId}`)) continue;
+
+    const extension = EXTENSIONS_BY_TYPE[leaf.contentType];
+    attachments.push({
+      fileName: leaf.fileName || `attachment-${attachments.length + 1}${extension ? `.${extension}` : ''}`,
+      mimeType: leaf.contentType,
+      data: leaf.body,
+    });
+  }
+
+  return {
+    subject: header('subject'),
+    from: header('from'),
+    date: header('date'),
+    messageId: header('message-id'),
+    text: texts.join('\n\n').trim() || null,
+    html,
+    attachments,
+  };
+}
@@ -0,0 +1,31 @@
+// Password hashing (PBKDF2-SHA256) for share link passwords and local accounts.
+// 100k iterations is the most Workers' Web Crypto allows.
+
+const SALT_BYTES = 16;
+const PASSWORD_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export async function hashPassword(password: string, salt: string = toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))): Promise<{ hash: string; salt: string }> {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations: PASSWORD_ITERATIONS },
+    baseKey,
+    256
+  );
+  return { hash: toHex(bits), salt };
+}
+
+export async function verifyPassword(password: string, hash: string, salt: string): Promise<boolean> {
+  const { hash: candidate } = await hashPassword(password, salt);
+  // Constant-time comparison
+  if (candidate.length !== hash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) {
+    diff |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+  }
+  return diff === 0;
+}
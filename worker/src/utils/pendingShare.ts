@@ -0,0 +1,194 @@
+import type { Env } from '../index';
+import { createFileKey } from './fileAccess';
+import { combineShareText, ingestItem, resolveMimeType, SharePayload } from './ingest';
+
+// Shares received by the share target while signed out.
+// The payload is stashed in pending_shares (files under pending/ in R2) and a cookie
+// remembers it across the login redirect; the app claims it after sign-in.
+
+export const PENDING_SHARE_COOKIE = 'pending_share';
+
+const PENDING_SHARE_TTL_MS = 60 * 60 * 1000;
+const PENDING_FILE_PREFIX = 'pending/';
+
+// Anyone can stash without signing in, so a share and each client are bounded
+const MAX_PENDING_FILES = 10;
+const MAX_PENDING_BYTES = 50 * 1024 * 1024;
+const MAX_PENDING_SHARES_PER_IP = 5;
+
+export type ClaimedShare =
+  | { kind: 'items'; itemIds: string[] }
+  | { kind: 'text'; content: string; title: string | null };
+
+// Stashed file (pending_shares.files JSON)
+interface PendingFile {
+  key: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+// Files of a pending_shares row (rows stashed before multi-file shares use the file_* columns)
+function pendingFiles(row: Record<string, unknown>): PendingFile[] {
+  if (row.files) {
+    return JSON.parse(row.files as string) as PendingFile[];
+  }
+  if (row.file_key) {
+    return [{
+      key: row.file_key as string,
+      name: row.file_name as string,
+      size: row.file_size as number,
+      type: row.mime_type as string,
+    }];
+  }
+  return [];
+}
+
+function textResponse(message: string, status: number): Response {
+  return new Response(message, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+/**
+ * Stashes a share and returns a redirect to the app's login screen that sets the pending_share cookie.
+ * Responds 413 when the share has too many or too large files, 429 when the client already has
+ * too many shares waiting.
+ */
+export async function stashPendingShare(env: Env, payload: SharePayload, request: Request): Promise<Response> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const ipAddress = request.headers.get('CF-Connecting-IP');
+
+  const sharedFiles = payload.files.filter(file => file.data.byteLength > 0);
+  const totalBytes = sharedFiles.reduce((sum, file) => sum + file.data.byteLength, 0);
+  if (sharedFiles.length > MAX_PENDING_FILES || totalBytes > MAX_PENDING_BYTES) {
+    console.warn('[Share Target] Rejected oversized share, files:', sharedFiles.length, 'bytes:', totalBytes);
+    return textResponse(`로그인 전에는 파일 ${MAX_PENDING_FILES}개, 합계 ${MAX_PENDING_BYTES / 1024 / 1024}MB까지 공유할 수 있습니다. 로그인한 뒤 다시 공유해 주세요.`, 413);
+  }
+
+  if (ipAddress) {
+    const pending = await env.DB.prepare('SELECT COUNT(*) as count FROM pending_shares WHERE ip_address = ? AND expires_at > ?')
+      .bind(ipAddress, now).first<{ count: number }>();
+    if (pending && pending.count >= MAX_PENDING_SHARES_PER_IP) {
+      console.warn('[Share Target] Too many pending shares from one client');
+      return textResponse('로그인을 기다리는 공유가 너무 많습니다. 로그인한 뒤 다시 공유해 주세요.', 429);
+    }
+  }
+
+  const files: PendingFile[] = [];
+  for (const file of sharedFiles) {
+    const key = PENDING_FILE_PREFIX + await createFileKey(null, file.name || 'unnamed');
+    const type = resolveMimeType(file.name, file.type);
+    await env.R2_BUCKET.put(key, file.data, {
+      httpMetadata: {
+        contentType: type,
+      },
+    });
+    files.push({ key, name: file.name || 'unnamed', size: file.data.byteLength, type });
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO pending_shares (id, title, text, url, files, ip_address, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    payload.title || null,
+    payload.text || null,
+    payload.url || null,
+    files.length > 0 ? JSON.stringify(files) : null,
+    ipAddress,
+    now,
+    now + PENDING_SHARE_TTL_MS
+  ).run();
+
+  console.log('[Share Target] Stashed share until sign-in, id:', id, 'files:', files.length);
+
+  // Not HttpOnly: the app checks for it before calling the claim endpoint
+  return new Response(null, {
+    status: 303,
+    headers: {
+      Location: new URL('/?shared=login', request.url).toString(),
+      'Set-Cookie': `${PENDING_SHARE_COOKIE}=${id}; Path=/; Max-Age=${PENDING_SHARE_TTL_MS / 1000}; SameSite=Lax; Secure`,
+    },
+  });
+}
+
+export function clearPendingShareCookie(): string {
+  return `${PENDING_SHARE_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax; Secure`;
+}
+
+/**
+ * Saves a stashed share for the signed-in user. Files become items right away;
+ * text and links are returned so the app can offer the usual save/edit choice.
+ * Returns null when the share doesn't exist or has expired.
+ */
+export async function claimPendingShare(env: Env, id: string, userId: string): Promise<ClaimedShare | null> {
+  const share = await env.DB.prepare('SELECT * FROM pending_shares WHERE id = ? AND expires_at > ?')
+    .bind(id, Date.now()).first();
+  if (!share) {
+    return null;
+  }
+
+  await env.DB.prepare('DELETE FROM pending_shares WHERE id = ?').bind(id).run();
+
+  const title = (share.title as string) || null;
+  const content = combineShareText({ title, text: share.text as string | null, url: share.url as string | null });
+  const files = pendingFiles(share);
+
+  if (files.length > 0) {
+    const itemIds: string[] = [];
+    const caption = combineShareText({ text: share.text as string | null, url: share.url as string | null });
+
+    for (const file of files) {
+      const object = await env.R2_BUCKET.get(file.key);
+      if (!object) continue;
+
+      // Move the file under the user's prefix
+      const fileKey = await createFileKey(userId, file.name);
+      await env.R2_BUCKET.put(fileKey, object.body, { httpMetadata: object.httpMetadata });
+
+      const item = await ingestItem(env, userId, {
+        content: caption,
+        title,
+        file: { fileKey, fileName: file.name, fileSize: file.size, mimeType: file.type },
+      }, '[Pending Share]');
+      itemIds.push(item.id);
+
+      try {
+        await env.R2_BUCKET.delete(file.key);
+      } catch (error) {
+        console.error('[Pending Share] Failed to delete stashed file:', file.key, error);
+      }
+    }
+
+    return itemIds.length > 0 ? { kind: 'items', itemIds } : null;
+  }
+
+  return content ? { kind: 'text', content, title } : null;
+}
+
+/**
+ * R2 keys of all stashed files (so reconciliation doesn't treat them as orphans).
+ */
+export async function getPendingShareFileKeys(db: D1Database): Promise<string[]> {
+  const { results } = await db.prepare('SELECT * FROM pending_shares WHERE files IS NOT NULL OR file_key IS NOT NULL').all();
+  return results.flatMap(row => pendingFiles(row).map(file => file.key));
+}
+
+/**
+ * Removes expired stashed shares and their files. Returns the number removed.
+ */
+export async function purgeExpiredPendingShares(env: Env, now: number): Promise<number> {
+  const { results } = await env.DB.prepare('SELECT * FROM pending_shares WHERE expires_at < ?').bind(now).all();
+  if (results.length === 0) return 0;
+
+  const fileKeys = results.flatMap(row => pendingFiles(row).map(file => file.key));
+  if (fileKeys.length > 0) {
+    await env.R2_BUCKET.delete(fileKeys);
+  }
+
+  await env.DB.prepare('DELETE FROM pending_shares WHERE expires_at < ?').bind(now).run();
+  return results.length;
+}
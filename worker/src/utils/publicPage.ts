@@ -0,0 +1,113 @@
+import type { Context } from 'hono';
+import type { Env, Variables } from '../index';
+
+// HTML pages the worker renders for visitors without the SPA (share links, public collections).
+
+export type PublicPageContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export interface PublicPageOptions {
+  status?: 200 | 401 | 404 | 410 | 429;
+  script?: string; // Inline script, allowed by a per-response CSP nonce
+  head?: string; // Extra elements for <head> (already escaped)
+  footer: string;
+  indexable?: boolean; // Default: noindex
+  cacheControl?: string; // Default: no-store
+}
+
+const URL_REGEX = /https?:\/\/[^\s<>"{}|\\^`[\]]+/g;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Plain text with its URLs turned into links
+export function linkify(text: string): string {
+  let html = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(URL_REGEX)) {
+    html += escapeHtml(text.slice(lastIndex, match.index));
+    html += `<a href="${escapeHtml(match[0])}" rel="noopener noreferrer nofollow" target="_blank">${escapeHtml(match[0])}</a>`;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  return html + escapeHtml(text.slice(lastIndex));
+}
+
+export function formatSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const PAGE_STYLE = `
+  *{box-sizing:border-box}
+  body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Apple SD Gothic Neo","Noto Sans KR",sans-serif;background:#f8fafc;color:#1e293b}
+  main{max-width:720px;margin:0 auto;padding:32px 16px}
+  .card{background:#fff;border:1px solid #e2e8f0;border-radius:16px;padding:24px;box-shadow:0 1px 2px rgba(0,0,0,.04)}
+  h1{font-size:20px;margin:0 0 16px;word-break:break-word}
+  h2{font-size:16px;margin:0 0 6px;word-break:break-word}
+  .text{white-space:pre-wrap;word-break:break-word;line-height:1.6}
+  .media{display:block;max-width:100%;max-height:70vh;margin:0 auto 12px;border-radius:8px;background:#0f172a}
+  audio.media{width:100%;background:none}
+  .file{display:flex;align-items:center;justify-content:space-between;gap:12px;padding:12px;border:1px solid #e2e8f0;border-radius:12px;margin-bottom:12px}
+  .file-name{font-weight:600;word-break:break-all}
+  .muted{color:#64748b;font-size:13px}
+  .button{display:inline-block;padding:8px 14px;border-radius:8px;background:#4f46e5;color:#fff;text-decoration:none;font-size:14px;border:0;cursor:pointer;white-space:nowrap}
+  .preview{display:block;border:1px solid #e2e8f0;border-radius:12px;overflow:hidden;color:inherit;text-decoration:none;margin-top:12px}
+  .preview img{display:block;width:100%;max-height:320px;object-fit:cover}
+  .preview div{padding:12px}
+  .entry{display:flex;gap:16px;padding:16px 0;border-top:1px solid #e2e8f0}
+  .entry:first-of-type{border-top:0}
+  .entry .thumb{flex:none;width:96px;height:96px;border-radius:8px;object-fit:cover;background:#e2e8f0}
+  .entry .body{min-width:0;flex:1}
+  .pager{display:flex;justify-content:space-between;margin-top:16px}
+  input[type=password]{width:100%;padding:10px 12px;border:1px solid #cbd5e1;border-radius:8px;font-size:15px;margin:12px 0}
+  .error{color:#dc2626;font-size:14px}
+  footer{text-align:center;margin-top:16px}
+  a{color:#4f46e5}
+`;
+
+export function renderPublicPage(c: PublicPageContext, title: string, body: string, options: PublicPageOptions): Response {
+  const nonce = crypto.randomUUID().replace(/-/g, '');
+  const robots = options.indexable ? '' : '<meta name="robots" content="noindex, nofollow" />\n';
+  const html = `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+${robots}<title>${escapeHtml(title)} - Self</title>
+${options.head ? `${options.head}\n` : ''}<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+<div class="card">
+${body}
+</div>
+<footer class="muted">${options.footer}</footer>
+</main>
+${options.script ? `<script nonce="${nonce}">${options.script}</script>` : ''}
+</body>
+</html>`;
+
+  return c.html(html, options.status || 200, {
+    'Cache-Control': options.cacheControl || 'no-store',
+    ...(options.indexable ? {} : { 'X-Robots-Tag': 'noindex, nofollow' }),
+    'Referrer-Policy': 'no-referrer',
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': [
+      "default-src 'none'",
+      "img-src 'self' https: data: blob:",
+      "media-src 'self' blob:",
+      "style-src 'unsafe-inline'",
+      `script-src 'nonce-${nonce}'`,
+      "connect-src 'self'",
+      "form-action 'self'",
+      "base-uri 'none'",
+      "frame-ancestors 'none'",
+    ].join('; '),
+  });
+}
@@ -0,0 +1,99 @@
+// Markers wrapped around matched terms in search snippets.
+// Control characters are used instead of HTML so the client can highlight
+// matches without ever rendering stored content as markup.
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+/**
+ * Converts stored rich-text HTML into plain text for indexing.
+ */
+export function htmlToText(html: string | null | undefined): string | null {
+  if (!html) return null;
+
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+  return text || null;
+}
+
+/**
+ * Builds an FTS5 MATCH expression from free-form user input.
+ * Every term is quoted (so FTS5 operators in the input are treated as text)
+ * and prefix-matched, and all terms must match.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) return null;
+
+  return terms.map(term => `"${term}"*`).join(' ');
+}
+
+/**
+ * Re-indexes a single item from its current row in `items`.
+ * Encrypted and missing items are removed from the index instead.
+ */
+export async function reindexItem(db: D1Database, itemId: string): Promise<void> {
+  const row = await db.prepare(`
+    SELECT id, user_id, title, content, og_title, og_description, file_name, html_content, is_encrypted
+    FROM items WHERE id = ?
+  `).bind(itemId).first();
+
+  const statements = [db.prepare('DELETE FROM items_fts WHERE item_id = ?').bind(itemId)];
+
+  if (row && row.is_encrypted !== 1) {
+    statements.push(
+      db.prepare(`
+        INSERT INTO items_fts (item_id, user_id, title, content, og_title, og_description, file_name, html_text)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        row.id,
+        row.user_id ?? null,
+        row.title ?? null,
+        row.content ?? '',
+        row.og_title ?? null,
+        row.og_description ?? null,
+        row.file_name ?? null,
+        htmlToText(row.html_content as string | null)
+      )
+    );
+  }
+
+  await db.batch(statements);
+}
+
+/**
+ * Removes items from the search index.
+ */
+export async function removeFromIndex(db: D1Database, itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  await db.batch(
+    itemIds.map(id => db.prepare('DELETE FROM items_fts WHERE item_id = ?').bind(id))
+  );
+}
+
+/**
+ * Indexing must never break the write that triggered it, so failures are only logged.
+ */
+export async function safeReindexItem(db: D1Database, itemId: string, logPrefix: string): Promise<void> {
+  try {
+    await reindexItem(db, itemId);
+  } catch (error) {
+    console.error(`${logPrefix} Failed to update search index:`, itemId, error);
+  }
+}
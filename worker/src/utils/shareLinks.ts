@@ -0,0 +1,71 @@
+// Public share links (share_links).
+// A link is a random token; the item is shown at /s/<token> until the link is revoked,
+// expires or has been viewed max_views times. Passwords are stored as PBKDF2 hashes (utils/password.ts).
+
+const TOKEN_BYTES = 24;
+
+export const MAX_SHARE_LINKS_PER_ITEM = 20;
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+export interface ShareLink {
+  id: string;
+  itemId: string;
+  token: string;
+  url: string;
+  hasPassword: boolean;
+  expiresAt: number | null;
+  maxViews: number | null;
+  viewCount: number;
+  lastViewedAt: number | null;
+  revokedAt: number | null;
+  status: ShareLinkStatus;
+  createdAt: number;
+}
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * URL-safe random token for a new link (also used for public collection URLs).
+ */
+export function createShareToken(): string {
+  return btoa(String.fromCharCode(...randomBytes(TOKEN_BYTES)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function getShareLinkStatus(row: Record<string, unknown>, now: number = Date.now()): ShareLinkStatus {
+  if (row.revoked_at) return 'revoked';
+  if (row.expires_at && (row.expires_at as number) <= now) return 'expired';
+  if (row.max_views && (row.view_count as number) >= (row.max_views as number)) return 'exhausted';
+  return 'active';
+}
+
+export function toShareLink(row: Record<string, unknown>, origin: string): ShareLink {
+  return {
+    id: row.id as string,
+    itemId: row.item_id as string,
+    token: row.token as string,
+    url: `${origin}/s/${row.token}`,
+    hasPassword: !!row.password_hash,
+    expiresAt: (row.expires_at as number | null) ?? null,
+    maxViews: (row.max_views as number | null) ?? null,
+    viewCount: row.view_count as number,
+    lastViewedAt: (row.last_viewed_at as number | null) ?? null,
+    revokedAt: (row.revoked_at as number | null) ?? null,
+    status: getShareLinkStatus(row),
+    createdAt: row.created_at as number,
+  };
+}
+
+/**
+ * Counts a view. Returns false when the link ran out of views (or was revoked) in the meantime.
+ */
+export async function recordShareLinkView(db: D1Database, linkId: string, now: number): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE share_links SET view_count = view_count + 1, last_viewed_at = ?
+    WHERE id = ? AND revoked_at IS NULL AND (max_views IS NULL OR view_count < max_views)
+  `).bind(now, linkId).run();
+  return (result.meta.changes || 0) > 0;
+}
@@ -0,0 +1,305 @@
+import type { Env } from '../index';
+import { ingestItem, ingestSharedFiles, IngestedItem } from './ingest';
+import { fireItemEvent } from './webhooks';
+
+// Telegram bot ingestion (telegram_chats, telegram_link_codes).
+// The bot's webhook posts updates to /api/integrations/telegram/webhook. A chat is linked to a
+// user with a one-time code from the app (/start <code>); after that its messages become items:
+// text and links as text/link items (OG metadata via ingestItem), photos and documents
+// downloaded from the Bot API and stored in R2. Every message gets a reply.
+// Bot API calls go through TELEGRAM_API_BASE_URL so a local stand-in can replace api.telegram.org.
+
+const DEFAULT_API_BASE_URL = 'https://api.telegram.org';
+
+const LINK_CODE_LENGTH = 8;
+// No 0/O, 1/I: the code may be typed by hand
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Bot API getFile only serves files up to 20 MB
+const MAX_DOWNLOAD_SIZE = 20 * 1024 * 1024;
+const API_TIMEOUT_MS = 30000;
+
+const LOG_PREFIX = '[Telegram]';
+
+export interface TelegramChat {
+  chatId: string;
+  title: string | null;
+  linkedAt: number;
+  lastMessageAt: number | null;
+}
+
+interface BotFile {
+  file_id: string;
+  file_size?: number;
+  file_name?: string;
+  mime_type?: string;
+}
+
+interface BotMessage {
+  message_id: number;
+  chat: { id: number; type: string; title?: string; username?: string; first_name?: string; last_name?: string };
+  text?: string;
+  caption?: string;
+  entities?: { type: string; url?: string }[];
+  caption_entities?: { type: string; url?: string }[];
+  photo?: BotFile[];
+  document?: BotFile;
+  video?: BotFile;
+  animation?: BotFile;
+  audio?: BotFile;
+  voice?: BotFile;
+  video_note?: BotFile;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: BotMessage;
+}
+
+export function isTelegramEnabled(env: Env): boolean {
+  return !!env.TELEGRAM_BOT_TOKEN && !!env.TELEGRAM_WEBHOOK_SECRET;
+}
+
+function apiBaseUrl(env: Env): string {
+  return (env.TELEGRAM_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Calls a Bot API method. Throws with Telegram's description when the call fails.
+ */
+async function callBotApi<T>(env: Env, method: string, params: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${apiBaseUrl(env)}/bot${env.TELEGRAM_BOT_TOKEN}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  const data = await response.json().catch(() => null) as { ok?: boolean; result?: T; description?: string } | null;
+  if (!response.ok || !data?.ok) {
+    throw new Error(`Bot API ${method} failed: ${data?.description || response.status}`);
+  }
+  return data.result as T;
+}
+
+async function downloadBotFile(env: Env, fileId: string): Promise<ArrayBuffer> {
+  const file = await callBotApi<{ file_path?: string }>(env, 'getFile', { file_id: fileId });
+  if (!file.file_path) {
+    throw new Error('Bot API getFile returned no file_path');
+  }
+  const response = await fetch(`${apiBaseUrl(env)}/file/bot${env.TELEGRAM_BOT_TOKEN}/${file.file_path}`, {
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`File download failed: ${response.status}`);
+  }
+  return response.arrayBuffer();
+}
+
+// Replies are best effort: a failed reply doesn't undo the save
+async function reply(env: Env, message: BotMessage, text: string): Promise<void> {
+  try {
+    await callBotApi(env, 'sendMessage', {
+      chat_id: message.chat.id,
+      text,
+      reply_parameters: { message_id: message.message_id, allow_sending_without_reply: true },
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Failed to reply:`, error);
+  }
+}
+
+/**
+ * Checks the X-Telegram-Bot-Api-Secret-Token header (the secret_token given to setWebhook).
+ */
+export function verifyWebhookSecret(env: Env, header: string | undefined): boolean {
+  const secret = env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !header || header.length !== secret.length) return false;
+  let diff = 0;
+  for (let i = 0; i < secret.length; i++) {
+    diff |= secret.charCodeAt(i) ^ header.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Points the bot's webhook at this worker (message updates only).
+ */
+export async function setTelegramWebhook(env: Env, url: string): Promise<void> {
+  await callBotApi(env, 'setWebhook', {
+    url,
+    secret_token: env.TELEGRAM_WEBHOOK_SECRET,
+    allowed_updates: ['message'],
+  });
+}
+
+export function createLinkCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(LINK_CODE_LENGTH));
+  return Array.from(bytes, b => LINK_CODE_ALPHABET[b % LINK_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Deep link that opens the bot with the code prefilled (/start <code>), when the bot's username is known.
+ */
+export function linkCodeUrl(env: Env, code: string): string | null {
+  const username = env.TELEGRAM_BOT_USERNAME?.trim().replace(/^@/, '');
+  return username ? `https://t.me/${username}?start=${code}` : null;
+}
+
+export function toTelegramChat(row: Record<string, unknown>): TelegramChat {
+  return {
+    chatId: row.chat_id as string,
+    title: (row.title as string | null) ?? null,
+    linkedAt: row.linked_at as number,
+    lastMessageAt: (row.last_message_at as number | null) ?? null,
+  };
+}
+
+function chatTitle(chat: BotMessage['chat']): string | null {
+  if (chat.title) return chat.title;
+  if (chat.username) return `@${chat.username}`;
+  return [chat.first_name, chat.last_name].filter(Boolean).join(' ') || null;
+}
+
+// Links a chat with a code; the chat moves to the code's user if it was linked before
+async function linkChat(env: Env, message: BotMessage, code: string): Promise<void> {
+  const now = Date.now();
+  const linkCode = await env.DB.prepare('DELETE FROM telegram_link_codes WHERE code = ? RETURNING user_id, expires_at')
+    .bind(code.trim().toUpperCase()).first<{ user_id: string; expires_at: number }>();
+
+  if (!linkCode || linkCode.expires_at < now) {
+    await reply(env, message, '연결 코드가 올바르지 않거나 만료되었습니다. 앱의 내 정보 → 텔레그램에서 새 코드를 받아주세요.');
+    return;
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO telegram_chats (chat_id, user_id, title, linked_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(chat_id) DO UPDATE SET user_id = excluded.user_id, title = excluded.title, linked_at = excluded.linked_at,
+      last_message_at = NULL, last_update_id = NULL
+  `).bind(String(message.chat.id), linkCode.user_id, chatTitle(message.chat), now).run();
+
+  console.log(`${LOG_PREFIX} Chat linked:`, { userId: linkCode.user_id });
+  await reply(env, message, '✅ 연결되었습니다. 이제 이 대화로 보내는 메시지, 링크, 사진, 파일이 저장됩니다.');
+}
+
+// The file of a message and a name for it (photos and voice messages have none)
+function messageFile(message: BotMessage): { file: BotFile; name: string; type: string } | null {
+  const id = message.message_id;
+  if (message.photo?.length) {
+    // Sizes are listed smallest first
+    return { file: message.photo[message.photo.length - 1], name: `photo_${id}.jpg`, type: 'image/jpeg' };
+  }
+
+  const candidates: [BotFile | undefined, string, string][] = [
+    [message.document, `file_${id}`, 'application/octet-stream'],
+    [message.video, `video_${id}.mp4`, 'video/mp4'],
+    [message.animation, `animation_${id}.mp4`, 'video/mp4'],
+    [message.audio, `audio_${id}.mp3`, 'audio/mpeg'],
+    [message.voice, `voice_${id}.ogg`, 'audio/ogg'],
+    [message.video_note, `video_note_${id}.mp4`, 'video/mp4'],
+  ];
+  for (const [file, fallbackName, fallbackType] of candidates) {
+    if (file) {
+      return { file, name: file.file_name || fallbackName, type: file.mime_type || fallbackType };
+    }
+  }
+  return null;
+}
+
+// Text of a message. URLs behind formatted links (text_link) are added when not already in the text.
+function messageText(message: BotMessage): string {
+  const text = (message.text ?? message.caption ?? '').trim();
+  const hiddenUrls = (message.entities ?? message.caption_entities ?? [])
+    .filter(entity => entity.type === 'text_link' && entity.url && !text.includes(entity.url))
+    .map(entity => entity.url as string);
+  return [text, ...new Set(hiddenUrls)].filter(Boolean).join('\n');
+}
+
+async function saveMessage(env: Env, userId: string, message: BotMessage): Promise<IngestedItem[] | string> {
+  const text = messageText(message);
+  const attachment = messageFile(message);
+
+  if (attachment) {
+    if ((attachment.file.file_size ?? 0) > MAX_DOWNLOAD_SIZE) {
+      return '20MB가 넘는 파일은 텔레그램에서 받아올 수 없습니다.';
+    }
+    const data = await downloadBotFile(env, attachment.file.file_id);
+    const items = await ingestSharedFiles(env, userId, {
+      text,
+      files: [{ name: attachment.name, type: attachment.type, data }],
+    }, LOG_PREFIX);
+    return items.length > 0 ? items : '파일을 저장하지 못했습니다.';
+  }
+
+  if (!text) {
+    return '저장할 수 없는 메시지입니다. 텍스트, 링크, 사진, 파일을 보내주세요.';
+  }
+  return [await ingestItem(env, userId, { content: text }, LOG_PREFIX)];
+}
+
+function savedReply(item: IngestedItem): string {
+  const label = item.ogTitle || item.title || item.fileName;
+  const kind = item.type === 'link' ? '링크를'
+    : item.type === 'image' ? '사진을'
+    : item.type === 'video' ? '동영상을'
+    : item.type === 'text' ? '메모를'
+    : '파일을';
+  return label ? `✅ ${kind} 저장했습니다: ${label}` : `✅ ${kind} 저장했습니다.`;
+}
+
+/**
+ * Handles one webhook update: link commands, or saving the message for the linked user.
+ */
+export async function handleTelegramUpdate(env: Env, update: TelegramUpdate, ctx: ExecutionContext): Promise<void> {
+  const message = update.message;
+  if (!message) return;
+
+  const chatId = String(message.chat.id);
+  const command = message.text?.trim().match(/^\/(\w+)(?:@\w+)?(?:\s+(.+))?$/);
+  const commandName = command?.[1].toLowerCase();
+
+  if ((commandName === 'start' || commandName === 'link') && command?.[2]) {
+    await linkChat(env, message, command[2]);
+    return;
+  }
+
+  const chat = await env.DB.prepare('SELECT user_id, last_update_id FROM telegram_chats WHERE chat_id = ?')
+    .bind(chatId).first<{ user_id: string; last_update_id: number | null }>();
+
+  if (!chat) {
+    await reply(env, message, '아직 연결되지 않은 대화입니다. 앱의 내 정보 → 텔레그램에서 연결 코드를 받아 "/start 코드"로 보내주세요.');
+    return;
+  }
+  if (commandName === 'unlink') {
+    await env.DB.prepare('DELETE FROM telegram_chats WHERE chat_id = ?').bind(chatId).run();
+    await reply(env, message, '연결을 해제했습니다. 이 대화의 메시지는 더 이상 저장되지 않습니다.');
+    return;
+  }
+  if (commandName === 'start' || commandName === 'help') {
+    await reply(env, message, '이 대화로 보내는 메시지, 링크, 사진, 파일이 저장됩니다. 연결을 해제하려면 /unlink를 보내주세요.');
+    return;
+  }
+  if (chat.last_update_id !== null && update.update_id <= chat.last_update_id) {
+    console.log(`${LOG_PREFIX} Duplicate update skipped:`, update.update_id);
+    return;
+  }
+
+  const userId = chat.user_id;
+  // Recorded before saving so a redelivery during a slow download isn't saved twice
+  await env.DB.prepare('UPDATE telegram_chats SET last_update_id = ?, last_message_at = ? WHERE chat_id = ?')
+    .bind(update.update_id, Date.now(), chatId).run();
+
+  try {
+    const result = await saveMessage(env, userId, message);
+    if (typeof result === 'string') {
+      await reply(env, message, result);
+      return;
+    }
+    ctx.waitUntil(fireItemEvent(env, userId, 'item.created', result.map(item => item.id)));
+    await reply(env, message, savedReply(result[0]));
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Failed to save message:`, error);
+    await reply(env, message, '저장하지 못했습니다. 잠시 후 다시 보내주세요.');
+  }
+}
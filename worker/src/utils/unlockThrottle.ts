@@ -0,0 +1,129 @@
+// Brute-force protection for encrypted item passwords.
+// Failed checks are counted per item and per user; after a few free attempts every
+// further failure doubles the lockout. Every check is written to an audit log.
+
+export type UnlockAction = 'verify' | 'unlock' | 'preview' | 'encrypt' | 'decrypt';
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+const ITEM_POLICY: ThrottlePolicy = { freeAttempts: 3, baseLockoutMs: 30 * 1000, maxLockoutMs: 60 * 60 * 1000 };
+const USER_POLICY: ThrottlePolicy = { freeAttempts: 10, baseLockoutMs: 60 * 1000, maxLockoutMs: 24 * 60 * 60 * 1000 };
+
+// Failures older than this start a new count
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface UnlockAttempt {
+  userId: string;
+  itemId: string;
+  action: UnlockAction;
+  success: boolean;
+  ipAddress?: string | null;
+}
+
+export interface FailedAttemptSummary {
+  count: number;
+  lastFailedAt: number | null;
+}
+
+const userScope = (userId: string) => `user:${userId}`;
+const itemScope = (itemId: string) => `item:${itemId}`;
+
+/**
+ * Lockout after the given number of consecutive failures (0 while still within the free attempts).
+ */
+function lockoutDuration(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(policy.baseLockoutMs * 2 ** (failures - policy.freeAttempts), policy.maxLockoutMs);
+}
+
+const toRetryAfter = (lockedUntil: number, now: number): number =>
+  lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+
+/**
+ * Seconds until the user may check a password for the item again (0 = allowed now).
+ */
+export async function getUnlockRetryAfter(db: D1Database, userId: string, itemId: string): Promise<number> {
+  const { results } = await db.prepare('SELECT locked_until FROM unlock_throttles WHERE scope IN (?, ?)')
+    .bind(userScope(userId), itemScope(itemId))
+    .all();
+
+  const lockedUntil = Math.max(0, ...results.map(row => (row.locked_until as number | null) || 0));
+  return toRetryAfter(lockedUntil, Date.now());
+}
+
+/**
+ * Records a password check in the audit log and updates the lockout state.
+ * Returns the seconds until the next attempt is allowed.
+ */
+export async function recordUnlockAttempt(db: D1Database, attempt: UnlockAttempt): Promise<number> {
+  const now = Date.now();
+  const audit = db.prepare(`
+    INSERT INTO unlock_attempts (id, item_id, user_id, action, success, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(crypto.randomUUID(), attempt.itemId, attempt.userId, attempt.action, attempt.success ? 1 : 0, attempt.ipAddress || null, now);
+
+  // A correct password clears the item counter; the user counter only expires with time
+  if (attempt.success) {
+    await db.batch([
+      audit,
+      db.prepare('DELETE FROM unlock_throttles WHERE scope = ?').bind(itemScope(attempt.itemId)),
+    ]);
+    return 0;
+  }
+
+  const scopes: [string, ThrottlePolicy][] = [
+    [userScope(attempt.userId), USER_POLICY],
+    [itemScope(attempt.itemId), ITEM_POLICY],
+  ];
+
+  const { results } = await db.prepare('SELECT scope, failures, updated_at FROM unlock_throttles WHERE scope IN (?, ?)')
+    .bind(scopes[0][0], scopes[1][0])
+    .all();
+  const current = new Map(results.map(row => [row.scope as string, row]));
+
+  let lockedUntil = 0;
+  const statements = [audit];
+  for (const [scope, policy] of scopes) {
+    const row = current.get(scope);
+    const isStale = !row || (row.updated_at as number) < now - FAILURE_WINDOW_MS;
+    const failures = (isStale ? 0 : row.failures as number) + 1;
+    const duration = lockoutDuration(failures, policy);
+    const scopeLockedUntil = duration ? now + duration : null;
+    lockedUntil = Math.max(lockedUntil, scopeLockedUntil || 0);
+
+    statements.push(db.prepare(`
+      INSERT INTO unlock_throttles (scope, user_id, failures, locked_until, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(scope) DO UPDATE SET
+        failures = excluded.failures,
+        locked_until = excluded.locked_until,
+        updated_at = excluded.updated_at
+    `).bind(scope, attempt.userId, failures, scopeLockedUntil, now));
+  }
+
+  await db.batch(statements);
+  return toRetryAfter(lockedUntil, now);
+}
+
+/**
+ * Failed checks against an item since it was last opened with the correct password.
+ */
+export async function getFailedAttemptsSinceLastUnlock(db: D1Database, itemId: string): Promise<FailedAttemptSummary> {
+  const row = await db.prepare(`
+    SELECT COUNT(*) as count, MAX(created_at) as last_failed_at
+    FROM unlock_attempts
+    WHERE item_id = ? AND success = 0 AND created_at > COALESCE(
+      (SELECT MAX(created_at) FROM unlock_attempts WHERE item_id = ? AND success = 1 AND action = 'unlock'),
+      0
+    )
+  `).bind(itemId, itemId).first();
+
+  return {
+    count: (row?.count as number) || 0,
+    lastFailedAt: (row?.last_failed_at as number | null) ?? null,
+  };
+}
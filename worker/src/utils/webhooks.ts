@@ -0,0 +1,383 @@
+import type { Env } from '../index';
+import { extractFirstUrl } from './ingest';
+
+// Outgoing webhooks (webhooks, webhook_deliveries).
+// An item event becomes one delivery per matching webhook; the first few are sent right away (in waitUntil).
+// Failed deliveries are retried by the webhook cron with backoff until MAX_DELIVERY_ATTEMPTS.
+// Every request is signed: X-Self-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">.
+
+export const WEBHOOK_EVENTS = ['item.created', 'item.updated', 'item.trashed', 'item.restored', 'item.deleted'] as const;
+// Sent by the test button, whatever the event filter
+export const PING_EVENT = 'ping';
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+// Must match the second entry of [triggers] crons in wrangler.toml
+export const WEBHOOK_RETRY_CRON = '*/5 * * * *';
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  tagIds: string[]; // Empty: every item
+  enabled: boolean;
+  secretPrefix: string; // First characters of the secret, for display
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  itemId: string | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: number;
+  lastAttemptAt: number | null;
+}
+
+// Item as sent in a payload. The body of an encrypted item is never sent.
+export interface WebhookItem {
+  id: string;
+  type: string;
+  title: string | null;
+  content: string | null;
+  url: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  ogTitle: string | null;
+  tags: { id: string; name: string }[];
+  isFavorite: boolean;
+  isEncrypted: boolean;
+  createdAt: number;
+  deletedAt: number | null;
+}
+
+const SECRET_BYTES = 24;
+const DISPLAY_SECRET_LENGTH = WEBHOOK_SECRET_PREFIX.length + 4;
+
+const MAX_DELIVERY_ATTEMPTS = 6;
+// Wait after a failed attempt (index: attempts so far - 1); the cron picks the retry up on its next run
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// Deliveries sent right away per event, in parallel, so even slow endpoints finish within
+// the waitUntil time after the response (DELIVERY_TIMEOUT_MS each). The rest are due
+// immediately and go out with the next cron run.
+const IMMEDIATE_DELIVERY_LIMIT = 3;
+const RETRY_BATCH_SIZE = 50;
+const ITEM_CHUNK_SIZE = 50;
+
+// Delivery log kept for the settings screen
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function createWebhookSecret(): string {
+  const random = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(SECRET_BYTES))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${WEBHOOK_SECRET_PREFIX}${random}`;
+}
+
+export function toWebhook(row: Record<string, unknown>): Webhook {
+  return {
+    id: row.id as string,
+    url: row.url as string,
+    events: JSON.parse(row.events as string),
+    tagIds: JSON.parse((row.tag_ids as string) || '[]'),
+    enabled: row.enabled === 1,
+    secretPrefix: (row.secret as string).slice(0, DISPLAY_SECRET_LENGTH),
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+export function toWebhookDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    webhookId: row.webhook_id as string,
+    event: row.event as string,
+    itemId: (row.item_id as string | null) || null,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    nextAttemptAt: (row.next_attempt_at as number | null) ?? null,
+    responseStatus: (row.response_status as number | null) ?? null,
+    responseBody: (row.response_body as string | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    durationMs: (row.duration_ms as number | null) ?? null,
+    createdAt: row.created_at as number,
+    lastAttemptAt: (row.last_attempt_at as number | null) ?? null,
+  };
+}
+
+async function hasEnabledWebhooks(db: D1Database, userId: string): Promise<boolean> {
+  const row = await db.prepare('SELECT 1 FROM webhooks WHERE user_id = ? AND enabled = 1 LIMIT 1').bind(userId).first();
+  return !!row;
+}
+
+/**
+ * Payload items for the given ids. Returns nothing (without reading the items) when the user has
+ * no enabled webhooks, so callers can take a snapshot before a delete at almost no cost.
+ */
+export async function getWebhookItems(db: D1Database, userId: string, ids: string[]): Promise<WebhookItem[]> {
+  if (ids.length === 0 || !await hasEnabledWebhooks(db, userId)) {
+    return [];
+  }
+
+  const items: WebhookItem[] = [];
+  for (let i = 0; i < ids.length; i += ITEM_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ITEM_CHUNK_SIZE);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const [{ results: rows }, { results: tags }] = await db.batch([
+      db.prepare(`SELECT * FROM items WHERE user_id = ? AND id IN (${placeholders})`).bind(userId, ...chunk),
+      db.prepare(`
+        SELECT it.item_id, t.id, t.name FROM item_tags it
+        JOIN tags t ON t.id = it.tag_id
+        WHERE it.item_id IN (${placeholders})
+        ORDER BY t.name
+      `).bind(...chunk),
+    ]);
+
+    for (const row of rows as Record<string, unknown>[]) {
+      const isEncrypted = row.is_encrypted === 1;
+      const content = isEncrypted ? null : (row.content as string) || '';
+      items.push({
+        id: row.id as string,
+        type: row.type as string,
+        title: (row.title as string | null) || null,
+        content,
+        url: row.type === 'link' && content ? extractFirstUrl(content) : null,
+        fileName: isEncrypted ? null : (row.file_name as string | null) || null,
+        fileSize: (row.file_size as number | null) ?? null,
+        mimeType: isEncrypted ? null : (row.mime_type as string | null) || null,
+        ogTitle: (row.og_title as string | null) || null,
+        tags: (tags as Record<string, unknown>[])
+          .filter(tag => tag.item_id === row.id)
+          .map(tag => ({ id: tag.id as string, name: tag.name as string })),
+        isFavorite: row.is_favorite === 1,
+        isEncrypted,
+        createdAt: row.created_at as number,
+        deletedAt: (row.deleted_at as number | null) ?? null,
+      });
+    }
+  }
+
+  return items;
+}
+
+const matchesTags = (tagIds: string[], item: WebhookItem): boolean =>
+  tagIds.length === 0 || item.tags.some(tag => tagIds.includes(tag.id));
+
+/**
+ * Queues an event for every matching webhook of the user and sends the first deliveries.
+ * Never throws: a webhook problem must not fail the request that caused the event.
+ */
+export async function emitItemEvent(env: Env, userId: string, event: WebhookEvent, items: WebhookItem[]): Promise<void> {
+  if (items.length === 0) return;
+
+  try {
+    const { results: webhooks } = await env.DB.prepare('SELECT * FROM webhooks WHERE user_id = ? AND enabled = 1')
+      .bind(userId).all();
+
+    const now = Date.now();
+    const deliveries: { id: string; webhook: Record<string, unknown>; itemId: string; payload: string }[] = [];
+    for (const webhook of webhooks) {
+      const { events, tagIds } = toWebhook(webhook);
+      if (!events.includes(event)) continue;
+
+      for (const item of items) {
+        if (!matchesTags(tagIds, item)) continue;
+        const id = crypto.randomUUID();
+        deliveries.push({ id, webhook, itemId: item.id, payload: JSON.stringify({ id, event, createdAt: now, item }) });
+      }
+    }
+
+    if (deliveries.length === 0) return;
+
+    await env.DB.batch(deliveries.map(delivery => env.DB.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, user_id, event, item_id, payload, status, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?)
+    `).bind(delivery.id, delivery.webhook.id, userId, event, delivery.itemId, delivery.payload, now, now)));
+
+    const results = await Promise.allSettled(deliveries.slice(0, IMMEDIATE_DELIVERY_LIMIT).map(delivery =>
+      attemptDelivery(env.DB, delivery.webhook, { id: delivery.id, event, payload: delivery.payload, attempts: 0 })
+    ));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('[Webhooks] Immediate delivery failed:', event, result.reason);
+      }
+    }
+
+    console.log('[Webhooks]', event, 'items:', items.length, 'deliveries:', deliveries.length);
+  } catch (error) {
+    console.error('[Webhooks] Failed to emit event:', event, error);
+  }
+}
+
+/**
+ * emitItemEvent for items that still exist (the payload shows their state after the change).
+ */
+export async function fireItemEvent(env: Env, userId: string, event: WebhookEvent, ids: string[]): Promise<void> {
+  try {
+    await emitItemEvent(env, userId, event, await getWebhookItems(env.DB, userId, ids));
+  } catch (error) {
+    console.error('[Webhooks] Failed to load items for event:', event, error);
+  }
+}
+
+/**
+ * Queues a ping to one webhook and sends it. Returns the delivery id.
+ */
+export async function sendPing(db: D1Database, webhook: Record<string, unknown>): Promise<string> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const { events } = toWebhook(webhook);
+  const payload = JSON.stringify({ id, event: PING_EVENT, createdAt: now, webhook: { id: webhook.id, events } });
+
+  await db.prepare(`
+    INSERT INTO webhook_deliveries (id, webhook_id, user_id, event, item_id, payload, status, attempts, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, NULL, ?, 'pending', 0, ?, ?)
+  `).bind(id, webhook.id, webhook.user_id, PING_EVENT, payload, now, now).run();
+
+  await attemptDelivery(db, webhook, { id, event: PING_EVENT, payload, attempts: 0 });
+  return id;
+}
+
+/**
+ * Sends a logged delivery again right away (manual redelivery from the settings screen).
+ */
+export async function redeliver(db: D1Database, webhook: Record<string, unknown>, delivery: Record<string, unknown>): Promise<void> {
+  await attemptDelivery(db, webhook, {
+    id: delivery.id as string,
+    event: delivery.event as string,
+    payload: delivery.payload as string,
+    attempts: delivery.attempts as number,
+  });
+}
+
+async function sign(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * One attempt of a delivery. 2xx is a success; anything else schedules a retry with backoff,
+ * or marks the delivery failed once MAX_DELIVERY_ATTEMPTS is reached.
+ */
+async function attemptDelivery(
+  db: D1Database,
+  webhook: Record<string, unknown>,
+  delivery: { id: string; event: string; payload: string; attempts: number }
+): Promise<void> {
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Self-Webhooks/1.0',
+        'X-Self-Event': delivery.event,
+        'X-Self-Delivery': delivery.id,
+        'X-Self-Signature': `t=${timestamp},v1=${await sign(webhook.secret as string, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH) || null;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const finishedAt = Date.now();
+  const attempts = delivery.attempts + 1;
+  const success = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const status: WebhookDeliveryStatus = success ? 'success' : attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending';
+  const nextAttemptAt = status === 'pending'
+    ? finishedAt + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1]
+    : null;
+
+  if (!success) {
+    console.error('[Webhooks] Delivery failed:', delivery.id, 'attempt:', attempts, responseStatus ?? error);
+  }
+
+  await db.prepare(`
+    UPDATE webhook_deliveries SET
+      status = ?, attempts = ?, next_attempt_at = ?, response_status = ?, response_body = ?, error = ?,
+      duration_ms = ?, last_attempt_at = ?
+    WHERE id = ?
+  `).bind(status, attempts, nextAttemptAt, responseStatus, responseBody, error, finishedAt - startedAt, finishedAt, delivery.id).run();
+}
+
+/**
+ * Sends deliveries whose retry is due (webhook cron). Deliveries of disabled webhooks wait
+ * until the webhook is enabled again.
+ */
+export async function retryWebhookDeliveries(env: Env): Promise<number> {
+  const { results } = await env.DB.prepare(`
+    SELECT d.id, d.event, d.payload, d.attempts, w.id as webhook_id, w.url, w.secret
+    FROM webhook_deliveries d
+    JOIN webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.enabled = 1
+    ORDER BY d.next_attempt_at
+    LIMIT ?
+  `).bind(Date.now(), RETRY_BATCH_SIZE).all();
+
+  for (const row of results) {
+    try {
+      await attemptDelivery(env.DB, { id: row.webhook_id, url: row.url, secret: row.secret }, {
+        id: row.id as string,
+        event: row.event as string,
+        payload: row.payload as string,
+        attempts: row.attempts as number,
+      });
+    } catch (error) {
+      console.error('[Webhooks] Retry failed:', row.id, error);
+    }
+  }
+
+  if (results.length > 0) {
+    console.log('[Webhooks] Retried deliveries:', results.length);
+  }
+  return results.length;
+}
+
+/**
+ * Removes deliveries older than the log retention (daily maintenance), including ones still
+ * waiting on a disabled webhook.
+ */
+export async function purgeOldWebhookDeliveries(db: D1Database, now: number): Promise<number> {
+  const result = await db.prepare('DELETE FROM webhook_deliveries WHERE created_at < ?')
+    .bind(now - DELIVERY_RETENTION_MS).run();
+  return result.meta.changes || 0;
+}